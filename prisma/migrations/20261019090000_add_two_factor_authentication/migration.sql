@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_SETUP';
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_ENABLE';
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_DISABLE';
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_CHALLENGE';
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_VERIFY';
+ALTER TYPE "AuditAction" ADD VALUE 'TWO_FACTOR_RECOVERY_CODES';
+
+-- CreateTable
+CREATE TABLE "two_factor_auths" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "confirmedAt" TIMESTAMP(3),
+    "lastUsedStep" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "two_factor_auths_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "two_factor_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "two_factor_auths_userId_key" ON "two_factor_auths"("userId");
+
+-- CreateIndex
+CREATE INDEX "two_factor_recovery_codes_userId_idx" ON "two_factor_recovery_codes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "two_factor_auths" ADD CONSTRAINT "two_factor_auths_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "two_factor_recovery_codes" ADD CONSTRAINT "two_factor_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
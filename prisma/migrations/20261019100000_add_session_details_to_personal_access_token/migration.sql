@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "personal_access_token" ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "userAgent" TEXT;
+
+-- Tokens used to be stored with their creation time as expiry, give them
+-- the default JWT lifetime (JWT_EXPIRES_IN="7d") so they show up as sessions
+UPDATE "personal_access_token" SET "expiresAt" = "createdAt" + INTERVAL '7 days'
+WHERE "expiresAt" IS NOT NULL AND "expiresAt" <= "createdAt" + INTERVAL '1 minute';
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "PersonalAccessTokenType" AS ENUM ('SESSION', 'PERSONAL');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'API_TOKEN_CREATE';
+ALTER TYPE "AuditAction" ADD VALUE 'API_TOKEN_REVOKE';
+
+-- DropIndex
+DROP INDEX "personal_access_token_userId_idx";
+
+-- AlterTable
+ALTER TABLE "personal_access_token" ADD COLUMN     "type" "PersonalAccessTokenType" NOT NULL DEFAULT 'SESSION';
+
+-- CreateIndex
+CREATE INDEX "personal_access_token_userId_type_idx" ON "personal_access_token"("userId", "type");
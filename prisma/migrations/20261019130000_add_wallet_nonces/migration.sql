@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "wallet_nonces" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_nonces_nonce_key" ON "wallet_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "wallet_nonces_address_idx" ON "wallet_nonces"("address");
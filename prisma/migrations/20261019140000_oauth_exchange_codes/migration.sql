@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "oauth_exchange_codes" (
+    "id" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "provider" "AccountLinkProvider" NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oauth_exchange_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_exchange_codes_codeHash_key" ON "oauth_exchange_codes"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "oauth_exchange_codes_expiresAt_idx" ON "oauth_exchange_codes"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "account_links_provider_providerUserId_idx" ON "account_links"("provider", "providerUserId");
+
+-- AddForeignKey
+ALTER TABLE "oauth_exchange_codes" ADD CONSTRAINT "oauth_exchange_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oauth_exchange_codes" ADD CONSTRAINT "oauth_exchange_codes_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "personal_access_token"("id") ON DELETE CASCADE ON UPDATE CASCADE;
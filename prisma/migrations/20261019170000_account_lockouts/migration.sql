@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'ACCOUNT_LOCK';
+ALTER TYPE "AuditAction" ADD VALUE 'ACCOUNT_UNLOCK';
+
+-- CreateTable
+CREATE TABLE "account_lockouts" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lockCount" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3),
+    "lastFailedIp" TEXT,
+    "retryAfter" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "unlockTokenHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_lockouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_lockouts_email_key" ON "account_lockouts"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_lockouts_unlockTokenHash_key" ON "account_lockouts"("unlockTokenHash");
+
+-- CreateIndex
+CREATE INDEX "account_lockouts_lockedUntil_idx" ON "account_lockouts"("lockedUntil");
+
+-- AddForeignKey
+ALTER TABLE "account_lockouts" ADD CONSTRAINT "account_lockouts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
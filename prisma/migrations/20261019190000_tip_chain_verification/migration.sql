@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "TipStatus" ADD VALUE 'FAILED';
+ALTER TYPE "TipStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "stellarAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "Tip" ADD COLUMN "recipientAddress" TEXT,
+ADD COLUMN "confirmations" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "verificationAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "verificationError" TEXT,
+ADD COLUMN "lastCheckedAt" TIMESTAMP(3),
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- Pending tips created before verification existed get a fresh window
+UPDATE "Tip" SET "expiresAt" = NOW() + INTERVAL '24 hours' WHERE "status" = 'PENDING';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_stellarAddress_key" ON "User"("stellarAddress");
+
+-- CreateIndex
+CREATE INDEX "Tip_status_expiresAt_idx" ON "Tip"("status", "expiresAt");
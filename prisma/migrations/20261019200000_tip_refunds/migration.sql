@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "TipRefundStatus" AS ENUM ('REQUESTED', 'APPROVED', 'REJECTED', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "tip_refunds" (
+    "id" TEXT NOT NULL,
+    "tipId" TEXT NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "TipRefundStatus" NOT NULL DEFAULT 'REQUESTED',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "refundTxHash" TEXT,
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tip_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tip_events" (
+    "id" TEXT NOT NULL,
+    "tipId" TEXT NOT NULL,
+    "refundId" TEXT,
+    "action" TEXT NOT NULL,
+    "status" "TipStatus",
+    "performedBy" TEXT,
+    "notes" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tip_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tip_refunds_tipId_idx" ON "tip_refunds"("tipId");
+
+-- CreateIndex
+CREATE INDEX "tip_refunds_status_idx" ON "tip_refunds"("status");
+
+-- CreateIndex
+CREATE INDEX "tip_refunds_refundTxHash_idx" ON "tip_refunds"("refundTxHash");
+
+-- CreateIndex
+CREATE INDEX "tip_events_tipId_idx" ON "tip_events"("tipId");
+
+-- CreateIndex
+CREATE INDEX "tip_events_action_idx" ON "tip_events"("action");
+
+-- CreateIndex
+CREATE INDEX "tip_events_createdAt_idx" ON "tip_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "tip_refunds" ADD CONSTRAINT "tip_refunds_tipId_fkey" FOREIGN KEY ("tipId") REFERENCES "Tip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tip_events" ADD CONSTRAINT "tip_events_tipId_fkey" FOREIGN KEY ("tipId") REFERENCES "Tip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
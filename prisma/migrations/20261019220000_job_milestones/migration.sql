@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "MilestoneStatus" AS ENUM ('PENDING', 'SUBMITTED', 'APPROVED', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "scope" TEXT,
+ADD COLUMN "price" DOUBLE PRECISION,
+ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'XLM',
+ADD COLUMN "startDate" TIMESTAMP(3),
+ADD COLUMN "dueDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "job_milestones" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "dueDate" TIMESTAMP(3),
+    "status" "MilestoneStatus" NOT NULL DEFAULT 'PENDING',
+    "submissionNote" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_milestones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "milestone_payments" (
+    "id" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "payerId" TEXT NOT NULL,
+    "payeeId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "txHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recipientAddress" TEXT,
+    "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "verificationAttempts" INTEGER NOT NULL DEFAULT 0,
+    "verificationError" TEXT,
+    "lastCheckedAt" TIMESTAMP(3),
+    "verifiedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "milestone_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_milestones_jobId_position_key" ON "job_milestones"("jobId", "position");
+
+-- CreateIndex
+CREATE INDEX "job_milestones_status_idx" ON "job_milestones"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "milestone_payments_milestoneId_key" ON "milestone_payments"("milestoneId");
+
+-- CreateIndex
+CREATE INDEX "milestone_payments_txHash_idx" ON "milestone_payments"("txHash");
+
+-- CreateIndex
+CREATE INDEX "milestone_payments_status_expiresAt_idx" ON "milestone_payments"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "job_milestones" ADD CONSTRAINT "job_milestones_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "milestone_payments" ADD CONSTRAINT "milestone_payments_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "job_milestones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
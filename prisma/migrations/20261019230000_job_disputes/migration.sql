@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('OPEN', 'ESCALATED', 'RESOLVED', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "DisputeResolution" AS ENUM ('REFUND', 'PARTIAL_REFUND', 'RELEASE', 'CANCEL');
+
+-- CreateTable
+CREATE TABLE "job_disputes" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "openedBy" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "previousStatus" "JobStatus" NOT NULL,
+    "mediatorId" TEXT,
+    "assignedAt" TIMESTAMP(3),
+    "assignBy" TIMESTAMP(3) NOT NULL,
+    "resolveBy" TIMESTAMP(3) NOT NULL,
+    "escalatedAt" TIMESTAMP(3),
+    "resolution" "DisputeResolution",
+    "refundAmount" DOUBLE PRECISION,
+    "resolutionNote" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_dispute_evidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_dispute_evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_dispute_attachments" (
+    "id" TEXT NOT NULL,
+    "evidenceId" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_dispute_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_disputes_jobId_idx" ON "job_disputes"("jobId");
+
+-- CreateIndex
+CREATE INDEX "job_disputes_status_idx" ON "job_disputes"("status");
+
+-- CreateIndex
+CREATE INDEX "job_disputes_mediatorId_idx" ON "job_disputes"("mediatorId");
+
+-- CreateIndex
+CREATE INDEX "job_dispute_evidence_disputeId_idx" ON "job_dispute_evidence"("disputeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_dispute_attachments_evidenceId_mediaId_key" ON "job_dispute_attachments"("evidenceId", "mediaId");
+
+-- CreateIndex
+CREATE INDEX "job_dispute_attachments_mediaId_idx" ON "job_dispute_attachments"("mediaId");
+
+-- AddForeignKey
+ALTER TABLE "job_disputes" ADD CONSTRAINT "job_disputes_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_dispute_evidence" ADD CONSTRAINT "job_dispute_evidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "job_disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_dispute_attachments" ADD CONSTRAINT "job_dispute_attachments_evidenceId_fkey" FOREIGN KEY ("evidenceId") REFERENCES "job_dispute_evidence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_dispute_attachments" ADD CONSTRAINT "job_dispute_attachments_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
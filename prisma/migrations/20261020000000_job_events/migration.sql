@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "JobEventSubject" AS ENUM ('APPLICATION', 'JOB');
+
+-- CreateTable
+CREATE TABLE "job_events" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "subject" "JobEventSubject" NOT NULL,
+    "action" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "performedBy" TEXT,
+    "notes" TEXT,
+    "metadata" JSONB,
+    "previousHash" TEXT,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_events_hash_key" ON "job_events"("hash");
+
+-- CreateIndex
+CREATE INDEX "job_events_applicationId_createdAt_idx" ON "job_events"("applicationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "job_events_jobId_idx" ON "job_events"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "job_events" ADD CONSTRAINT "job_events_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_events" ADD CONSTRAINT "job_events_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Events are append-only: they are removed along with their application or
+-- job, but never changed
+CREATE FUNCTION "job_events_prevent_update"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'job_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "job_events_append_only"
+    BEFORE UPDATE ON "job_events"
+    FOR EACH ROW EXECUTE FUNCTION "job_events_prevent_update"();
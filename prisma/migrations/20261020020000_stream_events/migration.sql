@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "stream_events" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stream_events_userId_id_idx" ON "stream_events"("userId", "id");
+
+-- CreateIndex
+CREATE INDEX "stream_events_createdAt_idx" ON "stream_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "stream_events" ADD CONSTRAINT "stream_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
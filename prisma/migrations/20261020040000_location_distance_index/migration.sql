@@ -0,0 +1,6 @@
+-- Distance searches compare points on the earth's surface
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+-- CreateIndex
+CREATE INDEX "Location_earth_idx" ON "Location" USING gist (ll_to_earth("latitude", "longitude"));
@@ -0,0 +1,69 @@
+-- Typo-tolerant suggestions compare trigrams
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Artisan" ADD COLUMN "searchVector" tsvector;
+
+-- Weighted document of an artisan: name, then category and subcategory, then
+-- description, then city
+CREATE OR REPLACE FUNCTION "artisan_search_vector"() RETURNS trigger AS $$
+BEGIN
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce((SELECT "name" FROM "Category" WHERE "id" = NEW."categoryId"), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce((SELECT "name" FROM "Subcategory" WHERE "id" = NEW."subcategoryId"), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C') ||
+        setweight(to_tsvector('english', coalesce((SELECT "city" FROM "Location" WHERE "id" = NEW."locationId"), '')), 'D');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Artisan_searchVector_trigger"
+    BEFORE INSERT OR UPDATE OF "name", "description", "categoryId", "subcategoryId", "locationId" ON "Artisan"
+    FOR EACH ROW EXECUTE FUNCTION "artisan_search_vector"();
+
+-- Renaming a category, subcategory or city refreshes the artisans using it
+CREATE OR REPLACE FUNCTION "artisan_search_vector_refresh"() RETURNS trigger AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'Category' THEN
+        UPDATE "Artisan" SET "categoryId" = "categoryId" WHERE "categoryId" = NEW."id";
+    ELSIF TG_TABLE_NAME = 'Subcategory' THEN
+        UPDATE "Artisan" SET "subcategoryId" = "subcategoryId" WHERE "subcategoryId" = NEW."id";
+    ELSE
+        UPDATE "Artisan" SET "locationId" = "locationId" WHERE "locationId" = NEW."id";
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Category_searchVector_trigger"
+    AFTER UPDATE OF "name" ON "Category"
+    FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name") EXECUTE FUNCTION "artisan_search_vector_refresh"();
+
+CREATE TRIGGER "Subcategory_searchVector_trigger"
+    AFTER UPDATE OF "name" ON "Subcategory"
+    FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name") EXECUTE FUNCTION "artisan_search_vector_refresh"();
+
+CREATE TRIGGER "Location_searchVector_trigger"
+    AFTER UPDATE OF "city" ON "Location"
+    FOR EACH ROW WHEN (OLD."city" IS DISTINCT FROM NEW."city") EXECUTE FUNCTION "artisan_search_vector_refresh"();
+
+-- Index the existing artisans
+UPDATE "Artisan" SET "name" = "name";
+
+-- CreateIndex
+CREATE INDEX "Artisan_searchVector_idx" ON "Artisan" USING gin ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Artisan_name_trgm_idx" ON "Artisan" USING gin ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Category_name_trgm_idx" ON "Category" USING gin ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Subcategory_name_trgm_idx" ON "Subcategory" USING gin ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Location_city_trgm_idx" ON "Location" USING gin ("city" gin_trgm_ops);
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "rating_aggregates" (
+    "id" TEXT NOT NULL,
+    "artisanId" TEXT,
+    "userId" TEXT,
+    "average" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "distribution" JSONB NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rating_aggregates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rating_aggregates_artisanId_key" ON "rating_aggregates"("artisanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rating_aggregates_userId_key" ON "rating_aggregates"("userId");
+
+-- CreateIndex
+CREATE INDEX "rating_aggregates_score_idx" ON "rating_aggregates"("score");
+
+-- CreateIndex
+CREATE INDEX "rating_aggregates_average_idx" ON "rating_aggregates"("average");
+
+-- AddForeignKey
+ALTER TABLE "rating_aggregates" ADD CONSTRAINT "rating_aggregates_artisanId_fkey" FOREIGN KEY ("artisanId") REFERENCES "Artisan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rating_aggregates" ADD CONSTRAINT "rating_aggregates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the approved reviews, with the default prior of 5 reviews of 3.
+-- Run `pnpm command ratings:rebuild` when RATING_PRIOR_MEAN or RATING_PRIOR_WEIGHT differ.
+INSERT INTO "rating_aggregates" ("id", "artisanId", "userId", "average", "count", "distribution", "score", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    "artisanId",
+    NULL,
+    avg("rating"),
+    count(*),
+    jsonb_build_object(
+        '1', count(*) FILTER (WHERE "rating" = 1),
+        '2', count(*) FILTER (WHERE "rating" = 2),
+        '3', count(*) FILTER (WHERE "rating" = 3),
+        '4', count(*) FILTER (WHERE "rating" = 4),
+        '5', count(*) FILTER (WHERE "rating" = 5)
+    ),
+    (3 * 5 + sum("rating"))::float8 / (5 + count(*)),
+    CURRENT_TIMESTAMP
+FROM "Review"
+WHERE "status" = 'APPROVED' AND "artisanId" IS NOT NULL
+GROUP BY "artisanId";
+
+INSERT INTO "rating_aggregates" ("id", "artisanId", "userId", "average", "count", "distribution", "score", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    NULL,
+    "targetId",
+    avg("rating"),
+    count(*),
+    jsonb_build_object(
+        '1', count(*) FILTER (WHERE "rating" = 1),
+        '2', count(*) FILTER (WHERE "rating" = 2),
+        '3', count(*) FILTER (WHERE "rating" = 3),
+        '4', count(*) FILTER (WHERE "rating" = 4),
+        '5', count(*) FILTER (WHERE "rating" = 5)
+    ),
+    (3 * 5 + sum("rating"))::float8 / (5 + count(*)),
+    CURRENT_TIMESTAMP
+FROM "Review"
+WHERE "status" = 'APPROVED'
+GROUP BY "targetId";
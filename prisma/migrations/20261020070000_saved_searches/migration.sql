@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "Artisan" ADD COLUMN "verifiedAt" TIMESTAMP(3);
+
+-- Artisans can be verified from anywhere, so the database records when
+CREATE OR REPLACE FUNCTION "artisan_verified_at"() RETURNS trigger AS $$
+BEGIN
+    IF NOT NEW."isVerified" THEN
+        NEW."verifiedAt" := NULL;
+    ELSIF TG_OP = 'INSERT' OR NOT OLD."isVerified" THEN
+        NEW."verifiedAt" := CURRENT_TIMESTAMP;
+    END IF;
+
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Artisan_verifiedAt_trigger"
+    BEFORE INSERT OR UPDATE OF "isVerified" ON "Artisan"
+    FOR EACH ROW EXECUTE FUNCTION "artisan_verified_at"();
+
+UPDATE "Artisan" SET "verifiedAt" = "updatedAt" WHERE "isVerified" = true;
+
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "pausedAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_userId_idx" ON "saved_searches"("userId");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Curator" ADD COLUMN "searchVector" tsvector;
+
+-- Weighted document of a curator: name, then specialties, then bio
+CREATE OR REPLACE FUNCTION "curator_search_vector"() RETURNS trigger AS $$
+DECLARE
+    author RECORD;
+BEGIN
+    SELECT "firstName", "lastName", "bio" INTO author FROM "User" WHERE "id" = NEW."userId";
+
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(author."firstName", '') || ' ' || coalesce(author."lastName", '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(NEW."specialties", ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce(author."bio", '')), 'C');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Curator_searchVector_trigger"
+    BEFORE INSERT OR UPDATE OF "userId", "specialties" ON "Curator"
+    FOR EACH ROW EXECUTE FUNCTION "curator_search_vector"();
+
+-- Renaming a user or changing their bio refreshes their curator profile
+CREATE OR REPLACE FUNCTION "curator_search_vector_refresh"() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Curator" SET "userId" = "userId" WHERE "userId" = NEW."id";
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "User_curatorSearchVector_trigger"
+    AFTER UPDATE OF "firstName", "lastName", "bio" ON "User"
+    FOR EACH ROW
+    WHEN (OLD."firstName" IS DISTINCT FROM NEW."firstName" OR OLD."lastName" IS DISTINCT FROM NEW."lastName" OR OLD."bio" IS DISTINCT FROM NEW."bio")
+    EXECUTE FUNCTION "curator_search_vector_refresh"();
+
+-- Index the existing curators
+UPDATE "Curator" SET "userId" = "userId";
+
+-- CreateIndex
+CREATE INDEX "Curator_searchVector_idx" ON "Curator" USING gin ("searchVector");
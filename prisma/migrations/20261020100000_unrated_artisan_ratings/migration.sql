@@ -0,0 +1,15 @@
+-- Artisans without approved reviews get an aggregate at the default prior mean
+-- of 3, so rating sorts can order by the stored score alone.
+-- Run `pnpm command ratings:rebuild` when RATING_PRIOR_MEAN differs.
+INSERT INTO "rating_aggregates" ("id", "artisanId", "userId", "average", "count", "distribution", "score", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    a."id",
+    NULL,
+    0,
+    0,
+    jsonb_build_object('1', 0, '2', 0, '3', 0, '4', 0, '5', 0),
+    3,
+    CURRENT_TIMESTAMP
+FROM "Artisan" a
+WHERE NOT EXISTS (SELECT 1 FROM "rating_aggregates" r WHERE r."artisanId" = a."id");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Tip" ADD COLUMN "senderAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "milestone_payments" ADD COLUMN "senderAddress" TEXT;
+
+-- A transaction hash can only be claimed by one live tip and one live
+-- milestone payment, failed and expired attempts release it.
+CREATE UNIQUE INDEX "Tip_txHash_live_key" ON "Tip" (lower("txHash"))
+WHERE "txHash" IS NOT NULL AND "status" NOT IN ('FAILED', 'EXPIRED', 'CANCELLED');
+
+CREATE UNIQUE INDEX "milestone_payments_txHash_live_key" ON "milestone_payments" (lower("txHash"))
+WHERE "txHash" IS NOT NULL AND "status" NOT IN ('FAILED', 'EXPIRED');
@@ -0,0 +1,20 @@
+-- Job events outlive their application and job: deleting either no longer
+-- cascades to the history, the events keep the ids they were recorded with
+ALTER TABLE "job_events" DROP CONSTRAINT "job_events_applicationId_fkey";
+
+ALTER TABLE "job_events" DROP CONSTRAINT "job_events_jobId_fkey";
+
+-- Events are append-only: they are never changed nor deleted
+CREATE FUNCTION "job_events_prevent_delete"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'job_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "job_events_no_delete"
+    BEFORE DELETE ON "job_events"
+    FOR EACH ROW EXECUTE FUNCTION "job_events_prevent_delete"();
+
+CREATE TRIGGER "job_events_no_truncate"
+    BEFORE TRUNCATE ON "job_events"
+    FOR EACH STATEMENT EXECUTE FUNCTION "job_events_prevent_delete"();
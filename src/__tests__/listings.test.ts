@@ -27,7 +27,8 @@ describe('Listings API Integration Tests', () => {
 
         const curator = await prisma.user.create({
             data: {
-                email: `curator-${runId}@test.com`, password: 'hash', firstName: 'C', lastName: 'T', role: UserRole.CURATOR
+                email: `curator-${runId}@test.com`, password: 'hash', firstName: 'C', lastName: 'T', role: UserRole.CURATOR,
+                emailVerifiedAt: new Date()
             }
         });
         curatorId = curator.id;
@@ -118,5 +118,21 @@ program
         makeController(prefix, Object.assign({}, options, { api: true }))
     });
 
+program
+    .command('ratings:rebuild')
+    .description('Recompute the rating aggregates of all artisans and users from the approved reviews')
+    .action(async () => {
+        // Loaded here so the generators above run without a database
+        const { prisma } = await import('src/db');
+        const { RatingService } = await import('src/services/RatingService');
+
+        try {
+            const { artisans, users } = await RatingService.rebuild();
+            console.log(`Rebuilt the ratings of ${artisans} artisans and ${users} users.`);
+        } finally {
+            await prisma.$disconnect();
+        }
+    });
+
 // Parse CLI arguments
-program.parse(process.argv);
+program.parseAsync(process.argv);
@@ -0,0 +1,19 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    email_verification_ttl_minutes: env('EMAIL_VERIFICATION_TTL_MINUTES', 30),
+    email_verification_max_attempts: env('EMAIL_VERIFICATION_MAX_ATTEMPTS', 5),
+    password_min_length: env('PASSWORD_MIN_LENGTH', 8),
+    password_max_length: env('PASSWORD_MAX_LENGTH', 128),
+    password_require_mixed_case: env('PASSWORD_REQUIRE_MIXED_CASE', true),
+    password_require_numbers: env('PASSWORD_REQUIRE_NUMBERS', true),
+    password_require_symbols: env('PASSWORD_REQUIRE_SYMBOLS', true),
+    password_check_breached: env('PASSWORD_CHECK_BREACHED', true),
+    password_history: env('PASSWORD_HISTORY', 5),
+    login_max_attempts: env('LOGIN_MAX_ATTEMPTS', 5),
+    login_attempt_window_minutes: env('LOGIN_ATTEMPT_WINDOW_MINUTES', 15),
+    login_backoff_seconds: env('LOGIN_BACKOFF_SECONDS', 1),
+    login_backoff_max_seconds: env('LOGIN_BACKOFF_MAX_SECONDS', 60),
+    login_lockout_minutes: env('LOGIN_LOCKOUT_MINUTES', 15),
+    two_factor_challenge_max_attempts: env('TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS', 5),
+}
@@ -0,0 +1,15 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    verifier: env('CHAIN_VERIFIER', 'live'),
+    stellar_horizon_url: env('STELLAR_HORIZON_URL', 'https://horizon.stellar.org'),
+    stellar_usdc_issuer: env('STELLAR_USDC_ISSUER', ''),
+    stellar_min_confirmations: env('STELLAR_MIN_CONFIRMATIONS', 1),
+    eth_rpc_url: env('ETH_RPC_URL', ''),
+    eth_min_confirmations: env('ETH_MIN_CONFIRMATIONS', 12),
+    request_timeout_seconds: env('CHAIN_REQUEST_TIMEOUT_SECONDS', 10),
+    tip_pending_ttl_hours: env('TIP_PENDING_TTL_HOURS', 24),
+    tip_recheck_interval_minutes: env('TIP_RECHECK_INTERVAL_MINUTES', 5),
+    milestone_recheck_interval_minutes: env('MILESTONE_RECHECK_INTERVAL_MINUTES', 5),
+    tip_refund_window_days: env('TIP_REFUND_WINDOW_DAYS', 30),
+}
@@ -0,0 +1,7 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    assignment_hours: env('DISPUTE_ASSIGNMENT_HOURS', 48),
+    resolution_days: env('DISPUTE_RESOLUTION_DAYS', 14),
+    escalation_interval_minutes: env('DISPUTE_ESCALATION_INTERVAL_MINUTES', 30),
+}
@@ -1,12 +1,26 @@
 import app from "./app";
+import auth from "./auth";
+import chain from "./chain";
+import disputes from "./disputes";
 import { doter } from "src/utils/helpers"
 import jwt from "./jwt";
 import mailer from "./mailer"
+import rates from "./rates";
+import ratings from "./ratings";
+import searches from "./searches";
+import stream from "./stream";
 
 const configurations = doter({
     mailer,
     app,
+    auth,
+    chain,
+    disputes,
     jwt,
+    rates,
+    ratings,
+    searches,
+    stream,
 })
 
 // Type for configurations
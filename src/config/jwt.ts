@@ -2,12 +2,7 @@ import { env } from "src/utils/helpers";
 
 export default {
     expires_in: env('JWT_EXPIRES_IN'),
+    access_expires_in: env('JWT_ACCESS_EXPIRES_IN', '15m'),
+    refresh_ttl_days: env('JWT_REFRESH_TTL_DAYS', 30),
     secret: env('JWT_SECRET')
 }
-// import { env } from "src/utils/helpers";
-
-// export default {
-//     url: env('APP_URL'),
-//     name: env('APP_NAME'),
-//     front_url: env('APP_FRONT_URL')
-// }
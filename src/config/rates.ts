@@ -0,0 +1,11 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    provider: env('RATE_PROVIDER', 'coingecko'),
+    file: env('RATE_FILE', 'storage/rates.json'),
+    coingecko_url: env('COINGECKO_API_URL', 'https://api.coingecko.com/api/v3'),
+    coingecko_api_key: env('COINGECKO_API_KEY', ''),
+    request_timeout_seconds: env('RATE_REQUEST_TIMEOUT_SECONDS', 10),
+    quotes: env('RATE_QUOTES', 'USD,EUR,GBP,NGN'),
+    snapshot_interval_minutes: env('RATE_SNAPSHOT_INTERVAL_MINUTES', 60),
+}
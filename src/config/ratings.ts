@@ -0,0 +1,6 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    prior_mean: env('RATING_PRIOR_MEAN', 3),
+    prior_weight: env('RATING_PRIOR_WEIGHT', 5),
+}
@@ -0,0 +1,5 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    alert_interval_minutes: env('SAVED_SEARCH_ALERT_INTERVAL_MINUTES', 15),
+}
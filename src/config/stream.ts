@@ -0,0 +1,9 @@
+import { env } from "src/utils/helpers";
+
+export default {
+    poll_interval_ms: env('STREAM_POLL_INTERVAL_MS', 1000),
+    lookback_seconds: env('STREAM_LOOKBACK_SECONDS', 10),
+    heartbeat_seconds: env('STREAM_HEARTBEAT_SECONDS', 25),
+    replay_limit: env('STREAM_REPLAY_LIMIT', 500),
+    retention_hours: env('STREAM_RETENTION_HOURS', 72),
+}
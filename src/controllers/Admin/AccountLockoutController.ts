@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+
+import { AccountLockoutService } from "src/services/AccountLockoutService";
+import { AuditAction } from "@prisma/client";
+import BaseController from "../BaseController";
+import Resource from 'src/resources/index';
+import { logAuditEvent } from "src/utils/auditLogger";
+
+/**
+ * Admin/AccountLockoutController
+ *
+ * Lets admins review the addresses that are throttled or locked after failed
+ * logins and release them.
+ */
+export default class extends BaseController {
+    /**
+     * List lockouts, only the active ones unless ?all=true is passed
+     *
+     * GET /api/admin/lockouts
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req)
+
+        const { data, total } = await AccountLockoutService.list({
+            active: String(req.query.all) !== 'true',
+            take,
+            skip,
+        });
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length)
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Clear a lockout so the address can sign in again right away
+     *
+     * DELETE /api/admin/lockouts/:id
+     *
+     * @param req
+     * @param res
+     */
+    delete = async (req: Request, res: Response) => {
+        const lockout = await AccountLockoutService.release(String(req.params.id));
+
+        await logAuditEvent(lockout.userId, AuditAction.ACCOUNT_UNLOCK, {
+            req,
+            entityType: 'User',
+            entityId: lockout.userId ?? undefined,
+            statusCode: 202,
+            metadata: { via: 'admin', adminId: req.user?.id, email: lockout.email },
+        });
+
+        Resource(req, res, { data: lockout })
+            .json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'The lockout has been cleared.',
+                code: 202,
+            });
+    }
+}
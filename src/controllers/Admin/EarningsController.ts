@@ -0,0 +1,94 @@
+import { Request, Response } from "express";
+import { EarningsPeriod, TipEarningsService } from "src/services/TipEarningsService";
+
+import BaseController from "../BaseController";
+import { ExchangeRateService } from "src/services/ExchangeRateService";
+import Resource from 'src/resources/index';
+import { parse } from "date-fns";
+import { regex } from "simple-body-validator";
+import { validate } from "src/utils/validator";
+
+/**
+ * Admin/EarningsController
+ *
+ * Tip earnings across every curator, for reconciliation. Supporters are not
+ * anonymized in these reports.
+ */
+export default class extends BaseController {
+    /**
+     * Get the earnings report of all curators, or of one with ?receiver_id=
+     *
+     * GET /api/admin/earnings
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const query = validate(req.query, {
+            period: 'nullable|string|in:day,week,month',
+            from: 'nullable|date',
+            to: 'nullable|date',
+            currency: 'nullable|string|in:XLM,USDC,ETH',
+            receiver_id: 'nullable|string',
+            convert_to: ['nullable', 'string', regex(/^[A-Z]{3}$/)],
+        });
+
+        const period = (query.period ?? 'month') as EarningsPeriod;
+        const range = TipEarningsService.range(
+            period,
+            query.from ? new Date(query.from) : null,
+            query.to ? new Date(query.to) : null,
+        );
+        const convertTo = query.convert_to ?? await ExchangeRateService.preferredCurrency(req.user!.id);
+
+        const data = await TipEarningsService.report(
+            { ...range, receiverId: query.receiver_id || undefined, currency: query.currency },
+            { period, convertTo },
+        );
+
+        Resource(req, res, { data })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Download the statement of a month across all curators as CSV or PDF
+     *
+     * GET /api/admin/earnings/statement?month=2026-09&format=csv
+     *
+     * @param req
+     * @param res
+     */
+    statement = async (req: Request, res: Response) => {
+        const query = validate(req.query, {
+            month: ['required', 'string', regex(/^\d{4}-(0[1-9]|1[0-2])$/)],
+            format: 'nullable|string|in:csv,pdf',
+            currency: 'nullable|string|in:XLM,USDC,ETH',
+            receiver_id: 'nullable|string',
+        });
+
+        const statement = await TipEarningsService.statement(
+            parse(query.month, 'yyyy-MM', new Date()),
+            { receiverId: query.receiver_id || undefined, currency: query.currency },
+        );
+
+        const filename = `earnings-report-${statement.month}`;
+
+        if (query.format === 'pdf') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+            res.status(200).send(TipEarningsService.toPdf(statement, `Tip earnings report ${statement.month}`));
+
+            return;
+        }
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        res.status(200).send(TipEarningsService.toCsv(statement));
+    }
+}
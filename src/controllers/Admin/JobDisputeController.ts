@@ -0,0 +1,131 @@
+import { DisputeResolution, DisputeStatus, Prisma } from "@prisma/client";
+import { Request, Response } from "express";
+
+import BaseController from "../BaseController";
+import { JobDisputeService } from "src/services/JobDisputeService";
+import { RequestError } from "src/utils/errors";
+import Resource from 'src/resources/index';
+import { prisma } from "src/db";
+
+/**
+ * Admin/JobDisputeController
+ *
+ * Lets mediators find the disputes waiting for them, assign themselves or
+ * another admin, and resolve them.
+ */
+export default class extends BaseController {
+    /**
+     * List unresolved disputes, or those with ?status=, optionally only the ones mediated by ?mediator_id=
+     *
+     * GET /api/admin/disputes
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req)
+
+        const status = Object.values(DisputeStatus).find(status => status === req.query.status);
+        const where: Prisma.JobDisputeWhereInput = {
+            status: status ?? { in: [DisputeStatus.OPEN, DisputeStatus.ESCALATED] },
+        };
+
+        if (req.query.mediator_id) {
+            where.mediatorId = req.query.mediator_id === 'me' ? req.user!.id : String(req.query.mediator_id);
+        }
+
+        const [data, total] = await Promise.all([
+            prisma.jobDispute.findMany({
+                where,
+                include: { job: { include: { listing: { select: { id: true, name: true, curatorId: true } } } } },
+                orderBy: { resolveBy: 'asc' },
+                take,
+                skip,
+            }),
+            prisma.jobDispute.count({ where }),
+        ]);
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length)
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Assign a mediator to a dispute, the current admin unless mediator_id is given
+     *
+     * PUT /api/admin/disputes/:id/assign
+     *
+     * @param req
+     * @param res
+     */
+    assign = async (req: Request, res: Response) => {
+        const { mediator_id } = this.validate(req, {
+            mediator_id: 'nullable|string',
+        });
+
+        const dispute = await this.find(req);
+        const data = await JobDisputeService.assign(dispute, mediator_id || req.user!.id, req.user!.id);
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Mediator assigned.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Resolve a dispute, which sets the final status of its job
+     *
+     * PUT /api/admin/disputes/:id/resolve
+     *
+     * @param req
+     * @param res
+     */
+    resolve = async (req: Request, res: Response) => {
+        const { resolution, refund_amount, note } = this.validate(req, {
+            resolution: `required|string|in:${Object.values(DisputeResolution).join(',')}`,
+            refund_amount: 'nullable|required_if:resolution,PARTIAL_REFUND|numeric|min:0',
+            note: 'nullable|string|max:5000',
+        });
+
+        const dispute = await this.find(req);
+        const job = await prisma.job.findUniqueOrThrow({
+            where: { id: dispute.jobId },
+            include: { listing: { select: { curatorId: true } } },
+        });
+
+        const data = await JobDisputeService.resolve(job, dispute, req.user!, {
+            resolution: resolution as DisputeResolution,
+            refundAmount: refund_amount != null ? Number(refund_amount) : null,
+            note,
+        });
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Dispute resolved.',
+                code: 202,
+            });
+    }
+
+    private async find(req: Request) {
+        const dispute = await prisma.jobDispute.findUnique({ where: { id: String(req.params.id) } });
+
+        RequestError.assertFound(dispute, 'Dispute not found', 404);
+
+        return dispute;
+    }
+}
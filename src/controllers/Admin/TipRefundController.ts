@@ -0,0 +1,53 @@
+import { Prisma, TipRefundStatus } from "@prisma/client";
+import { Request, Response } from "express";
+
+import BaseController from "../BaseController";
+import Resource from 'src/resources/index';
+import { prisma } from "src/db";
+
+/**
+ * Admin/TipRefundController
+ *
+ * Lets admins find the refund requests that need a decision, approving,
+ * rejecting and completing them goes through the tip refund routes.
+ */
+export default class extends BaseController {
+    /**
+     * List refund requests, the ones awaiting review unless ?status= is passed
+     *
+     * GET /api/admin/tip-refunds
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req)
+
+        const status = Object.values(TipRefundStatus).find(status => status === req.query.status)
+            ?? TipRefundStatus.REQUESTED;
+        const where: Prisma.TipRefundWhereInput = { status };
+
+        const [data, total] = await Promise.all([
+            prisma.tipRefund.findMany({
+                where,
+                include: { tip: true },
+                orderBy: { createdAt: 'asc' },
+                take,
+                skip,
+            }),
+            prisma.tipRefund.count({ where }),
+        ]);
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length)
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+}
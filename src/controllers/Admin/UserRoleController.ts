@@ -0,0 +1,87 @@
+import { AuditAction, UserRole } from "@prisma/client";
+import { PERMISSIONS, ROLE_PERMISSIONS } from "src/middleware/permissions";
+import { Request, Response } from "express";
+
+import BaseController from "../BaseController";
+import { RequestError } from "src/utils/errors";
+import Resource from 'src/resources/index';
+import UserResource from "src/resources/UserResource";
+import { logAuditEvent } from "src/utils/auditLogger";
+import { prisma } from 'src/db';
+
+/**
+ * Admin/UserRoleController
+ *
+ * Lists the roles with the permissions they grant and lets admins promote or
+ * demote users between roles.
+ */
+export default class extends BaseController {
+    /**
+     * List the roles and their permissions
+     *
+     * GET /api/admin/roles
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const data = Object.values(UserRole).map(role => ({
+            role,
+            permissions: ROLE_PERMISSIONS[role].map(name => ({ name, description: PERMISSIONS[name] })),
+        }));
+
+        Resource(req, res, { data })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Move a user to another role
+     *
+     * PUT /api/admin/users/:id/role
+     *
+     * @param req
+     * @param res
+     */
+    update = async (req: Request, res: Response) => {
+        const { role, reason } = this.validate(req, {
+            role: `required|string|in:${Object.values(UserRole).join(',')}`,
+            reason: 'nullable|string|max:500',
+        });
+
+        const user = await prisma.user.findUnique({ where: { id: String(req.params.id) } });
+
+        RequestError.assertFound(user, 'User not found.', 404);
+        RequestError.abortIf(user.id === req.user?.id, 'You can not change your own role.', 422);
+        RequestError.abortIf(user.role === role, `The user already has the ${role} role.`, 422);
+
+        const data = await prisma.user.update({
+            where: { id: user.id },
+            data: { role },
+            include: { curator: true },
+        });
+
+        await logAuditEvent(req.user?.id, AuditAction.ROLE_CHANGE, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            oldValues: { role: user.role },
+            newValues: { role: data.role },
+            statusCode: 202,
+            metadata: { reason },
+        });
+
+        new UserResource(req, res, data).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: `The user has been moved to the ${data.role} role.`,
+                code: 202,
+            });
+    }
+}
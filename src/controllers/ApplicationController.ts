@@ -6,6 +6,9 @@ import BaseController from "./BaseController";
 import { RequestError } from "../utils/errors";
 import ApplicationCollection from "../resources/ApplicationCollection";
 import ApplicationResource from "../resources/ApplicationResource";
+import { EventStreamService } from "../services/EventStreamService";
+import { JobEventService } from "../services/JobEventService";
+import { notify } from "../services/notificationService";
 import { prisma } from "../db";
 
 /**
@@ -60,33 +63,61 @@ export default class ApplicationController extends BaseController {
       throw new RequestError("You already have an active application for this listing", 409);
     }
 
-    const application = await prisma.application.create({
-      data: {
-        listingId,
-        applicantId,
-        message: message?.trim() || undefined,
-        status: ApplicationStatus.PENDING
-      },
-      include: {
-        listing: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            curatorId: true
-          }
-        },
-        applicant: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            avatar: true,
-            phone: true
+    const application = await prisma.$transaction(async (tx) => {
+      const created = await tx.application.create({
+        data: {
+          listingId,
+          applicantId,
+          message: message?.trim() || undefined,
+          status: ApplicationStatus.PENDING
+        }
+      });
+
+      await JobEventService.record(tx, {
+        applicationId: created.id,
+        subject: "APPLICATION",
+        action: "CREATED",
+        toStatus: created.status,
+        performedBy: applicantId
+      });
+
+      return tx.application.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          listing: {
+            select: {
+              id: true,
+              name: true,
+              description: true,
+              curatorId: true
+            }
+          },
+          applicant: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              avatar: true,
+              phone: true
+            }
           }
         }
-      }
+      });
+    });
+
+    await EventStreamService.publish(listing.curatorId, "application.created", {
+      applicationId: application.id,
+      listingId,
+      applicantId
+    });
+
+    await notify(listing.curatorId, "application.received", {
+      title: "New application to your listing",
+      message: `<b>${application.applicant.firstName} ${application.applicant.lastName}</b> applied to <b>${application.listing.name}</b>.`,
+      path: `/applications/${application.id}`,
+      linkTitle: "View Application",
+      data: { applicationId: application.id, listingId }
     });
 
     new ApplicationResource(req, res, application)
@@ -339,19 +370,38 @@ export default class ApplicationController extends BaseController {
         }
       });
 
+      await JobEventService.record(tx, {
+        applicationId,
+        subject: "APPLICATION",
+        action: "STATUS_CHANGED",
+        fromStatus: application.status,
+        toStatus: updatedApp.status,
+        performedBy: userId,
+        notes: req.body.note?.trim() || null
+      });
+
       if (status === "ACCEPTED") {
         const existingJob = await tx.job.findUnique({
           where: { applicationId }
         });
 
         if (!existingJob) {
-          await tx.job.create({
+          const job = await tx.job.create({
             data: {
               listingId: updatedApp.listingId,
               applicationId: updatedApp.id,
               applicantId: updatedApp.applicantId
             }
           });
+
+          await JobEventService.record(tx, {
+            applicationId,
+            jobId: job.id,
+            subject: "JOB",
+            action: "CREATED",
+            toStatus: job.status,
+            performedBy: userId
+          });
         }
       }
 
@@ -390,6 +440,28 @@ export default class ApplicationController extends BaseController {
 
     RequestError.assertFound(finalApplication, "Application not found after update", 404);
 
+    await EventStreamService.publish([application.applicantId, application.listing.curatorId], "application.status_changed", {
+      applicationId,
+      jobId: finalApplication.job?.id ?? null,
+      fromStatus: application.status,
+      toStatus: finalApplication.status,
+      performedBy: userId
+    });
+
+    if (finalApplication.status === "ACCEPTED" || finalApplication.status === "REJECTED") {
+      const accepted = finalApplication.status === "ACCEPTED";
+
+      await notify(application.applicantId, accepted ? "application.accepted" : "application.rejected", {
+        title: `Your application was ${accepted ? "accepted" : "rejected"}`,
+        message: accepted
+          ? `Your application to <b>${finalApplication.listing.name}</b> was accepted and a job has been created for it.`
+          : `Your application to <b>${finalApplication.listing.name}</b> was not accepted.`,
+        path: finalApplication.job ? `/jobs/${finalApplication.job.id}` : `/applications/${applicationId}`,
+        linkTitle: finalApplication.job ? "View Job" : "View Application",
+        data: { applicationId, jobId: finalApplication.job?.id ?? null }
+      });
+    }
+
     new ApplicationResource(req, res, finalApplication)
       .json()
       .additional({
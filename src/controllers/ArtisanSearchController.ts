@@ -1,94 +1,96 @@
-import { ArtisanType, EventType, Prisma, PrismaClient } from "@prisma/client";
+import { ArtisanSearchService, SearchFacetColumn, SearchFilters } from "src/services/ArtisanSearchService";
+import { ArtisanType, EventType, Prisma } from "@prisma/client";
 import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
+import { FullTextSearchService } from "src/services/FullTextSearchService";
+import { RatingService } from "src/services/RatingService";
+import { RequestError } from "src/utils/errors";
 import Resource from "src/resources/index";
 import SearchCacheService from "src/services/SearchCacheService";
 import { prisma } from "src/db";
 import { trackBusinessEvent } from "src/utils/analyticsMiddleware";
-import { validate } from "src/utils/validator";
-
-interface SearchFilters {
-  search?: string;
-  category?: string;
-  subcategory?: string;
-  country?: string;
-  state?: string;
-  city?: string;
-  type?: ArtisanType;
-  isVerified?: boolean;
-  isActive?: boolean;
-  minPrice?: number;
-  maxPrice?: number;
-  latitude?: number;
-  longitude?: number;
-  radius?: number;
-  sortBy?:
-  | "relevance"
-  | "rating"
-  | "price_low"
-  | "price_high"
-  | "created_at"
-  | "name";
-  page?: number;
-  limit?: number;
+
+interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+interface SearchFacets {
+  categories: FacetCount[];
+  subcategories: FacetCount[];
+  cities: Array<FacetCount & { state: string, country: string }>;
+  types: FacetCount<ArtisanType>[];
+  verified: FacetCount<boolean>[];
+  priceRanges: Array<{ min: number, max: number | null, count: number }>;
 }
 
+const include = {
+  category: true,
+  subcategory: true,
+  location: true,
+  curator: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      avatar: true,
+    },
+  },
+  rating: true,
+} satisfies Prisma.ArtisanInclude;
+
+// Lower bounds of the price range facets, the last one is open ended
+const PRICE_BUCKETS = [0, 50, 100, 250, 500, 1000];
+
 export default class ArtisanSearchController extends BaseController {
   /**
    * Public endpoint to list and search artisans with comprehensive filtering
    */
   index = async (req: Request, res: Response) => {
-    const filters = this.validateFilters(req.query);
+    const filters = ArtisanSearchService.filters(req.query);
 
-    const where = this.buildWhereClause(filters);
+    const where = ArtisanSearchService.buildWhereClause(filters);
     const orderBy = this.buildOrderBy(filters);
     const { take, skip, meta } = this.pagination(req);
 
-    // Add geospatial filtering if location and radius are provided
-    if (filters.latitude && filters.longitude && filters.radius) {
-      await this.addGeospatialFilter(where, filters);
+    // Distances are measured from the given coordinates or place
+    const center = await ArtisanSearchService.resolveCenter(filters);
+
+    RequestError.abortIf(
+      filters.sortBy === "distance" && !center,
+      "Sorting by distance requires latitude and longitude, or near.",
+      422,
+    );
+
+    if (center) {
+      Object.assign(filters, center);
     }
 
-    const [artisans, total] = await Promise.all([
-      prisma.artisan.findMany({
-        where,
-        orderBy,
-        take,
-        skip,
-        include: {
-          category: true,
-          subcategory: true,
-          location: true,
-          curator: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-            },
-          },
-          reviews: {
-            select: {
-              rating: true,
-            },
-          },
-        },
-      }),
-      prisma.artisan.count({ where }),
-    ]);
+    // Distances and full-text ranks are measured, matched and sorted by the
+    // database, which only returns the page
+    const page = center || filters.search
+      ? await ArtisanSearchService.page(filters, center, { take, skip })
+      : null;
+
+    const [artisans, total] = page
+      ? [await this.findByIds(page.ids), page.total] as const
+      : await Promise.all([
+        prisma.artisan.findMany({ where, orderBy, take, skip, include }),
+        prisma.artisan.count({ where }),
+      ]);
 
-    // Calculate average rating for each artisan
-    const artisansWithRating = artisans.map((artisan: any) => ({
+    const highlights = filters.search
+      ? await FullTextSearchService.highlightArtisans(filters.search, artisans.map(artisan => artisan.id))
+      : null;
+
+    const artisansWithRating = artisans.map(({ rating, ...artisan }) => ({
       ...artisan,
-      averageRating:
-        artisan.reviews.length > 0
-          ? artisan.reviews.reduce(
-            (sum: number, review: any) => sum + review.rating,
-            0,
-          ) / artisan.reviews.length
-          : null,
-      reviewCount: artisan.reviews.length,
+      distanceKm: page?.distances.has(artisan.id)
+        ? Math.round(page.distances.get(artisan.id)! * 100) / 100
+        : null,
+      highlights: highlights?.get(artisan.id) ?? null,
+      ...RatingService.present(rating),
     }));
 
     // Track search event
@@ -100,6 +102,11 @@ export default class ArtisanSearchController extends BaseController {
       });
     }
 
+    // Close matches to try when a search text found nothing
+    const didYouMean = filters.search && total === 0
+      ? (await FullTextSearchService.suggest(filters.search, { limit: 5 })).map(({ label }) => label)
+      : [];
+
     Resource(req, res, { data: artisansWithRating })
       .json()
       .status(200)
@@ -109,39 +116,44 @@ export default class ArtisanSearchController extends BaseController {
         code: 200,
         pagination: meta(total, artisansWithRating.length),
         filters: filters,
+        didYouMean,
       });
   };
 
   /**
-   * Get search suggestions based on partial input
+   * Count the artisans matching the search filters per category, subcategory,
+   * city, type, verification state and price range. Each facet is counted
+   * without its own filter, so clients can show the alternatives to it.
+   */
+  facets = async (req: Request, res: Response) => {
+    const filters = ArtisanSearchService.filters(req.query);
+
+    // Sorting and paging do not change the counts
+    const cacheKey = { ...filters, facets: true, sortBy: undefined, page: undefined, limit: undefined };
+    let facets = await SearchCacheService.get<SearchFacets>(cacheKey);
+
+    if (!facets) {
+      facets = await this.countFacets(filters);
+      await SearchCacheService.set(cacheKey, facets);
+    }
+
+    Resource(req, res, { data: facets }).json().status(200).additional({
+      status: "success",
+      message: "OK",
+      code: 200,
+    });
+  };
+
+  /**
+   * Get artisan names, categories, subcategories and cities close to a
+   * partial input, tolerating typos
    */
   suggestions = async (req: Request, res: Response) => {
     const { query } = this.validate(req, {
       query: "required|string|min:2",
     });
 
-    const suggestions = await prisma.artisan.findMany({
-      where: {
-        OR: [
-          { name: { contains: query, mode: "insensitive" } },
-          { description: { contains: query, mode: "insensitive" } },
-          { category: { name: { contains: query, mode: "insensitive" } } },
-          { subcategory: { name: { contains: query, mode: "insensitive" } } },
-        ],
-        isActive: true,
-      },
-      select: {
-        name: true,
-        category: {
-          select: { name: true },
-        },
-        subcategory: {
-          select: { name: true },
-        },
-      },
-      take: 10,
-      distinct: ["name"],
-    });
+    const suggestions = await FullTextSearchService.suggest(query);
 
     Resource(req, res, { data: suggestions }).json().status(200).additional({
       status: "success",
@@ -197,147 +209,78 @@ export default class ArtisanSearchController extends BaseController {
       });
   };
 
-  private validateFilters (query: any): SearchFilters {
-    const validated = validate(query, {
-      search: "nullable|string|min:2",
-      category: "nullable|string",
-      subcategory: "nullable|string",
-      country: "nullable|string",
-      state: "nullable|string",
-      city: "nullable|string",
-      type: "nullable|in:PERSON,BUSINESS",
-      isVerified: "nullable|boolean",
-      isActive: "nullable|boolean",
-      minPrice: "nullable|numeric|min:0",
-      maxPrice: "nullable|numeric|min:0",
-      latitude: "nullable|numeric|min:-90|max:90",
-      longitude: "nullable|numeric|min:-180|max:180",
-      radius: "nullable|numeric|min:0.1|max:1000",
-      sortBy:
-        "nullable|in:relevance,rating,price_low,price_high,created_at,name",
-      page: "nullable|integer|min:1",
-      limit: "nullable|integer|min:1|max:100",
-    });
-
-    return {
-      ...validated,
-      isVerified:
-        validated.isVerified !== undefined ? validated.isVerified : true,
-      isActive: validated.isActive !== undefined ? validated.isActive : true,
-      minPrice: validated.minPrice ? parseFloat(validated.minPrice) : undefined,
-      maxPrice: validated.maxPrice ? parseFloat(validated.maxPrice) : undefined,
-      latitude: validated.latitude ? parseFloat(validated.latitude) : undefined,
-      longitude: validated.longitude ? parseFloat(validated.longitude) : undefined,
-      radius: validated.radius ? parseFloat(validated.radius) : undefined,
-      sortBy: validated.sortBy || "relevance",
-      page: validated.page ? parseInt(validated.page) : 1,
-      limit: validated.limit ? parseInt(validated.limit) : 20,
-    };
-  }
-
-  private buildWhereClause (filters: SearchFilters): Prisma.ArtisanWhereInput {
-    const where: Prisma.ArtisanWhereInput = {
-      isActive: filters.isActive,
-      isVerified: filters.isVerified,
-    };
+  private async countFacets (filters: SearchFilters): Promise<SearchFacets> {
+    const center = await ArtisanSearchService.resolveCenter(filters);
+
+    // Each facet is counted without its own filter
+    const countBy = <T>(column: SearchFacetColumn, unset: Partial<SearchFilters>) =>
+      ArtisanSearchService.countBy<T>({ ...filters, ...unset }, center, column);
+
+    const [byCategory, bySubcategory, byLocation, byType, byVerified, priceRanges] = await Promise.all([
+      countBy<string>("categoryId", { category: undefined }),
+      countBy<string | null>("subcategoryId", { subcategory: undefined }),
+      countBy<string>("locationId", { city: undefined }),
+      countBy<ArtisanType>("type", { type: undefined }),
+      countBy<boolean>("isVerified", { isVerified: undefined }),
+      // Each range counts the artisans its minPrice and maxPrice filters find
+      Promise.all(PRICE_BUCKETS.map(async (min, index) => {
+        const max = PRICE_BUCKETS[index + 1] ?? null;
+        const count = await ArtisanSearchService.count({ ...filters, minPrice: min, maxPrice: max ?? undefined }, center);
+
+        return { min, max, count };
+      })),
+    ]);
 
-    // Text search
-    if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: "insensitive" } },
-        { description: { contains: filters.search, mode: "insensitive" } },
-        {
-          category: { name: { contains: filters.search, mode: "insensitive" } },
-        },
-        {
-          subcategory: {
-            name: { contains: filters.search, mode: "insensitive" },
-          },
-        },
-        {
-          location: { city: { contains: filters.search, mode: "insensitive" } },
-        },
-        {
-          location: {
-            state: { contains: filters.search, mode: "insensitive" },
-          },
-        },
-        {
-          location: {
-            country: { contains: filters.search, mode: "insensitive" },
-          },
-        },
-      ];
-    }
+    const [categories, subcategories, locations] = await Promise.all([
+      prisma.category.findMany({
+        where: { id: { in: byCategory.map(row => row.value) } },
+        select: { id: true, name: true },
+      }),
+      prisma.subcategory.findMany({
+        where: { id: { in: bySubcategory.flatMap(row => row.value ?? []) } },
+        select: { id: true, name: true },
+      }),
+      prisma.location.findMany({
+        where: { id: { in: byLocation.map(row => row.value) } },
+        select: { id: true, city: true, state: true, country: true },
+      }),
+    ]);
 
-    // Category and subcategory filters
-    if (filters.category) {
-      where.category = {
-        name: { equals: filters.category, mode: "insensitive" },
-      };
-    }
+    const named = (rows: Array<{ id: string | null, count: number }>, names: Array<{ id: string, name: string }>) => rows
+      .map(({ id, count }) => ({ value: names.find(name => name.id === id)?.name ?? "", count }))
+      .filter(({ value }) => value)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
 
-    if (filters.subcategory) {
-      where.subcategory = {
-        name: { equals: filters.subcategory, mode: "insensitive" },
-      };
-    }
+    // Locations sharing a city add up
+    const cities = new Map<string, SearchFacets["cities"][number]>();
 
-    // Location filters
-    if (filters.country) {
-      where.location = {
-        ...where.location,
-        country: { equals: filters.country, mode: "insensitive" } as never,
-      };
-    }
+    for (const { value: locationId, count } of byLocation) {
+      const location = locations.find(({ id }) => id === locationId);
 
-    if (filters.state) {
-      where.location = {
-        ...where.location,
-        state: { equals: filters.state, mode: "insensitive" } as never,
-      };
-    }
+      if (!location) {
+        continue;
+      }
 
-    if (filters.city) {
-      where.location = {
-        ...where.location,
-        city: { equals: filters.city, mode: "insensitive" } as never,
-      };
-    }
+      const key = [location.city, location.state, location.country].join("|").toLowerCase();
+      const city = cities.get(key) ?? { value: location.city, state: location.state, country: location.country, count: 0 };
 
-    // Type filter
-    if (filters.type) {
-      where.type = filters.type;
+      cities.set(key, { ...city, count: city.count + count });
     }
 
-    // Price range filter
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-      where.OR = [
-        { price: { gte: filters.minPrice, lte: filters.maxPrice } },
-        {
-          priceRange: {
-            path: [],
-            array_contains:
-              (filters.minPrice !== undefined && filters.maxPrice !== undefined
-                ? [filters.minPrice, filters.maxPrice]
-                : filters.minPrice !== undefined
-                  ? [filters.minPrice]
-                  : [filters.maxPrice]) as never,
-          },
-        },
-      ];
-    }
-
-    return where;
+    return {
+      categories: named(byCategory.map(row => ({ id: row.value, count: row.count })), categories),
+      subcategories: named(bySubcategory.map(row => ({ id: row.value, count: row.count })), subcategories),
+      cities: [...cities.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+      types: byType.sort((a, b) => b.count - a.count),
+      verified: byVerified.sort((a, b) => b.count - a.count),
+      priceRanges,
+    };
   }
 
   private buildOrderBy (
     filters: SearchFilters,
   ): Prisma.ArtisanOrderByWithRelationInput[] {
     switch (filters.sortBy) {
-      case "rating":
-        return [{ reviews: { _count: "desc" } }, { name: "asc" }];
-
       case "price_low":
         return [{ price: "asc" }, { name: "asc" }];
 
@@ -350,15 +293,14 @@ export default class ArtisanSearchController extends BaseController {
       case "name":
         return [{ name: "asc" }];
 
+      // Every artisan has a rating aggregate, at the prior mean until reviewed
+      case "rating":
+        return [{ rating: { score: "desc" } }, { name: "asc" }];
+
       case "relevance":
       default:
-        if (filters.search) {
-          return [
-            { isVerified: "desc" },
-            { reviews: { _count: "desc" } },
-            { name: "asc" },
-          ];
-        }
+        // Searches are ordered by their full-text rank instead, see
+        // ArtisanSearchService.page()
         return [
           { isVerified: "desc" },
           { reviews: { _count: "desc" } },
@@ -367,41 +309,12 @@ export default class ArtisanSearchController extends BaseController {
     }
   }
 
-  private async addGeospatialFilter (
-    where: Prisma.ArtisanWhereInput,
-    filters: SearchFilters,
-  ): Promise<void> {
-    // Using PostgreSQL's earth distance extension for geospatial queries
-    // This requires the earthdistance extension to be installed in PostgreSQL
-
-    const earthDistanceQuery = `
-            (
-                6371 * acos(
-                    cos(radians(${filters.latitude})) * 
-                    cos(radians(latitude)) * 
-                    cos(radians(longitude) - radians(${filters.longitude})) + 
-                    sin(radians(${filters.latitude})) * 
-                    sin(radians(latitude))
-                )
-            ) <= ${filters.radius}
-        `;
-
-    // This would need to be implemented as a raw query or using PostgreSQL extensions
-    // For now, we'll use a simpler bounding box approach
-    const latDelta = filters.radius! / 111; // Approximate km per degree latitude
-    const lonDelta =
-      filters.radius! / (111 * Math.cos((filters.latitude! * Math.PI) / 180));
-
-    where.location = {
-      ...where.location,
-      latitude: {
-        gte: filters.latitude! - latDelta,
-        lte: filters.latitude! + latDelta,
-      } as never,
-      longitude: {
-        gte: filters.longitude! - lonDelta,
-        lte: filters.longitude! + lonDelta,
-      } as never,
-    };
+  /**
+   * Load the artisans with the given ids, in their order
+   */
+  private async findByIds (ids: string[]) {
+    const artisans = await prisma.artisan.findMany({ where: { id: { in: ids } }, include });
+
+    return ids.map(id => artisans.find(artisan => artisan.id === id)!);
   }
 }
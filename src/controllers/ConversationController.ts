@@ -0,0 +1,208 @@
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { ConversationService } from "src/services/ConversationService";
+import { ConversationType } from "@prisma/client";
+import Resource from "src/resources/index";
+
+/**
+ * ConversationController
+ *
+ * Handles the message threads of the current user:
+ * - One thread per application and per job, between the applicant and the curator
+ * - Direct threads between two users, subject to the recipient's privacy settings
+ * - Read receipts and unread counts
+ */
+export default class extends BaseController {
+    /**
+     * List the conversations of the current user, optionally only those of ?type=
+     *
+     * GET /api/conversations
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req);
+
+        const type = Object.values(ConversationType).find(type => type === req.query.type);
+        const { data, total } = await ConversationService.list(req.user!.id, { type, take, skip });
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length),
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * Count the unread messages of the current user
+     *
+     * GET /api/conversations/unread
+     *
+     * @param req
+     * @param res
+     */
+    unread = async (req: Request, res: Response) => {
+        const data = await ConversationService.unread(req.user!.id);
+
+        Resource(req, res, { data })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * Open the conversation about an application or a job, or with another user
+     *
+     * POST /api/conversations
+     *
+     * @param req
+     * @param res
+     */
+    create = async (req: Request, res: Response) => {
+        const data = this.validate(req, {
+            type: `required|string|in:${Object.values(ConversationType).join(",")}`,
+            application_id: "nullable|required_if:type,APPLICATION|string",
+            job_id: "nullable|required_if:type,JOB|string",
+            user_id: "nullable|required_if:type,DIRECT|string",
+        });
+
+        const type = data.type as ConversationType;
+        const id = {
+            [ConversationType.APPLICATION]: data.application_id,
+            [ConversationType.JOB]: data.job_id,
+            [ConversationType.DIRECT]: data.user_id,
+        }[type];
+
+        const conversation = await ConversationService.open(req.user!.id, { type, id });
+
+        Resource(req, res, { data: conversation })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "Conversation opened",
+                code: 200,
+            });
+    };
+
+    /**
+     * Get a conversation with its participants and their read receipts
+     *
+     * GET /api/conversations/:id
+     *
+     * @param req
+     * @param res
+     */
+    show = async (req: Request, res: Response) => {
+        const conversation = await ConversationService.find(String(req.params.id), req.user!.id);
+
+        Resource(req, res, { data: conversation })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * List the messages of a conversation, newest first
+     *
+     * GET /api/conversations/:id/messages
+     *
+     * @param req
+     * @param res
+     */
+    messages = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req);
+
+        const conversation = await ConversationService.find(String(req.params.id), req.user!.id);
+        const { data, total } = await ConversationService.messages(conversation, { take, skip });
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length),
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * Send a message, with optional attachments, to a conversation
+     *
+     * POST /api/conversations/:id/messages
+     *
+     * @param req
+     * @param res
+     */
+    send = async (req: Request, res: Response) => {
+        const conversation = await ConversationService.find(String(req.params.id), req.user!.id);
+
+        const data = this.validate(req, {
+            body: "required_without:media_ids|nullable|string|max:5000",
+            media_ids: "nullable|array|max:10",
+            "media_ids.*": "required|string",
+        });
+
+        const message = await ConversationService.send(
+            conversation,
+            req.user!.id,
+            data.body?.trim() || null,
+            data.media_ids ?? []
+        );
+
+        Resource(req, res, { data: message })
+            .json()
+            .status(201)
+            .additional({
+                status: "success",
+                message: "Message sent",
+                code: 201,
+            });
+    };
+
+    /**
+     * Mark a conversation as read, up to message_id when given
+     *
+     * PUT /api/conversations/:id/read
+     *
+     * @param req
+     * @param res
+     */
+    read = async (req: Request, res: Response) => {
+        const conversation = await ConversationService.find(String(req.params.id), req.user!.id);
+
+        const data = this.validate(req, {
+            message_id: "nullable|string",
+        });
+
+        const readAt = await ConversationService.markRead(conversation, req.user!.id, data.message_id);
+
+        Resource(req, res, { data: { conversationId: conversation.id, readAt } })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Conversation marked as read",
+                code: 202,
+            });
+    };
+}
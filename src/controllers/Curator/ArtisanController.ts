@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
 import { ArtisanType, PrismaClient, Prisma, EventType } from "@prisma/client";
+import { RatingService } from 'src/services/RatingService';
 import Resource from 'src/resources/index';
 import { regex } from "simple-body-validator";
 import { validate } from "src/utils/validator";
@@ -192,7 +193,7 @@ export default class extends BaseController {
      */
     create = async (req: Request, res: Response) => {
         const data = await prisma.artisan.create({
-            data: await this.buildData(req),
+            data: { ...await this.buildData(req), rating: { create: RatingService.unrated() } },
             include: {
                 category: true,
                 location: true,
@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import { EarningsPeriod, TipEarningsService } from "src/services/TipEarningsService";
+
+import BaseController from "../BaseController";
+import { ExchangeRateService } from "src/services/ExchangeRateService";
+import Resource from 'src/resources/index';
+import { parse } from "date-fns";
+import { regex } from "simple-body-validator";
+import { validate } from "src/utils/validator";
+
+/**
+ * Curator/EarningsController
+ *
+ * Tip earnings of the authenticated curator: totals per currency and period,
+ * a breakdown per artisan, top supporters and monthly statements.
+ */
+export default class extends BaseController {
+    /**
+     * Get the earnings report of the curator
+     *
+     * GET /api/curator/earnings
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const query = validate(req.query, {
+            period: 'nullable|string|in:day,week,month',
+            from: 'nullable|date',
+            to: 'nullable|date',
+            currency: 'nullable|string|in:XLM,USDC,ETH',
+            convert_to: ['nullable', 'string', regex(/^[A-Z]{3}$/)],
+        });
+
+        const period = (query.period ?? 'month') as EarningsPeriod;
+        const range = TipEarningsService.range(
+            period,
+            query.from ? new Date(query.from) : null,
+            query.to ? new Date(query.to) : null,
+        );
+        const convertTo = query.convert_to ?? await ExchangeRateService.preferredCurrency(req.user!.id);
+
+        const data = await TipEarningsService.report(
+            { ...range, receiverId: req.user!.id, currency: query.currency },
+            { period, viewerId: req.user!.id, convertTo },
+        );
+
+        Resource(req, res, { data })
+            .json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Download the statement of a month as CSV or PDF
+     *
+     * GET /api/curator/earnings/statement?month=2026-09&format=pdf
+     *
+     * @param req
+     * @param res
+     */
+    statement = async (req: Request, res: Response) => {
+        const query = validate(req.query, {
+            month: ['required', 'string', regex(/^\d{4}-(0[1-9]|1[0-2])$/)],
+            format: 'nullable|string|in:csv,pdf',
+            currency: 'nullable|string|in:XLM,USDC,ETH',
+        });
+
+        const statement = await TipEarningsService.statement(
+            parse(query.month, 'yyyy-MM', new Date()),
+            { receiverId: req.user!.id, currency: query.currency },
+            req.user!.id,
+        );
+
+        const filename = `earnings-${statement.month}`;
+
+        if (query.format === 'pdf') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+            res.status(200).send(TipEarningsService.toPdf(statement, `Tip earnings statement ${statement.month}`));
+
+            return;
+        }
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        res.status(200).send(TipEarningsService.toCsv(statement));
+    }
+}
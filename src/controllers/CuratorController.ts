@@ -3,6 +3,7 @@ import { NextFunction, Request, Response } from "express";
 import BaseController from "./BaseController";
 import CuratorCollection from "../resources/CuratorCollection";
 import CuratorResource from "../resources/CuratorResource";
+import { JobDisputeService } from "../services/JobDisputeService";
 import { RequestError } from "../utils/errors";
 import { prisma } from "../db";
 
@@ -128,7 +129,9 @@ export default class CuratorController extends BaseController {
                 throw new RequestError("Curator not found", 404);
             }
 
-            new CuratorResource(req, res, curator)
+            const reputation = await JobDisputeService.reputation(curator.userId);
+
+            new CuratorResource(req, res, { ...curator, reputation })
                 .json()
                 .status(200)
                 .additional({
@@ -2,8 +2,11 @@ import { EventType, TipStatus } from "@prisma/client";
 import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
+import { ExchangeRateService } from "src/services/ExchangeRateService";
 import { RequestError } from "src/utils/errors";
 import TipResource from "src/resources/TipResource";
+import { TipEventService } from "src/services/TipEventService";
+import { TipVerificationService } from "src/services/TipVerificationService";
 import { prisma } from "src/db";
 import { trackBusinessEvent } from "src/utils/analyticsMiddleware";
 
@@ -71,16 +74,24 @@ export default class extends BaseController {
             );
         }
 
-        const tip = await prisma.tip.create({
+        const currency = data.currency || "XLM";
+
+        // The transaction is verified on chain before the tip is completed
+        const transaction = data.tx_hash
+            ? await TipVerificationService.prepare(senderId, receiverId, currency, data.tx_hash)
+            : {};
+
+        let tip = await prisma.tip.create({
             data: {
                 amount: parseFloat(data.amount),
-                currency: data.currency || "XLM",
+                currency,
                 message: data.message,
-                status: data.tx_hash ? TipStatus.COMPLETED : TipStatus.PENDING,
+                status: TipStatus.PENDING,
                 senderId: senderId,
                 receiverId: receiverId,
                 artisanId: data.artisan_id || null,
-                txHash: data.tx_hash || null,
+                expiresAt: TipVerificationService.expiresAt(),
+                ...transaction,
             },
             include: {
                 sender: {
@@ -107,8 +118,17 @@ export default class extends BaseController {
                     },
                 },
             },
+        }).catch(TipVerificationService.claimed);
+
+        await TipEventService.record(tip, "CREATED", {
+            performedBy: senderId,
+            metadata: { txHash: tip.txHash },
         });
 
+        if (tip.txHash) {
+            tip = { ...tip, ...await TipVerificationService.verify(tip) };
+        }
+
         // Track tip sent event
         trackBusinessEvent(EventType.TIP_SENT, senderId, {
             tipId: tip.id,
@@ -118,7 +138,10 @@ export default class extends BaseController {
             artisanId: tip.artisanId,
         });
 
-        new TipResource(req, res, tip)
+        // Amounts are shown in the viewer's preferred currency as well
+        const [converted] = await ExchangeRateService.forViewer([tip], senderId);
+
+        new TipResource(req, res, converted)
             .json()
             .status(201)
             .additional({
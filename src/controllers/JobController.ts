@@ -7,6 +7,10 @@ import JobCollection from "../resources/JobCollection";
 import JobResource from "../resources/JobResource";
 import { prisma } from "../db";
 import { JsonResource } from "../resources";
+import { EventStreamService } from "../services/EventStreamService";
+import { JobDisputeService } from "../services/JobDisputeService";
+import { JobEventService } from "../services/JobEventService";
+import { JobMilestoneService } from "../services/JobMilestoneService";
 
 export default class JobController extends BaseController {
   /**
@@ -114,6 +118,10 @@ export default class JobController extends BaseController {
             phone: true,
           },
         },
+        milestones: {
+          orderBy: { position: "asc" },
+          include: { payment: true },
+        },
       },
     });
 
@@ -138,6 +146,68 @@ export default class JobController extends BaseController {
       .status(200);
   };
 
+  /**
+   * GET /api/jobs/:id/timeline
+   * Merged history of the application and the job, oldest first (participants, mediators or admin).
+   */
+  timeline = async (req: Request, res: Response) => {
+    const jobId = String(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new RequestError("Unauthenticated", 401);
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: {
+        listing: { select: { curatorId: true } },
+        disputes: { select: { mediatorId: true } },
+      },
+    });
+
+    if (!job) {
+      throw new RequestError("Job not found", 404);
+    }
+
+    const isAdmin = req.user?.role === UserRole.ADMIN;
+    const isParticipant = job.applicantId === userId || job.listing.curatorId === userId;
+    const isMediator = job.disputes.some((dispute) => dispute.mediatorId === userId);
+
+    if (!isAdmin && !isParticipant && !isMediator) {
+      throw new RequestError("Unauthorized access to this job", 403);
+    }
+
+    const events = await JobEventService.timeline(job.applicationId);
+    const actors = await prisma.user.findMany({
+      where: { id: { in: [...new Set(events.map((event) => event.performedBy).filter((id): id is string => !!id))] } },
+      select: { id: true, firstName: true, lastName: true, avatar: true },
+    });
+
+    const data = events.map((event) => ({
+      id: event.id,
+      subject: event.subject,
+      action: event.action,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      notes: event.notes,
+      metadata: event.metadata,
+      actor: actors.find((actor) => actor.id === event.performedBy) ?? null,
+      createdAt: event.createdAt,
+      hash: event.hash,
+    }));
+
+    new JsonResource(req, res, data)
+      .json()
+      .additional({
+        status: "success",
+        message: "Job timeline retrieved successfully",
+        code: 200,
+        integrity: JobEventService.verify(events),
+      })
+      .status(200);
+  };
+
   /**
    * PUT /api/jobs/:id
    * Update job status (participants only).
@@ -173,9 +243,45 @@ export default class JobController extends BaseController {
 
     this.validateStateTransition(existingJob.status, normalizedStatus);
 
-    const updatedJob = await prisma.job.update({
+    if (existingJob.status === JobStatus.DISPUTED && (await JobDisputeService.active(jobId))) {
+      throw new RequestError("A disputed job can only leave DISPUTED once its dispute is resolved or withdrawn", 422);
+    }
+
+    if (normalizedStatus === JobStatus.COMPLETED) {
+      await JobMilestoneService.assertCanComplete(jobId);
+    }
+
+    if (normalizedStatus === JobStatus.DISPUTED) {
+      await JobDisputeService.open(existingJob, userId, String(req.body.reason).trim());
+    } else {
+      await prisma.$transaction(async (tx) => {
+        await tx.job.update({
+          where: { id: jobId },
+          data: { status: normalizedStatus },
+        });
+
+        await JobEventService.record(tx, {
+          applicationId: existingJob.applicationId,
+          jobId,
+          subject: "JOB",
+          action: "STATUS_CHANGED",
+          fromStatus: existingJob.status,
+          toStatus: normalizedStatus,
+          performedBy: userId,
+          notes: req.body.note?.trim() || null,
+        });
+      });
+    }
+
+    await EventStreamService.publish([existingJob.applicantId, existingJob.listing.curatorId], "job.status_changed", {
+      jobId,
+      fromStatus: existingJob.status,
+      toStatus: normalizedStatus,
+      performedBy: userId,
+    });
+
+    const updatedJob = await prisma.job.findUniqueOrThrow({
       where: { id: jobId },
-      data: { status: normalizedStatus },
       include: {
         listing: {
           select: {
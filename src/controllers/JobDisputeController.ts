@@ -0,0 +1,104 @@
+import { Request, Response } from "express";
+
+import BaseController from "./BaseController";
+import { RequestError } from "../utils/errors";
+import { JobDisputeService } from "../services/JobDisputeService";
+import { JsonResource } from "../resources";
+import { prisma } from "../db";
+
+export default class JobDisputeController extends BaseController {
+  /**
+   * GET /api/jobs/:id/disputes
+   * List the disputes of a job with their evidence (participants, mediators or admin).
+   */
+  index = async (req: Request, res: Response) => {
+    const job = await this.findJob(req);
+    const disputes = await JobDisputeService.list(job.id);
+
+    const canAccess = JobDisputeService.canAccess(job, null, req.user) ||
+      disputes.some((dispute) => JobDisputeService.canAccess(job, dispute, req.user));
+
+    if (!canAccess) {
+      throw new RequestError("Unauthorized access to this job", 403);
+    }
+
+    new JsonResource(req, res, disputes)
+      .json()
+      .additional({
+        status: "success",
+        message: "Disputes retrieved successfully",
+        code: 200,
+      })
+      .status(200);
+  };
+
+  /**
+   * POST /api/jobs/:id/disputes/:disputeId/evidence
+   * Add a statement, optionally with uploaded media, to an unresolved dispute.
+   */
+  evidence = async (req: Request, res: Response) => {
+    const job = await this.findJob(req);
+    const dispute = await JobDisputeService.find(job.id, String(req.params.disputeId));
+
+    if (!JobDisputeService.canAccess(job, dispute, req.user)) {
+      throw new RequestError("Unauthorized access to this dispute", 403);
+    }
+
+    const evidence = await JobDisputeService.addEvidence(
+      job,
+      dispute,
+      req.user!.id,
+      req.body.message.trim(),
+      req.body.media_ids ?? []
+    );
+
+    new JsonResource(req, res, evidence)
+      .json()
+      .additional({
+        status: "success",
+        message: "Evidence added to the dispute",
+        code: 201,
+      })
+      .status(201);
+  };
+
+  /**
+   * PUT /api/jobs/:id/disputes/:disputeId/withdraw
+   * Withdraw an unresolved dispute (participant who opened it only).
+   */
+  withdraw = async (req: Request, res: Response) => {
+    const job = await this.findJob(req);
+    const dispute = await JobDisputeService.find(job.id, String(req.params.disputeId));
+
+    const withdrawn = await JobDisputeService.withdraw(job, dispute, req.user!.id);
+
+    new JsonResource(req, res, withdrawn)
+      .json()
+      .additional({
+        status: "success",
+        message: "Dispute withdrawn",
+        code: 200,
+      })
+      .status(200);
+  };
+
+  /**
+   * Load the job a dispute belongs to.
+   */
+  private async findJob(req: Request) {
+    if (!req.user?.id) {
+      throw new RequestError("Unauthenticated", 401);
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: String(req.params.id) },
+      include: { listing: { select: { curatorId: true } } },
+    });
+
+    if (!job) {
+      throw new RequestError("Job not found", 404);
+    }
+
+    return job;
+  }
+}
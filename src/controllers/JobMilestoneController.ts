@@ -0,0 +1,156 @@
+import { Request, Response } from "express";
+import { UserRole } from "@prisma/client";
+
+import BaseController from "./BaseController";
+import { RequestError } from "../utils/errors";
+import JobResource from "../resources/JobResource";
+import JobMilestoneCollection from "../resources/JobMilestoneCollection";
+import JobMilestoneResource from "../resources/JobMilestoneResource";
+import { JobMilestoneService } from "../services/JobMilestoneService";
+import { prisma } from "../db";
+
+type Participant = "applicant" | "curator";
+
+export default class JobMilestoneController extends BaseController {
+  /**
+   * GET /api/jobs/:id/milestones
+   * List the milestones of a job in order (participants or admin only).
+   */
+  index = async (req: Request, res: Response) => {
+    const job = await this.findJob(req);
+
+    new JobMilestoneCollection(req, res, await JobMilestoneService.list(job.id))
+      .json()
+      .additional({
+        status: "success",
+        message: "Milestones retrieved successfully",
+        code: 200,
+      })
+      .status(200);
+  };
+
+  /**
+   * PUT /api/jobs/:id/terms
+   * Set the scope, schedule and milestones of a job before it starts (curator or admin).
+   */
+  terms = async (req: Request, res: Response) => {
+    const job = await this.findJob(req, ["curator"]);
+    const date = (value?: string | null) => (value ? new Date(value) : null);
+
+    const updatedJob = await JobMilestoneService.setTerms(job, {
+      scope: req.body.scope,
+      currency: req.body.currency,
+      startDate: date(req.body.startDate),
+      dueDate: date(req.body.dueDate),
+      milestones: req.body.milestones.map((milestone: any) => ({
+        title: String(milestone.title).trim(),
+        description: milestone.description ?? null,
+        amount: Number(milestone.amount),
+        dueDate: date(milestone.dueDate),
+      })),
+    }, req.user!.id);
+
+    new JobResource(req, res, updatedJob)
+      .json()
+      .additional({
+        status: "success",
+        message: "Job terms updated successfully",
+        code: 200,
+      })
+      .status(200);
+  };
+
+  /**
+   * PUT /api/jobs/:id/milestones/:milestoneId/submit
+   * Submit a milestone for approval (curator only).
+   */
+  submit = async (req: Request, res: Response) => {
+    const job = await this.findJob(req, ["curator"]);
+    const milestone = await JobMilestoneService.submit(job, String(req.params.milestoneId), req.user!.id, req.body.note);
+
+    this.respond(req, res, milestone, "Milestone submitted for approval");
+  };
+
+  /**
+   * PUT /api/jobs/:id/milestones/:milestoneId/approve
+   * Approve a submitted milestone (applicant only).
+   */
+  approve = async (req: Request, res: Response) => {
+    const job = await this.findJob(req, ["applicant"]);
+    const milestone = await JobMilestoneService.approve(job, String(req.params.milestoneId), req.user!.id);
+
+    this.respond(req, res, milestone, "Milestone approved");
+  };
+
+  /**
+   * PUT /api/jobs/:id/milestones/:milestoneId/changes
+   * Send a submitted milestone back to the curator (applicant only).
+   */
+  requestChanges = async (req: Request, res: Response) => {
+    const job = await this.findJob(req, ["applicant"]);
+    const milestone = await JobMilestoneService.requestChanges(job, String(req.params.milestoneId), req.user!.id, req.body.note.trim());
+
+    this.respond(req, res, milestone, "Changes requested");
+  };
+
+  /**
+   * POST /api/jobs/:id/milestones/:milestoneId/payment
+   * Submit the transaction paying an approved milestone (applicant only).
+   */
+  pay = async (req: Request, res: Response) => {
+    const job = await this.findJob(req, ["applicant"]);
+    const milestoneId = String(req.params.milestoneId);
+
+    await JobMilestoneService.pay(job, milestoneId, req.body.tx_hash.trim());
+
+    const milestone = await prisma.jobMilestone.findUniqueOrThrow({
+      where: { id: milestoneId },
+      include: { payment: true },
+    });
+
+    this.respond(req, res, milestone, "Milestone payment submitted", 201);
+  };
+
+  /**
+   * Load a job and ensure the user takes part in it.
+   * Admins may act as the curator, but never as the paying applicant.
+   */
+  private async findJob(req: Request, roles: Participant[] = ["applicant", "curator"]) {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new RequestError("Unauthenticated", 401);
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: String(req.params.id) },
+      include: { listing: { select: { curatorId: true } } },
+    });
+
+    if (!job) {
+      throw new RequestError("Job not found", 404);
+    }
+
+    const isAdmin = req.user?.role === UserRole.ADMIN;
+    const allowed =
+      (roles.includes("applicant") && job.applicantId === userId) ||
+      (roles.includes("curator") && (job.listing.curatorId === userId || isAdmin));
+
+    if (!allowed) {
+      throw new RequestError("Unauthorized access to this job", 403);
+    }
+
+    return job;
+  }
+
+  private respond(req: Request, res: Response, milestone: object, message: string, code = 200) {
+    new JobMilestoneResource(req, res, milestone)
+      .json()
+      .additional({
+        status: "success",
+        message,
+        code,
+      })
+      .status(code);
+  }
+}
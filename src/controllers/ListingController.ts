@@ -3,6 +3,7 @@ import { Request, Response } from "express";
 import ArtisanCollection from "../resources/ArtisanCollection";
 import ArtisanResource from "../resources/ArtisanResource";
 import BaseController from "./BaseController";
+import { RatingService } from "../services/RatingService";
 import { RequestError } from "../utils/errors";
 import { matchedData } from 'express-validator';
 import { prisma } from "../db";
@@ -85,7 +86,8 @@ export default class ListingController extends BaseController {
                 ...validated,
                 curatorId,
                 isActive: validated.isActive ?? true,
-                isVerified: false // Default to unverified
+                isVerified: false, // Default to unverified
+                rating: { create: RatingService.unrated() },
             },
             include: {
                 category: true,
@@ -0,0 +1,144 @@
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { Prisma } from "@prisma/client";
+import { RequestError } from "src/utils/errors";
+import Resource from "src/resources/index";
+import { prisma } from "src/db";
+
+/**
+ * NotificationController
+ *
+ * Handles the notification center of the current user. Notifications are
+ * created by the notify() helper of the notification service whenever
+ * something the user takes part in happens.
+ */
+export default class extends BaseController {
+    /**
+     * List the notifications of the current user, newest first, optionally
+     * only the unread ones with ?unread=true
+     *
+     * GET /api/notifications
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req);
+        const userId = req.user!.id;
+
+        const where: Prisma.NotificationWhereInput = { userId };
+
+        if (String(req.query.unread) === "true") {
+            where.readAt = null;
+        }
+
+        const [data, total, unread] = await Promise.all([
+            prisma.notification.findMany({ where, take, skip, orderBy: { createdAt: "desc" } }),
+            prisma.notification.count({ where }),
+            prisma.notification.count({ where: { userId, readAt: null } }),
+        ]);
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length),
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+                unread,
+            });
+    };
+
+    /**
+     * Mark a notification as read
+     *
+     * PUT /api/notifications/:id/read
+     *
+     * @param req
+     * @param res
+     */
+    read = async (req: Request, res: Response) => {
+        const notification = await this.find(req);
+
+        const data = notification.readAt
+            ? notification
+            : await prisma.notification.update({ where: { id: notification.id }, data: { readAt: new Date() } });
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Notification marked as read",
+                code: 202,
+            });
+    };
+
+    /**
+     * Mark every notification of the current user as read
+     *
+     * PUT /api/notifications/read-all
+     *
+     * @param req
+     * @param res
+     */
+    readAll = async (req: Request, res: Response) => {
+        const { count } = await prisma.notification.updateMany({
+            where: { userId: req.user!.id, readAt: null },
+            data: { readAt: new Date() },
+        });
+
+        Resource(req, res, { data: { count } })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "All notifications marked as read",
+                code: 202,
+            });
+    };
+
+    /**
+     * Delete a notification
+     *
+     * DELETE /api/notifications/:id
+     *
+     * @param req
+     * @param res
+     */
+    destroy = async (req: Request, res: Response) => {
+        const notification = await this.find(req);
+
+        await prisma.notification.delete({ where: { id: notification.id } });
+
+        Resource(req, res, { data: {} })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Notification deleted",
+                code: 202,
+            });
+    };
+
+    /**
+     * Find a notification of the current user
+     *
+     * @param req
+     * @returns
+     * @throws {RequestError} 404 when the notification belongs to someone else
+     */
+    private find = async (req: Request) => {
+        const notification = await prisma.notification.findFirst({
+            where: { id: String(req.params.id), userId: req.user!.id },
+        });
+
+        RequestError.assertFound(notification, "Notification not found", 404);
+
+        return notification;
+    };
+}
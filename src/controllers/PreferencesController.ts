@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 
 import BaseController from "./BaseController";
 import { RequestError } from 'src/utils/errors';
+import { TwoFactorService } from 'src/services/TwoFactorService';
 import UserPreferencesResource from "src/resources/UserPreferencesResource";
 import { logAuditEvent } from 'src/utils/auditLogger';
 import { notificationValidationRules, preferencesValidationRules } from 'src/utils/profileValidators';
@@ -124,30 +125,34 @@ export default class extends BaseController {
 
     /**
      * Toggle two-factor authentication
+     *
+     * Enabling confirms a pending enrollment (see POST /api/auth/2fa/setup) and
+     * disabling requires a current code, both through the TwoFactorService.
      */
     toggleTwoFactor = async (req: Request, res: Response) => {
         const userId = req.user?.id!;
         RequestError.assertFound(userId, 'Unauthorized', 401);
 
-        let preferences = await prisma.userPreferences.findFirst({
-            where: { userId },
+        const { code } = this.validate(req, {
+            code: 'required|string',
         });
 
-        if (!preferences) {
-            preferences = await prisma.userPreferences.create({
-                data: { userId },
-            });
-        }
+        const enabled = await TwoFactorService.isEnabled(userId);
+        const newStatus = !enabled;
+        let recoveryCodes: string[] | undefined;
 
-        const newStatus = !preferences.twoFactorEnabled;
+        if (newStatus) {
+            recoveryCodes = await TwoFactorService.enable(userId, code);
+        } else {
+            await TwoFactorService.disable(userId, code);
+        }
 
-        const updated = await prisma.userPreferences.update({
-            where: { id: preferences.id },
-            data: { twoFactorEnabled: newStatus },
+        const updated = await prisma.userPreferences.findFirstOrThrow({
+            where: { userId },
         });
 
         // Log 2FA toggle
-        await logAuditEvent(userId, 'PROFILE_UPDATE', {
+        await logAuditEvent(userId, newStatus ? 'TWO_FACTOR_ENABLE' : 'TWO_FACTOR_DISABLE', {
             req,
             entityType: 'UserPreferences',
             entityId: updated.id,
@@ -163,6 +168,7 @@ export default class extends BaseController {
                 status: 'success',
                 message: `Two-factor authentication ${newStatus ? 'enabled' : 'disabled'}`,
                 code: 202,
+                recoveryCodes,
             });
     };
 
@@ -183,7 +189,6 @@ export default class extends BaseController {
             theme: 'light',
             language: 'en',
             currencyPreference: 'USD',
-            twoFactorEnabled: false,
             dataCollectionConsent: false,
             analyticsTracking: true,
         };
@@ -10,6 +10,7 @@ import { prisma } from 'src/db';
 import { normalizeSocialLinks, profileValidationRules } from 'src/utils/profileValidators';
 import { PrivacyService } from 'src/services/PrivacyService';
 import { PrivacyGuard } from 'src/services/PrivacyGuard';
+import { JobDisputeService } from 'src/services/JobDisputeService';
 
 /**
  * UserProfileController - Manages user profile CRUD operations
@@ -256,6 +257,7 @@ export default class extends BaseController {
                 location: privacySettings?.showLocation ? profile.location : null,
                 email: privacySettings?.showEmail ? user.email : null,
                 phone: privacySettings?.showPhone ? user.phone : null,
+                reputation: await JobDisputeService.reputation(user.id),
             };
 
             // Log public profile view
@@ -2,9 +2,12 @@ import { EventType, Prisma, ReportStatus, ReviewStatus } from "@prisma/client";
 import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
+import { EventStreamService } from "src/services/EventStreamService";
+import { RatingService } from "src/services/RatingService";
 import { RequestError } from "src/utils/errors";
 import ReviewCollection from "src/resources/ReviewCollection";
 import ReviewResource from "src/resources/ReviewResource";
+import { notify } from "src/services/notificationService";
 import { prisma } from "src/db";
 import { trackBusinessEvent } from "src/utils/analyticsMiddleware";
 
@@ -381,6 +384,8 @@ export default class extends BaseController {
       },
     });
 
+    await RatingService.refresh(review);
+
     trackBusinessEvent(EventType.REVIEW_UPDATED, userId, {
       reviewId: review.id,
       rating: review.rating,
@@ -416,6 +421,7 @@ export default class extends BaseController {
     RequestError.assertFound(canDelete, "Access denied", 403);
 
     await prisma.review.delete({ where: { id: reviewId } });
+    await RatingService.refresh(existingReview!);
 
     res.status(204).send();
   };
@@ -478,6 +484,8 @@ export default class extends BaseController {
       },
     });
 
+    await RatingService.refresh(review);
+
     // Track moderation event
     const eventType =
       data.status === "APPROVED"
@@ -489,6 +497,21 @@ export default class extends BaseController {
       targetId: review.targetId,
     });
 
+    if (existingReview!.status !== review.status) {
+      const approved = review.status === ReviewStatus.APPROVED;
+      const subject = review.artisan?.name ?? `${review.target.firstName} ${review.target.lastName}`;
+
+      await notify(review.authorId, approved ? "review.approved" : "review.rejected", {
+        title: `Your review was ${approved ? "approved" : "rejected"}`,
+        message: approved
+          ? `Your review of <b>${subject}</b> has been approved and is now public.`
+          : `Your review of <b>${subject}</b> did not meet our guidelines and will not be published.`,
+        path: `/reviews/${review.id}`,
+        linkTitle: "View Review",
+        data: { reviewId: review.id },
+      });
+    }
+
     new ReviewResource(req, res, review)
       .json()
       .status(200)
@@ -642,6 +665,11 @@ export default class extends BaseController {
       responseId: response.id,
     });
 
+    await EventStreamService.publish(review!.authorId, "review.responded", {
+      reviewId,
+      responseId: response.id,
+    });
+
     new ReviewResource(req, res, updatedReview!)
       .json()
       .status(201)
@@ -921,7 +949,7 @@ export default class extends BaseController {
 
     // If action taken, reject the review
     if (data.status === "ACTION_TAKEN") {
-      await prisma.review.update({
+      const review = await prisma.review.update({
         where: { id: report.reviewId },
         data: {
           status: ReviewStatus.REJECTED,
@@ -929,6 +957,8 @@ export default class extends BaseController {
           moderatedAt: new Date(),
         },
       });
+
+      await RatingService.refresh(review);
     }
 
     res.status(200).json({
@@ -941,7 +971,7 @@ export default class extends BaseController {
 
   /**
    * Get rating aggregation for a curator
-   * Calculates average rating and distribution
+   * Reads the stored average rating, weighted rating and distribution
    *
    * GET /api/reviews/aggregation/:targetId
    */
@@ -954,28 +984,9 @@ export default class extends BaseController {
     });
     RequestError.assertFound(target, "User not found", 404);
 
-    // Get all approved reviews for this target
-    const reviews = await prisma.review.findMany({
-      where: {
-        targetId,
-        status: ReviewStatus.APPROVED,
-      },
-      select: {
-        rating: true,
-      },
-    });
-
-    const totalReviews = reviews.length;
-    const averageRating =
-      totalReviews > 0
-        ? reviews.reduce((sum, r) => sum + r.rating, 0) / totalReviews
-        : 0;
-
-    // Calculate rating distribution
-    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
-    reviews.forEach((r) => {
-      distribution[r.rating as keyof typeof distribution]++;
-    });
+    const rating = RatingService.present(
+      await RatingService.find({ userId: targetId }),
+    );
 
     res.status(200).json({
       status: "success",
@@ -983,9 +994,10 @@ export default class extends BaseController {
       code: 200,
       data: {
         targetId,
-        totalReviews,
-        averageRating: Math.round(averageRating * 100) / 100,
-        ratingDistribution: distribution,
+        totalReviews: rating.reviewCount,
+        averageRating: rating.averageRating ?? 0,
+        weightedRating: rating.weightedRating,
+        ratingDistribution: rating.ratingDistribution,
       },
     });
   };
@@ -1034,20 +1046,9 @@ export default class extends BaseController {
       }),
     ]);
 
-    // Calculate artisan-specific aggregation
-    const allReviews = await prisma.review.findMany({
-      where: {
-        artisanId,
-        status: ReviewStatus.APPROVED,
-      },
-      select: { rating: true },
-    });
-
-    const avgRating =
-      allReviews.length > 0
-        ? allReviews.reduce((sum, r) => sum + r.rating, 0) / allReviews.length
-        : 0;
-
+    const rating = RatingService.present(
+      await RatingService.find({ artisanId }),
+    );
 
     new ReviewCollection(req, res, {
       data,
@@ -1060,7 +1061,8 @@ export default class extends BaseController {
         message: "OK",
         code: 200,
         meta: {
-          averageRating: Math.round(avgRating * 100) / 100,
+          averageRating: rating.averageRating ?? 0,
+          weightedRating: rating.weightedRating,
           totalReviews: total,
         },
       });
@@ -1123,20 +1125,9 @@ export default class extends BaseController {
       }),
     ]);
 
-    // Calculate curator-specific aggregation
-    const allReviews = await prisma.review.findMany({
-      where: {
-        targetId: curatorId,
-        status: ReviewStatus.APPROVED,
-      },
-      select: { rating: true },
-    });
-
-    const avgRating =
-      allReviews.length > 0
-        ? allReviews.reduce((sum, r) => sum + r.rating, 0) / allReviews.length
-        : 0;
-
+    const rating = RatingService.present(
+      await RatingService.find({ userId: curatorId }),
+    );
 
     new ReviewCollection(req, res, {
       data,
@@ -1149,7 +1140,8 @@ export default class extends BaseController {
         message: "OK",
         code: 200,
         meta: {
-          averageRating: Math.round(avgRating * 100) / 100,
+          averageRating: rating.averageRating ?? 0,
+          weightedRating: rating.weightedRating,
           totalReviews: total,
         },
       });
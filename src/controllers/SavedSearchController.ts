@@ -0,0 +1,218 @@
+import { Request, Response } from "express";
+
+import { ArtisanSearchService } from "src/services/ArtisanSearchService";
+import BaseController from "src/controllers/BaseController";
+import { Prisma } from "@prisma/client";
+import { RequestError } from "src/utils/errors";
+import Resource from "src/resources/index";
+import { prisma } from "src/db";
+
+/**
+ * SavedSearchController
+ *
+ * Handles the saved artisan searches of the current user. Active saved
+ * searches are run by the saved search alert job, which notifies the user of
+ * new matching artisans.
+ */
+export default class extends BaseController {
+    /**
+     * List the saved searches of the current user, newest first
+     *
+     * GET /api/saved-searches
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const { take, skip, meta } = this.pagination(req);
+        const where: Prisma.SavedSearchWhereInput = { userId: req.user!.id };
+
+        const [data, total] = await Promise.all([
+            prisma.savedSearch.findMany({ where, take, skip, orderBy: { createdAt: "desc" } }),
+            prisma.savedSearch.count({ where }),
+        ]);
+
+        Resource(req, res, {
+            data,
+            pagination: meta(total, data.length),
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * Save a search, with the filters of GET /api/artisans
+     *
+     * POST /api/saved-searches
+     *
+     * @param req
+     * @param res
+     */
+    create = async (req: Request, res: Response) => {
+        const { name } = await this.validateAsync(req, {
+            name: "required|string|max:100",
+        });
+
+        const data = await prisma.savedSearch.create({
+            data: {
+                userId: req.user!.id,
+                name,
+                filters: this.filters(req.body.filters),
+            },
+        });
+
+        Resource(req, res, { data })
+            .json()
+            .status(201)
+            .additional({
+                status: "success",
+                message: "Search saved",
+                code: 201,
+            });
+    };
+
+    /**
+     * Rename a saved search or change its filters
+     *
+     * PUT /api/saved-searches/:id
+     *
+     * @param req
+     * @param res
+     */
+    update = async (req: Request, res: Response) => {
+        const search = await this.find(req);
+
+        const { name } = await this.validateAsync(req, {
+            name: "nullable|string|max:100",
+        });
+
+        const data = await prisma.savedSearch.update({
+            where: { id: search.id },
+            data: {
+                name: name ?? undefined,
+                filters: req.body.filters !== undefined ? this.filters(req.body.filters) : undefined,
+            },
+        });
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Saved search updated",
+                code: 202,
+            });
+    };
+
+    /**
+     * Stop the alerts of a saved search
+     *
+     * PUT /api/saved-searches/:id/pause
+     *
+     * @param req
+     * @param res
+     */
+    pause = async (req: Request, res: Response) => {
+        const search = await this.find(req);
+
+        const data = search.pausedAt
+            ? search
+            : await prisma.savedSearch.update({ where: { id: search.id }, data: { pausedAt: new Date() } });
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Saved search paused",
+                code: 202,
+            });
+    };
+
+    /**
+     * Restart the alerts of a paused saved search. Artisans that matched
+     * while it was paused are not announced.
+     *
+     * PUT /api/saved-searches/:id/resume
+     *
+     * @param req
+     * @param res
+     */
+    resume = async (req: Request, res: Response) => {
+        const search = await this.find(req);
+
+        const data = search.pausedAt
+            ? await prisma.savedSearch.update({
+                where: { id: search.id },
+                data: { pausedAt: null, lastRunAt: new Date() },
+            })
+            : search;
+
+        Resource(req, res, { data })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Saved search resumed",
+                code: 202,
+            });
+    };
+
+    /**
+     * Delete a saved search
+     *
+     * DELETE /api/saved-searches/:id
+     *
+     * @param req
+     * @param res
+     */
+    destroy = async (req: Request, res: Response) => {
+        const search = await this.find(req);
+
+        await prisma.savedSearch.delete({ where: { id: search.id } });
+
+        Resource(req, res, { data: {} })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Saved search deleted",
+                code: 202,
+            });
+    };
+
+    /**
+     * Find a saved search of the current user
+     *
+     * @param req
+     * @returns
+     * @throws {RequestError} 404 when the saved search belongs to someone else
+     */
+    private find = async (req: Request) => {
+        const search = await prisma.savedSearch.findFirst({
+            where: { id: String(req.params.id), userId: req.user!.id },
+        });
+
+        RequestError.assertFound(search, "Saved search not found", 404);
+
+        return search;
+    };
+
+    /**
+     * Validate the filters of a saved search, like those of an artisan search.
+     * Pages are not saved.
+     *
+     * @param input
+     * @returns
+     */
+    private filters = (input: unknown): Prisma.InputJsonObject => {
+        const { page, limit, ...filters } = ArtisanSearchService.filters(input ?? {});
+
+        return JSON.parse(JSON.stringify(filters));
+    };
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import BaseController from "src/controllers/BaseController";
+import { FullTextSearchService } from "src/services/FullTextSearchService";
 import { prisma } from "src/db";
 import Resource from "src/resources";
 import { validate } from "src/utils/validator";
@@ -12,6 +13,9 @@ enum SearchResultType {
 export default class SearchController extends BaseController {
      /**
       * GET /api/search
+      *
+      * With a query, artisans and curators are matched by full text and each
+      * result carries its relevance, most relevant first.
      */
      index = async (req: Request, res: Response) => {
           try {
@@ -21,64 +25,68 @@ export default class SearchController extends BaseController {
 
                const { take, skip, meta } = this.pagination(req);
 
-               const searchFilter = query
-                    ? {
-                         contains: query,
-                         mode: "insensitive" as const,
-                    }
-                    : undefined;
+               // Ranked matches are ranked, paginated and counted by the database
+               const [artisanRanks, curatorRanks, artisanMatches, curatorMatches] = query
+                    ? await Promise.all([
+                         FullTextSearchService.rankArtisans(query, { active: true, take, skip }),
+                         FullTextSearchService.rankCurators(query, { take, skip }),
+                         FullTextSearchService.countArtisans(query, { active: true }),
+                         FullTextSearchService.countCurators(query),
+                    ])
+                    : [null, null, null, null];
 
                const whereArtisan = {
                     isActive: true,
-                    OR: query
-                         ? [
-                              { name: searchFilter },
-                              { description: searchFilter },
-                              { category: { name: searchFilter } },
-                         ]
-                         : undefined,
+                    id: artisanRanks ? { in: [...artisanRanks.keys()] } : undefined,
                };
 
                // Curator itself doesn't have name fields; those live on the associated user.
                const whereCurator = {
                     verificationStatus: "VERIFIED" as const,
-                    OR: query
-                         ? [
-                              { user: { firstName: searchFilter } },
-                              { user: { lastName: searchFilter } },
-                              { user: { bio: searchFilter } },
-                         ]
-                         : undefined,
+                    id: curatorRanks ? { in: [...curatorRanks.keys()] } : undefined,
                };
 
                const [artisans, curators, artisanCount, curatorCount] = await Promise.all([
                     prisma.artisan.findMany({
                          where: whereArtisan,
-                         take,
-                         skip,
+                         take: artisanRanks ? undefined : take,
+                         skip: artisanRanks ? undefined : skip,
                          include: { category: true },
                     }),
                     prisma.curator.findMany({
                          where: whereCurator,
-                         take,
-                         skip,
+                         take: curatorRanks ? undefined : take,
+                         skip: curatorRanks ? undefined : skip,
                          include: { user: true },
                     }),
-                    prisma.artisan.count({ where: whereArtisan }),
-                    prisma.curator.count({ where: whereCurator }),
+                    artisanMatches ?? prisma.artisan.count({ where: whereArtisan }),
+                    curatorMatches ?? prisma.curator.count({ where: whereCurator }),
                ]);
 
+               const highlights = query
+                    ? await FullTextSearchService.highlightArtisans(query, artisans.map(a => a.id))
+                    : null;
+
                const formattedResults = [
                     ...artisans.map(a => ({
                          ...a,
                          resultType: SearchResultType.ARTISAN as const,
+                         relevance: artisanRanks?.get(a.id) ?? null,
+                         highlights: highlights?.get(a.id) ?? null,
                     })),
                     ...curators.map(c => ({
                          // include the nested user data so consumers can display name/bio
                          ...c,
                          resultType: SearchResultType.CURATOR as const,
+                         relevance: curatorRanks?.get(c.id) ?? null,
+                         highlights: null,
                     })),
-               ];
+               ].sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+
+               // Close matches to try when the query found nothing
+               const didYouMean = query && artisanCount + curatorCount === 0
+                    ? (await FullTextSearchService.suggest(query, { limit: 5, curators: true })).map(({ label }) => label)
+                    : [];
 
                return Resource(req, res, { data: formattedResults })
                     .json()
@@ -92,6 +100,7 @@ export default class SearchController extends BaseController {
                               artisans: artisanCount,
                               curators: curatorCount,
                          },
+                         didYouMean,
                     });
           } catch (error) {
                throw error;
@@ -100,6 +109,9 @@ export default class SearchController extends BaseController {
 
      /**
       * GET /api/search/suggestions
+      *
+      * Artisan names, categories, subcategories, cities and curators close to
+      * the query, tolerating typos.
       */
      suggestions = async (req: Request, res: Response) => {
           try {
@@ -107,46 +119,7 @@ export default class SearchController extends BaseController {
                     query: "required|string|min:2",
                });
 
-               const [artisanSuggestions, curatorSuggestions] = await Promise.all([
-                    prisma.artisan.findMany({
-                         where: {
-                              isActive: true,
-                              name: { contains: query, mode: "insensitive" as const },
-                         },
-                         select: { name: true },
-                         take: 5,
-                    }),
-
-                    prisma.curator.findMany({
-                         where: {
-                              verificationStatus: "VERIFIED" as const,
-                              OR: [
-                                   { user: { firstName: { contains: query, mode: "insensitive" as const } } },
-                                   { user: { lastName: { contains: query, mode: "insensitive" as const } } },
-                              ],
-                         },
-                         select: {
-                              user: {
-                                   select: {
-                                        firstName: true,
-                                        lastName: true,
-                                   },
-                              },
-                         },
-                         take: 5,
-                    }),
-               ]);
-
-               const suggestions = [
-                    ...artisanSuggestions.map(a => ({
-                         label: a.name,
-                         type: SearchResultType.ARTISAN as const,
-                    })),
-                    ...curatorSuggestions.map(c => ({
-                         label: `${c.user.firstName} ${c.user.lastName}`,
-                         type: SearchResultType.CURATOR as const,
-                    })),
-               ];
+               const suggestions = await FullTextSearchService.suggest(query, { curators: true });
 
                return Resource(req, res, { data: suggestions })
                     .json()
@@ -160,4 +133,4 @@ export default class SearchController extends BaseController {
                throw error;
           }
      };
-}
\ No newline at end of file
+}
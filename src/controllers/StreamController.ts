@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { EventStreamService } from "src/services/EventStreamService";
+import { StreamEvent } from "@prisma/client";
+import { config } from "src/config";
+import { prisma } from "src/db";
+
+/**
+ * StreamController
+ *
+ * Serves the real-time events of the current user as Server-Sent Events.
+ * Clients resuming a dropped connection send the id of the last event they
+ * received as the Last-Event-ID header, or ?last_event_id=, and get the events
+ * they missed before the live ones. The stream ends once the access token it
+ * was opened with is revoked or expires.
+ */
+export default class extends BaseController {
+    /**
+     * Open the event stream of the current user
+     *
+     * GET /api/stream
+     *
+     * @param req
+     * @param res
+     */
+    stream = async (req: Request, res: Response) => {
+        const userId = req.user!.id;
+        const lastEventId = parseInt(String(req.get("Last-Event-ID") ?? req.query.last_event_id ?? ""));
+
+        const resumedFrom = Number.isNaN(lastEventId) ? 0 : lastEventId;
+
+        let lastSentId = resumedFrom;
+        let pending: StreamEvent[] | null = [];
+
+        // Replayed events may come in live as well, and live events that
+        // committed late may be older than the last replayed one
+        const sent = new Set<number>();
+
+        const send = (event: StreamEvent) => {
+            if (event.id <= resumedFrom || sent.has(event.id)) {
+                return;
+            }
+
+            sent.add(event.id);
+
+            if (sent.size > Number(config("stream.replay_limit"))) {
+                sent.delete(sent.values().next().value!);
+            }
+
+            lastSentId = Math.max(lastSentId, event.id);
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+
+        // Live events wait until the missed ones are sent, to keep the order
+        const unsubscribe = await EventStreamService.subscribe(userId, (event) => {
+            if (pending) {
+                pending.push(event);
+            } else {
+                send(event);
+            }
+        });
+
+        res.status(200).set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",
+        });
+        res.flushHeaders();
+        res.write(`retry: ${Number(config("stream.poll_interval_ms")) * 3}\n\n`);
+
+        const heartbeat = setInterval(() => {
+            if (!res.writableEnded) {
+                res.write(": heartbeat\n\n");
+            }
+        }, Number(config("stream.heartbeat_seconds")) * 1000);
+
+        // The stream outlives the access token, which is checked as often as events are polled
+        const session = setInterval(async () => {
+            const active = await this.sessionIsActive(req).catch(() => true);
+
+            if (!active && !res.writableEnded) {
+                res.end();
+            }
+        }, Number(config("stream.poll_interval_ms")));
+
+        res.on("close", () => {
+            clearInterval(heartbeat);
+            clearInterval(session);
+            unsubscribe();
+        });
+
+        if (lastSentId > 0) {
+            let missed: StreamEvent[];
+
+            do {
+                missed = await EventStreamService.since(userId, lastSentId);
+                missed.forEach(send);
+            } while (missed.length >= Number(config("stream.replay_limit")) && !res.writableEnded);
+        }
+
+        pending.forEach(send);
+        pending = null;
+    };
+
+    /**
+     * Check that the access token the stream was opened with still exists
+     * and has not expired
+     *
+     * @param req
+     * @returns
+     */
+    private sessionIsActive = async (req: Request) => {
+        if (!req.authToken) {
+            return false;
+        }
+
+        const count = await prisma.personalAccessToken.count({
+            where: { token: req.authToken, expiresAt: { gt: new Date() } },
+        });
+
+        return count > 0;
+    };
+}
@@ -2,9 +2,13 @@ import { EventType, Prisma, TipStatus } from "@prisma/client";
 import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
+import { ExchangeRateService } from "src/services/ExchangeRateService";
 import { RequestError } from "src/utils/errors";
+import Resource from "src/resources/index";
 import TipCollection from "src/resources/TipCollection";
 import TipResource from "src/resources/TipResource";
+import { TipEventService } from "src/services/TipEventService";
+import { TipVerificationService } from "src/services/TipVerificationService";
 import { prisma } from "src/db";
 import { trackBusinessEvent } from "src/utils/analyticsMiddleware";
 
@@ -105,7 +109,8 @@ export default class extends BaseController {
 
 
         new TipCollection(req, res, {
-            data,
+            // Amounts are shown in the viewer's preferred currency as well
+            data: await ExchangeRateService.forViewer(data, userId),
             pagination: meta(total, data.length),
         })
             .json()
@@ -167,7 +172,9 @@ export default class extends BaseController {
             isAdmin || tip!.senderId === userId || tip!.receiverId === userId;
         RequestError.assertFound(canAccess, "Access denied", 403);
 
-        new TipResource(req, res, tip!)
+        const [converted] = await ExchangeRateService.forViewer([tip!], userId);
+
+        new TipResource(req, res, converted)
             .json()
             .status(200)
             .additional({
@@ -218,16 +225,24 @@ export default class extends BaseController {
             RequestError.assertFound(artisan, "Artisan not found", 404);
         }
 
-        const tip = await prisma.tip.create({
+        const currency = data.currency || "XLM";
+
+        // The transaction is verified on chain before the tip is completed
+        const transaction = data.tx_hash
+            ? await TipVerificationService.prepare(senderId, data.receiver_id, currency, data.tx_hash)
+            : {};
+
+        let tip = await prisma.tip.create({
             data: {
                 amount: parseFloat(data.amount),
-                currency: data.currency || "XLM",
+                currency,
                 message: data.message,
-                status: data.tx_hash ? TipStatus.COMPLETED : TipStatus.PENDING,
+                status: TipStatus.PENDING,
                 senderId: senderId,
                 receiverId: data.receiver_id,
                 artisanId: data.artisan_id || null,
-                txHash: data.tx_hash || null,
+                expiresAt: TipVerificationService.expiresAt(),
+                ...transaction,
             },
             include: {
                 sender: {
@@ -254,8 +269,17 @@ export default class extends BaseController {
                     },
                 },
             },
+        }).catch(TipVerificationService.claimed);
+
+        await TipEventService.record(tip, "CREATED", {
+            performedBy: senderId,
+            metadata: { txHash: tip.txHash },
         });
 
+        if (tip.txHash) {
+            tip = { ...tip, ...await TipVerificationService.verify(tip) };
+        }
+
         // Track tip sent event
         trackBusinessEvent(EventType.TIP_SENT, senderId, {
             tipId: tip.id,
@@ -265,7 +289,9 @@ export default class extends BaseController {
             artisanId: tip.artisanId,
         });
 
-        new TipResource(req, res, tip)
+        const [converted] = await ExchangeRateService.forViewer([tip], senderId);
+
+        new TipResource(req, res, converted)
             .json()
             .status(201)
             .additional({
@@ -276,7 +302,7 @@ export default class extends BaseController {
     };
 
     /**
-     * Update tip status (for blockchain transaction confirmation)
+     * Submit the transaction of a tip for verification, or cancel it
      * Only the sender can update, and only PENDING tips can be updated
      *
      * PUT /api/tips/:id
@@ -307,22 +333,21 @@ export default class extends BaseController {
         );
 
         const data = await this.validateAsync(req, {
-            status: "nullable|string|in:COMPLETED,CANCELLED",
+            status: "nullable|string|in:CANCELLED",
             tx_hash: "nullable|string",
         });
 
-        // If tx_hash is provided, status should be COMPLETED
-        const newStatus = data.tx_hash
-            ? TipStatus.COMPLETED
-            : data.status
-                ? (data.status as TipStatus)
-                : existingTip!.status;
+        // Tips are only completed once their transaction is verified on chain
+        const cancelled = data.status === TipStatus.CANCELLED;
+        const transaction = data.tx_hash && !cancelled
+            ? await TipVerificationService.prepare(existingTip.senderId, existingTip.receiverId, existingTip.currency, data.tx_hash, { tipId })
+            : {};
 
-        const tip = await prisma.tip.update({
+        let tip = await prisma.tip.update({
             where: { id: tipId },
             data: {
-                status: newStatus,
-                txHash: data.tx_hash || existingTip!.txHash,
+                status: cancelled ? TipStatus.CANCELLED : undefined,
+                ...transaction,
             },
             include: {
                 sender: {
@@ -349,9 +374,22 @@ export default class extends BaseController {
                     },
                 },
             },
-        });
+        }).catch(TipVerificationService.claimed);
+
+        if (cancelled || data.tx_hash) {
+            await TipEventService.record(tip, cancelled ? "CANCELLED" : "TX_SUBMITTED", {
+                performedBy: userId,
+                metadata: { txHash: tip.txHash },
+            });
+        }
+
+        if (data.tx_hash && !cancelled) {
+            tip = { ...tip, ...await TipVerificationService.verify(tip) };
+        }
 
-        new TipResource(req, res, tip)
+        const [converted] = await ExchangeRateService.forViewer([tip], userId);
+
+        new TipResource(req, res, converted)
             .json()
             .status(202)
             .additional({
@@ -360,4 +398,40 @@ export default class extends BaseController {
                 code: 202,
             });
     };
+
+    /**
+     * Get the event trail of a tip, oldest first
+     * Only sender, recipient, or admin can view
+     *
+     * GET /api/tips/:id/events
+     *
+     * @param req
+     * @param res
+     */
+    events = async (req: Request, res: Response) => {
+        const tipId = String(req.params.id || "-");
+        const userId = req.user?.id;
+        const isAdmin = req.user?.role === "ADMIN";
+
+        const tip = await prisma.tip.findUnique({
+            where: { id: tipId },
+        });
+
+        RequestError.assertFound(tip, "Tip not found", 404);
+
+        const canAccess =
+            isAdmin || tip!.senderId === userId || tip!.receiverId === userId;
+        RequestError.assertFound(canAccess, "Access denied", 403);
+
+        Resource(req, res, {
+            data: await TipEventService.list(tipId),
+        })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
 }
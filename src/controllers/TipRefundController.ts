@@ -0,0 +1,180 @@
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { RequestError } from "src/utils/errors";
+import Resource from "src/resources/index";
+import { TipRefundService } from "src/services/TipRefundService";
+import { prisma } from "src/db";
+
+/**
+ * TipRefundController
+ *
+ * Handles refund requests on completed tips:
+ * - Only the sender can request a refund
+ * - The receiver or an admin approves or rejects it
+ * - The receiver or an admin records the refund transaction
+ */
+export default class extends BaseController {
+    /**
+     * List the refund requests of a tip
+     * Only sender, recipient, or admin can view
+     *
+     * GET /api/tips/:id/refunds
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const tip = await this.findTip(req);
+
+        const canAccess = tip.senderId === req.user?.id || TipRefundService.canReview(tip, req.user);
+        RequestError.assertFound(canAccess, "Access denied", 403);
+
+        const data = await prisma.tipRefund.findMany({
+            where: { tipId: tip.id },
+            orderBy: { createdAt: "desc" },
+        });
+
+        Resource(req, res, { data })
+            .json()
+            .status(200)
+            .additional({
+                status: "success",
+                message: "OK",
+                code: 200,
+            });
+    };
+
+    /**
+     * Request a refund of a completed tip
+     *
+     * POST /api/tips/:id/refunds
+     *
+     * @param req
+     * @param res
+     */
+    create = async (req: Request, res: Response) => {
+        const tip = await this.findTip(req);
+
+        RequestError.assertFound(tip.senderId === req.user?.id, "Only the sender can request a refund", 403);
+
+        const data = this.validate(req, {
+            reason: "required|string|min:10|max:1000",
+        });
+
+        const refund = await TipRefundService.request(tip, data.reason);
+
+        Resource(req, res, { data: refund })
+            .json()
+            .status(201)
+            .additional({
+                status: "success",
+                message: "Refund requested successfully",
+                code: 201,
+            });
+    };
+
+    /**
+     * Approve the open refund request of a tip, optionally with the refund transaction
+     *
+     * PUT /api/tips/:id/refunds/approve
+     *
+     * @param req
+     * @param res
+     */
+    approve = async (req: Request, res: Response) => {
+        const tip = await this.findTip(req);
+
+        RequestError.assertFound(TipRefundService.canReview(tip, req.user), "Access denied", 403);
+
+        const data = this.validate(req, {
+            note: "nullable|string|max:1000",
+            refund_tx_hash: "nullable|string",
+        });
+
+        const refund = await TipRefundService.approve(tip, req.user!.id, {
+            note: data.note,
+            refundTxHash: data.refund_tx_hash,
+        });
+
+        Resource(req, res, { data: refund })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Refund approved successfully",
+                code: 202,
+            });
+    };
+
+    /**
+     * Reject the open refund request of a tip
+     *
+     * PUT /api/tips/:id/refunds/reject
+     *
+     * @param req
+     * @param res
+     */
+    reject = async (req: Request, res: Response) => {
+        const tip = await this.findTip(req);
+
+        RequestError.assertFound(TipRefundService.canReview(tip, req.user), "Access denied", 403);
+
+        const data = this.validate(req, {
+            reason: "required|string|max:1000",
+        });
+
+        const refund = await TipRefundService.reject(tip, req.user!.id, data.reason);
+
+        Resource(req, res, { data: refund })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Refund rejected successfully",
+                code: 202,
+            });
+    };
+
+    /**
+     * Record the transaction returning the funds of an approved refund
+     *
+     * PUT /api/tips/:id/refunds/complete
+     *
+     * @param req
+     * @param res
+     */
+    complete = async (req: Request, res: Response) => {
+        const tip = await this.findTip(req);
+
+        RequestError.assertFound(TipRefundService.canReview(tip, req.user), "Access denied", 403);
+
+        const data = this.validate(req, {
+            refund_tx_hash: "required|string",
+        });
+
+        const refund = await TipRefundService.complete(tip, req.user!.id, data.refund_tx_hash);
+
+        Resource(req, res, { data: refund })
+            .json()
+            .status(202)
+            .additional({
+                status: "success",
+                message: "Tip refunded successfully",
+                code: 202,
+            });
+    };
+
+    /**
+     * Find the tip a request is about
+     */
+    private findTip = async (req: Request) => {
+        const tip = await prisma.tip.findUnique({
+            where: { id: String(req.params.id || "-") },
+        });
+
+        RequestError.assertFound(tip, "Tip not found", 404);
+
+        return tip;
+    };
+}
@@ -1,7 +1,11 @@
 import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import ArtisanSearchController from "../ArtisanSearchController";
+import { FullTextSearchService } from "../../services/FullTextSearchService";
+import SearchCacheService from "../../services/SearchCacheService";
 import { prisma } from "../../db";
+import { validate } from "../../utils/validator";
 
 // Mock the validator module BEFORE any imports
 vi.mock("../../utils/validator", () => ({
@@ -18,19 +22,35 @@ vi.mock("../../utils/validator", () => ({
 // Mock the dependencies
 vi.mock("../../db", () => ({
   prisma: {
+    $queryRaw: vi.fn(),
     artisan: {
       findMany: vi.fn(),
       count: vi.fn(),
+      groupBy: vi.fn(),
     },
     category: {
       findMany: vi.fn(),
     },
+    subcategory: {
+      findMany: vi.fn(),
+    },
     location: {
+      findMany: vi.fn(),
       groupBy: vi.fn(),
+      aggregate: vi.fn(),
     },
   },
 }));
 
+vi.mock("../../services/FullTextSearchService", () => ({
+  FullTextSearchService: {
+    query: vi.fn().mockReturnValue("query"),
+    rankArtisans: vi.fn().mockResolvedValue(new Map()),
+    highlightArtisans: vi.fn().mockResolvedValue(new Map()),
+    suggest: vi.fn().mockResolvedValue([]),
+  },
+}));
+
 vi.mock("../../utils/analyticsMiddleware", () => ({
   trackBusinessEvent: vi.fn(),
 }));
@@ -129,7 +149,7 @@ describe("ArtisanSearchController", () => {
             lastName: "Doe",
             avatar: null,
           },
-          reviews: [{ rating: 5 }, { rating: 4 }],
+          rating: { average: 4.5, count: 2, distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 }, score: 3.43 },
         },
       ];
 
@@ -199,16 +219,139 @@ describe("ArtisanSearchController", () => {
 
       expect((controller as any).pagination).toHaveBeenCalledWith(mockRequest);
     });
+
+    it("should only return artisans within the radius, with their distance", async () => {
+      (validate as any).mockReturnValueOnce({ latitude: "6.5", longitude: "3.4", radius: "10" });
+      (prisma.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "near", distance: 1.234 }])
+        .mockResolvedValueOnce([{ total: 1n }]);
+      (prisma.artisan.findMany as any).mockResolvedValue([{ id: "near", rating: null }]);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const [strings, ...values] = (prisma.$queryRaw as any).mock.calls[0];
+      const sql = strings.join("?") + values.map((value: any) => value?.sql ?? "").join(" ");
+
+      expect(sql).toContain("earth_box");
+      expect(sql).toContain("LIMIT");
+      expect((prisma.artisan.findMany as any).mock.calls[0][0].where).toEqual({ id: { in: ["near"] } });
+      expect(prisma.artisan.count).not.toHaveBeenCalled();
+      expect(jsonMock.mock.calls[0][0].data[0].distanceKm).toBe(1.23);
+    });
+
+    it("should sort artisans by distance from a city", async () => {
+      (validate as any).mockReturnValueOnce({ near: "Lagos", sortBy: "distance" });
+      (prisma.location.aggregate as any)
+        .mockResolvedValueOnce({ _avg: { latitude: null, longitude: null } })
+        .mockResolvedValueOnce({ _avg: { latitude: 6.5, longitude: 3.4 } });
+      (prisma.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "a", distance: 2 }, { id: "b", distance: 5 }])
+        .mockResolvedValueOnce([{ total: 2n }]);
+      (prisma.artisan.findMany as any).mockResolvedValueOnce([{ id: "b", rating: null }, { id: "a", rating: null }]);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const body = jsonMock.mock.calls[0][0];
+
+      expect(body.data.map((artisan: any) => artisan.id)).toEqual(["a", "b"]);
+      expect(body.data.map((artisan: any) => artisan.distanceKm)).toEqual([2, 5]);
+      expect(body.filters).toMatchObject({ latitude: 6.5, longitude: 3.4 });
+    });
+
+    it("should rank search results by relevance, with highlights", async () => {
+      (validate as any).mockReturnValueOnce({ search: "weaving", sortBy: "relevance" });
+      (prisma.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "best", distance: null }, { id: "other", distance: null }])
+        .mockResolvedValueOnce([{ total: 12n }]);
+      (FullTextSearchService.highlightArtisans as any).mockResolvedValueOnce(new Map([
+        ["best", { name: "<mark>Weaving</mark> Studio", description: "Hand <mark>weaving</mark>" }],
+      ]));
+      (prisma.artisan.findMany as any).mockResolvedValueOnce([{ id: "other", rating: null }, { id: "best", rating: null }]);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const body = jsonMock.mock.calls[0][0];
+      const [strings, ...values] = (prisma.$queryRaw as any).mock.calls[0];
+      const sql = strings.join("?") + values.map((value: any) => value?.sql ?? "").join(" ");
+
+      expect(sql).toContain("ts_rank");
+      expect(sql).toContain('"rank" DESC');
+      expect(FullTextSearchService.rankArtisans).not.toHaveBeenCalled();
+      expect((prisma.artisan.findMany as any).mock.calls[0][0].where).toEqual({ id: { in: ["best", "other"] } });
+      expect(body.data.map((artisan: any) => artisan.id)).toEqual(["best", "other"]);
+      expect(body.data[0].highlights.name).toBe("<mark>Weaving</mark> Studio");
+      expect(body.data[1].highlights).toBeNull();
+    });
+
+    it("should suggest close matches when a search finds nothing", async () => {
+      (validate as any).mockReturnValueOnce({ search: "wevaing" });
+      (FullTextSearchService.suggest as any).mockResolvedValueOnce([{ label: "Weaving", type: "CATEGORY", score: 0.5 }]);
+      (prisma.$queryRaw as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0n }]);
+      (prisma.artisan.findMany as any).mockResolvedValue([]);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      expect(jsonMock.mock.calls[0][0].didYouMean).toEqual(["Weaving"]);
+    });
+
+    it("should require a location to sort by distance", async () => {
+      (validate as any).mockReturnValueOnce({ sortBy: "distance" });
+
+      await expect(
+        controller.index(mockRequest as Request, mockResponse as Response),
+      ).rejects.toMatchObject({ statusCode: 422 });
+    });
+
+    it("should filter artisans by their average rating", async () => {
+      (validate as any).mockReturnValueOnce({ minRating: "4" });
+      (prisma.artisan.findMany as any).mockResolvedValue([]);
+      (prisma.artisan.count as any).mockResolvedValue(0);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.artisan.findMany as any).mock.calls[0][0].where.rating).toEqual({
+        is: { average: { gte: 4 } },
+      });
+    });
+
+    it("should sort artisans by weighted rating, with their rating statistics", async () => {
+      (validate as any).mockReturnValueOnce({ sortBy: "rating" });
+      (prisma.artisan.findMany as any).mockResolvedValueOnce([
+        { id: "many", rating: { average: 4.8, count: 40, distribution: { 4: 8, 5: 32 }, score: 4.6 } },
+        { id: "unrated", rating: { average: 0, count: 0, distribution: {}, score: 3 } },
+        { id: "few", rating: { average: 5, count: 1, distribution: { 5: 1 }, score: 3.333 } },
+      ]);
+      (prisma.artisan.count as any).mockResolvedValue(3);
+
+      await controller.index(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const { orderBy, take, skip } = (prisma.artisan.findMany as any).mock.calls[0][0];
+      const [many, unrated, few] = jsonMock.mock.calls[0][0].data;
+
+      expect(orderBy).toEqual([{ rating: { score: "desc" } }, { name: "asc" }]);
+      expect([take, skip]).toEqual([20, 0]);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(many).toMatchObject({ averageRating: 4.8, weightedRating: 4.6, reviewCount: 40 });
+      expect(unrated).toMatchObject({ averageRating: null, weightedRating: 3, reviewCount: 0 });
+      expect(few.weightedRating).toBe(3.33);
+    });
   });
 
   describe("suggestions", () => {
     it("should return search suggestions", async () => {
       const mockSuggestions = [
-        { name: "Woodworking", category: { name: "Crafts" } },
-        { name: "Pottery", subcategory: { name: "Ceramics" } },
+        { label: "Woodworking", type: "CATEGORY", score: 0.8 },
+        { label: "Woodwork Studio", type: "ARTISAN", score: 0.7 },
       ];
 
-      (prisma.artisan.findMany as any).mockResolvedValue(mockSuggestions);
+      (FullTextSearchService.suggest as any).mockResolvedValueOnce(mockSuggestions);
 
       mockRequest.query = { query: "Wood" };
 
@@ -217,7 +360,7 @@ describe("ArtisanSearchController", () => {
         mockResponse as Response,
       );
 
-      expect(prisma.artisan.findMany).toHaveBeenCalled();
+      expect(FullTextSearchService.suggest).toHaveBeenCalled();
     });
 
     it("should validate query parameter", async () => {
@@ -237,6 +380,106 @@ describe("ArtisanSearchController", () => {
     });
   });
 
+  describe("facets", () => {
+    const groups: Record<string, any[]> = {
+      categoryId: [{ value: "pottery", count: 2n }, { value: "wood", count: 5n }],
+      subcategoryId: [{ value: null, count: 7n }],
+      locationId: [
+        { value: "ikeja", count: 3n },
+        { value: "lekki", count: 1n },
+        { value: "abuja", count: 3n },
+      ],
+      type: [{ value: "PERSON", count: 7n }],
+      isVerified: [{ value: true, count: 7n }, { value: false, count: 2n }],
+    };
+
+    // The SQL and values of the queries, by the column they count artisans by
+    const queries = (): Array<{ column: string | null, sql: string, values: unknown[] }> => (prisma.$queryRaw as any).mock.calls.map(([strings, ...values]: any) => {
+      const query = Prisma.sql(strings, ...values);
+
+      return { column: query.sql.match(/SELECT a\."(\w+)"/)?.[1] ?? null, sql: query.sql, values: query.values };
+    });
+
+    beforeEach(() => {
+      (prisma.$queryRaw as any).mockImplementation((strings: any, ...values: any[]) => {
+        const { sql } = Prisma.sql(strings, ...values);
+        const column = sql.match(/SELECT a\."(\w+)"/)?.[1];
+
+        return Promise.resolve(column ? groups[column] : [{ total: 1n }]);
+      });
+      (prisma.category.findMany as any).mockResolvedValue([{ id: "wood", name: "Woodworking" }, { id: "pottery", name: "Pottery" }]);
+      (prisma.subcategory.findMany as any).mockResolvedValue([]);
+      (prisma.location.findMany as any).mockResolvedValue([
+        { id: "ikeja", city: "Lagos", state: "Lagos", country: "Nigeria" },
+        { id: "lekki", city: "Lagos", state: "Lagos", country: "Nigeria" },
+        { id: "abuja", city: "Abuja", state: "FCT", country: "Nigeria" },
+      ]);
+    });
+
+    it("should count each facet without its own filter", async () => {
+      (validate as any).mockReturnValueOnce({ category: "Pottery", city: "Lagos", minPrice: "50" });
+
+      await controller.facets(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const sql = (column: string) => queries().find(query => query.column === column)!.sql;
+
+      expect(sql("categoryId")).not.toContain('c."name"');
+      expect(sql("categoryId")).toContain('lower(l."city")');
+      expect(sql("locationId")).not.toContain('l."city"');
+      expect(sql("isVerified")).not.toContain('a."isVerified" =');
+      expect(sql("type")).toContain('a."isVerified" =');
+
+      const { data } = jsonMock.mock.calls[0][0];
+
+      expect(data.categories).toEqual([{ value: "Woodworking", count: 5 }, { value: "Pottery", count: 2 }]);
+      expect(data.cities.map(({ value, count }: any) => [value, count])).toEqual([["Lagos", 4], ["Abuja", 3]]);
+      expect(data.verified).toEqual([{ value: true, count: 7 }, { value: false, count: 2 }]);
+      expect(data.priceRanges).toHaveLength(6);
+      expect(data.priceRanges.at(-1)).toEqual({ min: 1000, max: null, count: 1 });
+      expect(SearchCacheService.set).toHaveBeenCalledWith(expect.objectContaining({ facets: true, category: "Pottery" }), data);
+    });
+
+    it("should count the price ranges like the price filters match them", async () => {
+      (validate as any).mockReturnValueOnce({ minPrice: "50" });
+
+      await controller.facets(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      const counts = queries().filter(query => query.column === null);
+
+      expect(counts).toHaveLength(6);
+      expect(counts[1].sql).toContain('a."priceRange" @>');
+      expect(counts[1].values).toEqual(expect.arrayContaining([50, 100, "[50,100]"]));
+      expect(counts[5].values).toEqual(expect.arrayContaining([1000, "[1000]"]));
+    });
+
+    it("should match the radius and the search in the counting queries", async () => {
+      (validate as any).mockReturnValueOnce({ search: "weaving", latitude: "6.5", longitude: "3.4", radius: "10" });
+
+      await controller.facets(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      for (const { sql } of queries()) {
+        expect(sql).toContain("earth_box");
+        expect(sql).toContain('a."searchVector" @@');
+      }
+
+      expect(FullTextSearchService.rankArtisans).not.toHaveBeenCalled();
+    });
+
+    it("should return cached facets", async () => {
+      const cached = { categories: [], subcategories: [], cities: [], types: [], verified: [], priceRanges: [] };
+      (SearchCacheService.get as any).mockResolvedValueOnce(cached);
+
+      await controller.facets(mockRequest as Request, mockResponse as Response);
+      await new Promise(setImmediate);
+
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(jsonMock.mock.calls[0][0].data).toEqual(cached);
+    });
+  });
+
   describe("popular", () => {
     it("should return popular categories and locations", async () => {
       const mockCategories = [
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import SearchController from '../SearchController';
 import { Request, Response } from 'express';
+import { FullTextSearchService } from 'src/services/FullTextSearchService';
+import Resource from 'src/resources';
 import { prisma } from 'src/db';
 
 // Mock Prisma
@@ -17,6 +19,18 @@ vi.mock('src/db', () => ({
   },
 }));
 
+// Mock full-text search
+vi.mock('src/services/FullTextSearchService', () => ({
+  FullTextSearchService: {
+    rankArtisans: vi.fn().mockResolvedValue(new Map()),
+    rankCurators: vi.fn().mockResolvedValue(new Map()),
+    countArtisans: vi.fn().mockResolvedValue(0),
+    countCurators: vi.fn().mockResolvedValue(0),
+    highlightArtisans: vi.fn().mockResolvedValue(new Map()),
+    suggest: vi.fn().mockResolvedValue([]),
+  },
+}));
+
 // Mock Resource
 vi.mock('src/resources', () => ({
   default: vi.fn().mockImplementation((req, res, data) => ({
@@ -73,49 +87,48 @@ describe('SearchController', () => {
         }),
       }));
     });
-  });
 
-  describe('suggestions', () => {
-    it('should return correctly formatted labels for artisans and curators', async () => {
-      req.query = { query: 'john' };
+    it('should order matches by relevance, a page at a time', async () => {
+      req.query = { query: 'weav', page: '2', limit: '1' };
 
-      (prisma.artisan.findMany as any).mockResolvedValue([
-        { name: 'John Artisan' }
-      ]);
-      (prisma.curator.findMany as any).mockResolvedValue([
-        {
-          user: { firstName: 'John', lastName: 'Curator' }
-        }
-      ]);
+      (FullTextSearchService.rankArtisans as any).mockResolvedValue(new Map([['a1', 0.2]]));
+      (FullTextSearchService.rankCurators as any).mockResolvedValue(new Map([['c1', 0.6]]));
+      (FullTextSearchService.countArtisans as any).mockResolvedValue(7);
+      (FullTextSearchService.countCurators as any).mockResolvedValue(3);
+      (prisma.artisan.findMany as any).mockResolvedValue([{ id: 'a1', name: 'Weaver' }]);
+      (prisma.curator.findMany as any).mockResolvedValue([{ id: 'c1', userId: 'user-1' }]);
 
-      await controller.suggestions(req as Request, res as Response);
+      await controller.index(req as Request, res as Response);
 
-      // Verify Curator query uses verificationStatus: 'VERIFIED'
-      expect(prisma.curator.findMany).toHaveBeenCalledWith(expect.objectContaining({
-        where: expect.objectContaining({
-          verificationStatus: 'VERIFIED',
-        }),
+      expect(prisma.artisan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { isActive: true, id: { in: ['a1'] } },
       }));
+      expect(FullTextSearchService.rankArtisans).toHaveBeenCalledWith('weav', { active: true, take: 1, skip: 1 });
+      expect(FullTextSearchService.rankCurators).toHaveBeenCalledWith('weav', { take: 1, skip: 1 });
+      expect(prisma.artisan.count).not.toHaveBeenCalled();
 
-      // Verify select structure for curator suggestions
-      expect(prisma.curator.findMany).toHaveBeenCalledWith(expect.objectContaining({
-        select: expect.objectContaining({
-          user: expect.objectContaining({
-            select: { firstName: true, lastName: true }
-          })
-        }),
-      }));
+      const [, , { data }] = (Resource as any).mock.calls[0];
+      const { additional } = (Resource as any).mock.results[0].value;
+
+      expect(data.map((result: any) => result.id)).toEqual(['c1', 'a1']);
+      expect(additional.mock.calls[0][0].counts).toEqual({ artisans: 7, curators: 3 });
     });
+  });
+
+  describe('suggestions', () => {
+    it('should suggest close matches including curators', async () => {
+      req.query = { query: 'jonh' };
 
-    it('should handle empty suggestions gracefully', async () => {
-      req.query = { query: 'nonexistent' };
-      (prisma.artisan.findMany as any).mockResolvedValue([]);
-      (prisma.curator.findMany as any).mockResolvedValue([]);
+      (FullTextSearchService.suggest as any).mockResolvedValue([
+        { label: 'John Curator', type: 'CURATOR', score: 0.6 },
+      ]);
 
       await controller.suggestions(req as Request, res as Response);
 
-      expect(prisma.artisan.findMany).toHaveBeenCalled();
-      expect(prisma.curator.findMany).toHaveBeenCalled();
+      expect(FullTextSearchService.suggest).toHaveBeenCalledWith('jonh', { curators: true });
+      expect((Resource as any).mock.calls[0][2].data).toEqual([
+        { label: 'John Curator', type: 'CURATOR', score: 0.6 },
+      ]);
     });
   });
 });
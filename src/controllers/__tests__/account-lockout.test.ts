@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { AccountLockoutService } from 'src/services/AccountLockoutService';
+import { UserRole } from '@prisma/client';
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Account lockout', () => {
+    const userIds: string[] = [];
+    const emails: string[] = [];
+
+    const createUser = async (role: UserRole = UserRole.USER) => {
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'Locked',
+                lastName: 'Out',
+                role,
+            },
+        });
+
+        userIds.push(user.id);
+        emails.push(user.email);
+
+        return user;
+    };
+
+    const login = (email: string, password: string) => request(app)
+        .post('/api/auth/login')
+        .send({ email, password });
+
+    const lock = async (user: Awaited<ReturnType<typeof createUser>>) => {
+        const spy = vi.spyOn(AccountLockoutService, 'sendUnlockEmail').mockImplementation(() => undefined);
+
+        for (let i = 0; i < 5; i++) {
+            await AccountLockoutService.recordFailure(user.email, user);
+        }
+
+        const token = spy.mock.calls[0][1];
+        spy.mockRestore();
+
+        return token;
+    };
+
+    let adminToken: string;
+
+    beforeAll(async () => {
+        const admin = await createUser(UserRole.ADMIN);
+        const response = await login(admin.email, 'password');
+
+        adminToken = response.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.accountLockout.deleteMany({ where: { email: { in: emails } } });
+        await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    });
+
+    it('should not reveal whether the account exists', async () => {
+        const user = await createUser();
+        const unknown = faker.internet.email().toLowerCase();
+        emails.push(unknown);
+
+        const wrongPassword = await login(user.email, 'not-the-password').expect(422);
+        const unknownEmail = await login(unknown, 'not-the-password').expect(422);
+
+        expect(unknownEmail.body.message).toBe(wrongPassword.body.message);
+        expect(unknownEmail.body.errors).toEqual(wrongPassword.body.errors);
+
+        const lockouts = await prisma.accountLockout.findMany({ where: { email: { in: [user.email, unknown] } } });
+        expect(lockouts).toHaveLength(2);
+    });
+
+    it('should delay further attempts exponentially', async () => {
+        const email = faker.internet.email().toLowerCase();
+        emails.push(email);
+
+        await AccountLockoutService.recordFailure(email);
+        expect(await AccountLockoutService.retryAfter(email)).toBe(0);
+
+        const { lockout: second } = await AccountLockoutService.recordFailure(email);
+        const { lockout: third } = await AccountLockoutService.recordFailure(email);
+
+        const delay = (lockout: typeof second) => lockout.retryAfter!.getTime() - lockout.lastFailedAt!.getTime();
+
+        expect(delay(second)).toBe(1000);
+        expect(delay(third)).toBe(2000);
+    });
+
+    it('should count every one of parallel failures', async () => {
+        const email = faker.internet.email().toLowerCase();
+        emails.push(email);
+
+        await Promise.all([1, 2, 3].map(() => AccountLockoutService.recordFailure(email)));
+
+        const lockout = await prisma.accountLockout.findUniqueOrThrow({ where: { email } });
+        expect(lockout.failedAttempts).toBe(3);
+    });
+
+    it('should lock the account and unlock it with the one-time link', async () => {
+        const user = await createUser();
+        const token = await lock(user);
+
+        const response = await login(user.email, 'password').expect(429);
+        expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+
+        await request(app).post('/api/auth/unlock').send({ token }).expect(202);
+        await request(app).post('/api/auth/unlock').send({ token }).expect(422);
+
+        await login(user.email, 'password').expect(202);
+    });
+
+    it('should let admins list and clear lockouts', async () => {
+        const user = await createUser();
+        await lock(user);
+
+        const list = await request(app)
+            .get('/api/admin/lockouts')
+            .set('Authorization', `Bearer ${adminToken}`)
+            .expect(200);
+
+        const lockout = list.body.data.find((entry: { email: string }) => entry.email === user.email);
+        expect(lockout.lockedUntil).toBeDefined();
+        expect(lockout.unlockTokenHash).toBeUndefined();
+
+        await request(app)
+            .delete(`/api/admin/lockouts/${lockout.id}`)
+            .set('Authorization', `Bearer ${adminToken}`)
+            .expect(202);
+
+        expect(await AccountLockoutService.retryAfter(user.email)).toBe(0);
+    });
+
+    it('should refuse lockout management to non-admins', async () => {
+        const user = await createUser();
+        const { body } = await login(user.email, 'password');
+        await lock(user);
+
+        const lockout = await prisma.accountLockout.findUniqueOrThrow({ where: { email: user.email } });
+
+        await request(app)
+            .get('/api/admin/lockouts')
+            .set('Authorization', `Bearer ${body.token}`)
+            .expect(403);
+
+        await request(app)
+            .delete(`/api/admin/lockouts/${lockout.id}`)
+            .set('Authorization', `Bearer ${body.token}`)
+            .expect(403);
+
+        expect(await AccountLockoutService.retryAfter(user.email)).toBeGreaterThan(0);
+    });
+});
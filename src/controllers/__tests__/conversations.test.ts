@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Application, User, UserRole } from "@prisma/client";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Conversations", () => {
+    let curator: User;
+    let applicant: User;
+    let outsider: User;
+    let curatorToken: string;
+    let applicantToken: string;
+    let outsiderToken: string;
+    let application: Application;
+    let categoryId: string;
+    let locationId: string;
+
+    const token = async (user: User) => {
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    const open = (authToken: string, payload: Record<string, string>) => request(app)
+        .post("/api/conversations")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send(payload);
+
+    const send = (authToken: string, conversationId: string, payload: Record<string, unknown>) => request(app)
+        .post(`/api/conversations/${conversationId}/messages`)
+        .set("Authorization", `Bearer ${authToken}`)
+        .send(payload);
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+        const roles = { curator: UserRole.CURATOR, applicant: UserRole.USER, outsider: UserRole.USER };
+
+        [curator, applicant, outsider] = await Promise.all(Object.entries(roles).map(([name, role]) => prisma.user.create({
+            data: {
+                email: `conversation-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                role,
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [curatorToken, applicantToken, outsiderToken] = await Promise.all([token(curator), token(applicant), token(outsider)]);
+
+        categoryId = (await prisma.category.create({ data: { name: `Conversations ${runId}` } })).id;
+        locationId = (await prisma.location.create({
+            data: { city: `City ${runId}`, state: "TS", country: "Testland", latitude: 0, longitude: 0 },
+        })).id;
+
+        const listing = await prisma.artisan.create({
+            data: { name: "Weaving", description: "Weaves rugs", categoryId, locationId, curatorId: curator.id },
+        });
+
+        application = await prisma.application.create({
+            data: { listingId: listing.id, applicantId: applicant.id },
+        });
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [curator?.id, applicant?.id, outsider?.id].filter(Boolean) } } });
+        await prisma.category.deleteMany({ where: { id: categoryId } });
+        await prisma.location.deleteMany({ where: { id: locationId } });
+    });
+
+    describe("application threads", () => {
+        it("should open a single thread for the participants only", async () => {
+            const first = await open(applicantToken, { type: "APPLICATION", application_id: application.id });
+            const second = await open(curatorToken, { type: "APPLICATION", application_id: application.id });
+
+            expect(first.statusCode).toBe(200);
+            expect(second.body.data.id).toBe(first.body.data.id);
+            expect(first.body.data.participants).toHaveLength(2);
+
+            const outsiderOpen = await open(outsiderToken, { type: "APPLICATION", application_id: application.id });
+            expect(outsiderOpen.statusCode).toBe(403);
+
+            const outsiderRead = await request(app)
+                .get(`/api/conversations/${first.body.data.id}/messages`)
+                .set("Authorization", `Bearer ${outsiderToken}`);
+            expect(outsiderRead.statusCode).toBe(403);
+        });
+
+        it("should count unread messages and record read receipts", async () => {
+            const conversationId = (await open(applicantToken, { type: "APPLICATION", application_id: application.id })).body.data.id;
+
+            await send(applicantToken, conversationId, { body: "Could you make it blue?" });
+            const last = await send(applicantToken, conversationId, { body: "And a bit larger?" });
+
+            expect(last.statusCode).toBe(201);
+            expect(last.body.data.readBy).toEqual([]);
+
+            const unread = await request(app)
+                .get("/api/conversations/unread")
+                .set("Authorization", `Bearer ${curatorToken}`);
+            expect(unread.body.data).toEqual({ messages: 2, conversations: 1 });
+
+            const listed = await request(app)
+                .get("/api/conversations")
+                .set("Authorization", `Bearer ${curatorToken}`);
+            expect(listed.body.data[0]).toMatchObject({ id: conversationId, unreadCount: 2 });
+            expect(listed.body.data[0].lastMessage.body).toBe("And a bit larger?");
+
+            const read = await request(app)
+                .put(`/api/conversations/${conversationId}/read`)
+                .set("Authorization", `Bearer ${curatorToken}`);
+            expect(read.statusCode).toBe(202);
+
+            const messages = await request(app)
+                .get(`/api/conversations/${conversationId}/messages?limit=1`)
+                .set("Authorization", `Bearer ${applicantToken}`);
+            expect(messages.body.data[0]).toMatchObject({ body: "And a bit larger?", readBy: [curator.id] });
+            expect(messages.body.pagination.total).toBe(2);
+
+            const after = await request(app)
+                .get("/api/conversations/unread")
+                .set("Authorization", `Bearer ${curatorToken}`);
+            expect(after.body.data).toEqual({ messages: 0, conversations: 0 });
+        });
+
+        it("should only attach media the sender uploaded", async () => {
+            const conversationId = (await open(applicantToken, { type: "APPLICATION", application_id: application.id })).body.data.id;
+
+            const media = await prisma.media.create({
+                data: {
+                    filename: "sketch.png",
+                    originalName: "sketch.png",
+                    mimeType: "image/png",
+                    size: 2048,
+                    path: `media/${faker.string.uuid()}.png`,
+                    userId: applicant.id,
+                },
+            });
+
+            const sent = await send(applicantToken, conversationId, { media_ids: [media.id] });
+            expect(sent.statusCode).toBe(201);
+            expect(sent.body.data.attachments[0].mediaId).toBe(media.id);
+
+            const foreign = await send(curatorToken, conversationId, { body: "Not mine", media_ids: [media.id] });
+            expect(foreign.statusCode).toBe(422);
+        });
+    });
+
+    describe("privacy", () => {
+        it("should refuse direct threads the recipient does not accept", async () => {
+            await prisma.privacySettings.create({ data: { userId: curator.id, allowDirectMessages: false } });
+
+            const response = await open(outsiderToken, { type: "DIRECT", user_id: curator.id });
+            expect(response.statusCode).toBe(403);
+        });
+
+        it("should let restricted users keep messaging about an application but not directly", async () => {
+            const conversationId = (await open(applicantToken, { type: "APPLICATION", application_id: application.id })).body.data.id;
+            await prisma.privacySettings.create({ data: { userId: curator.id, restrictedList: [applicant.id] } });
+
+            expect((await send(applicantToken, conversationId, { body: "Any update?" })).statusCode).toBe(201);
+            expect((await open(applicantToken, { type: "DIRECT", user_id: curator.id })).statusCode).toBe(403);
+        });
+
+        it("should refuse every message between users who blocked each other", async () => {
+            const direct = await open(outsiderToken, { type: "DIRECT", user_id: applicant.id });
+            const conversationId = (await open(applicantToken, { type: "APPLICATION", application_id: application.id })).body.data.id;
+
+            expect(direct.statusCode).toBe(200);
+
+            await prisma.privacySettings.create({ data: { userId: curator.id, blockList: [applicant.id] } });
+            await prisma.privacySettings.create({ data: { userId: applicant.id, blockList: [outsider.id] } });
+
+            expect((await send(applicantToken, conversationId, { body: "Hello?" })).statusCode).toBe(403);
+            expect((await send(outsiderToken, direct.body.data.id, { body: "Hello?" })).statusCode).toBe(403);
+        });
+    });
+});
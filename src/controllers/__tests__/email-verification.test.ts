@@ -0,0 +1,155 @@
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { EmailVerificationService } from 'src/services/EmailVerificationService';
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+import { subMinutes } from 'date-fns';
+
+describe('Email verification', () => {
+    const userIds: string[] = [];
+
+    const createUser = async (verified = false) => {
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'Verify',
+                lastName: 'User',
+                emailVerifiedAt: verified ? new Date() : null,
+            },
+        });
+
+        userIds.push(user.id);
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email: user.email, password: 'password' });
+
+        return { user, token: response.body.token as string };
+    };
+
+    const verify = (token: string, code: string) => request(app)
+        .put('/api/account/verify/email')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    });
+
+    it('should store a hashed, expiring code on registration', async () => {
+        const email = faker.internet.email().toLowerCase();
+
+        const response = await request(app)
+            .post('/api/auth/signup')
+            .send({
+                firstName: 'New',
+                lastName: 'User',
+                email,
+                password: 'Password123#',
+                password_confirmation: 'Password123#',
+            })
+            .expect(201);
+
+        userIds.push(response.body.data.id);
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { email } });
+        const verification = await EmailVerificationService.pending(user.id);
+
+        expect(user.emailVerificationCode).toBeNull();
+        expect(verification?.codeHash).toHaveLength(64);
+        expect(verification?.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should verify the email address with the code', async () => {
+        const { user, token } = await createUser();
+        const { code } = await EmailVerificationService.create(user);
+
+        const response = await verify(token, code).expect(202);
+
+        expect(response.body.data.verified).toBe(true);
+
+        await verify(token, code).expect(429);
+    });
+
+    it('should verify the email address with the link token', async () => {
+        const { user, token } = await createUser();
+        const { token: linkToken } = await EmailVerificationService.create(user);
+
+        await verify(token, linkToken).expect(202);
+    });
+
+    it('should reject expired codes', async () => {
+        const { user, token } = await createUser();
+        const { code, verification } = await EmailVerificationService.create(user);
+
+        await prisma.emailVerification.update({
+            where: { id: verification.id },
+            data: { expiresAt: subMinutes(new Date(), 1) },
+        });
+
+        await verify(token, code).expect(422);
+    });
+
+    it('should lock the code after too many wrong attempts', async () => {
+        const { user, token } = await createUser();
+        const { code } = await EmailVerificationService.create(user);
+
+        for (let i = 0; i < 5; i++) {
+            await verify(token, '000000x').expect(422);
+        }
+
+        const response = await verify(token, code).expect(422);
+
+        expect(response.body.errors.code[0]).toContain('Too many failed attempts');
+    });
+
+    it('should throttle resending the code', async () => {
+        const { token } = await createUser();
+
+        for (let i = 0; i < 3; i++) {
+            await request(app)
+                .post('/api/account/verify/resend')
+                .set('Authorization', `Bearer ${token}`)
+                .expect(202);
+        }
+
+        await request(app)
+            .post('/api/account/verify/resend')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(429);
+    });
+
+    it('should only change the email address once the new one is verified', async () => {
+        const { user, token } = await createUser(true);
+        const newEmail = faker.internet.email().toLowerCase();
+
+        await request(app)
+            .put('/api/account/email')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ email: newEmail })
+            .expect(202);
+
+        const unchanged = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+        expect(unchanged.email).toBe(user.email);
+
+        const { code } = await EmailVerificationService.create(user, newEmail);
+        const response = await verify(token, code).expect(202);
+
+        expect(response.body.data.email).toBe(newEmail);
+    });
+
+    it('should not change the email address to one that is taken', async () => {
+        const { token } = await createUser(true);
+        const { user: other } = await createUser(true);
+
+        await request(app)
+            .put('/api/account/email')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ email: other.email })
+            .expect(422);
+    });
+});
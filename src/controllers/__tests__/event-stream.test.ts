@@ -0,0 +1,127 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { AddressInfo } from "net";
+import { EventStreamService } from "src/services/EventStreamService";
+import { Server } from "http";
+import { User } from "@prisma/client";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Event Stream", () => {
+    let server: Server;
+    let baseUrl: string;
+    let user: User;
+    let accessToken: string;
+    let connection: AbortController;
+
+    /**
+     * Read the stream until it contains the expected text
+     */
+    const readUntil = async (response: Response, expected: string) => {
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let received = "";
+
+        while (!received.includes(expected)) {
+            const { value, done } = await reader.read();
+
+            if (done) {
+                break;
+            }
+
+            received += decoder.decode(value);
+        }
+
+        return received;
+    };
+
+    beforeAll(async () => {
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        connection = new AbortController();
+
+        user = await prisma.user.create({
+            data: {
+                email: `stream-${faker.string.alphanumeric(10).toLowerCase()}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                emailVerifiedAt: new Date(),
+            },
+        });
+
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        accessToken = auth.token;
+    });
+
+    afterEach(async () => {
+        connection.abort();
+        await prisma.user.deleteMany({ where: { id: user?.id } });
+    });
+
+    it("should require authentication", async () => {
+        const response = await request(app).get("/api/stream");
+
+        expect(response.statusCode).toBe(401);
+    });
+
+    it("should push new events to connected clients", async () => {
+        const response = await fetch(`${baseUrl}/api/stream?access_token=${accessToken}`, { signal: connection.signal });
+
+        expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+        await EventStreamService.publish(user.id, "friend_request.received", { friendshipId: "friendship" });
+
+        const received = await readUntil(response, "friendship");
+
+        expect(received).toContain("event: friend_request.received");
+        expect(received).toContain('data: {"friendshipId":"friendship"}');
+    });
+
+    it("should end the stream once its access token expires", async () => {
+        const response = await fetch(`${baseUrl}/api/stream?access_token=${accessToken}`, { signal: connection.signal });
+
+        await prisma.personalAccessToken.updateMany({ where: { token: accessToken }, data: { expiresAt: new Date() } });
+
+        // The stream closes instead of waiting for an event that never comes
+        const received = await readUntil(response, "never sent");
+
+        expect(received).not.toContain("never sent");
+    });
+
+    it("should resume after the last event a client received", async () => {
+        await EventStreamService.publish(user.id, "tip.received", { tipId: "first" });
+        await EventStreamService.publish(user.id, "tip.received", { tipId: "second" });
+
+        const [first, second] = await prisma.streamEvent.findMany({ where: { userId: user.id }, orderBy: { id: "asc" } });
+
+        const response = await fetch(`${baseUrl}/api/stream`, {
+            headers: { "Authorization": `Bearer ${accessToken}`, "Last-Event-ID": String(first.id) },
+            signal: connection.signal,
+        });
+
+        const received = await readUntil(response, "second");
+
+        expect(received).not.toContain(`id: ${first.id}\n`);
+        expect(received).toContain(`id: ${second.id}\nevent: tip.received`);
+    });
+});
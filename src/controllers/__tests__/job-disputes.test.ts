@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Job, User, UserRole } from "@prisma/client";
+import { JobDisputeService } from "src/services/JobDisputeService";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+import { subDays } from "date-fns";
+
+describe("Job Disputes", () => {
+    let curator: User;
+    let applicant: User;
+    let admin: User;
+    let curatorToken: string;
+    let applicantToken: string;
+    let adminToken: string;
+    let job: Job;
+    let categoryId: string;
+    let locationId: string;
+
+    const token = async (user: User) => {
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    const dispute = (reason = "The work was never delivered as agreed") => request(app)
+        .put(`/api/jobs/${job.id}`)
+        .set("Authorization", `Bearer ${applicantToken}`)
+        .send({ status: "DISPUTED", reason });
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+        const roles = { curator: UserRole.CURATOR, applicant: UserRole.USER, admin: UserRole.ADMIN };
+
+        [curator, applicant, admin] = await Promise.all(Object.entries(roles).map(([name, role]) => prisma.user.create({
+            data: {
+                email: `dispute-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                role,
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [curatorToken, applicantToken, adminToken] = await Promise.all([token(curator), token(applicant), token(admin)]);
+
+        categoryId = (await prisma.category.create({ data: { name: `Disputes ${runId}` } })).id;
+        locationId = (await prisma.location.create({
+            data: { city: `City ${runId}`, state: "TS", country: "Testland", latitude: 0, longitude: 0 },
+        })).id;
+
+        const listing = await prisma.artisan.create({
+            data: { name: "Furniture", description: "Builds furniture", categoryId, locationId, curatorId: curator.id },
+        });
+
+        const application = await prisma.application.create({
+            data: { listingId: listing.id, applicantId: applicant.id, status: "ACCEPTED" },
+        });
+
+        job = await prisma.job.create({
+            data: {
+                listingId: listing.id,
+                applicationId: application.id,
+                applicantId: applicant.id,
+                status: "IN_PROGRESS",
+                price: 100,
+            },
+        });
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [curator?.id, applicant?.id, admin?.id].filter(Boolean) } } });
+        await prisma.category.deleteMany({ where: { id: categoryId } });
+        await prisma.location.deleteMany({ where: { id: locationId } });
+    });
+
+    describe("opening a dispute", () => {
+        it("should require a reason", async () => {
+            const response = await request(app)
+                .put(`/api/jobs/${job.id}`)
+                .set("Authorization", `Bearer ${applicantToken}`)
+                .send({ status: "DISPUTED" });
+
+            expect(response.statusCode).toBe(422);
+        });
+
+        it("should record the dispute and keep the job disputed until it is settled", async () => {
+            const response = await dispute();
+
+            expect(response.statusCode).toBe(200);
+            expect(response.body.data.status).toBe("DISPUTED");
+
+            const [record] = await JobDisputeService.list(job.id);
+            expect(record).toMatchObject({ status: "OPEN", openedBy: applicant.id, previousStatus: "IN_PROGRESS" });
+
+            const resume = await request(app)
+                .put(`/api/jobs/${job.id}`)
+                .set("Authorization", `Bearer ${curatorToken}`)
+                .send({ status: "IN_PROGRESS" });
+
+            expect(resume.statusCode).toBe(422);
+        });
+    });
+
+    describe("evidence and withdrawal", () => {
+        it("should attach media the author uploaded and let the opener withdraw", async () => {
+            await dispute();
+            const [record] = await JobDisputeService.list(job.id);
+
+            const media = await prisma.media.create({
+                data: {
+                    filename: "photo.jpg",
+                    originalName: "photo.jpg",
+                    mimeType: "image/jpeg",
+                    size: 1024,
+                    path: `media/${faker.string.uuid()}.jpg`,
+                    userId: curator.id,
+                },
+            });
+
+            const evidence = await request(app)
+                .post(`/api/jobs/${job.id}/disputes/${record.id}/evidence`)
+                .set("Authorization", `Bearer ${curatorToken}`)
+                .send({ message: "Delivered on time, see the photo", media_ids: [media.id] });
+
+            expect(evidence.statusCode).toBe(201);
+            expect(evidence.body.data.attachments[0].mediaId).toBe(media.id);
+
+            const foreign = await request(app)
+                .post(`/api/jobs/${job.id}/disputes/${record.id}/evidence`)
+                .set("Authorization", `Bearer ${applicantToken}`)
+                .send({ message: "This is not my photo", media_ids: [media.id] });
+
+            expect(foreign.statusCode).toBe(422);
+
+            expect((await request(app)
+                .put(`/api/jobs/${job.id}/disputes/${record.id}/withdraw`)
+                .set("Authorization", `Bearer ${curatorToken}`)).statusCode).toBe(403);
+
+            const withdrawn = await request(app)
+                .put(`/api/jobs/${job.id}/disputes/${record.id}/withdraw`)
+                .set("Authorization", `Bearer ${applicantToken}`);
+
+            expect(withdrawn.body.data.status).toBe("WITHDRAWN");
+            expect((await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).status).toBe("IN_PROGRESS");
+        });
+    });
+
+    describe("resolution", () => {
+        it("should set the final job status and count towards reputation", async () => {
+            await dispute();
+            const [record] = await JobDisputeService.list(job.id);
+
+            const resolved = await request(app)
+                .put(`/api/admin/disputes/${record.id}/resolve`)
+                .set("Authorization", `Bearer ${adminToken}`)
+                .send({ resolution: "REFUND", note: "Nothing was delivered" });
+
+            expect(resolved.statusCode).toBe(202);
+            expect(resolved.body.data).toMatchObject({ status: "RESOLVED", resolution: "REFUND", refundAmount: 100, mediatorId: admin.id });
+            expect((await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).status).toBe("CANCELLED");
+
+            expect((await JobDisputeService.reputation(applicant.id)).disputes).toMatchObject({ won: 1, lost: 0 });
+            expect((await JobDisputeService.reputation(curator.id)).disputes).toMatchObject({ won: 0, lost: 1 });
+        });
+
+        it("should require a refund amount below the price for partial refunds", async () => {
+            await dispute();
+            const [record] = await JobDisputeService.list(job.id);
+
+            const response = await request(app)
+                .put(`/api/admin/disputes/${record.id}/resolve`)
+                .set("Authorization", `Bearer ${adminToken}`)
+                .send({ resolution: "PARTIAL_REFUND", refund_amount: 150 });
+
+            expect(response.statusCode).toBe(422);
+        });
+
+        it("should escalate overdue disputes to an admin", async () => {
+            await dispute();
+            const [record] = await JobDisputeService.list(job.id);
+
+            await prisma.jobDispute.update({ where: { id: record.id }, data: { assignBy: subDays(new Date(), 1) } });
+
+            expect(await JobDisputeService.escalate()).toBeGreaterThanOrEqual(1);
+
+            const escalated = await prisma.jobDispute.findUniqueOrThrow({ where: { id: record.id } });
+            expect(escalated.status).toBe("ESCALATED");
+            expect(escalated.mediatorId).not.toBeNull();
+        });
+    });
+});
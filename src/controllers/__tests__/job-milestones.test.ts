@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Job, User, UserRole } from "@prisma/client";
+import { TipVerificationService } from "src/services/TipVerificationService";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Job Milestones", () => {
+    let curator: User;
+    let applicant: User;
+    let curatorToken: string;
+    let applicantToken: string;
+    let job: Job;
+    let categoryId: string;
+    let locationId: string;
+
+    const token = async (user: User) => {
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    const setTerms = (milestones = [{ title: "Design", amount: 40 }, { title: "Build", amount: 60 }]) => request(app)
+        .put(`/api/jobs/${job.id}/terms`)
+        .set("Authorization", `Bearer ${curatorToken}`)
+        .send({ scope: "A new storefront", currency: "XLM", dueDate: "2026-12-31", milestones });
+
+    const milestoneAction = (milestoneId: string, action: string, authToken: string, body: object = {}) => request(app)
+        .put(`/api/jobs/${job.id}/milestones/${milestoneId}/${action}`)
+        .set("Authorization", `Bearer ${authToken}`)
+        .send(body);
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+
+        [curator, applicant] = await Promise.all(["curator", "applicant"].map(name => prisma.user.create({
+            data: {
+                email: `milestone-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                role: name === "curator" ? UserRole.CURATOR : UserRole.USER,
+                stellarAddress: `G-${name.toUpperCase()}-${runId}`,
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [curatorToken, applicantToken] = await Promise.all([token(curator), token(applicant)]);
+
+        categoryId = (await prisma.category.create({ data: { name: `Milestones ${runId}` } })).id;
+        locationId = (await prisma.location.create({
+            data: { city: `City ${runId}`, state: "TS", country: "Testland", latitude: 0, longitude: 0 },
+        })).id;
+
+        const listing = await prisma.artisan.create({
+            data: { name: "Storefronts", description: "Builds storefronts", categoryId, locationId, curatorId: curator.id },
+        });
+
+        const application = await prisma.application.create({
+            data: { listingId: listing.id, applicantId: applicant.id, status: "ACCEPTED" },
+        });
+
+        job = await prisma.job.create({
+            data: { listingId: listing.id, applicationId: application.id, applicantId: applicant.id },
+        });
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [curator?.id, applicant?.id].filter(Boolean) } } });
+        await prisma.category.deleteMany({ where: { id: categoryId } });
+        await prisma.location.deleteMany({ where: { id: locationId } });
+    });
+
+    describe("PUT /jobs/:id/terms", () => {
+        it("should set the price from the ordered milestones", async () => {
+            const response = await setTerms();
+
+            expect(response.statusCode).toBe(200);
+            expect(response.body.data.price).toBe(100);
+            expect(response.body.data.scope).toBe("A new storefront");
+            expect(response.body.data.milestones.map((milestone: any) => [milestone.position, milestone.title]))
+                .toEqual([[1, "Design"], [2, "Build"]]);
+        });
+
+        it("should only let the curator set the terms", async () => {
+            const response = await request(app)
+                .put(`/api/jobs/${job.id}/terms`)
+                .set("Authorization", `Bearer ${applicantToken}`)
+                .send({ milestones: [{ title: "Everything", amount: 1 }] });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it("should not change the terms once the job started", async () => {
+            await prisma.job.update({ where: { id: job.id }, data: { status: "IN_PROGRESS" } });
+
+            const response = await setTerms();
+
+            expect(response.statusCode).toBe(422);
+        });
+    });
+
+    describe("milestone workflow", () => {
+        it("should only complete the job once every milestone is approved and pay approved milestones", async () => {
+            const { body } = await setTerms();
+            const [design, build] = body.data.milestones;
+
+            await prisma.job.update({ where: { id: job.id }, data: { status: "IN_PROGRESS" } });
+
+            // Milestones are delivered in order
+            expect((await milestoneAction(build.id, "submit", curatorToken)).statusCode).toBe(422);
+
+            const submitted = await milestoneAction(design.id, "submit", curatorToken, { note: "Mockups attached" });
+            expect(submitted.statusCode).toBe(200);
+            expect(submitted.body.data.status).toBe("SUBMITTED");
+
+            // Only the applicant approves
+            expect((await milestoneAction(design.id, "approve", curatorToken)).statusCode).toBe(403);
+
+            const approved = await milestoneAction(design.id, "approve", applicantToken);
+            expect(approved.body.data.status).toBe("APPROVED");
+
+            const blocked = await request(app)
+                .put(`/api/jobs/${job.id}`)
+                .set("Authorization", `Bearer ${curatorToken}`)
+                .send({ status: "COMPLETED" });
+            expect(blocked.statusCode).toBe(422);
+
+            await milestoneAction(build.id, "submit", curatorToken);
+            const changes = await milestoneAction(build.id, "changes", applicantToken, { note: "Fix the checkout" });
+            expect(changes.body.data.status).toBe("PENDING");
+            expect(changes.body.data.submissionNote).toBe("Fix the checkout");
+
+            await milestoneAction(build.id, "submit", curatorToken);
+            await milestoneAction(build.id, "approve", applicantToken);
+
+            const txHash = `0x${faker.string.hexadecimal({ length: 16, prefix: "" })}`;
+            TipVerificationService.fake().add(txHash, [
+                { to: curator.stellarAddress!, amount: "40", currency: "XLM" },
+            ], { from: applicant.stellarAddress! });
+
+            const paid = await request(app)
+                .post(`/api/jobs/${job.id}/milestones/${design.id}/payment`)
+                .set("Authorization", `Bearer ${applicantToken}`)
+                .send({ tx_hash: txHash });
+
+            expect(paid.statusCode).toBe(201);
+            expect(paid.body.data.status).toBe("PAID");
+            expect(paid.body.data.payment.status).toBe("COMPLETED");
+
+            const completed = await request(app)
+                .put(`/api/jobs/${job.id}`)
+                .set("Authorization", `Bearer ${curatorToken}`)
+                .send({ status: "COMPLETED" });
+            expect(completed.statusCode).toBe(200);
+        });
+
+        it("should not pay a milestone that is not approved", async () => {
+            const { body } = await setTerms();
+
+            const response = await request(app)
+                .post(`/api/jobs/${job.id}/milestones/${body.data.milestones[0].id}/payment`)
+                .set("Authorization", `Bearer ${applicantToken}`)
+                .send({ tx_hash: "0xnotapproved" });
+
+            expect(response.statusCode).toBe(422);
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { User, UserRole } from "@prisma/client";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Job Timeline", () => {
+    let curator: User;
+    let applicant: User;
+    let outsider: User;
+    let curatorToken: string;
+    let applicantToken: string;
+    let outsiderToken: string;
+    let listingId: string;
+    let categoryId: string;
+    let locationId: string;
+
+    const token = async (user: User) => {
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+        const roles = { curator: UserRole.CURATOR, applicant: UserRole.USER, outsider: UserRole.USER };
+
+        [curator, applicant, outsider] = await Promise.all(Object.entries(roles).map(([name, role]) => prisma.user.create({
+            data: {
+                email: `timeline-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                role,
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [curatorToken, applicantToken, outsiderToken] = await Promise.all([token(curator), token(applicant), token(outsider)]);
+
+        categoryId = (await prisma.category.create({ data: { name: `Timeline ${runId}` } })).id;
+        locationId = (await prisma.location.create({
+            data: { city: `City ${runId}`, state: "TS", country: "Testland", latitude: 0, longitude: 0 },
+        })).id;
+
+        listingId = (await prisma.artisan.create({
+            data: { name: "Pottery", description: "Makes pottery", categoryId, locationId, curatorId: curator.id },
+        })).id;
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [curator?.id, applicant?.id, outsider?.id].filter(Boolean) } } });
+        await prisma.category.deleteMany({ where: { id: categoryId } });
+        await prisma.location.deleteMany({ where: { id: locationId } });
+    });
+
+    it("should merge the application and job history with the actors and notes", async () => {
+        const applied = await request(app)
+            .post("/api/applications")
+            .set("Authorization", `Bearer ${applicantToken}`)
+            .send({ listingId, message: "I would like a set of bowls" });
+
+        expect(applied.statusCode).toBe(201);
+
+        const accepted = await request(app)
+            .put(`/api/applications/${applied.body.data.id}/status`)
+            .set("Authorization", `Bearer ${curatorToken}`)
+            .send({ status: "ACCEPTED", note: "Happy to make them" });
+
+        const jobId = accepted.body.data.job.id;
+
+        await request(app)
+            .put(`/api/jobs/${jobId}`)
+            .set("Authorization", `Bearer ${curatorToken}`)
+            .send({ status: "IN_PROGRESS", note: "Clay ordered" });
+
+        const response = await request(app)
+            .get(`/api/jobs/${jobId}/timeline`)
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body.integrity).toEqual({ verified: true, brokenAt: null });
+        expect(response.body.data.map((event: { subject: string, action: string }) => `${event.subject}:${event.action}`)).toEqual([
+            "APPLICATION:CREATED",
+            "APPLICATION:STATUS_CHANGED",
+            "JOB:CREATED",
+            "JOB:STATUS_CHANGED",
+        ]);
+        expect(response.body.data[1]).toMatchObject({
+            fromStatus: "PENDING",
+            toStatus: "ACCEPTED",
+            notes: "Happy to make them",
+            actor: { id: curator.id },
+        });
+        expect(response.body.data[3]).toMatchObject({ fromStatus: "ACTIVE", toStatus: "IN_PROGRESS", notes: "Clay ordered" });
+    });
+
+    it("should only be visible to the participants", async () => {
+        const application = await prisma.application.create({
+            data: { listingId, applicantId: applicant.id, status: "ACCEPTED" },
+        });
+        const job = await prisma.job.create({
+            data: { listingId, applicationId: application.id, applicantId: applicant.id },
+        });
+
+        const response = await request(app)
+            .get(`/api/jobs/${job.id}/timeline`)
+            .set("Authorization", `Bearer ${outsiderToken}`);
+
+        expect(response.statusCode).toBe(403);
+    });
+
+    it("should refuse to change recorded events", async () => {
+        const application = await prisma.application.create({
+            data: { listingId, applicantId: applicant.id },
+        });
+
+        await request(app)
+            .put(`/api/applications/${application.id}/status`)
+            .set("Authorization", `Bearer ${curatorToken}`)
+            .send({ status: "REJECTED" });
+
+        await expect(prisma.jobEvent.updateMany({
+            where: { applicationId: application.id },
+            data: { notes: "Rewritten" },
+        })).rejects.toThrow();
+        await expect(prisma.jobEvent.deleteMany({
+            where: { applicationId: application.id },
+        })).rejects.toThrow();
+    });
+
+    it("should keep the history of deleted applications", async () => {
+        const application = await prisma.application.create({
+            data: { listingId, applicantId: applicant.id },
+        });
+
+        await request(app)
+            .put(`/api/applications/${application.id}/status`)
+            .set("Authorization", `Bearer ${curatorToken}`)
+            .send({ status: "REJECTED" });
+
+        await prisma.application.delete({ where: { id: application.id } });
+
+        expect(await prisma.jobEvent.count({ where: { applicationId: application.id } })).toBeGreaterThan(0);
+    });
+});
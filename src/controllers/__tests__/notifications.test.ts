@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { User, UserRole } from "@prisma/client";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { subDays } from "date-fns";
+import { generateAccessToken } from "src/utils/helpers";
+import { notify, sendNotificationDigests } from "src/services/notificationService";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Notifications", () => {
+    let curator: User;
+    let applicant: User;
+    let curatorToken: string;
+    let applicantToken: string;
+    let categoryId: string;
+    let locationId: string;
+
+    const token = async (user: User) => {
+        const auth = generateAccessToken({
+            username: user.email,
+            id: user.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: user.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    const tipReceived = (user: User) => notify(user, "tip.received", {
+        title: "You received a tip",
+        message: "You received a tip of <b>10 XLM</b>.",
+        path: "/tips/tip",
+    });
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+        const roles = { curator: UserRole.CURATOR, applicant: UserRole.USER };
+
+        [curator, applicant] = await Promise.all(Object.entries(roles).map(([name, role]) => prisma.user.create({
+            data: {
+                email: `notification-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                role,
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [curatorToken, applicantToken] = await Promise.all([token(curator), token(applicant)]);
+
+        categoryId = (await prisma.category.create({ data: { name: `Notifications ${runId}` } })).id;
+        locationId = (await prisma.location.create({
+            data: { city: `City ${runId}`, state: "TS", country: "Testland", latitude: 0, longitude: 0 },
+        })).id;
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [curator?.id, applicant?.id].filter(Boolean) } } });
+        await prisma.category.deleteMany({ where: { id: categoryId } });
+        await prisma.location.deleteMany({ where: { id: locationId } });
+    });
+
+    it("should keep notifications and push them unless push notifications are off", async () => {
+        await tipReceived(applicant);
+
+        await prisma.userPreferences.create({ data: { userId: curator.id, pushNotifications: false } });
+        await tipReceived(curator);
+
+        const [kept] = await prisma.notification.findMany({ where: { userId: applicant.id } });
+
+        expect(kept.body).toBe("You received a tip of 10 XLM.");
+        expect(kept.link).toContain("/tips/tip");
+        expect(await prisma.notification.count({ where: { userId: curator.id } })).toBe(1);
+        expect(await prisma.streamEvent.count({ where: { userId: applicant.id, type: "notification.created" } })).toBe(1);
+        expect(await prisma.streamEvent.count({ where: { userId: curator.id } })).toBe(0);
+    });
+
+    it("should email each notification once, right away or in the next due digest", async () => {
+        await prisma.userPreferences.create({ data: { userId: curator.id, digestFrequency: "never" } });
+        await prisma.user.update({ where: { id: applicant.id }, data: { lastDigestAt: subDays(new Date(), 8) } });
+
+        await tipReceived(curator);
+        await tipReceived(applicant);
+
+        const [immediate] = await prisma.notification.findMany({ where: { userId: curator.id } });
+        const [pending] = await prisma.notification.findMany({ where: { userId: applicant.id } });
+
+        expect(immediate.digestedAt).not.toBeNull();
+        expect(pending.digestedAt).toBeNull();
+
+        await sendNotificationDigests();
+
+        const digested = await prisma.notification.findUniqueOrThrow({ where: { id: pending.id } });
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: applicant.id } });
+
+        expect(digested.digestedAt).not.toBeNull();
+        expect(user.lastDigestAt!.getTime()).toBeGreaterThan(subDays(new Date(), 1).getTime());
+
+        // The next digest is only due a week later
+        await tipReceived(applicant);
+        await sendNotificationDigests();
+
+        expect(await prisma.notification.count({ where: { userId: applicant.id, digestedAt: null } })).toBe(1);
+    });
+
+    it("should notify the applicant when their application is accepted", async () => {
+        const listing = await prisma.artisan.create({
+            data: { name: "Weaving", description: "Weaves rugs", categoryId, locationId, curatorId: curator.id },
+        });
+        const application = await prisma.application.create({
+            data: { listingId: listing.id, applicantId: applicant.id },
+        });
+
+        await request(app)
+            .put(`/api/applications/${application.id}/status`)
+            .set("Authorization", `Bearer ${curatorToken}`)
+            .send({ status: "ACCEPTED" })
+            .expect(200);
+
+        const response = await request(app)
+            .get("/api/notifications")
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body.data).toHaveLength(1);
+        expect(response.body.data[0].type).toBe("application.accepted");
+        expect(response.body.unread).toBe(1);
+    });
+
+    it("should mark notifications as read", async () => {
+        await tipReceived(applicant);
+        await tipReceived(applicant);
+
+        const [first] = await prisma.notification.findMany({ where: { userId: applicant.id } });
+
+        const read = await request(app)
+            .put(`/api/notifications/${first.id}/read`)
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(read.statusCode).toBe(202);
+        expect(read.body.data.readAt).not.toBeNull();
+
+        const unread = await request(app)
+            .get("/api/notifications?unread=true")
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(unread.body.data).toHaveLength(1);
+        expect(unread.body.unread).toBe(1);
+
+        const all = await request(app)
+            .put("/api/notifications/read-all")
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(all.body.data.count).toBe(1);
+        expect(await prisma.notification.count({ where: { userId: applicant.id, readAt: null } })).toBe(0);
+    });
+
+    it("should only let users manage their own notifications", async () => {
+        await tipReceived(applicant);
+
+        const [notification] = await prisma.notification.findMany({ where: { userId: applicant.id } });
+
+        const foreign = await request(app)
+            .delete(`/api/notifications/${notification.id}`)
+            .set("Authorization", `Bearer ${curatorToken}`);
+
+        expect(foreign.statusCode).toBe(404);
+
+        const own = await request(app)
+            .delete(`/api/notifications/${notification.id}`)
+            .set("Authorization", `Bearer ${applicantToken}`);
+
+        expect(own.statusCode).toBe(202);
+        expect(await prisma.notification.count({ where: { userId: applicant.id } })).toBe(0);
+    });
+});
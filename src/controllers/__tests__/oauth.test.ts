@@ -0,0 +1,318 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { AccountLinkProvider } from '@prisma/client';
+import { OAuthProfile } from 'src/services/OAuthService';
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import passport from 'passport';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+let nextProfile: OAuthProfile;
+
+/**
+ * Stands in for the Google strategy: starting the flow redirects to a fake
+ * consent screen and the callback succeeds with `nextProfile`.
+ */
+const mockStrategy: passport.Strategy = {
+    name: 'google',
+    authenticate (req, options) {
+        if (req.query.error) {
+            return this.fail();
+        }
+
+        if (!req.query.code) {
+            return this.redirect(`https://accounts.google.test/consent?state=${options?.state ?? ''}`);
+        }
+
+        this.success(nextProfile);
+    },
+};
+
+const makeProfile = (overrides: Partial<OAuthProfile> = {}): OAuthProfile => ({
+    provider: AccountLinkProvider.GOOGLE,
+    id: faker.string.numeric(21),
+    email: faker.internet.email().toLowerCase(),
+    emailVerified: true,
+    firstName: faker.person.firstName(),
+    lastName: faker.person.lastName(),
+    ...overrides,
+});
+
+interface Flow {
+    cookie: string[];
+    state: string;
+}
+
+/**
+ * Start the provider flow like a browser, keeping the state nonce cookie
+ */
+const start = async (query: Record<string, string> = {}): Promise<Flow> => {
+    const response = await request(app)
+        .get('/api/auth/google')
+        .query(query)
+        .expect(302);
+
+    return {
+        cookie: [response.headers['set-cookie']].flat(),
+        state: new URL(response.headers.location).searchParams.get('state')!,
+    };
+};
+
+const callback = async (query: Record<string, string> = {}, flow?: Flow) => {
+    const { cookie, state } = flow ?? await start();
+
+    const response = await request(app)
+        .get('/api/auth/google/callback')
+        .set('Cookie', cookie)
+        .query({ code: 'provider-code', state, ...query })
+        .expect(302);
+
+    return new URL(response.headers.location).searchParams;
+};
+
+describe('OAuth login', () => {
+    const emails: string[] = [];
+    let userId: string;
+    let token: string;
+
+    beforeAll(async () => {
+        passport.use('google', mockStrategy);
+
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'OAuth',
+                lastName: 'Owner',
+                emailVerifiedAt: new Date(),
+            },
+        });
+
+        userId = user.id;
+        emails.push(user.email);
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email: user.email, password: 'password' });
+
+        token = response.body.token;
+    });
+
+    beforeEach(() => {
+        nextProfile = makeProfile();
+        emails.push(nextProfile.email!);
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { email: { in: emails } } });
+    });
+
+    it('should redirect to the provider with a state bound to the browser', async () => {
+        const response = await request(app)
+            .get('/api/auth/google')
+            .expect(302);
+
+        const state = new URL(response.headers.location).searchParams.get('state');
+
+        expect(response.headers.location).toContain('accounts.google.test');
+        expect(response.headers['set-cookie'][0]).toContain(`oauth_state=${state}`);
+        expect(response.headers['set-cookie'][0]).toContain('HttpOnly');
+    });
+
+    it('should reject callbacks without the state cookie of the browser', async () => {
+        const { state } = await start();
+        const other = await start();
+
+        const missing = await callback({}, { cookie: [], state });
+        const foreign = await callback({}, { cookie: other.cookie, state });
+
+        for (const params of [missing, foreign]) {
+            expect(params.get('error')).toBe('401');
+            expect(params.get('code')).toBeNull();
+        }
+        expect(await prisma.accountLink.count({ where: { providerUserId: nextProfile.id } })).toBe(0);
+    });
+
+    it('should create a user and hand out a one-time exchange code', async () => {
+        const params = await callback();
+        const code = params.get('code')!;
+
+        expect(code).toBeTruthy();
+
+        const link = await prisma.accountLink.findFirstOrThrow({
+            where: { provider: AccountLinkProvider.GOOGLE, providerUserId: nextProfile.id },
+            include: { user: true },
+        });
+        expect(link.user.email).toBe(nextProfile.email);
+        expect(link.user.emailVerifiedAt).not.toBeNull();
+
+        const response = await request(app)
+            .post('/api/auth/oauth/exchange')
+            .send({ code })
+            .expect(202);
+
+        expect(response.body.data.id).toBe(link.userId);
+        expect(response.body.token).toBeDefined();
+        expect(response.body.refresh_token).toBeDefined();
+
+        await request(app)
+            .get('/api/account/sessions')
+            .set('Authorization', `Bearer ${response.body.token}`)
+            .expect(200);
+
+        await request(app)
+            .post('/api/auth/oauth/exchange')
+            .send({ code })
+            .expect(401);
+    });
+
+    it('should log in the user owning the account link', async () => {
+        await callback();
+        const first = await prisma.accountLink.findFirstOrThrow({
+            where: { provider: AccountLinkProvider.GOOGLE, providerUserId: nextProfile.id },
+        });
+
+        // The provider email may change, the link keeps pointing at the same user
+        nextProfile = { ...nextProfile, email: faker.internet.email().toLowerCase() };
+        const params = await callback();
+
+        const response = await request(app)
+            .post('/api/auth/oauth/exchange')
+            .send({ code: params.get('code') })
+            .expect(202);
+
+        expect(response.body.data.id).toBe(first.userId);
+    });
+
+    it('should match an existing account on a verified email', async () => {
+        const user = await prisma.user.findFirstOrThrow({ where: { id: userId } });
+        nextProfile = makeProfile({ email: user.email });
+
+        const params = await callback();
+        const response = await request(app)
+            .post('/api/auth/oauth/exchange')
+            .send({ code: params.get('code') })
+            .expect(202);
+
+        expect(response.body.data.id).toBe(userId);
+    });
+
+    it('should not claim an account whose email is unverified', async () => {
+        const user = await prisma.user.create({
+            data: {
+                email: nextProfile.email!,
+                password: await argon2.hash('password'),
+                firstName: 'Unverified',
+                lastName: 'Owner',
+            },
+        });
+
+        const params = await callback();
+
+        expect(params.get('error')).toBe('409');
+        expect(params.get('code')).toBeNull();
+        expect(await prisma.accountLink.count({ where: { userId: user.id } })).toBe(0);
+    });
+
+    it('should redirect with an error when the user denies access', async () => {
+        const params = await callback({ error: 'access_denied' });
+
+        expect(params.get('error')).toBe('access_denied');
+    });
+
+    /**
+     * Start and finish the link flow of the signed in user
+     */
+    const linkFlow = async () => {
+        const linking = await request(app)
+            .post('/api/auth/google/link')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(201);
+
+        return callback({}, await start({
+            link_token: new URL(linking.body.data.url).searchParams.get('link_token')!,
+        }));
+    };
+
+    it('should link the provider account in link mode', async () => {
+        await prisma.accountLink.deleteMany({ where: { userId, provider: AccountLinkProvider.GOOGLE } });
+
+        const linking = await request(app)
+            .post('/api/auth/google/link')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(201);
+
+        const linkToken = new URL(linking.body.data.url).searchParams.get('link_token')!;
+
+        const flow = await start({ link_token: linkToken });
+
+        expect(flow.state.endsWith(`.${linkToken}`)).toBe(true);
+
+        const params = await callback({}, flow);
+
+        expect(params.get('linked')).toBe('true');
+        expect(params.get('code')).toBeNull();
+
+        const link = await prisma.accountLink.findFirstOrThrow({
+            where: { userId, provider: AccountLinkProvider.GOOGLE },
+        });
+        expect(link.providerUserId).toBe(nextProfile.id);
+        expect(link.isVerified).toBe(true);
+    });
+
+    it('should not link a provider account owned by another user', async () => {
+        await callback();
+
+        const linking = await request(app)
+            .post('/api/auth/google/link')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(201);
+
+        const params = await callback({}, await start({
+            link_token: new URL(linking.body.data.url).searchParams.get('link_token')!,
+        }));
+
+        expect(params.get('error')).toBe('409');
+    });
+
+    it('should not replace a linked provider account with another one', async () => {
+        await prisma.accountLink.deleteMany({ where: { userId, provider: AccountLinkProvider.GOOGLE } });
+        await linkFlow();
+        const linked = await prisma.accountLink.findFirstOrThrow({
+            where: { userId, provider: AccountLinkProvider.GOOGLE },
+        });
+
+        nextProfile = makeProfile();
+        emails.push(nextProfile.email!);
+        const params = await linkFlow();
+
+        expect(params.get('error')).toBe('409');
+        expect((await prisma.accountLink.findUniqueOrThrow({ where: { id: linked.id } })).providerUserId)
+            .toBe(linked.providerUserId);
+    });
+
+    it('should audit replacing an unlinked provider account', async () => {
+        await prisma.accountLink.updateMany({
+            where: { userId, provider: AccountLinkProvider.GOOGLE },
+            data: { unlinkedAt: new Date() },
+        });
+
+        const params = await linkFlow();
+
+        expect(params.get('linked')).toBe('true');
+
+        const audit = await prisma.auditLog.findFirst({
+            where: { userId, action: 'ACCOUNT_LINK', newValues: { path: ['providerUserId'], equals: nextProfile.id } },
+        });
+        expect(audit?.oldValues).toHaveProperty('providerUserId');
+    });
+
+    it('should reject unsupported providers', async () => {
+        await request(app)
+            .get('/api/auth/github/callback')
+            .query({ code: 'provider-code' })
+            .expect(404);
+    });
+});
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { AuditAction } from '@prisma/client';
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Password change', () => {
+    let userId: string;
+    let token: string;
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('Current-Pass1'),
+                firstName: 'Password',
+                lastName: 'Owner',
+            },
+        });
+
+        userId = user.id;
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email: user.email, password: 'Current-Pass1' });
+
+        token = response.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    const change = (body: Record<string, string>) => request(app)
+        .put('/api/account/password')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+    it('should require the current password', async () => {
+        const response = await change({
+            current_password: 'Wrong-Pass1',
+            password: 'Brand-New-Pass2',
+            password_confirmation: 'Brand-New-Pass2',
+        }).expect(422);
+
+        expect(response.body.errors.current_password).toBeDefined();
+    });
+
+    it('should return policy violations on the password field', async () => {
+        const response = await change({
+            current_password: 'Current-Pass1',
+            password: 'Qwerty123!',
+            password_confirmation: 'Qwerty123!',
+        }).expect(422);
+
+        expect(response.body.errors.password[0]).toContain('too common');
+    });
+
+    it('should not allow reusing the current password', async () => {
+        await change({
+            current_password: 'Current-Pass1',
+            password: 'Current-Pass1',
+            password_confirmation: 'Current-Pass1',
+        }).expect(422);
+    });
+
+    it('should change the password and audit it', async () => {
+        await change({
+            current_password: 'Current-Pass1',
+            password: 'Brand-New-Pass2',
+            password_confirmation: 'Brand-New-Pass2',
+        }).expect(202);
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+        expect(await argon2.verify(user.password, 'Brand-New-Pass2')).toBe(true);
+
+        const audit = await prisma.auditLog.findFirst({
+            where: { userId, action: AuditAction.PASSWORD_CHANGE },
+        });
+        expect(audit).not.toBeNull();
+    });
+});
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Personal access tokens', () => {
+    let userId: string;
+    let loginToken: string;
+    let scopedToken: string;
+    let scopedTokenId: string;
+    const email = faker.internet.email().toLowerCase();
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email,
+                password: await argon2.hash('password'),
+                firstName: 'Token',
+                lastName: 'User',
+            },
+        });
+
+        userId = user.id;
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        loginToken = response.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    it('should give login tokens the wildcard ability', async () => {
+        const session = await prisma.personalAccessToken.findUniqueOrThrow({ where: { token: loginToken } });
+
+        expect(session.type).toBe('SESSION');
+        expect(session.abilities).toEqual(['*']);
+    });
+
+    it('should mint a named token with the chosen abilities and expiry', async () => {
+        const response = await request(app)
+            .post('/api/auth/tokens')
+            .set('Authorization', `Bearer ${loginToken}`)
+            .send({ name: 'Storefront sync', abilities: ['tips:read', 'listings:write'], expires_in_days: 7 })
+            .expect(201);
+
+        scopedToken = response.body.token;
+        scopedTokenId = response.body.data.id;
+
+        expect(scopedToken).toBeDefined();
+        expect(response.body.data).toEqual(expect.objectContaining({
+            name: 'Storefront sync',
+            abilities: ['tips:read', 'listings:write'],
+        }));
+
+        const days = (new Date(response.body.data.expiresAt).getTime() - Date.now()) / 86_400_000;
+        expect(Math.round(days)).toBe(7);
+    });
+
+    it('should reject unknown abilities', async () => {
+        const response = await request(app)
+            .post('/api/auth/tokens')
+            .set('Authorization', `Bearer ${loginToken}`)
+            .send({ name: 'Everything', abilities: ['*'] })
+            .expect(422);
+
+        expect(response.body.errors).toHaveProperty(['abilities.0']);
+    });
+
+    it('should list tokens without exposing them and keep them out of sessions', async () => {
+        const tokens = await request(app)
+            .get('/api/auth/tokens')
+            .set('Authorization', `Bearer ${loginToken}`)
+            .expect(200);
+
+        expect(tokens.body.data).toHaveLength(1);
+        expect(tokens.body.abilities).toHaveProperty(['tips:create']);
+        expect(JSON.stringify(tokens.body)).not.toContain(scopedToken);
+
+        const sessions = await request(app)
+            .get('/api/account/sessions')
+            .set('Authorization', `Bearer ${loginToken}`)
+            .expect(200);
+
+        expect(sessions.body.data.map((session: any) => session.id)).not.toContain(scopedTokenId);
+    });
+
+    it('should allow routes covered by the token abilities', async () => {
+        await request(app)
+            .get('/api/tips')
+            .set('Authorization', `Bearer ${scopedToken}`)
+            .expect(200);
+    });
+
+    it('should deny routes outside the token abilities with the missing ability', async () => {
+        const response = await request(app)
+            .post('/api/tips')
+            .set('Authorization', `Bearer ${scopedToken}`)
+            .send({ receiverId: userId, amount: 1, currency: 'USDC' })
+            .expect(403);
+
+        expect(response.body.errors).toEqual({ abilities: ['tips:create'] });
+
+        const profile = await request(app)
+            .get('/api/profile')
+            .set('Authorization', `Bearer ${scopedToken}`)
+            .expect(403);
+
+        expect(profile.body.errors).toEqual({ abilities: ['profile:read'] });
+    });
+
+    it('should not let scoped tokens manage tokens or sessions', async () => {
+        await request(app)
+            .post('/api/auth/tokens')
+            .set('Authorization', `Bearer ${scopedToken}`)
+            .send({ name: 'Escalation', abilities: ['tips:create'] })
+            .expect(403);
+
+        await request(app)
+            .get('/api/account/sessions')
+            .set('Authorization', `Bearer ${scopedToken}`)
+            .expect(403);
+    });
+
+    it('should revoke a token', async () => {
+        await request(app)
+            .delete(`/api/auth/tokens/${scopedTokenId}`)
+            .set('Authorization', `Bearer ${loginToken}`)
+            .expect(202);
+
+        expect(await prisma.personalAccessToken.findUnique({ where: { id: scopedTokenId } })).toBeNull();
+
+        await request(app)
+            .delete(`/api/auth/tokens/${scopedTokenId}`)
+            .set('Authorization', `Bearer ${loginToken}`)
+            .expect(404);
+    });
+});
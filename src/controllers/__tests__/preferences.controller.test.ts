@@ -2,6 +2,7 @@ import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest
 
 import app from '../../index'
 import argon2 from 'argon2';
+import { generateTotp } from 'src/utils/totp';
 import { prisma } from 'src/db';
 import request from 'supertest';
 
@@ -246,19 +247,34 @@ describe('Preferences Controller', () => {
             );
         });
 
+        it('should refuse to toggle two-factor authentication before enrollment', async () => {
+            const res = await request(app)
+                .post('/api/preferences/two-factor/toggle')
+                .set('Authorization', `Bearer ${userToken}`)
+                .send({ code: '123456' })
+                .expect(422);
+
+            expect(res.body.message).toBe('Two-factor authentication has not been set up.');
+        });
+
         it('should toggle two-factor authentication', async () => {
+            const setup = await request(app)
+                .post('/api/auth/2fa/setup')
+                .set('Authorization', `Bearer ${userToken}`)
+                .expect(201);
+
+            const secret = setup.body.data.secret;
+
             const res = await request(app)
                 .post('/api/preferences/two-factor/toggle')
                 .set('Authorization', `Bearer ${userToken}`)
-                .expect(202)
-                .send({
-                    emailNotifications: false,
-                    theme: 'dark',
-                });
+                .send({ code: generateTotp(secret) })
+                .expect(202);
 
             expect(res.body).toEqual(
                 expect.objectContaining({
                     status: 'success',
+                    recoveryCodes: expect.any(Array),
                     data: expect.objectContaining({
                         twoFactorEnabled: true,
                     }),
@@ -268,11 +284,8 @@ describe('Preferences Controller', () => {
             const res1 = await request(app)
                 .post('/api/preferences/two-factor/toggle')
                 .set('Authorization', `Bearer ${userToken}`)
-                .expect(202)
-                .send({
-                    emailNotifications: false,
-                    theme: 'dark',
-                });
+                .send({ code: res.body.recoveryCodes[0] })
+                .expect(202);
 
             expect(res1.body).toEqual(
                 expect.objectContaining({
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Refresh token rotation', () => {
+    let userId: string;
+    let accessToken: string;
+    let refreshToken: string;
+    const email = faker.internet.email().toLowerCase();
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email,
+                password: await argon2.hash('password'),
+                firstName: 'Refresh',
+                lastName: 'User',
+            },
+        });
+
+        userId = user.id;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    it('should issue a short-lived access token with a refresh token on login', async () => {
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' })
+            .expect(202);
+
+        accessToken = response.body.token;
+        refreshToken = response.body.refresh_token;
+
+        expect(refreshToken).toBeDefined();
+
+        const minutes = (new Date(response.body.token_expires_at).getTime() - Date.now()) / 60_000;
+        expect(minutes).toBeGreaterThan(0);
+        expect(minutes).toBeLessThanOrEqual(15);
+
+        const stored = await prisma.refreshToken.findMany({ where: { userId } });
+        expect(stored).toHaveLength(1);
+        expect(stored[0].tokenHash).not.toBe(refreshToken);
+    });
+
+    it('should rotate the refresh token and keep the same session', async () => {
+        const session = await prisma.personalAccessToken.findUniqueOrThrow({ where: { token: accessToken } });
+
+        const response = await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: refreshToken })
+            .expect(202);
+
+        expect(response.body.data.email).toBe(email);
+        expect(response.body.token).not.toBe(accessToken);
+        expect(response.body.refresh_token).not.toBe(refreshToken);
+
+        const rotated = await prisma.personalAccessToken.findUniqueOrThrow({ where: { id: session.id } });
+        expect(rotated.token).toBe(response.body.token);
+
+        await request(app)
+            .get('/api/account/sessions')
+            .set('Authorization', `Bearer ${response.body.token}`)
+            .expect(200);
+
+        accessToken = response.body.token;
+        refreshToken = response.body.refresh_token;
+    });
+
+    it('should revoke the whole family when a used refresh token is presented again', async () => {
+        const first = await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: refreshToken })
+            .expect(202);
+
+        // Replay the token that was just exchanged
+        await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: refreshToken })
+            .expect(401);
+
+        // The latest token of the family is no longer usable either
+        await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: first.body.refresh_token })
+            .expect(401);
+
+        expect(await prisma.personalAccessToken.findUnique({ where: { token: first.body.token } })).toBeNull();
+        expect(await prisma.refreshToken.count({ where: { userId, revokedAt: null } })).toBe(0);
+
+        const audit = await prisma.auditLog.findFirst({
+            where: { userId, action: 'SESSION_END', entityType: 'RefreshToken' },
+        });
+        expect(audit).not.toBeNull();
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+        await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: 'not-a-refresh-token' })
+            .expect(401);
+
+        await request(app)
+            .post('/api/auth/token/refresh')
+            .send({})
+            .expect(422);
+    });
+
+    it('should reject refresh tokens of revoked sessions', async () => {
+        const login = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        await prisma.personalAccessToken.delete({ where: { token: login.body.token } });
+
+        await request(app)
+            .post('/api/auth/token/refresh')
+            .send({ refresh_token: login.body.refresh_token })
+            .expect(401);
+    });
+});
@@ -0,0 +1,108 @@
+import { AuditAction, UserRole } from '@prisma/client';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Role management', () => {
+    const userIds: string[] = [];
+    let admin: { id: string, token: string };
+    let member: { id: string, token: string };
+
+    const createUser = async (role: UserRole) => {
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'Role',
+                lastName: role,
+                role,
+            },
+        });
+
+        userIds.push(user.id);
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email: user.email, password: 'password' });
+
+        return { id: user.id, token: response.body.token as string };
+    };
+
+    beforeAll(async () => {
+        admin = await createUser(UserRole.ADMIN);
+        member = await createUser(UserRole.USER);
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    });
+
+    it('should list the roles and their permissions', async () => {
+        const response = await request(app)
+            .get('/api/admin/roles')
+            .set('Authorization', `Bearer ${admin.token}`)
+            .expect(200);
+
+        const adminRole = response.body.data.find((entry: { role: string }) => entry.role === UserRole.ADMIN);
+        expect(adminRole.permissions.map((permission: { name: string }) => permission.name)).toContain('roles:manage');
+    });
+
+    it('should deny admin routes to users without the permission', async () => {
+        for (const path of ['/api/admin/roles', '/api/admin/categories', '/api/admin/analytics', '/api/admin/curator-verifications']) {
+            const response = await request(app)
+                .get(path)
+                .set('Authorization', `Bearer ${member.token}`)
+                .expect(403);
+
+            expect(response.body.errors.permissions).toHaveLength(1);
+        }
+    });
+
+    it('should promote and demote users and audit the change', async () => {
+        const target = await createUser(UserRole.USER);
+
+        const promoted = await request(app)
+            .put(`/api/admin/users/${target.id}/role`)
+            .set('Authorization', `Bearer ${admin.token}`)
+            .send({ role: UserRole.CURATOR, reason: 'Runs a workshop' })
+            .expect(202);
+
+        expect(promoted.body.data.role).toBe(UserRole.CURATOR);
+
+        await request(app)
+            .put(`/api/admin/users/${target.id}/role`)
+            .set('Authorization', `Bearer ${admin.token}`)
+            .send({ role: UserRole.USER })
+            .expect(202);
+
+        const audits = await prisma.auditLog.findMany({
+            where: { entityId: target.id, action: AuditAction.ROLE_CHANGE },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        expect(audits).toHaveLength(2);
+        expect(audits[0].userId).toBe(admin.id);
+        expect(audits[0].oldValues).toEqual({ role: UserRole.USER });
+        expect(audits[0].newValues).toEqual({ role: UserRole.CURATOR });
+    });
+
+    it('should not let admins change their own role', async () => {
+        await request(app)
+            .put(`/api/admin/users/${admin.id}/role`)
+            .set('Authorization', `Bearer ${admin.token}`)
+            .send({ role: UserRole.USER })
+            .expect(422);
+    });
+
+    it('should not let users change roles', async () => {
+        await request(app)
+            .put(`/api/admin/users/${member.id}/role`)
+            .set('Authorization', `Bearer ${member.token}`)
+            .send({ role: UserRole.ADMIN })
+            .expect(403);
+    });
+});
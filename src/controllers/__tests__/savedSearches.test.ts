@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { User } from "@prisma/client";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+
+describe("Saved searches", () => {
+    let user: User;
+    let other: User;
+    let userToken: string;
+    let otherToken: string;
+
+    const token = async (owner: User) => {
+        const auth = generateAccessToken({
+            username: owner.email,
+            id: owner.id,
+            index: faker.number.int({ min: 1, max: 1000000 }),
+        });
+
+        await prisma.personalAccessToken.create({
+            data: { token: auth.token, name: "Test", userId: owner.id, expiresAt: new Date(auth.jwt.exp! * 1000) },
+        });
+
+        return auth.token;
+    };
+
+    const save = (filters: Record<string, unknown> = { category: "Pottery", city: "Lagos", page: 2 }) => request(app)
+        .post("/api/saved-searches")
+        .set("Authorization", `Bearer ${userToken}`)
+        .send({ name: "Lagos potters", filters });
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+
+        [user, other] = await Promise.all(["user", "other"].map(name => prisma.user.create({
+            data: {
+                email: `saved-search-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                emailVerifiedAt: new Date(),
+            },
+        })));
+
+        [userToken, otherToken] = await Promise.all([token(user), token(other)]);
+    });
+
+    afterEach(async () => {
+        await prisma.user.deleteMany({ where: { id: { in: [user?.id, other?.id].filter(Boolean) } } });
+    });
+
+    it("should save the validated search filters without pages", async () => {
+        const response = await save();
+
+        expect(response.statusCode).toBe(201);
+        expect(response.body.data.name).toBe("Lagos potters");
+        expect(response.body.data.filters).toMatchObject({ category: "Pottery", city: "Lagos", isVerified: true });
+        expect(response.body.data.filters.page).toBeUndefined();
+
+        const list = await request(app)
+            .get("/api/saved-searches")
+            .set("Authorization", `Bearer ${userToken}`);
+
+        expect(list.body.data).toHaveLength(1);
+    });
+
+    it("should reject invalid filters", async () => {
+        const response = await save({ minRating: 9 });
+
+        expect(response.statusCode).toBe(422);
+    });
+
+    it("should pause and resume a saved search", async () => {
+        const { body } = await save();
+
+        const paused = await request(app)
+            .put(`/api/saved-searches/${body.data.id}/pause`)
+            .set("Authorization", `Bearer ${userToken}`);
+
+        expect(paused.statusCode).toBe(202);
+        expect(paused.body.data.pausedAt).not.toBeNull();
+
+        const resumed = await request(app)
+            .put(`/api/saved-searches/${body.data.id}/resume`)
+            .set("Authorization", `Bearer ${userToken}`);
+
+        expect(resumed.body.data.pausedAt).toBeNull();
+        expect(resumed.body.data.lastRunAt).not.toBeNull();
+    });
+
+    it("should only let users manage their own saved searches", async () => {
+        const { body } = await save();
+
+        const foreign = await request(app)
+            .put(`/api/saved-searches/${body.data.id}`)
+            .set("Authorization", `Bearer ${otherToken}`)
+            .send({ name: "Mine now" });
+
+        expect(foreign.statusCode).toBe(404);
+
+        const own = await request(app)
+            .delete(`/api/saved-searches/${body.data.id}`)
+            .set("Authorization", `Bearer ${userToken}`);
+
+        expect(own.statusCode).toBe(202);
+        expect(await prisma.savedSearch.count({ where: { userId: user.id } })).toBe(0);
+    });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Session management', () => {
+    let userId: string;
+    let phoneToken: string;
+    let laptopToken: string;
+    const email = faker.internet.email().toLowerCase();
+
+    const login = (userAgent: string) => request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', userAgent)
+        .send({ email, password: 'password' });
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email,
+                password: await argon2.hash('password'),
+                firstName: 'Session',
+                lastName: 'User',
+            },
+        });
+
+        userId = user.id;
+        phoneToken = (await login('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).body.token;
+        laptopToken = (await login('Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0')).body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    it('should list active sessions without exposing tokens', async () => {
+        const response = await request(app)
+            .get('/api/account/sessions')
+            .set('Authorization', `Bearer ${laptopToken}`)
+            .expect(200);
+
+        expect(response.body.data).toHaveLength(2);
+        expect(JSON.stringify(response.body)).not.toContain(phoneToken);
+
+        const current = response.body.data.find((session: any) => session.current);
+        expect(current).toEqual(expect.objectContaining({
+            userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0',
+            ipAddress: expect.any(String),
+            createdAt: expect.any(String),
+        }));
+        expect(response.body.data.filter((session: any) => session.current)).toHaveLength(1);
+    });
+
+    it('should update lastUsedAt when a token is used', async () => {
+        const session = await prisma.personalAccessToken.findUniqueOrThrow({ where: { token: laptopToken } });
+
+        expect(session.lastUsedAt).not.toBeNull();
+        expect(session.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should revoke a single session', async () => {
+        const phone = await prisma.personalAccessToken.findUniqueOrThrow({ where: { token: phoneToken } });
+
+        await request(app)
+            .delete(`/api/account/sessions/${phone.id}`)
+            .set('Authorization', `Bearer ${laptopToken}`)
+            .expect(202);
+
+        expect(await prisma.personalAccessToken.findUnique({ where: { id: phone.id } })).toBeNull();
+
+        await request(app)
+            .delete(`/api/account/sessions/${phone.id}`)
+            .set('Authorization', `Bearer ${laptopToken}`)
+            .expect(404);
+    });
+
+    it('should not revoke sessions of other users', async () => {
+        const other = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'Other',
+                lastName: 'User',
+            },
+        });
+
+        const otherLogin = await request(app)
+            .post('/api/auth/login')
+            .send({ email: other.email, password: 'password' });
+
+        const session = await prisma.personalAccessToken.findUniqueOrThrow({
+            where: { token: otherLogin.body.token },
+        });
+
+        await request(app)
+            .delete(`/api/account/sessions/${session.id}`)
+            .set('Authorization', `Bearer ${laptopToken}`)
+            .expect(404);
+
+        await prisma.user.delete({ where: { id: other.id } });
+    });
+
+    it('should revoke every other session', async () => {
+        await login('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) Mobile/15E148');
+        await login('curl/8.4.0');
+
+        const response = await request(app)
+            .delete('/api/account/sessions')
+            .set('Authorization', `Bearer ${laptopToken}`)
+            .expect(202);
+
+        expect(response.body.data.revoked).toBe(2);
+
+        const remaining = await prisma.personalAccessToken.findMany({ where: { userId } });
+        expect(remaining.map(session => session.token)).toEqual([laptopToken]);
+    });
+
+    it('should optionally revoke all sessions on password reset', async () => {
+        await prisma.passwordCodeResets.create({ data: { code: '123456', email } });
+
+        const response = await request(app)
+            .put('/api/auth/password/reset')
+            .send({
+                email,
+                code: '123456',
+                password: 'NewPassword123#',
+                password_confirmation: 'NewPassword123#',
+                revoke_sessions: true,
+            })
+            .expect(202);
+
+        expect(response.body.revoked_sessions).toBe(1);
+        expect(await prisma.personalAccessToken.count({ where: { userId } })).toBe(0);
+    });
+});
@@ -0,0 +1,219 @@
+import * as mailer from "src/mailer/mailer";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { IUser } from "src/models/interfaces";
+import { Tip } from "@prisma/client";
+import { TipVerificationService } from "src/services/TipVerificationService";
+import app from "../../index";
+import { faker } from "@faker-js/faker";
+import { generateAccessToken } from "src/utils/helpers";
+import { prisma } from "src/db";
+import request from "supertest";
+import { subDays } from "date-fns";
+
+describe("Tip Refunds", () => {
+    let sender: IUser;
+    let receiver: IUser;
+    let senderToken: string;
+    let receiverToken: string;
+    let tip: Tip;
+
+    const chain = TipVerificationService.fake();
+
+    const token = (user: IUser) => generateAccessToken({
+        username: user.email,
+        id: user.id,
+        index: faker.number.int({ min: 1, max: 1000000 }),
+    }).token;
+
+    const requestRefund = () => request(app)
+        .post(`/api/tips/${tip.id}/refunds`)
+        .set("Authorization", `Bearer ${senderToken}`)
+        .send({ reason: "Sent to the wrong curator by mistake" });
+
+    beforeEach(async () => {
+        const runId = faker.string.alphanumeric(10).toLowerCase();
+
+        [sender, receiver] = await Promise.all(["sender", "receiver"].map(name => prisma.user.create({
+            data: {
+                email: `refund-${name}-${runId}@test.com`,
+                lastName: faker.person.lastName(),
+                firstName: faker.person.firstName(),
+                password: "Password123#",
+                emailVerifiedAt: new Date(),
+                stellarAddress: `G${name.toUpperCase()}${runId.toUpperCase()}`,
+            },
+        }))) as unknown as IUser[];
+
+        senderToken = token(sender);
+        receiverToken = token(receiver);
+
+        tip = await prisma.tip.create({
+            data: {
+                amount: 5,
+                currency: "XLM",
+                status: "COMPLETED",
+                senderId: sender.id,
+                receiverId: receiver.id,
+                txHash: `tip-${runId}`,
+                verifiedAt: new Date(),
+            },
+        });
+    });
+
+    afterEach(async () => {
+        await prisma.tip.deleteMany({ where: { senderId: sender?.id } });
+        await prisma.user.deleteMany({ where: { id: { in: [sender?.id, receiver?.id].filter(Boolean) } } });
+    });
+
+    describe("POST /tips/:id/refunds", () => {
+        it("should let the sender request a refund", async () => {
+            const response = await requestRefund();
+
+            expect(response.statusCode).toBe(201);
+            expect(response.body.data.status).toBe("REQUESTED");
+            expect(response.body.data.reason).toBe("Sent to the wrong curator by mistake");
+        });
+
+        it("should escape the reason in the receiver's email", async () => {
+            const sendMail = vi.spyOn(mailer, "sendMail").mockResolvedValue(null);
+            const reason = "<img src=x onerror=alert(1)> wrong curator";
+
+            await prisma.userPreferences.create({ data: { userId: receiver.id, digestFrequency: "never" } });
+
+            await request(app)
+                .post(`/api/tips/${tip.id}/refunds`)
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({ reason })
+                .expect(201);
+
+            const [{ text }] = sendMail.mock.calls.find(([mail]) => mail.to === receiver.email)!;
+            const [notification] = await prisma.notification.findMany({ where: { userId: receiver.id } });
+
+            expect(text).toContain("&lt;img src=x onerror=alert(1)&gt; wrong curator");
+            expect(text).not.toContain("<img");
+            expect(notification.body).toContain(reason);
+
+            sendMail.mockRestore();
+        });
+
+        it("should only let the sender request a refund", async () => {
+            const response = await request(app)
+                .post(`/api/tips/${tip.id}/refunds`)
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({ reason: "Refund this tip please" });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it("should not allow a second open request", async () => {
+            await requestRefund();
+
+            const response = await requestRefund();
+
+            expect(response.statusCode).toBe(422);
+        });
+
+        it("should only refund completed tips within the refund window", async () => {
+            await prisma.tip.update({ where: { id: tip.id }, data: { status: "PENDING" } });
+            expect((await requestRefund()).statusCode).toBe(422);
+
+            await prisma.tip.update({
+                where: { id: tip.id },
+                data: { status: "COMPLETED", verifiedAt: subDays(new Date(), 31) },
+            });
+            expect((await requestRefund()).statusCode).toBe(422);
+        });
+    });
+
+    describe("reviewing refunds", () => {
+        beforeEach(async () => {
+            await requestRefund();
+        });
+
+        it("should not let the sender approve their own request", async () => {
+            const response = await request(app)
+                .put(`/api/tips/${tip.id}/refunds/approve`)
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({});
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it("should let the receiver reject the request", async () => {
+            const response = await request(app)
+                .put(`/api/tips/${tip.id}/refunds/reject`)
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({ reason: "The work was delivered" });
+
+            expect(response.statusCode).toBe(202);
+            expect(response.body.data.status).toBe("REJECTED");
+            expect(response.body.data.decisionNote).toBe("The work was delivered");
+
+            const refreshed = await prisma.tip.findUniqueOrThrow({ where: { id: tip.id } });
+            expect(refreshed.status).toBe("COMPLETED");
+        });
+
+        it("should refund the tip once the refund transaction is recorded", async () => {
+            chain.add(`refund-${tip.id}`, [{ to: sender.stellarAddress!, amount: "5", currency: "XLM" }]);
+
+            const approved = await request(app)
+                .put(`/api/tips/${tip.id}/refunds/approve`)
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({ note: "Sorry about that" });
+
+            expect(approved.statusCode).toBe(202);
+            expect(approved.body.data.status).toBe("APPROVED");
+
+            const completed = await request(app)
+                .put(`/api/tips/${tip.id}/refunds/complete`)
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({ refund_tx_hash: `refund-${tip.id}` });
+
+            expect(completed.statusCode).toBe(202);
+            expect(completed.body.data.status).toBe("COMPLETED");
+            expect(completed.body.data.refundTxHash).toBe(`refund-${tip.id}`);
+
+            const refreshed = await prisma.tip.findUniqueOrThrow({ where: { id: tip.id } });
+            expect(refreshed.status).toBe("REFUNDED");
+
+            const events = await request(app)
+                .get(`/api/tips/${tip.id}/events`)
+                .set("Authorization", `Bearer ${senderToken}`);
+
+            expect(events.statusCode).toBe(200);
+            expect(events.body.data.map((event: { action: string }) => event.action)).toEqual([
+                "REFUND_REQUESTED",
+                "REFUND_APPROVED",
+                "REFUNDED",
+            ]);
+        });
+
+        it("should only accept refund transactions paying the tipped amount back to the sender", async () => {
+            chain.add(`short-${tip.id}`, [{ to: sender.stellarAddress!, amount: "4.9", currency: "XLM" }]);
+            chain.add(`elsewhere-${tip.id}`, [{ to: receiver.stellarAddress!, amount: "5", currency: "XLM" }]);
+
+            for (const hash of [`short-${tip.id}`, `elsewhere-${tip.id}`, `unknown-${tip.id}`]) {
+                const response = await request(app)
+                    .put(`/api/tips/${tip.id}/refunds/approve`)
+                    .set("Authorization", `Bearer ${receiverToken}`)
+                    .send({ refund_tx_hash: hash });
+
+                expect(response.statusCode).toBe(422);
+            }
+
+            const refreshed = await prisma.tip.findUniqueOrThrow({ where: { id: tip.id } });
+            expect(refreshed.status).toBe("COMPLETED");
+        });
+
+        it("should not accept the tip's own transaction as the refund", async () => {
+            const response = await request(app)
+                .put(`/api/tips/${tip.id}/refunds/approve`)
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({ refund_tx_hash: tip.txHash });
+
+            expect(response.statusCode).toBe(422);
+        });
+    });
+});
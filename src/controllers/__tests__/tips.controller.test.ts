@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import { IUser } from "src/models/interfaces";
+import { TipVerificationService } from "src/services/TipVerificationService";
 import app from "../../index";
 import { faker } from "@faker-js/faker";
 import { prisma } from "src/db";
@@ -22,6 +23,8 @@ describe("Tips Controller", () => {
                 lastName: faker.person.lastName(),
                 firstName: faker.person.firstName(),
                 password: "Password123#",
+                emailVerifiedAt: new Date(),
+                stellarAddress: `G-SENDER-${runId}`,
             },
         }) as unknown as IUser;
 
@@ -31,6 +34,7 @@ describe("Tips Controller", () => {
                 lastName: faker.person.lastName(),
                 firstName: faker.person.firstName(),
                 password: "Password123#",
+                stellarAddress: `G-RECEIVER-${runId}`,
             },
         }) as unknown as IUser;
 
@@ -114,6 +118,18 @@ describe("Tips Controller", () => {
             expect(response.statusCode).toBe(422);
         });
 
+        it("should require a verified email address", async () => {
+            const response = await request(app)
+                .post("/api/tips")
+                .set("Authorization", `Bearer ${receiverToken}`)
+                .send({
+                    amount: 5,
+                    receiver_id: sender.id,
+                });
+
+            expect(response.statusCode).toBe(403);
+        });
+
         it("should validate minimum amount", async () => {
             const response = await request(app)
                 .post("/api/tips")
@@ -223,7 +239,7 @@ describe("Tips Controller", () => {
     });
 
     describe("PUT /tips/:id", () => {
-        it("should update tip status to COMPLETED with tx_hash", async () => {
+        it("should complete the tip once its transaction is verified", async () => {
             // Create a new pending tip for update test
             const createResponse = await request(app)
                 .post("/api/tips")
@@ -236,6 +252,10 @@ describe("Tips Controller", () => {
             expect(createResponse.statusCode).toBe(201);
             const newTipId = createResponse.body.data.id;
 
+            TipVerificationService.fake().add("0x123abc456def", [
+                { to: receiver.stellarAddress!, amount: "5", currency: "XLM" },
+            ], { from: sender.stellarAddress! });
+
             const response = await request(app)
                 .put(`/api/tips/${newTipId}`)
                 .set("Authorization", `Bearer ${senderToken}`)
@@ -247,6 +267,59 @@ describe("Tips Controller", () => {
             expect(response.body.status).toBe("success");
             expect(response.body.data).toBeDefined();
             expect(response.body.data.txHash).toBe("0x123abc456def");
+            expect(response.body.data.status).toBe("COMPLETED");
+        });
+
+        it("should fail a tip paid by someone else's transaction", async () => {
+            TipVerificationService.fake().add("0xstranger", [
+                { to: receiver.stellarAddress!, amount: "3", currency: "XLM" },
+            ], { from: "G-STRANGER" });
+
+            const response = await request(app)
+                .post("/api/tips")
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({
+                    amount: 3,
+                    receiver_id: receiver.id,
+                    tx_hash: "0xstranger",
+                });
+
+            expect(response.statusCode).toBe(201);
+            expect(response.body.data.status).toBe("FAILED");
+        });
+
+        it("should keep the tip pending while the transaction is unknown", async () => {
+            const createResponse = await request(app)
+                .post("/api/tips")
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({
+                    amount: 4,
+                    receiver_id: receiver.id,
+                    tx_hash: "0xunknown",
+                });
+
+            expect(createResponse.statusCode).toBe(201);
+            expect(createResponse.body.data.status).toBe("PENDING");
+            expect(createResponse.body.data.verificationError).toContain("not found");
+        });
+
+        it("should not allow completing a tip without a verified transaction", async () => {
+            const createResponse = await request(app)
+                .post("/api/tips")
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({
+                    amount: 6,
+                    receiver_id: receiver.id,
+                });
+
+            const response = await request(app)
+                .put(`/api/tips/${createResponse.body.data.id}`)
+                .set("Authorization", `Bearer ${senderToken}`)
+                .send({
+                    status: "COMPLETED",
+                });
+
+            expect(response.statusCode).toBe(422);
         });
 
         it("should update tip status to CANCELLED", async () => {
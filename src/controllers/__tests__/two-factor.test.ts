@@ -0,0 +1,228 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { generateTotp, totpStep } from 'src/utils/totp';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+
+describe('Two-factor authentication', () => {
+    let userId: string;
+    let token: string;
+    let secret: string;
+    let recoveryCodes: string[];
+    const email = faker.internet.email().toLowerCase();
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email,
+                password: await argon2.hash('password'),
+                firstName: 'Two',
+                lastName: 'Factor',
+            },
+        });
+
+        userId = user.id;
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        token = response.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    it('should start enrollment with a secret and provisioning uri', async () => {
+        const response = await request(app)
+            .post('/api/auth/2fa/setup')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(201);
+
+        secret = response.body.data.secret;
+
+        expect(secret).toMatch(/^[A-Z2-7]+$/);
+        expect(response.body.data.otpauthUrl).toContain(`secret=${secret}`);
+
+        const credential = await prisma.twoFactorAuth.findUniqueOrThrow({ where: { userId } });
+        expect(credential.secret).not.toContain(secret);
+        expect(credential.confirmedAt).toBeNull();
+    });
+
+    it('should not enable with an invalid code', async () => {
+        await request(app)
+            .post('/api/auth/2fa/enable')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ code: 'abcdef' })
+            .expect(422);
+    });
+
+    it('should enable with a valid code and return recovery codes', async () => {
+        const response = await request(app)
+            .post('/api/auth/2fa/enable')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ code: generateTotp(secret) })
+            .expect(202);
+
+        recoveryCodes = response.body.data.recoveryCodes;
+
+        expect(recoveryCodes).toHaveLength(10);
+
+        const status = await request(app)
+            .get('/api/auth/2fa')
+            .set('Authorization', `Bearer ${token}`)
+            .expect(200);
+
+        expect(status.body.data).toEqual({ enabled: true, remainingRecoveryCodes: 10 });
+    });
+
+    it('should require a second step to login', async () => {
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' })
+            .expect(202);
+
+        expect(response.body.token).toBeUndefined();
+        expect(response.body.two_factor_required).toBe(true);
+        expect(response.body.challenge_token).toBeDefined();
+
+        // The challenge token can not be used as an access token
+        await request(app)
+            .get('/api/auth/2fa')
+            .set('Authorization', `Bearer ${response.body.challenge_token}`)
+            .expect(401);
+    });
+
+    it('should complete login with a totp code and reject its replay', async () => {
+        const challenge = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        const code = generateTotp(secret, totpStep() + 1);
+
+        const response = await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code })
+            .expect(202);
+
+        expect(response.body.token).toBeDefined();
+        expect(response.body.data.email).toBe(email);
+
+        await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code })
+            .expect(422);
+    });
+
+    it('should complete login with a recovery code only once', async () => {
+        const challenge = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        const response = await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code: recoveryCodes[0] })
+            .expect(202);
+
+        expect(response.body.token).toBeDefined();
+        expect(response.body.remaining_recovery_codes).toBe(9);
+
+        await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code: recoveryCodes[0] })
+            .expect(422);
+    });
+
+    it('should accept a code only once when it is entered twice at the same time', async () => {
+        await prisma.twoFactorAuth.update({ where: { userId }, data: { lastUsedStep: null } });
+
+        for (const code of [generateTotp(secret, totpStep() + 1), recoveryCodes[3]]) {
+            const challenges = await Promise.all([1, 2].map(() => request(app)
+                .post('/api/auth/login')
+                .send({ email, password: 'password' })));
+
+            const responses = await Promise.all(challenges.map(challenge => request(app)
+                .post('/api/auth/login/2fa')
+                .send({ challenge_token: challenge.body.challenge_token, code })));
+
+            expect(responses.map(response => response.status).sort()).toEqual([202, 422]);
+        }
+    });
+
+    it('should void a challenge after too many invalid codes', async () => {
+        const challenge = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' });
+
+        await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code: '000000' })
+            .expect(422);
+
+        const [pending] = await prisma.twoFactorChallenge.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+        });
+
+        expect(pending.attempts).toBe(1);
+
+        await prisma.twoFactorChallenge.update({ where: { id: pending.id }, data: { attempts: 5 } });
+        await prisma.accountLockout.deleteMany({ where: { email } });
+
+        await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: challenge.body.challenge_token, code: generateTotp(secret, totpStep() + 1) })
+            .expect(401);
+    });
+
+    it('should reject an invalid challenge token', async () => {
+        await request(app)
+            .post('/api/auth/login/2fa')
+            .send({ challenge_token: token, code: recoveryCodes[1] })
+            .expect(401);
+    });
+
+    it('should regenerate recovery codes', async () => {
+        const response = await request(app)
+            .post('/api/auth/2fa/recovery-codes')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ code: recoveryCodes[1] })
+            .expect(201);
+
+        expect(response.body.data.recoveryCodes).toHaveLength(10);
+        expect(response.body.data.recoveryCodes).not.toContain(recoveryCodes[2]);
+
+        recoveryCodes = response.body.data.recoveryCodes;
+    });
+
+    it('should disable with a valid code and audit every step', async () => {
+        await request(app)
+            .post('/api/auth/2fa/disable')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ code: recoveryCodes[0] })
+            .expect(202);
+
+        expect(await prisma.twoFactorAuth.findUnique({ where: { userId } })).toBeNull();
+        expect(await prisma.twoFactorRecoveryCode.count({ where: { userId } })).toBe(0);
+
+        const login = await request(app)
+            .post('/api/auth/login')
+            .send({ email, password: 'password' })
+            .expect(202);
+
+        expect(login.body.token).toBeDefined();
+
+        const actions = await prisma.auditLog.findMany({
+            where: { userId, action: { in: ['TWO_FACTOR_SETUP', 'TWO_FACTOR_ENABLE', 'TWO_FACTOR_DISABLE'] } },
+        });
+
+        expect(actions.map(e => e.action)).toEqual(
+            expect.arrayContaining(['TWO_FACTOR_SETUP', 'TWO_FACTOR_ENABLE', 'TWO_FACTOR_DISABLE'])
+        );
+    });
+});
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { publicKeyToAddress, signMessage } from 'src/utils/siwe';
+
+import app from '../../index'
+import argon2 from 'argon2';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import request from 'supertest';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+
+const createWallet = () => {
+    const privateKey = secp256k1.utils.randomSecretKey();
+
+    return {
+        privateKey: '0x' + bytesToHex(privateKey),
+        address: publicKeyToAddress(secp256k1.getPublicKey(privateKey)),
+    };
+};
+
+const signIn = async (wallet: { privateKey: string; address: string }) => {
+    const nonce = await request(app)
+        .get('/api/auth/wallet/nonce')
+        .query({ address: wallet.address })
+        .expect(201);
+
+    return {
+        message: nonce.body.data.message as string,
+        signature: signMessage(nonce.body.data.message, wallet.privateKey),
+    };
+};
+
+describe('Sign-In with Ethereum', () => {
+    const wallet = createWallet();
+    const linkedWallet = createWallet();
+    let userId: string;
+    let token: string;
+
+    beforeAll(async () => {
+        const user = await prisma.user.create({
+            data: {
+                email: faker.internet.email().toLowerCase(),
+                password: await argon2.hash('password'),
+                firstName: 'Wallet',
+                lastName: 'Owner',
+            },
+        });
+
+        userId = user.id;
+
+        const response = await request(app)
+            .post('/api/auth/login')
+            .send({ email: user.email, password: 'password' });
+
+        token = response.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                OR: [
+                    { id: userId },
+                    { walletAddress: { in: [wallet.address, linkedWallet.address] } },
+                ],
+            },
+        });
+    });
+
+    it('should issue an EIP-4361 message with a nonce', async () => {
+        const response = await request(app)
+            .get('/api/auth/wallet/nonce')
+            .query({ address: wallet.address.toLowerCase() })
+            .expect(201);
+
+        const { message, nonce } = response.body.data;
+
+        expect(message).toContain('wants you to sign in with your Ethereum account:');
+        expect(message).toContain(`\n${wallet.address}\n`);
+        expect(message).toContain(`Nonce: ${nonce}`);
+    });
+
+    it('should reject an invalid address', async () => {
+        await request(app)
+            .get('/api/auth/wallet/nonce')
+            .query({ address: '0x1234' })
+            .expect(422);
+    });
+
+    it('should create an account on first sign in', async () => {
+        const response = await request(app)
+            .post('/api/auth/wallet/verify')
+            .send(await signIn(wallet))
+            .expect(201);
+
+        expect(response.body.token).toBeDefined();
+        expect(response.body.refresh_token).toBeDefined();
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { walletAddress: wallet.address } });
+        expect(response.body.data.id).toBe(user.id);
+    });
+
+    it('should log the same account in on later sign ins', async () => {
+        const response = await request(app)
+            .post('/api/auth/wallet/verify')
+            .send(await signIn(wallet))
+            .expect(202);
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { walletAddress: wallet.address } });
+        expect(response.body.data.id).toBe(user.id);
+    });
+
+    it('should not accept a nonce twice', async () => {
+        const payload = await signIn(wallet);
+
+        await request(app).post('/api/auth/wallet/verify').send(payload).expect(202);
+        await request(app).post('/api/auth/wallet/verify').send(payload).expect(401);
+    });
+
+    it('should reject a signature from another wallet', async () => {
+        const { message } = await signIn(wallet);
+
+        await request(app)
+            .post('/api/auth/wallet/verify')
+            .send({ message, signature: signMessage(message, linkedWallet.privateKey) })
+            .expect(401);
+    });
+
+    it('should reject a tampered message', async () => {
+        const { message, signature } = await signIn(wallet);
+
+        await request(app)
+            .post('/api/auth/wallet/verify')
+            .send({ message: message.replace('URI: ', 'URI: https://evil.example'), signature })
+            .expect(401);
+    });
+
+    it('should link a wallet to a logged in account', async () => {
+        const response = await request(app)
+            .post('/api/auth/wallet/link')
+            .set('Authorization', `Bearer ${token}`)
+            .send(await signIn(linkedWallet))
+            .expect(202);
+
+        expect(response.body.data.walletAddress).toBe(linkedWallet.address);
+
+        // Signing in with the linked wallet logs into the existing account
+        const login = await request(app)
+            .post('/api/auth/wallet/verify')
+            .send(await signIn(linkedWallet))
+            .expect(202);
+
+        expect(login.body.data.id).toBe(userId);
+    });
+
+    it('should not link a wallet owned by another account', async () => {
+        await request(app)
+            .post('/api/auth/wallet/link')
+            .set('Authorization', `Bearer ${token}`)
+            .send(await signIn(wallet))
+            .expect(409);
+    });
+});
@@ -0,0 +1,118 @@
+import { Request, Response } from "express";
+
+import { AuditAction } from "@prisma/client";
+import BaseController from "src/controllers/BaseController";
+import { EmailVerificationService } from "src/services/EmailVerificationService";
+import { RequestError } from "src/utils/errors";
+import Resource from 'src/resources/index';
+import UserResource from "src/resources/UserResource";
+import { logAuditEvent } from "src/utils/auditLogger";
+
+/**
+ * EmailVerificationController
+ *
+ * Verifies email addresses and handles email changes, which only take
+ * effect once the new address has been verified.
+ */
+export default class extends BaseController {
+    /**
+     * Verify the user's email address (or pending new address) with a code or link token
+     *
+     * PUT /api/account/verify/:type
+     *
+     * @param req
+     * @param res
+     */
+    update = async (req: Request, res: Response) => {
+        const user = req.user!;
+        const { code } = this.validate(req, {
+            code: 'required|string',
+        });
+
+        const pending = await EmailVerificationService.pending(user.id);
+
+        if (user.emailVerifiedAt && (!pending || pending.email === user.email.toLowerCase())) {
+            throw new RequestError("Your account is already verified.", 429);
+        }
+
+        const { user: data, emailChanged, previousEmail } = await EmailVerificationService.verify(user, code);
+
+        await logAuditEvent(user.id, emailChanged ? AuditAction.EMAIL_CHANGE : AuditAction.EMAIL_VERIFY, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            statusCode: 202,
+            oldValues: emailChanged ? { email: previousEmail } : undefined,
+            newValues: emailChanged ? { email: data.email } : undefined,
+        });
+
+        new UserResource(req, res, data).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: emailChanged
+                    ? 'Your email address has been changed successfully.'
+                    : 'Congratulations, your account has now been verified successfully.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Send a new verification code
+     *
+     * POST /api/account/verify/resend
+     *
+     * @param req
+     * @param res
+     */
+    resend = async (req: Request, res: Response) => {
+        const verification = await EmailVerificationService.resend(req.user!);
+
+        Resource(req, res, {
+            email: verification.email,
+            expiresAt: verification.expiresAt,
+        }).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Verification code resent successfully.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Request a change of email address, a code is sent to the new address
+     *
+     * PUT /api/account/email
+     *
+     * @param req
+     * @param res
+     */
+    changeEmail = async (req: Request, res: Response) => {
+        const user = req.user!;
+        const { email } = this.validate(req, {
+            email: 'required|email',
+        });
+
+        const verification = await EmailVerificationService.requestChange(user, email);
+
+        await logAuditEvent(user.id, AuditAction.EMAIL_CHANGE, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            statusCode: 202,
+            metadata: { status: 'pending', email: verification.email },
+        });
+
+        Resource(req, res, {
+            email: verification.email,
+            expiresAt: verification.expiresAt,
+        }).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'We sent a verification code to your new email address, your email will change once it is verified.',
+                code: 202,
+            });
+    }
+}
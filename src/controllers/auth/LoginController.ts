@@ -1,16 +1,26 @@
+import { AuditAction, EventType } from '@prisma/client';
+import { BaseError, ValidationError } from "src/utils/errors";
 import { Request, Response } from "express";
 
+import { AccountLockoutService } from "src/services/AccountLockoutService";
 import BaseController from "src/controllers/BaseController";
-import { EventType } from '@prisma/client';
-import { UAParser } from "ua-parser-js";
+import Resource from 'src/resources/index';
+import { SessionService } from "src/services/SessionService";
+import { TwoFactorService } from "src/services/TwoFactorService";
 import UserResource from "src/resources/UserResource";
-import { ValidationError } from "src/utils/errors";
 import argon2 from 'argon2';
-import { constructFrom } from "date-fns";
-import { generateAccessToken } from "src/utils/helpers";
+import { logAuditEvent } from "src/utils/auditLogger";
 import { prisma } from 'src/db';
+import { randomBytes } from 'crypto';
 import { trackBusinessEvent } from 'src/utils/analyticsMiddleware';
 
+let dummyPasswordHash: Promise<string> | undefined;
+
+/**
+ * A hash of a random password, verified against when the email is unknown
+ */
+const dummyHash = () => dummyPasswordHash ??= argon2.hash(randomBytes(16).toString('hex'));
+
 /**
  * RegisterController
  */
@@ -31,52 +41,71 @@ export default class extends BaseController {
             password: 'required'
         });
 
+        // Delayed and locked addresses are refused before the password is checked
+        await AccountLockoutService.assertCanAttempt(formData.email, res);
+
         const user = await prisma.user.findFirst({
             where: {
                 email: formData.email,
             },
         })
 
-        if (!user) {
+        // Unknown addresses are checked against a dummy hash so both failures take as long
+        const verify = await argon2.verify(user?.password ?? await dummyHash(), formData.password)
+            .catch(() => false)
+
+        if (!user || !verify) {
+            const { locked } = await AccountLockoutService.recordFailure(formData.email, user, req.ip);
+
             // Track failed login attempt
-            await trackBusinessEvent(EventType.LOGIN_FAILED, undefined, {
+            await trackBusinessEvent(EventType.LOGIN_FAILED, user?.id, {
                 method: 'email',
                 email: formData.email,
-                reason: 'user_not_found',
+                reason: user ? 'invalid_password' : 'user_not_found',
+                locked,
             });
 
+            if (user && locked) {
+                await logAuditEvent(user.id, AuditAction.ACCOUNT_LOCK, {
+                    req,
+                    entityType: 'User',
+                    entityId: user.id,
+                    statusCode: 422,
+                });
+            }
+
             throw new ValidationError("Login failed", {
                 email: ['Invalid email address or password']
             });
         }
 
-        const verify = await argon2.verify(user?.password!, formData.password)
-
-        if (!verify) {
-            // Track failed login attempt (wrong password)
-            await trackBusinessEvent(EventType.LOGIN_FAILED, user.id, {
-                method: 'email',
-                email: formData.email,
-                reason: 'invalid_password',
+        // Users with two-factor authentication must complete a second step
+        // before an access token is issued.
+        if (await TwoFactorService.isEnabled(user.id)) {
+            await logAuditEvent(user.id, AuditAction.TWO_FACTOR_CHALLENGE, {
+                req,
+                entityType: 'User',
+                entityId: user.id,
+                statusCode: 202,
             });
 
-            throw new ValidationError("Login failed", {
-                email: ['Invalid email address or password']
-            });
+            const challengeToken = await TwoFactorService.createChallengeToken(user.id);
+
+            return Resource(req, res, {}).json()
+                .status(202)
+                .additional({
+                    status: 'success',
+                    message: 'Two-factor authentication required.',
+                    code: 202,
+                    two_factor_required: true,
+                    challenge_token: challengeToken,
+                });
         }
 
-        const { device, ua } = UAParser(req.headers['user-agent']);
-        const { token, jwt } = generateAccessToken({ username: user?.email!, id: user?.id!, index: Math.random() });
-        const deviceName = `${device.type ?? ua.split('/').at(0)} ${device.model ?? ua.split('/').at(-1)}`
+        // Failures are only forgotten once the login fully succeeded
+        await AccountLockoutService.clear(formData.email);
 
-        await prisma.personalAccessToken.create({
-            data: {
-                token,
-                name: ['', ' '].includes(deviceName) ? 'Unknown Device' : deviceName,
-                userId: user?.id!,
-                expiresAt: constructFrom(jwt.exp!, new Date),
-            }
-        })
+        const { token, refreshToken, accessTokenExpiresAt } = await SessionService.issue(req, user)
 
         // Track user login for analytics
         trackBusinessEvent(EventType.USER_LOGIN, user?.id, {
@@ -90,42 +119,131 @@ export default class extends BaseController {
                 message: 'Login Successful.',
                 code: 202,
                 token,
+                refresh_token: refreshToken,
+                token_expires_at: accessTokenExpiresAt,
             });
     }
     /**
-     * Authorize an OAuth Login request
-     * 
+     * Complete a two-factor login using the challenge token from the first step
+     * and a TOTP or recovery code.
+     *
      * @param req 
      * @param res 
      */
-    oauth = async (req: Request, res: Response) => {
-        const type = String(req.params.type)
+    twoFactor = async (req: Request, res: Response) => {
+        const formData = this.validate(req, {
+            challenge_token: 'required|string',
+            code: 'required|string',
+        });
 
-        const { device, ua } = UAParser(req.headers['user-agent']);
-        const { token, jwt } = generateAccessToken({ username: req.user?.email!, id: req.user?.id!, index: Math.random() });
+        const challenge = await TwoFactorService.verifyChallengeToken(formData.challenge_token);
+        const user = await prisma.user.findUnique({ where: { id: challenge.userId } })
 
-        await prisma.personalAccessToken.create({
-            data: {
-                token,
-                name: `${device.type ?? ua.split('/').at(0)} ${device.model ?? ua.split('/').at(-1)}`,
-                userId: req.user?.id!,
-                expiresAt: constructFrom(jwt.exp!, new Date),
+        if (!user) {
+            throw new ValidationError("Login failed", {
+                code: ['The login challenge is invalid or has expired.']
+            });
+        }
+
+        // Wrong codes count against the account like wrong passwords
+        await AccountLockoutService.assertCanAttempt(user.email, res);
+
+        let verification
+
+        try {
+            verification = await TwoFactorService.verify(user.id, formData.code)
+        } catch (error) {
+            await TwoFactorService.recordChallengeFailure(challenge.id);
+
+            const { locked } = await AccountLockoutService.recordFailure(user.email, user, req.ip);
+
+            if (locked) {
+                await logAuditEvent(user.id, AuditAction.ACCOUNT_LOCK, {
+                    req,
+                    entityType: 'User',
+                    entityId: user.id,
+                    statusCode: 422,
+                });
             }
-        })
 
-        // Track OAuth login for analytics
-        trackBusinessEvent(EventType.USER_LOGIN, req.user?.id, {
-            method: 'oauth',
-            provider: type,
+            await logAuditEvent(user.id, AuditAction.TWO_FACTOR_VERIFY, {
+                req,
+                entityType: 'User',
+                entityId: user.id,
+                statusCode: error instanceof BaseError ? error.statusCode : 500,
+                errorMessage: error instanceof Error ? error.message : String(error),
+            });
+
+            await trackBusinessEvent(EventType.LOGIN_FAILED, user.id, {
+                method: 'email',
+                reason: 'invalid_two_factor_code',
+            });
+
+            throw new ValidationError("Login failed", {
+                code: [error instanceof Error ? error.message : 'The authentication code is invalid.']
+            });
+        }
+
+        await logAuditEvent(user.id, AuditAction.TWO_FACTOR_VERIFY, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            statusCode: 202,
+            metadata: verification,
         });
 
-        new UserResource(req, res, req.user).json()
+        await AccountLockoutService.clear(user.email);
+
+        const { token, refreshToken, accessTokenExpiresAt } = await SessionService.issue(req, user)
+
+        trackBusinessEvent(EventType.USER_LOGIN, user.id, {
+            method: 'email',
+            twoFactor: verification.method,
+        });
+
+        new UserResource(req, res, user).json()
             .status(202)
             .additional({
                 status: 'success',
-                message: type.titleCase() + ' Login Successful.',
+                message: 'Login Successful.',
                 code: 202,
                 token,
+                refresh_token: refreshToken,
+                token_expires_at: accessTokenExpiresAt,
+                remaining_recovery_codes: verification.remainingRecoveryCodes,
+            });
+    }
+
+    /**
+     * Unlock an account locked after too many failed logins, using the
+     * one-time token from the unlock email.
+     *
+     * POST /api/auth/unlock
+     *
+     * @param req
+     * @param res
+     */
+    unlock = async (req: Request, res: Response) => {
+        const { token } = this.validate(req, {
+            token: 'required|string',
+        });
+
+        const lockout = await AccountLockoutService.unlock(token);
+
+        await logAuditEvent(lockout.userId, AuditAction.ACCOUNT_UNLOCK, {
+            req,
+            entityType: 'User',
+            entityId: lockout.userId ?? undefined,
+            statusCode: 202,
+            metadata: { via: 'unlock_link' },
+        });
+
+        Resource(req, res, {}).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Your account has been unlocked, you can now sign in.',
+                code: 202,
             });
     }
 
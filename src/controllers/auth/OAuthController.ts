@@ -0,0 +1,168 @@
+import { AuditAction, EventType } from '@prisma/client';
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { OAuthService } from "src/services/OAuthService";
+import Resource from 'src/resources/index';
+import { RequestError } from "src/utils/errors";
+import { SessionService } from "src/services/SessionService";
+import { TwoFactorService } from "src/services/TwoFactorService";
+import UserResource from "src/resources/UserResource";
+import { addMinutes } from 'date-fns';
+import { config } from "src/config";
+import { logAuditEvent } from "src/utils/auditLogger";
+import { trackBusinessEvent } from 'src/utils/analyticsMiddleware';
+
+/**
+ * OAuthController
+ *
+ * Google and Facebook login: the provider callbacks resolve (or create) the
+ * user through their AccountLink, start a session and send the browser back
+ * to the frontend with a one-time code it exchanges for the session tokens.
+ */
+export default class extends BaseController {
+    /**
+     * Get the URL that starts the provider flow in link mode for the authenticated user
+     *
+     * POST /api/auth/:type/link
+     *
+     * @param req
+     * @param res
+     */
+    link = async (req: Request, res: Response) => {
+        const type = String(req.params.type);
+        const provider = OAuthService.provider(type);
+        const linkToken = OAuthService.createLinkToken(req.user?.id!, provider);
+
+        const url = new URL(`/api/auth/${type}`, String(config('app.url')));
+        url.searchParams.set('link_token', linkToken);
+
+        Resource(req, res, {
+            url: url.toString(),
+            expiresAt: addMinutes(new Date(), OAuthService.LINK_TOKEN_TTL_MINUTES),
+        }).json()
+            .status(201)
+            .additional({
+                status: 'success',
+                message: `Continue to ${type.titleCase()} to link your account.`,
+                code: 201,
+            });
+    }
+
+    /**
+     * Handle the provider callback, logs the user in or links the provider
+     * account and redirects to the frontend
+     *
+     * GET /api/auth/:type/callback
+     *
+     * @param req
+     * @param res
+     */
+    callback = async (req: Request, res: Response) => {
+        const type = String(req.params.type);
+        const profile = req.oauthProfile!;
+
+        try {
+            const linkUserId = OAuthService.verifyLinkToken(
+                OAuthService.parseState(req.query.state).linkToken,
+                profile.provider
+            );
+
+            if (linkUserId) {
+                const accountLink = await OAuthService.link(linkUserId, profile);
+
+                await logAuditEvent(linkUserId, AuditAction.ACCOUNT_LINK, {
+                    req,
+                    entityType: 'AccountLink',
+                    entityId: accountLink.id,
+                    statusCode: 302,
+                    metadata: { provider: profile.provider, method: 'oauth' },
+                });
+
+                return res.redirect(OAuthService.frontendUrl({ provider: type, linked: 'true' }));
+            }
+
+            const { user, created } = await OAuthService.resolveUser(profile);
+
+            if (created) {
+                trackBusinessEvent(EventType.USER_SIGNUP, user.id, {
+                    method: 'oauth',
+                    provider: type,
+                });
+            }
+
+            // Users with two-factor authentication get their session after the challenge
+            const twoFactor = await TwoFactorService.isEnabled(user.id);
+            const session = twoFactor ? null : (await SessionService.start(req, user)).session;
+            const code = await OAuthService.createExchangeCode(user.id, profile.provider, session?.id);
+
+            await logAuditEvent(user.id, twoFactor ? AuditAction.TWO_FACTOR_CHALLENGE : AuditAction.LOGIN, {
+                req,
+                entityType: 'User',
+                entityId: user.id,
+                statusCode: 302,
+                metadata: { method: 'oauth', provider: profile.provider, created },
+            });
+
+            if (!twoFactor) {
+                trackBusinessEvent(EventType.USER_LOGIN, user.id, {
+                    method: 'oauth',
+                    provider: type,
+                });
+            }
+
+            res.redirect(OAuthService.frontendUrl({ provider: type, code }));
+        } catch (error) {
+            if (!(error instanceof RequestError)) {
+                throw error;
+            }
+
+            res.redirect(OAuthService.frontendUrl({
+                provider: type,
+                error: String(error.statusCode),
+                error_description: error.message,
+            }));
+        }
+    }
+
+    /**
+     * Exchange the one-time code handed to the frontend for the session tokens
+     *
+     * POST /api/auth/oauth/exchange
+     *
+     * @param req
+     * @param res
+     */
+    exchange = async (req: Request, res: Response) => {
+        const { code } = this.validate(req, {
+            code: 'required|string',
+        });
+
+        const result = await OAuthService.exchange(code);
+
+        if (!result.session) {
+            const challengeToken = await TwoFactorService.createChallengeToken(result.user.id);
+
+            return Resource(req, res, {}).json()
+                .status(202)
+                .additional({
+                    status: 'success',
+                    message: 'Two-factor authentication required.',
+                    code: 202,
+                    two_factor_required: true,
+                    challenge_token: challengeToken,
+                });
+        }
+
+        new UserResource(req, res, result.user).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: result.provider.toLowerCase().titleCase() + ' Login Successful.',
+                code: 202,
+                token: result.token,
+                refresh_token: result.refreshToken,
+                token_expires_at: result.accessTokenExpiresAt,
+            });
+    }
+}
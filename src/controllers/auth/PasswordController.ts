@@ -0,0 +1,66 @@
+import { Request, Response } from "express";
+
+import { AuditAction } from "@prisma/client";
+import BaseController from "src/controllers/BaseController";
+import { PasswordPolicyService } from "src/services/PasswordPolicyService";
+import { SessionService } from "src/services/SessionService";
+import UserResource from "src/resources/UserResource";
+import { ValidationError } from "src/utils/errors";
+import argon2 from 'argon2';
+import { logAuditEvent } from "src/utils/auditLogger";
+import { prisma } from 'src/db';
+
+/**
+ * PasswordController
+ *
+ * Lets signed in users change their password.
+ */
+export default class extends BaseController {
+    /**
+     * Change the password of the authenticated user
+     *
+     * PUT /api/account/password
+     *
+     * @param req
+     * @param res
+     */
+    update = async (req: Request, res: Response) => {
+        const { current_password, password, revoke_sessions } = this.validate(req, {
+            current_password: 'required|string',
+            password: 'required|string|confirmed',
+            revoke_sessions: 'nullable|boolean',
+        });
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user?.id } });
+
+        if (!await argon2.verify(user.password, current_password).catch(() => false)) {
+            throw new ValidationError('The current password is incorrect.', {
+                current_password: ['The current password is incorrect.']
+            });
+        }
+
+        const data = await PasswordPolicyService.update(user, password);
+
+        // Optionally sign the account out of every other device
+        const revokedSessions = [true, 'true', 1, '1'].includes(revoke_sessions)
+            ? await SessionService.revokeOthers(user.id, req.authToken)
+            : 0;
+
+        await logAuditEvent(user.id, AuditAction.PASSWORD_CHANGE, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            statusCode: 202,
+            metadata: { via: 'password_change', revokedSessions },
+        });
+
+        new UserResource(req, res, data).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Your password has been changed successfully.',
+                code: 202,
+                revoked_sessions: revokedSessions,
+            });
+    }
+}
@@ -1,16 +1,18 @@
 import { Request, Response } from "express";
 
 import BaseController from "src/controllers/BaseController";
-import { EventType } from '@prisma/client';
+import { AuditAction, EventType } from '@prisma/client';
 import { IUser } from "src/models/interfaces";
-import { Password } from "simple-body-validator";
+import { PasswordPolicyService } from "src/services/PasswordPolicyService";
 import Resource from 'src/resources/index';
+import { SessionService } from 'src/services/SessionService';
 import UserResource from "src/resources/UserResource";
 import { ValidationError } from "src/utils/errors";
 import argon2 from 'argon2';
 import base64url from "base64url";
 import { config } from "src/config";
 import { differenceInMinutes } from "date-fns";
+import { logAuditEvent } from 'src/utils/auditLogger';
 import { prisma } from 'src/db';
 import { secureOtp } from "src/utils/helpers";
 import { sendMail } from "src/mailer/mailer";
@@ -72,10 +74,11 @@ export default class extends BaseController {
     }
 
     update = async (req: Request, res: Response) => {
-        const { code, email, password } = this.validate(req, {
+        const { code, email, password, revoke_sessions } = this.validate(req, {
             email: 'required|string',
             code: 'required|string',
-            password: [Password.create().min(8).letters().numbers().symbols(1).mixedCase(1).rules(['required', 'confirmed'])]
+            password: 'required|string|confirmed',
+            revoke_sessions: 'nullable|boolean',
         });
 
         const check = await prisma.passwordCodeResets.findFirst({
@@ -109,21 +112,33 @@ export default class extends BaseController {
         }
 
         if (password) {
-            const data = await prisma.user.update({
-                where: { email },
-                data: { password: await argon2.hash(password) },
-            })
+            const user = await prisma.user.findFirstOrThrow({ where: { email } })
+            const data = await PasswordPolicyService.update(user, password)
 
             await prisma.passwordCodeResets.deleteMany({
                 where: { OR: [{ email }, { phone: email }] }
             })
 
-            new UserResource(req, res, data).json()
+            // Optionally sign the account out of every device
+            const revokedSessions = [true, 'true', 1, '1'].includes(revoke_sessions)
+                ? await SessionService.revokeAll(data.id)
+                : 0
+
+            await logAuditEvent(data.id, AuditAction.PASSWORD_CHANGE, {
+                req,
+                entityType: 'User',
+                entityId: data.id,
+                statusCode: 202,
+                metadata: { via: 'password_reset', revokedSessions },
+            });
+
+            return new UserResource(req, res, data).json()
                 .status(202)
                 .additional({
                     status: 'success',
                     message: 'Congratulations, your account password has now been reset successfully, you can proceed to login.',
                     code: 202,
+                    revoked_sessions: revokedSessions,
                 });
         }
 
@@ -0,0 +1,108 @@
+import { Request, Response } from "express";
+import { TOKEN_ABILITIES, TokenAbility } from "src/middleware/abilities";
+
+import { AuditAction } from "@prisma/client";
+import BaseController from "src/controllers/BaseController";
+import PersonalTokenCollection from "src/resources/PersonalTokenCollection";
+import PersonalTokenResource from "src/resources/PersonalTokenResource";
+import { PersonalTokenService } from "src/services/PersonalTokenService";
+import Resource from 'src/resources/index';
+import { logAuditEvent } from "src/utils/auditLogger";
+
+/**
+ * PersonalTokenController
+ *
+ * Lets users mint scoped access tokens for their integrations.
+ */
+export default class extends BaseController {
+    /**
+     * List the personal access tokens of the authenticated user
+     *
+     * GET /api/auth/tokens
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const tokens = await PersonalTokenService.list(req.user?.id!);
+
+        new PersonalTokenCollection(req, res, tokens).json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+                abilities: TOKEN_ABILITIES,
+            });
+    }
+
+    /**
+     * Mint a new personal access token
+     *
+     * POST /api/auth/tokens
+     *
+     * @param req
+     * @param res
+     */
+    create = async (req: Request, res: Response) => {
+        const user = req.user!;
+        const { name, abilities, expires_in_days } = this.validate(req, {
+            name: 'required|string|max:100',
+            abilities: 'required|array',
+            'abilities.*': `required|string|in:${Object.keys(TOKEN_ABILITIES).join(',')}`,
+            expires_in_days: `nullable|integer|min:1|max:${PersonalTokenService.MAX_EXPIRY_DAYS}`,
+        });
+
+        const { token, personalToken } = await PersonalTokenService.create(user, {
+            name,
+            abilities: abilities as TokenAbility[],
+            expiresInDays: expires_in_days ? Number(expires_in_days) : undefined,
+        });
+
+        await logAuditEvent(user.id, AuditAction.API_TOKEN_CREATE, {
+            req,
+            entityType: 'PersonalAccessToken',
+            entityId: personalToken.id,
+            statusCode: 201,
+            newValues: { name: personalToken.name, abilities: personalToken.abilities, expiresAt: personalToken.expiresAt },
+        });
+
+        new PersonalTokenResource(req, res, personalToken).json()
+            .status(201)
+            .additional({
+                status: 'success',
+                message: 'Access token created. Copy it now, it will not be shown again.',
+                code: 201,
+                token,
+            });
+    }
+
+    /**
+     * Revoke a personal access token
+     *
+     * DELETE /api/auth/tokens/:id
+     *
+     * @param req
+     * @param res
+     */
+    delete = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const personalToken = await PersonalTokenService.revoke(userId, String(req.params.id));
+
+        await logAuditEvent(userId, AuditAction.API_TOKEN_REVOKE, {
+            req,
+            entityType: 'PersonalAccessToken',
+            entityId: personalToken.id,
+            statusCode: 202,
+            oldValues: { name: personalToken.name, abilities: personalToken.abilities },
+        });
+
+        Resource(req, res, {}).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Access token revoked successfully.',
+                code: 202,
+            });
+    }
+}
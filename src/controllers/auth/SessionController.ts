@@ -0,0 +1,121 @@
+import { Request, Response } from "express";
+
+import { AuditAction } from "@prisma/client";
+import BaseController from "src/controllers/BaseController";
+import Resource from 'src/resources/index';
+import SessionCollection from "src/resources/SessionCollection";
+import { SessionService } from "src/services/SessionService";
+import UserResource from "src/resources/UserResource";
+import { logAuditEvent } from "src/utils/auditLogger";
+
+/**
+ * SessionController
+ *
+ * Lets users renew their session tokens, review the devices they are
+ * signed in on and revoke them.
+ */
+export default class extends BaseController {
+    /**
+     * List the active sessions of the authenticated user
+     *
+     * GET /api/account/sessions
+     *
+     * @param req
+     * @param res
+     */
+    index = async (req: Request, res: Response) => {
+        const sessions = await SessionService.list(req.user?.id!);
+
+        new SessionCollection(req, res, sessions).json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Exchange a refresh token for a new access token and refresh token
+     *
+     * POST /api/auth/token/refresh
+     *
+     * @param req
+     * @param res
+     */
+    refresh = async (req: Request, res: Response) => {
+        const { refresh_token } = this.validate(req, {
+            refresh_token: 'required|string',
+        });
+
+        const { token, refreshToken, accessTokenExpiresAt, user } = await SessionService.refresh(req, refresh_token);
+
+        new UserResource(req, res, user).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Token refreshed successfully.',
+                code: 202,
+                token,
+                refresh_token: refreshToken,
+                token_expires_at: accessTokenExpiresAt,
+            });
+    }
+
+    /**
+     * Revoke a single session
+     *
+     * DELETE /api/account/sessions/:id
+     *
+     * @param req
+     * @param res
+     */
+    delete = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const session = await SessionService.revoke(userId, String(req.params.id));
+
+        await logAuditEvent(userId, AuditAction.SESSION_END, {
+            req,
+            entityType: 'PersonalAccessToken',
+            entityId: session.id,
+            statusCode: 202,
+            metadata: { device: session.name, current: session.token === req.authToken },
+        });
+
+        Resource(req, res, {}).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Session revoked successfully.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Revoke every session except the current one
+     *
+     * DELETE /api/account/sessions
+     *
+     * @param req
+     * @param res
+     */
+    deleteOthers = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const revoked = await SessionService.revokeOthers(userId, req.authToken);
+
+        await logAuditEvent(userId, AuditAction.SESSION_END, {
+            req,
+            entityType: 'PersonalAccessToken',
+            statusCode: 202,
+            metadata: { scope: 'others', revoked },
+        });
+
+        Resource(req, res, { revoked }).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'All other sessions have been revoked.',
+                code: 202,
+            });
+    }
+}
@@ -0,0 +1,177 @@
+import { Request, Response } from "express";
+
+import { AuditAction } from "@prisma/client";
+import BaseController from "src/controllers/BaseController";
+import { BaseError } from "src/utils/errors";
+import Resource from 'src/resources/index';
+import { TwoFactorService } from "src/services/TwoFactorService";
+import { logAuditEvent } from "src/utils/auditLogger";
+
+/**
+ * TwoFactorController
+ *
+ * Manages TOTP enrollment, confirmation, recovery codes and deactivation
+ * for the authenticated user.
+ */
+export default class extends BaseController {
+    /**
+     * Get the two-factor status of the authenticated user
+     *
+     * GET /api/auth/2fa
+     *
+     * @param req
+     * @param res
+     */
+    show = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+
+        const [enabled, remainingRecoveryCodes] = await Promise.all([
+            TwoFactorService.isEnabled(userId),
+            TwoFactorService.remainingRecoveryCodes(userId),
+        ]);
+
+        Resource(req, res, { enabled, remainingRecoveryCodes }).json()
+            .status(200)
+            .additional({
+                status: 'success',
+                message: 'OK',
+                code: 200,
+            });
+    }
+
+    /**
+     * Start enrollment and return the secret and provisioning URI
+     *
+     * POST /api/auth/2fa/setup
+     *
+     * @param req
+     * @param res
+     */
+    setup = async (req: Request, res: Response) => {
+        const user = req.user!;
+
+        const data = await TwoFactorService.setup(user);
+
+        await logAuditEvent(user.id, AuditAction.TWO_FACTOR_SETUP, {
+            req,
+            entityType: 'TwoFactorAuth',
+            statusCode: 201,
+        });
+
+        Resource(req, res, data).json()
+            .status(201)
+            .additional({
+                status: 'success',
+                message: 'Scan the QR code with your authenticator app, then confirm with a code to enable two-factor authentication.',
+                code: 201,
+            });
+    }
+
+    /**
+     * Confirm enrollment with a code and enable two-factor authentication
+     *
+     * POST /api/auth/2fa/enable
+     *
+     * @param req
+     * @param res
+     */
+    enable = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const { code } = this.validate(req, {
+            code: 'required|string',
+        });
+
+        const recoveryCodes = await this.#audited(req, AuditAction.TWO_FACTOR_ENABLE, () =>
+            TwoFactorService.enable(userId, code)
+        );
+
+        Resource(req, res, { enabled: true, recoveryCodes }).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe, they will not be shown again.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Disable two-factor authentication, requires a current code
+     *
+     * POST /api/auth/2fa/disable
+     *
+     * @param req
+     * @param res
+     */
+    disable = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const { code } = this.validate(req, {
+            code: 'required|string',
+        });
+
+        await this.#audited(req, AuditAction.TWO_FACTOR_DISABLE, () =>
+            TwoFactorService.disable(userId, code)
+        );
+
+        Resource(req, res, { enabled: false }).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Two-factor authentication disabled.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Replace the recovery codes, requires a current code
+     *
+     * POST /api/auth/2fa/recovery-codes
+     *
+     * @param req
+     * @param res
+     */
+    recoveryCodes = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const { code } = this.validate(req, {
+            code: 'required|string',
+        });
+
+        const recoveryCodes = await this.#audited(req, AuditAction.TWO_FACTOR_RECOVERY_CODES, async () => {
+            await TwoFactorService.verify(userId, code);
+            return TwoFactorService.regenerateRecoveryCodes(userId);
+        });
+
+        Resource(req, res, { recoveryCodes }).json()
+            .status(201)
+            .additional({
+                status: 'success',
+                message: 'New recovery codes generated, the previous codes can no longer be used.',
+                code: 201,
+            });
+    }
+
+    /**
+     * Run a two-factor operation and record its outcome in the audit log
+     */
+    #audited = async <T> (req: Request, action: AuditAction, operation: () => Promise<T>): Promise<T> => {
+        try {
+            const result = await operation();
+
+            await logAuditEvent(req.user?.id, action, {
+                req,
+                entityType: 'TwoFactorAuth',
+                statusCode: 202,
+            });
+
+            return result;
+        } catch (error) {
+            await logAuditEvent(req.user?.id, action, {
+                req,
+                entityType: 'TwoFactorAuth',
+                statusCode: error instanceof BaseError ? error.statusCode : 500,
+                errorMessage: error instanceof Error ? error.message : String(error),
+            });
+
+            throw error;
+        }
+    }
+}
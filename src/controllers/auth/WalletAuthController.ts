@@ -0,0 +1,203 @@
+import { AuditAction, EventType } from '@prisma/client';
+import { Request, Response } from "express";
+
+import BaseController from "src/controllers/BaseController";
+import { RequestError } from "src/utils/errors";
+import Resource from 'src/resources/index';
+import { SessionService } from "src/services/SessionService";
+import { StellarVerifier } from "src/services/chain/StellarVerifier";
+import { TwoFactorService } from "src/services/TwoFactorService";
+import UserResource from "src/resources/UserResource";
+import { WalletAuthService } from "src/services/WalletAuthService";
+import { logAuditEvent } from "src/utils/auditLogger";
+import { prisma } from 'src/db';
+import { trackBusinessEvent } from 'src/utils/analyticsMiddleware';
+import { validate } from "src/utils/validator";
+
+/**
+ * WalletAuthController
+ *
+ * Sign-In with Ethereum: wallet login and linking wallets to existing accounts,
+ * plus the Stellar account tips are paid to.
+ */
+export default class extends BaseController {
+    /**
+     * Get a one-time nonce and the message the wallet should sign
+     *
+     * GET /api/auth/wallet/nonce?address=0x...
+     *
+     * @param req
+     * @param res
+     */
+    nonce = async (req: Request, res: Response) => {
+        const { address, chain_id } = validate(req.query, {
+            address: 'required|string',
+            chain_id: 'nullable|integer|min:1',
+        });
+
+        const data = await WalletAuthService.createNonce(address, chain_id ? Number(chain_id) : undefined);
+
+        Resource(req, res, data).json()
+            .status(201)
+            .additional({
+                status: 'success',
+                message: 'Sign the message with your wallet to continue.',
+                code: 201,
+            });
+    }
+
+    /**
+     * Log in (or sign up) with a signed message
+     *
+     * POST /api/auth/wallet/verify
+     *
+     * @param req
+     * @param res
+     */
+    verify = async (req: Request, res: Response) => {
+        const { message, signature } = this.validate(req, {
+            message: 'required|string',
+            signature: 'required|string',
+        });
+
+        const address = await WalletAuthService.verify(message, signature);
+        const { user, created } = await WalletAuthService.findOrCreateUser(address);
+
+        if (created) {
+            trackBusinessEvent(EventType.USER_SIGNUP, user.id, {
+                method: 'wallet',
+            });
+        }
+
+        // Users with two-factor authentication must complete a second step
+        if (await TwoFactorService.isEnabled(user.id)) {
+            await logAuditEvent(user.id, AuditAction.TWO_FACTOR_CHALLENGE, {
+                req,
+                entityType: 'User',
+                entityId: user.id,
+                statusCode: 202,
+                metadata: { method: 'wallet' },
+            });
+
+            const challengeToken = await TwoFactorService.createChallengeToken(user.id);
+
+            return Resource(req, res, {}).json()
+                .status(202)
+                .additional({
+                    status: 'success',
+                    message: 'Two-factor authentication required.',
+                    code: 202,
+                    two_factor_required: true,
+                    challenge_token: challengeToken,
+                });
+        }
+
+        const { token, refreshToken, accessTokenExpiresAt } = await SessionService.issue(req, user);
+
+        await logAuditEvent(user.id, AuditAction.LOGIN, {
+            req,
+            entityType: 'User',
+            entityId: user.id,
+            statusCode: created ? 201 : 202,
+            metadata: { method: 'wallet', walletAddress: address },
+        });
+
+        trackBusinessEvent(EventType.USER_LOGIN, user.id, {
+            method: 'wallet',
+        });
+
+        new UserResource(req, res, user).json()
+            .status(created ? 201 : 202)
+            .additional({
+                status: 'success',
+                message: 'Login Successful.',
+                code: created ? 201 : 202,
+                token,
+                refresh_token: refreshToken,
+                token_expires_at: accessTokenExpiresAt,
+            });
+    }
+
+    /**
+     * Attach a wallet to the authenticated user's account
+     *
+     * POST /api/auth/wallet/link
+     *
+     * @param req
+     * @param res
+     */
+    link = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const { message, signature } = this.validate(req, {
+            message: 'required|string',
+            signature: 'required|string',
+        });
+
+        const address = await WalletAuthService.verify(message, signature);
+        const user = await WalletAuthService.link(userId, address);
+
+        await logAuditEvent(userId, AuditAction.ACCOUNT_LINK, {
+            req,
+            entityType: 'User',
+            entityId: userId,
+            statusCode: 202,
+            oldValues: { walletAddress: req.user?.walletAddress },
+            newValues: { walletAddress: user.walletAddress },
+            metadata: { provider: 'wallet' },
+        });
+
+        new UserResource(req, res, user).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Wallet linked successfully.',
+                code: 202,
+            });
+    }
+
+    /**
+     * Set the Stellar account XLM and USDC tips to the authenticated user are paid to
+     *
+     * PUT /api/account/wallet/stellar
+     *
+     * @param req
+     * @param res
+     */
+    stellar = async (req: Request, res: Response) => {
+        const userId = req.user?.id!;
+        const { address } = this.validate(req, {
+            address: 'required|string',
+        });
+
+        RequestError.abortIf(!new StellarVerifier().isAddress(address), 'The Stellar address is invalid.', 422);
+
+        const taken = await prisma.user.findFirst({
+            where: { stellarAddress: address, id: { not: userId } },
+        });
+
+        RequestError.abortIf(!!taken, 'This Stellar address is already linked to another account.', 422);
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: { stellarAddress: address },
+        });
+
+        await logAuditEvent(userId, AuditAction.ACCOUNT_LINK, {
+            req,
+            entityType: 'User',
+            entityId: userId,
+            statusCode: 202,
+            oldValues: { stellarAddress: req.user?.stellarAddress },
+            newValues: { stellarAddress: user.stellarAddress },
+            metadata: { provider: 'stellar' },
+        });
+
+        new UserResource(req, res, user).json()
+            .status(202)
+            .additional({
+                status: 'success',
+                message: 'Stellar address saved successfully.',
+                code: 202,
+            });
+    }
+}
@@ -1,5 +1,6 @@
 import { UserRole, VerificationStatus } from '@prisma/client';
 
+import { RatingService } from 'src/services/RatingService';
 import argon2 from 'argon2';
 import { prisma } from 'src/db';
 
@@ -442,6 +443,9 @@ async function main () {
 
   console.log('Created reviews');
 
+  // Every artisan starts with a rating aggregate, rating sorts rely on it
+  await RatingService.rebuild();
+
   // Create tips
   const tips = await Promise.all([
     prisma.tip.create({
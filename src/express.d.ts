@@ -1,14 +1,21 @@
 import { IUser } from "./models/interfaces";
+import { OAuthProfile } from "./services/OAuthService";
 
 export { };
 
 declare global {
     namespace Express {
-        interface User extends IUser { }
+        /**
+         * What the passport strategies authenticate, the OAuth middleware
+         * assigns it to req.oauthProfile
+         */
+        interface User extends OAuthProfile { }
 
         interface Request {
-            user?: User | undefined;
+            user?: IUser | undefined;
             authToken?: string | undefined;
+            authAbilities?: string[] | undefined;
+            oauthProfile?: User | undefined;
         }
     }
     interface String {
@@ -0,0 +1,99 @@
+import { NextFunction, Request, Response } from "express";
+import { RequestError } from "../utils/errors";
+import ErrorHandler from "../utils/request-handlers";
+
+/**
+ * Ability granting unrestricted access, carried by login (session) tokens.
+ */
+export const WILDCARD_ABILITY = '*';
+
+/**
+ * Abilities that can be granted to personal access tokens
+ */
+export const TOKEN_ABILITIES = {
+    'profile:read': 'Read your profile, preferences, privacy settings and friends',
+    'profile:write': 'Update your profile, preferences, privacy settings and friends',
+    'listings:write': 'Create, update and delete listings',
+    'applications:read': 'View listing applications',
+    'applications:write': 'Apply to listings and manage applications',
+    'jobs:read': 'View jobs',
+    'jobs:write': 'Update and delete jobs',
+    'artisans:read': 'View the artisans you manage',
+    'artisans:write': 'Create, update and delete the artisans you manage',
+    'tips:read': 'View sent and received tips',
+    'tips:create': 'Send tips',
+    'reviews:write': 'Write, update and report reviews',
+    'reviews:moderate': 'Moderate reviews and respond to them',
+    'events:read': 'Receive notifications and job updates in real time',
+    'messages:read': 'View your conversations and mark them as read',
+    'messages:write': 'Start conversations and send messages',
+    'notifications:read': 'View your notifications',
+    'notifications:write': 'Mark notifications as read and delete them',
+    'saved-searches:read': 'View your saved searches',
+    'saved-searches:write': 'Create, update, pause and delete saved searches',
+    'media:read': 'View your uploaded media',
+    'media:write': 'Upload, update and delete media',
+    'data-export:read': 'View and download data exports',
+    'data-export:write': 'Request data exports',
+} as const;
+
+export type TokenAbility = keyof typeof TOKEN_ABILITIES;
+
+/**
+ * Normalize the abilities stored on a token.
+ * Tokens issued before abilities existed carry none and keep full access.
+ *
+ * @param abilities
+ * @returns
+ */
+export const parseAbilities = (abilities: unknown): string[] => {
+    if (!Array.isArray(abilities)) {
+        return [WILDCARD_ABILITY];
+    }
+
+    return abilities.filter((ability): ability is string => typeof ability === 'string');
+};
+
+/**
+ * Check whether the token of the current request grants an ability
+ *
+ * @param req
+ * @param ability
+ * @returns
+ */
+export const tokenCan = (req: Request, ability: TokenAbility | typeof WILDCARD_ABILITY): boolean => {
+    const granted = req.authAbilities ?? [WILDCARD_ABILITY];
+
+    return granted.includes(WILDCARD_ABILITY) || granted.includes(ability);
+};
+
+/**
+ * Ability Middleware: requireAbility
+ *
+ * Ensures the access token used for the request grants every given ability.
+ * Must run after the authentication middleware.
+ *
+ * @example router.post('/tips', authenticateToken, requireAbility('tips:create'), controller.create);
+ *
+ * @param abilities
+ * @returns
+ */
+export const requireAbility = (...abilities: Array<TokenAbility | typeof WILDCARD_ABILITY>) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const missing = abilities.filter(ability => !tokenCan(req, ability));
+
+        if (missing.length === 0) {
+            return next();
+        }
+
+        const error = new RequestError(
+            missing.includes(WILDCARD_ABILITY)
+                ? 'This action requires a full access token.'
+                : `This token is missing the required ability: ${missing.join(', ')}.`,
+            403
+        );
+        error.errors = { abilities: missing };
+
+        ErrorHandler(error, req, res);
+    };
+};
@@ -1,10 +1,11 @@
 import { NextFunction, Request, Response } from "express";
 import { RequestError } from "../utils/errors";
-import { env } from "../utils/helpers";
+import { env, touchAccessToken } from "../utils/helpers";
 import jwt from "jsonwebtoken";
 import { prisma } from "../db";
 import { isPast, constructFrom } from "date-fns";
 import ErrorHandler from "../utils/request-handlers";
+import { parseAbilities } from "./abilities";
 
 /**
  * Authentication Middleware
@@ -35,6 +36,8 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
         if (user && !isPast(constructFrom(accessToken?.expiresAt!, new Date())!)) {
             req.user = user;
             req.authToken = accessToken?.token;
+            req.authAbilities = parseAbilities(accessToken?.abilities);
+            await touchAccessToken(accessToken);
             next();
         } else {
             return ErrorHandler(new RequestError("Unauthenticated", 401), req, res);
@@ -43,3 +46,31 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
         return ErrorHandler(new RequestError("Unauthenticated", 401), req, res);
     }
 };
+
+/**
+ * Query Token Middleware: acceptQueryToken
+ *
+ * Lets clients that can not set headers, like the browser's EventSource, pass
+ * their access token as ?access_token=. Must run before the authentication middleware.
+ */
+export const acceptQueryToken = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers['authorization'] && typeof req.query.access_token === 'string') {
+        req.headers['authorization'] = `Bearer ${req.query.access_token}`;
+    }
+
+    next();
+};
+
+/**
+ * Verified Email Middleware: requireVerifiedEmail
+ *
+ * Ensures the authenticated user has verified their email address.
+ * Must run after the authentication middleware.
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+    if (req.user?.emailVerifiedAt) {
+        return next();
+    }
+
+    return ErrorHandler(new RequestError("Please verify your email address to continue.", 403), req, res);
+};
@@ -0,0 +1,94 @@
+import { NextFunction, Request, Response } from "express";
+import { OAuthService } from "../services/OAuthService";
+import { RequestError } from "../utils/errors";
+import ErrorHandler from "../utils/request-handlers";
+import { env } from "../utils/helpers";
+import passport from "passport";
+
+/**
+ * Read a cookie of the request
+ *
+ * @param req
+ * @param name
+ * @returns
+ */
+const readCookie = (req: Request, name: string): string | undefined => {
+    const cookie = req.headers.cookie?.split(';')
+        .map(part => part.trim().split('='))
+        .find(([key]) => key === name);
+
+    return cookie ? decodeURIComponent(cookie.slice(1).join('=')) : undefined;
+};
+
+/**
+ * OAuth Middleware: oauthAuthenticate
+ *
+ * Runs the passport strategy of a login provider, either the one given or
+ * the one named by the `:type` route parameter.
+ *
+ * Starting the flow sets a nonce cookie and sends the nonce to the provider
+ * as the OAuth state, followed by the `link_token` query parameter when one
+ * is given so the callback can link the provider account instead of logging
+ * in. The callback redirects to the frontend with an error unless the state
+ * carries the nonce of the cookie.
+ *
+ * The normalized provider profile is assigned to req.oauthProfile.
+ *
+ * @example router.get('/auth/:type/callback', oauthAuthenticate(), controller.callback);
+ *
+ * @param type
+ * @returns
+ */
+export const oauthAuthenticate = (type?: string) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const name = type ?? String(req.params.type);
+
+        if (!OAuthService.providers[name]) {
+            return ErrorHandler(new RequestError('This login provider is not supported.', 404), req, res);
+        }
+
+        const cookie = {
+            httpOnly: true,
+            sameSite: 'lax' as const,
+            secure: env('NODE_ENV') === 'production',
+            path: '/api/auth',
+        };
+
+        let state: string | undefined;
+
+        if (req.query.code || req.query.error) {
+            res.clearCookie(OAuthService.STATE_COOKIE, cookie);
+
+            try {
+                OAuthService.verifyState(req.query.state, readCookie(req, OAuthService.STATE_COOKIE));
+            } catch (error) {
+                if (!(error instanceof RequestError)) {
+                    throw error;
+                }
+
+                return res.redirect(OAuthService.frontendUrl({
+                    provider: name,
+                    error: String(error.statusCode),
+                    error_description: error.message,
+                }));
+            }
+        } else {
+            const linkToken = req.query.link_token;
+            const flow = OAuthService.createState(typeof linkToken === 'string' ? linkToken : undefined);
+
+            res.cookie(OAuthService.STATE_COOKIE, flow.nonce, {
+                ...cookie,
+                maxAge: OAuthService.STATE_TTL_MINUTES * 60 * 1000,
+            });
+
+            state = flow.state;
+        }
+
+        passport.authenticate(name, {
+            session: false,
+            assignProperty: 'oauthProfile',
+            state,
+            failureRedirect: OAuthService.frontendUrl({ provider: name, error: 'access_denied' }),
+        })(req, res, next);
+    };
+};
@@ -0,0 +1,74 @@
+import { NextFunction, Request, Response } from "express";
+import { RequestError } from "../utils/errors";
+import ErrorHandler from "../utils/request-handlers";
+import { UserRole } from "@prisma/client";
+
+/**
+ * Named permissions that can be granted to roles
+ */
+export const PERMISSIONS = {
+    'security:manage': 'View the security dashboard, alerts and logs, and block or unblock IPs',
+    'analytics:read': 'View analytics events, summaries and reports',
+    'analytics:manage': 'Trigger analytics aggregation and clean up analytics data',
+    'categories:manage': 'Create, update and delete categories',
+    'curator-verifications:review': 'Review, approve and reject curator verification applications',
+    'lockouts:manage': 'View and clear login lockouts',
+    'roles:manage': 'Promote and demote users between roles',
+    'earnings:read': 'View tip earnings reports and statements across all curators',
+    'tips:refund': 'Review and complete refund requests on any tip',
+    'disputes:manage': 'Mediate job disputes: assign mediators and resolve disputes',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    [UserRole.USER]: [],
+    [UserRole.CURATOR]: [],
+    [UserRole.ADMIN]: Object.keys(PERMISSIONS) as Permission[],
+};
+
+/**
+ * Check whether a user's role grants a permission
+ *
+ * @param user
+ * @param permission
+ * @returns
+ */
+export const userCan = (user: { role?: UserRole | string } | undefined, permission: Permission): boolean => {
+    const granted = user?.role ? ROLE_PERMISSIONS[user.role as UserRole] ?? [] : [];
+
+    return granted.includes(permission);
+};
+
+/**
+ * Permission Middleware: requirePermission
+ *
+ * Ensures the role of the authenticated user grants every given permission.
+ * Must run after the authentication middleware.
+ *
+ * @example router.get('/analytics', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), controller.index);
+ *
+ * @param permissions
+ * @returns
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return ErrorHandler(new RequestError('Unauthenticated', 401), req, res);
+        }
+
+        const missing = permissions.filter(permission => !userCan(req.user, permission));
+
+        if (missing.length === 0) {
+            return next();
+        }
+
+        const error = new RequestError('You do not have permission to perform this action.', 403);
+        error.errors = { permissions: missing };
+
+        ErrorHandler(error, req, res);
+    };
+};
@@ -99,6 +99,11 @@ export const rateLimitConfigs = {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxRequests: 20,
   },
+  // Verification emails (resends and email changes): 3 per 15 minutes
+  emailVerification: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 3,
+  },
 };
 
 /**
@@ -275,6 +280,15 @@ export const privacyRateLimiter = createRateLimiter({
   keyGenerator: getRequestRateLimitKey,
 });
 
+/**
+ * Rate limiter for operations sending verification emails (3 per 15 minutes per user)
+ */
+export const emailVerificationRateLimiter = createRateLimiter({
+  windowMs: rateLimitConfigs.emailVerification.windowMs,
+  maxRequests: rateLimitConfigs.emailVerification.maxRequests,
+  keyGenerator: (req) => `email-verification-${getRequestRateLimitKey(req)}`,
+});
+
 /**
  * Middleware to apply rate limiting with automatic cleanup
  */
@@ -60,6 +60,7 @@ export interface IUser {
   email: string;
   password: string;
   walletAddress: string | null;
+  stellarAddress: string | null;
   firstName: string;
   lastName: string;
   role: $Enums.UserRole;
@@ -237,12 +238,42 @@ export enum JobStatus {
   DISPUTED = 'DISPUTED',
 }
 
+export enum MilestoneStatus {
+  PENDING = 'PENDING',
+  SUBMITTED = 'SUBMITTED',
+  APPROVED = 'APPROVED',
+  PAID = 'PAID',
+}
+
 export interface IJob {
   id: string;
   listingId: string;
   applicationId: string;
   applicantId: string;
   status: JobStatus;
+  scope?: string;
+  price?: number;
+  currency: string;
+  startDate?: Date;
+  dueDate?: Date;
+  milestones?: IJobMilestone[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IJobMilestone {
+  id: string;
+  jobId: string;
+  position: number;
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate?: Date;
+  status: MilestoneStatus;
+  submissionNote?: string;
+  submittedAt?: Date;
+  approvedAt?: Date;
+  paidAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
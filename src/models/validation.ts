@@ -286,7 +286,8 @@ export const applicationValidation = {
   ],
   updateStatus: [
     param('id').isUUID().withMessage('Valid application ID is required'),
-    body('status').isIn(Object.values(ApplicationStatus)).withMessage('Invalid application status')
+    body('status').isIn(Object.values(ApplicationStatus)).withMessage('Invalid application status'),
+    body('note').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Note must be a string of at most 2000 characters')
   ],
   create: [
     body('listingId').isUUID().withMessage('Valid listing ID is required'),
@@ -315,10 +316,58 @@ export const jobValidation = {
   update: [
     param('id').isUUID().withMessage('Valid job ID is required'),
     body('status').isIn(Object.values(JobStatus)).withMessage('Valid job status is required'),
+    body('note').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Note must be a string of at most 2000 characters'),
+    body('reason')
+      .if(body('status').equals(JobStatus.DISPUTED))
+      .isString().trim().isLength({ min: 10, max: 5000 }).withMessage('A reason of 10 to 5000 characters is required to dispute a job'),
   ],
   delete: [
     param('id').isUUID().withMessage('Valid job ID is required'),
   ],
+  terms: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    body('scope').optional({ values: 'null' }).isString().isLength({ max: 10000 }).withMessage('Scope must be a string of at most 10000 characters'),
+    body('currency').optional().isIn(['XLM', 'USDC', 'ETH']).withMessage('Currency must be one of XLM, USDC, ETH'),
+    body('startDate').optional({ values: 'null' }).isISO8601().withMessage('Start date must be a valid date'),
+    body('dueDate').optional({ values: 'null' }).isISO8601().withMessage('Due date must be a valid date'),
+    body('milestones').isArray({ min: 1, max: 50 }).withMessage('Between 1 and 50 milestones are required'),
+    body('milestones.*.title').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Milestone title is required'),
+    body('milestones.*.description').optional({ values: 'null' }).isString().withMessage('Milestone description must be a string'),
+    body('milestones.*.amount').isFloat({ gt: 0 }).withMessage('Milestone amount must be a positive number'),
+    body('milestones.*.dueDate').optional({ values: 'null' }).isISO8601().withMessage('Milestone due date must be a valid date'),
+  ],
+  milestones: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+  ],
+  milestone: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    param('milestoneId').isUUID().withMessage('Valid milestone ID is required'),
+    body('note').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Note must be a string of at most 2000 characters'),
+  ],
+  milestoneChanges: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    param('milestoneId').isUUID().withMessage('Valid milestone ID is required'),
+    body('note').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('A note describing the requested changes is required'),
+  ],
+  milestonePayment: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    param('milestoneId').isUUID().withMessage('Valid milestone ID is required'),
+    body('tx_hash').isString().trim().notEmpty().withMessage('Transaction hash is required'),
+  ],
+  disputes: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+  ],
+  disputeEvidence: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    param('disputeId').isUUID().withMessage('Valid dispute ID is required'),
+    body('message').isString().trim().isLength({ min: 1, max: 5000 }).withMessage('A message of at most 5000 characters is required'),
+    body('media_ids').optional().isArray({ max: 10 }).withMessage('At most 10 attachments are allowed'),
+    body('media_ids.*').isUUID().withMessage('Attachments must be valid media IDs'),
+  ],
+  dispute: [
+    param('id').isUUID().withMessage('Valid job ID is required'),
+    param('disputeId').isUUID().withMessage('Valid dispute ID is required'),
+  ],
 };
 
 // Authentication validation
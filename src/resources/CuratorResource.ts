@@ -21,6 +21,7 @@ export default class extends JsonResource {
             portfolio: this.portfolio,
             certificates: this.certificates,
             verifiedAt: this.verifiedAt,
+            reputation: this.reputation,
             createdAt: this.createdAt,
             updatedAt: this.updatedAt,
             // Include user information if loaded
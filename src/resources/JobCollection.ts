@@ -17,6 +17,10 @@ export default class extends JsonResource {
             applicationId: job.applicationId,
             applicantId: job.applicantId,
             status: job.status,
+            price: job.price,
+            currency: job.currency,
+            startDate: job.startDate,
+            dueDate: job.dueDate,
             createdAt: job.createdAt,
             updatedAt: job.updatedAt,
             listing: job.listing
@@ -0,0 +1,20 @@
+import { JsonResource, Resource } from ".";
+
+import JobMilestoneResource from "./JobMilestoneResource";
+
+/**
+ * JobMilestoneCollection
+ *
+ * Formats the ordered milestones of a job for API responses.
+ */
+export default class extends JsonResource {
+  data() {
+    const data = Array.isArray(this.resource) ? this.resource : this.resource.data;
+
+    return {
+      data: data.map(
+        (e: Resource) => new JobMilestoneResource(this.request, this.response, e).data()
+      ),
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { JsonResource } from ".";
+
+/**
+ * JobMilestoneResource
+ *
+ * Transforms a single JobMilestone model, with its payment, into the API response format.
+ */
+export default class extends JsonResource {
+  data(): any {
+    return {
+      id: this.id,
+      jobId: this.jobId,
+      position: this.position,
+      title: this.title,
+      description: this.description,
+      amount: this.amount,
+      dueDate: this.dueDate,
+      status: this.status,
+      submissionNote: this.submissionNote,
+      submittedAt: this.submittedAt,
+      approvedAt: this.approvedAt,
+      paidAt: this.paidAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      payment: this.payment
+        ? {
+            id: this.payment.id,
+            amount: this.payment.amount,
+            currency: this.payment.currency,
+            status: this.payment.status,
+            txHash: this.payment.txHash,
+            recipientAddress: this.payment.recipientAddress,
+            confirmations: this.payment.confirmations,
+            verificationError: this.payment.verificationError,
+            verifiedAt: this.payment.verifiedAt,
+            expiresAt: this.payment.expiresAt,
+          }
+        : undefined,
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { JsonResource } from ".";
 
+import JobMilestoneResource from "./JobMilestoneResource";
+
 /**
  * JobResource
  *
@@ -13,6 +15,11 @@ export default class extends JsonResource {
       applicationId: this.applicationId,
       applicantId: this.applicantId,
       status: this.status,
+      scope: this.scope,
+      price: this.price,
+      currency: this.currency,
+      startDate: this.startDate,
+      dueDate: this.dueDate,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       listing: this.listing
@@ -32,6 +39,9 @@ export default class extends JsonResource {
             phone: this.applicant.phone,
           }
         : undefined,
+      milestones: Array.isArray(this.milestones)
+        ? this.milestones.map((milestone: any) => new JobMilestoneResource(this.request, this.response, milestone).data())
+        : undefined,
     };
   }
 }
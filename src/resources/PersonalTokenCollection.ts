@@ -0,0 +1,28 @@
+import { JsonResource, Resource } from ".";
+
+/**
+ * PersonalTokenCollection
+ *
+ * Transforms a collection of personal access tokens into the API response format,
+ * never exposing the tokens themselves
+ */
+export default class extends JsonResource {
+    /**
+     * Build the response object for a collection of personal access tokens
+     * @returns Collection of tokens formatted for API response
+     */
+    data(): Resource {
+        const tokens = Array.isArray(this.resource.data) ? this.resource.data : this.resource;
+
+        return {
+            data: Array.isArray(tokens) ? tokens.map((token: any) => ({
+                id: token.id,
+                name: token.name,
+                abilities: token.abilities,
+                lastUsedAt: token.lastUsedAt,
+                expiresAt: token.expiresAt,
+                createdAt: token.createdAt,
+            })) : [],
+        };
+    }
+}
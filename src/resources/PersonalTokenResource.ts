@@ -0,0 +1,23 @@
+import { JsonResource } from ".";
+
+/**
+ * PersonalTokenResource
+ *
+ * Transforms a single personal access token into the API response format
+ */
+export default class extends JsonResource {
+    /**
+     * Build the response object
+     * @returns Token data formatted for API response
+     */
+    data(): any {
+        return {
+            id: this.id,
+            name: this.name,
+            abilities: this.abilities,
+            lastUsedAt: this.lastUsedAt,
+            expiresAt: this.expiresAt,
+            createdAt: this.createdAt,
+        };
+    }
+}
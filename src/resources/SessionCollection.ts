@@ -0,0 +1,29 @@
+import { JsonResource, Resource } from ".";
+
+/**
+ * SessionCollection
+ *
+ * Transforms a collection of PersonalAccessTokens into sessions, never exposing the tokens themselves
+ */
+export default class extends JsonResource {
+    /**
+     * Build the response object for a collection of sessions
+     * @returns Collection of sessions formatted for API response
+     */
+    data(): Resource {
+        const sessions = Array.isArray(this.resource.data) ? this.resource.data : this.resource;
+
+        return {
+            data: Array.isArray(sessions) ? sessions.map((session: any) => ({
+                id: session.id,
+                device: session.name,
+                ipAddress: session.ipAddress,
+                userAgent: session.userAgent,
+                current: !!this.request.authToken && session.token === this.request.authToken,
+                lastUsedAt: session.lastUsedAt,
+                expiresAt: session.expiresAt,
+                createdAt: session.createdAt,
+            })) : [],
+        };
+    }
+}
@@ -24,6 +24,11 @@ export default class extends JsonResource {
                 receiverId: tip.receiverId,
                 artisanId: tip.artisanId,
                 txHash: tip.txHash,
+                confirmations: tip.confirmations,
+                verificationError: tip.verificationError,
+                verifiedAt: tip.verifiedAt,
+                expiresAt: tip.expiresAt,
+                converted: tip.converted,
                 createdAt: tip.createdAt,
                 updatedAt: tip.updatedAt,
                 sender: tip.sender ? {
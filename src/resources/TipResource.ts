@@ -21,6 +21,12 @@ export default class extends JsonResource {
             receiverId: this.receiverId,
             artisanId: this.artisanId,
             txHash: this.txHash,
+            recipientAddress: this.recipientAddress,
+            confirmations: this.confirmations,
+            verificationError: this.verificationError,
+            verifiedAt: this.verifiedAt,
+            expiresAt: this.expiresAt,
+            converted: this.converted,
             createdAt: this.createdAt,
             updatedAt: this.updatedAt,
             // Include relations if available
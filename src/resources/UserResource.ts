@@ -10,6 +10,7 @@ export default class extends JsonResource {
             id: this.id,
             email: this.email,
             walletAddress: this.walletAddress,
+            stellarAddress: this.stellarAddress,
             firstName: this.firstName,
             lastName: this.lastName,
             role: this.role,
@@ -11,6 +11,7 @@ import ReviewController from "src/controllers/ReviewController";
 import SearchController from "src/controllers/SearchController";
 import { authenticateOptionalToken, authenticateToken } from "src/utils/helpers";
 import { accountLinkingRateLimiter, privacyRateLimiter } from "src/middleware/rateLimiter";
+import { requireAbility } from "src/middleware/abilities";
 
 const router = Router();
 const reviewController = new ReviewController();
@@ -48,63 +49,63 @@ router.use("/", (await import("./api/applications")).default);
 router.get("/curators/:id/reviews", reviewController.curatorReviews);
 
 // Profile routes
-router.get('/profile', authenticateToken, new ProfileController().getProfile);
-router.post('/profile', authenticateToken, new ProfileController().updateProfile);
-router.get('/profile/completion', authenticateToken, new ProfileController().getProfileCompletion);
+router.get('/profile', authenticateToken, requireAbility('profile:read'), new ProfileController().getProfile);
+router.post('/profile', authenticateToken, requireAbility('profile:write'), new ProfileController().updateProfile);
+router.get('/profile/completion', authenticateToken, requireAbility('profile:read'), new ProfileController().getProfileCompletion);
 router.get('/profile/:userId/public', new ProfileController().getPublicProfile);
-router.delete('/profile', authenticateToken, new ProfileController().deleteProfile);
+router.delete('/profile', authenticateToken, requireAbility('profile:write'), new ProfileController().deleteProfile);
 
 // Preferences routes
-router.get('/preferences', authenticateToken, new PreferencesController().getPreferences);
-router.post('/preferences', authenticateToken, new PreferencesController().updatePreferences);
-router.post('/preferences/notifications', authenticateToken, new PreferencesController().updateNotifications);
-router.post('/preferences/two-factor/toggle', authenticateToken, new PreferencesController().toggleTwoFactor);
-router.post('/preferences/reset', authenticateToken, new PreferencesController().resetPreferences);
+router.get('/preferences', authenticateToken, requireAbility('profile:read'), new PreferencesController().getPreferences);
+router.post('/preferences', authenticateToken, requireAbility('profile:write'), new PreferencesController().updatePreferences);
+router.post('/preferences/notifications', authenticateToken, requireAbility('profile:write'), new PreferencesController().updateNotifications);
+router.post('/preferences/two-factor/toggle', authenticateToken, requireAbility('*'), new PreferencesController().toggleTwoFactor);
+router.post('/preferences/reset', authenticateToken, requireAbility('profile:write'), new PreferencesController().resetPreferences);
 
 // Privacy Settings routes (writes are limited to 20 per hour per user)
 const privacyController = new PrivacySettingsController();
-router.get('/privacy', authenticateToken, privacyController.getPrivacySettings);
-router.post('/privacy', authenticateToken, privacyRateLimiter, privacyController.updatePrivacySettings);
-router.post('/privacy/visibility', authenticateToken, privacyRateLimiter, privacyController.updateProfileVisibility);
-router.post('/privacy/block', authenticateToken, privacyRateLimiter, privacyController.blockUser);
-router.post('/privacy/unblock', authenticateToken, privacyRateLimiter, privacyController.unblockUser);
-router.get('/privacy/blocklist', authenticateToken, privacyController.getBlockList);
-router.post('/privacy/retention', authenticateToken, privacyRateLimiter, privacyController.updateDataRetention);
-router.post('/privacy/restrict', authenticateToken, privacyRateLimiter, privacyController.addToRestrictedList);
-router.post('/privacy/unrestrict', authenticateToken, privacyRateLimiter, privacyController.removeFromRestrictedList);
-router.get('/privacy/restricted-list', authenticateToken, privacyController.getRestrictedList);
-router.post('/privacy/custom-rules', authenticateToken, privacyRateLimiter, privacyController.updateCustomPrivacyRules);
-router.get('/privacy/custom-rules/default', authenticateToken, privacyController.getDefaultCustomRules);
+router.get('/privacy', authenticateToken, requireAbility('profile:read'), privacyController.getPrivacySettings);
+router.post('/privacy', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.updatePrivacySettings);
+router.post('/privacy/visibility', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.updateProfileVisibility);
+router.post('/privacy/block', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.blockUser);
+router.post('/privacy/unblock', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.unblockUser);
+router.get('/privacy/blocklist', authenticateToken, requireAbility('profile:read'), privacyController.getBlockList);
+router.post('/privacy/retention', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.updateDataRetention);
+router.post('/privacy/restrict', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.addToRestrictedList);
+router.post('/privacy/unrestrict', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.removeFromRestrictedList);
+router.get('/privacy/restricted-list', authenticateToken, requireAbility('profile:read'), privacyController.getRestrictedList);
+router.post('/privacy/custom-rules', authenticateToken, requireAbility('profile:write'), privacyRateLimiter, privacyController.updateCustomPrivacyRules);
+router.get('/privacy/custom-rules/default', authenticateToken, requireAbility('profile:read'), privacyController.getDefaultCustomRules);
 
 // Friendship management routes
-router.get('/friends', authenticateToken, new FriendshipController().getFriends);
-router.post('/friends/request', authenticateToken, new FriendshipController().sendFriendRequest);
-router.get('/friends/requests/pending', authenticateToken, new FriendshipController().getPendingRequests);
-router.get('/friends/requests/sent', authenticateToken, new FriendshipController().getSentRequests);
-router.post('/friends/requests/accept', authenticateToken, new FriendshipController().acceptFriendRequest);
-router.post('/friends/requests/decline', authenticateToken, new FriendshipController().declineFriendRequest);
-router.post('/friends/remove', authenticateToken, new FriendshipController().removeFriend);
-router.post('/friends/block', authenticateToken, new FriendshipController().blockUser);
-router.post('/friends/unblock', authenticateToken, new FriendshipController().unblockUser);
-router.get('/friends/blocked', authenticateToken, new FriendshipController().getBlockedUsers);
+router.get('/friends', authenticateToken, requireAbility('profile:read'), new FriendshipController().getFriends);
+router.post('/friends/request', authenticateToken, requireAbility('profile:write'), new FriendshipController().sendFriendRequest);
+router.get('/friends/requests/pending', authenticateToken, requireAbility('profile:read'), new FriendshipController().getPendingRequests);
+router.get('/friends/requests/sent', authenticateToken, requireAbility('profile:read'), new FriendshipController().getSentRequests);
+router.post('/friends/requests/accept', authenticateToken, requireAbility('profile:write'), new FriendshipController().acceptFriendRequest);
+router.post('/friends/requests/decline', authenticateToken, requireAbility('profile:write'), new FriendshipController().declineFriendRequest);
+router.post('/friends/remove', authenticateToken, requireAbility('profile:write'), new FriendshipController().removeFriend);
+router.post('/friends/block', authenticateToken, requireAbility('profile:write'), new FriendshipController().blockUser);
+router.post('/friends/unblock', authenticateToken, requireAbility('profile:write'), new FriendshipController().unblockUser);
+router.get('/friends/blocked', authenticateToken, requireAbility('profile:read'), new FriendshipController().getBlockedUsers);
 
 // Account Linking routes (writes are limited to 10 per hour per user)
 const accountLinkingController = new AccountLinkingController();
-router.get('/account-links', authenticateToken, accountLinkingController.getLinkedAccounts);
-router.post('/account-links', authenticateToken, accountLinkingRateLimiter, accountLinkingController.linkAccount);
-router.post('/account-links/check-availability', authenticateToken, accountLinkingRateLimiter, accountLinkingController.checkAvailability);
-router.post('/account-links/verify', authenticateToken, accountLinkingRateLimiter, accountLinkingController.verifyAccountLink);
-router.get('/account-links/:provider', authenticateToken, accountLinkingController.checkProviderLinked);
-router.delete('/account-links/:provider', authenticateToken, accountLinkingRateLimiter, accountLinkingController.unlinkAccount);
+router.get('/account-links', authenticateToken, requireAbility('*'), accountLinkingController.getLinkedAccounts);
+router.post('/account-links', authenticateToken, requireAbility('*'), accountLinkingRateLimiter, accountLinkingController.linkAccount);
+router.post('/account-links/check-availability', authenticateToken, requireAbility('*'), accountLinkingRateLimiter, accountLinkingController.checkAvailability);
+router.post('/account-links/verify', authenticateToken, requireAbility('*'), accountLinkingRateLimiter, accountLinkingController.verifyAccountLink);
+router.get('/account-links/:provider', authenticateToken, requireAbility('*'), accountLinkingController.checkProviderLinked);
+router.delete('/account-links/:provider', authenticateToken, requireAbility('*'), accountLinkingRateLimiter, accountLinkingController.unlinkAccount);
 
 // Data Export routes (GDPR compliance)
-router.post('/data-export/request', authenticateToken, new DataExportController().requestDataExport);
-router.get('/data-export/requests', authenticateToken, new DataExportController().getExportRequests);
-router.get('/data-export/:requestId/status', authenticateToken, new DataExportController().getExportStatus);
-router.get('/data-export/:requestId/download', authenticateToken, new DataExportController().downloadExport);
-router.post('/data-export/:requestId/retry', authenticateToken, new DataExportController().retryExport);
-router.post('/data-export/:requestId/cancel', authenticateToken, new DataExportController().cancelExport);
-router.post('/account/deletion-request', authenticateToken, new DataExportController().requestAccountDeletion);
+router.post('/data-export/request', authenticateToken, requireAbility('data-export:write'), new DataExportController().requestDataExport);
+router.get('/data-export/requests', authenticateToken, requireAbility('data-export:read'), new DataExportController().getExportRequests);
+router.get('/data-export/:requestId/status', authenticateToken, requireAbility('data-export:read'), new DataExportController().getExportStatus);
+router.get('/data-export/:requestId/download', authenticateToken, requireAbility('data-export:read'), new DataExportController().downloadExport);
+router.post('/data-export/:requestId/retry', authenticateToken, requireAbility('data-export:write'), new DataExportController().retryExport);
+router.post('/data-export/:requestId/cancel', authenticateToken, requireAbility('data-export:write'), new DataExportController().cancelExport);
+router.post('/account/deletion-request', authenticateToken, requireAbility('*'), new DataExportController().requestAccountDeletion);
 router.post('/account/cancel-deletion', authenticateOptionalToken, new DataExportController().cancelAccountDeletion);
 
 export default router; 
@@ -1,28 +1,58 @@
+import EmailVerificationController from 'src/controllers/auth/EmailVerificationController';
 import LoginController from 'src/controllers/auth/LoginController';
+import OAuthController from 'src/controllers/auth/OAuthController';
+import PasswordController from 'src/controllers/auth/PasswordController';
 import PasswordResetController from 'src/controllers/auth/PasswordResetController';
+import PersonalTokenController from 'src/controllers/auth/PersonalTokenController';
 import RegisterController from 'src/controllers/auth/RegisterController';
+import SessionController from 'src/controllers/auth/SessionController';
 import { Router } from 'express';
+import TwoFactorController from 'src/controllers/auth/TwoFactorController';
+import WalletAuthController from 'src/controllers/auth/WalletAuthController';
 import { authenticateToken } from 'src/utils/helpers';
+import { emailVerificationRateLimiter } from 'src/middleware/rateLimiter';
 import multer from 'multer';
-import passport from 'passport';
+import { oauthAuthenticate } from 'src/middleware/oauth';
+import { requireAbility } from 'src/middleware/abilities';
 
 const router = Router();
 const upload = multer({ dest: 'public/media' })
 
 router.post('/auth/signup', upload.none(), new RegisterController().create);
 router.post('/auth/login', upload.none(), new LoginController().create);
+router.post('/auth/login/2fa', upload.none(), new LoginController().twoFactor);
+router.post('/auth/unlock', upload.none(), new LoginController().unlock);
+router.post('/auth/token/refresh', upload.none(), new SessionController().refresh);
+router.get('/auth/wallet/nonce', new WalletAuthController().nonce);
+router.post('/auth/wallet/verify', upload.none(), new WalletAuthController().verify);
+router.post('/auth/wallet/link', upload.none(), authenticateToken, requireAbility('*'), new WalletAuthController().link);
+router.put('/account/wallet/stellar', upload.none(), authenticateToken, requireAbility('*'), new WalletAuthController().stellar);
 
-router.put('/account/verify/:type', upload.none(), authenticateToken, new RegisterController().update);
+router.post('/account/verify/resend', authenticateToken, emailVerificationRateLimiter, new EmailVerificationController().resend);
+router.put('/account/verify/:type', upload.none(), authenticateToken, new EmailVerificationController().update);
+router.put('/account/email', upload.none(), authenticateToken, requireAbility('*'), emailVerificationRateLimiter, new EmailVerificationController().changeEmail);
+router.put('/account/password', upload.none(), authenticateToken, requireAbility('*'), new PasswordController().update);
 router.delete('/account/logout', authenticateToken, new LoginController().delete);
+router.get('/account/sessions', authenticateToken, requireAbility('*'), new SessionController().index);
+router.delete('/account/sessions', authenticateToken, requireAbility('*'), new SessionController().deleteOthers);
+router.delete('/account/sessions/:id', authenticateToken, requireAbility('*'), new SessionController().delete);
+
+router.get('/auth/tokens', authenticateToken, requireAbility('*'), new PersonalTokenController().index);
+router.post('/auth/tokens', upload.none(), authenticateToken, requireAbility('*'), new PersonalTokenController().create);
+router.delete('/auth/tokens/:id', authenticateToken, requireAbility('*'), new PersonalTokenController().delete);
+
+router.get('/auth/2fa', authenticateToken, requireAbility('*'), new TwoFactorController().show);
+router.post('/auth/2fa/setup', upload.none(), authenticateToken, requireAbility('*'), new TwoFactorController().setup);
+router.post('/auth/2fa/enable', upload.none(), authenticateToken, requireAbility('*'), new TwoFactorController().enable);
+router.post('/auth/2fa/disable', upload.none(), authenticateToken, requireAbility('*'), new TwoFactorController().disable);
+router.post('/auth/2fa/recovery-codes', upload.none(), authenticateToken, requireAbility('*'), new TwoFactorController().recoveryCodes);
 
 router.put('/auth/password/reset', upload.none(), new PasswordResetController().update);
 router.post('/auth/password/reset', upload.none(), new PasswordResetController().create);
 
-router.get('/auth/google', passport.authenticate('google'));
-router.get('/auth/facebook', passport.authenticate('facebook'));
-router.get(
-    '/auth/:type/callback',
-    (req, res, next) => passport.authenticate(req.params.type, { session: false })(req, res, next),
-    new LoginController().oauth
-);
+router.get('/auth/google', oauthAuthenticate('google'));
+router.get('/auth/facebook', oauthAuthenticate('facebook'));
+router.post('/auth/oauth/exchange', upload.none(), new OAuthController().exchange);
+router.post('/auth/:type/link', authenticateToken, requireAbility('*'), new OAuthController().link);
+router.get('/auth/:type/callback', oauthAuthenticate(), new OAuthController().callback);
 export default router;
@@ -1,36 +1,68 @@
+import AccountLockoutController from 'src/controllers/Admin/AccountLockoutController';
 import AnalyticsController from 'src/controllers/AnalyticsController';
 import CategoryController from 'src/controllers/Admin/CategoryController';
 import AdminCuratorVerificationController from 'src/controllers/Admin/CuratorVerificationController';
+import EarningsController from 'src/controllers/Admin/EarningsController';
+import JobDisputeController from 'src/controllers/Admin/JobDisputeController';
+import TipRefundController from 'src/controllers/Admin/TipRefundController';
+import UserRoleController from 'src/controllers/Admin/UserRoleController';
 import { Router } from 'express';
 import { authenticateToken } from 'src/utils/helpers';
+import { requireAbility } from 'src/middleware/abilities';
+import { requirePermission } from 'src/middleware/permissions';
 import multer from 'multer';
 
 const router = Router();
 const upload = multer({ dest: 'public/media' })
 
 // Category routes
-router.get('/categories', authenticateToken, new CategoryController().index);
-router.post('/categories', authenticateToken, upload.none(), new CategoryController().create);
-router.get('/categories/:id', authenticateToken, new CategoryController().show);
-router.put('/categories/:id', authenticateToken, upload.none(), new CategoryController().update);
-router.delete('/categories/:id', authenticateToken, upload.none(), new CategoryController().delete);
+router.get('/categories', authenticateToken, requireAbility('*'), requirePermission('categories:manage'), new CategoryController().index);
+router.post('/categories', authenticateToken, requireAbility('*'), requirePermission('categories:manage'), upload.none(), new CategoryController().create);
+router.get('/categories/:id', authenticateToken, requireAbility('*'), requirePermission('categories:manage'), new CategoryController().show);
+router.put('/categories/:id', authenticateToken, requireAbility('*'), requirePermission('categories:manage'), upload.none(), new CategoryController().update);
+router.delete('/categories/:id', authenticateToken, requireAbility('*'), requirePermission('categories:manage'), upload.none(), new CategoryController().delete);
 
 // Analytics routes
 const analyticsController = new AnalyticsController();
-router.get('/analytics', authenticateToken, analyticsController.index);
-router.get('/analytics/summary', authenticateToken, analyticsController.summary);
-router.get('/analytics/aggregations', authenticateToken, analyticsController.aggregations);
-router.get('/analytics/event-types', authenticateToken, analyticsController.eventTypes);
-router.get('/analytics/export', authenticateToken, analyticsController.export);
-router.get('/analytics/anomalies', authenticateToken, analyticsController.anomalies);
-router.post('/analytics/aggregate', authenticateToken, analyticsController.create);
-router.delete('/analytics/cleanup', authenticateToken, analyticsController.delete);
+router.get('/analytics', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.index);
+router.get('/analytics/summary', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.summary);
+router.get('/analytics/aggregations', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.aggregations);
+router.get('/analytics/event-types', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.eventTypes);
+router.get('/analytics/export', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.export);
+router.get('/analytics/anomalies', authenticateToken, requireAbility('*'), requirePermission('analytics:read'), analyticsController.anomalies);
+router.post('/analytics/aggregate', authenticateToken, requireAbility('*'), requirePermission('analytics:manage'), analyticsController.create);
+router.delete('/analytics/cleanup', authenticateToken, requireAbility('*'), requirePermission('analytics:manage'), analyticsController.delete);
 
 // Curator verification routes (admin)
 const verificationController = new AdminCuratorVerificationController();
-router.get('/curator-verifications', authenticateToken, verificationController.index);
-router.get('/curator-verifications/:id', authenticateToken, verificationController.show);
-router.put('/curator-verifications/:id/approve', authenticateToken, upload.none(), verificationController.approve);
-router.put('/curator-verifications/:id/reject', authenticateToken, upload.none(), verificationController.reject);
+router.get('/curator-verifications', authenticateToken, requireAbility('*'), requirePermission('curator-verifications:review'), verificationController.index);
+router.get('/curator-verifications/:id', authenticateToken, requireAbility('*'), requirePermission('curator-verifications:review'), verificationController.show);
+router.put('/curator-verifications/:id/approve', authenticateToken, requireAbility('*'), requirePermission('curator-verifications:review'), upload.none(), verificationController.approve);
+router.put('/curator-verifications/:id/reject', authenticateToken, requireAbility('*'), requirePermission('curator-verifications:review'), upload.none(), verificationController.reject);
+
+// Login lockout routes
+const lockoutController = new AccountLockoutController();
+router.get('/lockouts', authenticateToken, requireAbility('*'), requirePermission('lockouts:manage'), lockoutController.index);
+router.delete('/lockouts/:id', authenticateToken, requireAbility('*'), requirePermission('lockouts:manage'), lockoutController.delete);
+
+// Role management routes
+const roleController = new UserRoleController();
+router.get('/roles', authenticateToken, requireAbility('*'), requirePermission('roles:manage'), roleController.index);
+router.put('/users/:id/role', authenticateToken, requireAbility('*'), requirePermission('roles:manage'), upload.none(), roleController.update);
+
+// Tip refund routes
+const tipRefundController = new TipRefundController();
+router.get('/tip-refunds', authenticateToken, requireAbility('*'), requirePermission('tips:refund'), tipRefundController.index);
+
+// Tip earnings routes
+const earningsController = new EarningsController();
+router.get('/earnings', authenticateToken, requireAbility('*'), requirePermission('earnings:read'), earningsController.index);
+router.get('/earnings/statement', authenticateToken, requireAbility('*'), requirePermission('earnings:read'), earningsController.statement);
+
+// Job dispute routes
+const disputeController = new JobDisputeController();
+router.get('/disputes', authenticateToken, requireAbility('*'), requirePermission('disputes:manage'), disputeController.index);
+router.put('/disputes/:id/assign', authenticateToken, requireAbility('*'), requirePermission('disputes:manage'), upload.none(), disputeController.assign);
+router.put('/disputes/:id/resolve', authenticateToken, requireAbility('*'), requirePermission('disputes:manage'), upload.none(), disputeController.resolve);
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import ApplicationController from '../../controllers/ApplicationController';
 import { authMiddleware } from '../../middleware/auth';
+import { requireAbility } from '../../middleware/abilities';
 import { handleValidation } from '../../middleware/validate';
 import { applicationValidation } from '../../models/validation';
 
@@ -18,6 +19,7 @@ const controller = new ApplicationController();
 router.post(
   '/applications',
   authMiddleware,
+  requireAbility('applications:write'),
   applicationValidation.create,
   handleValidation,
   controller.create
@@ -30,6 +32,7 @@ router.post(
 router.get(
   '/applications/:id',
   authMiddleware,
+  requireAbility('applications:read'),
   applicationValidation.getOne,
   handleValidation,
   controller.show
@@ -42,6 +45,7 @@ router.get(
 router.delete(
   '/applications/:id',
   authMiddleware,
+  requireAbility('applications:write'),
   applicationValidation.delete,
   handleValidation,
   controller.delete
@@ -54,6 +58,7 @@ router.delete(
 router.get(
   '/listings/:listingId/applications',
   authMiddleware,
+  requireAbility('applications:read'),
   applicationValidation.listByListing,
   handleValidation,
   controller.index
@@ -66,6 +71,7 @@ router.get(
 router.put(
   '/applications/:id/status',
   authMiddleware,
+  requireAbility('applications:write'),
   applicationValidation.updateStatus,
   handleValidation,
   controller.updateStatus
@@ -7,6 +7,7 @@ const artisanSearchController = new ArtisanSearchController();
 // Public artisan search and listing endpoints
 router.get("/", artisanSearchController.index);
 router.get("/suggestions", artisanSearchController.suggestions);
+router.get("/facets", artisanSearchController.facets);
 router.get("/popular", artisanSearchController.popular);
 
 export default router;
@@ -0,0 +1,31 @@
+import ConversationController from "src/controllers/ConversationController";
+import { Router } from "express";
+import { authenticateToken } from "src/utils/helpers";
+import multer from "multer";
+import { requireAbility } from "src/middleware/abilities";
+
+const router = Router();
+const upload = multer();
+
+const controller = new ConversationController();
+
+// List the conversations of the authenticated user, with unread counts
+router.get("/", authenticateToken, requireAbility("messages:read"), controller.index);
+
+// Open the conversation about an application or a job, or with another user
+router.post("/", authenticateToken, requireAbility("messages:write"), upload.none(), controller.create);
+
+// Count unread messages
+router.get("/unread", authenticateToken, requireAbility("messages:read"), controller.unread);
+
+// Get a conversation (participants only)
+router.get("/:id", authenticateToken, requireAbility("messages:read"), controller.show);
+
+// List and send messages (participants only)
+router.get("/:id/messages", authenticateToken, requireAbility("messages:read"), controller.messages);
+router.post("/:id/messages", authenticateToken, requireAbility("messages:write"), upload.none(), controller.send);
+
+// Mark a conversation as read
+router.put("/:id/read", authenticateToken, requireAbility("messages:read"), upload.none(), controller.read);
+
+export default router;
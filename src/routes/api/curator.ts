@@ -2,9 +2,11 @@ import ArtisanContactController from 'src/controllers/Curator/ArtisanContactCont
 import ArtisanController from 'src/controllers/Curator/ArtisanController';
 import ArtisanStateController from 'src/controllers/Curator/ArtisanStateController';
 import CuratorVerificationController from 'src/controllers/Curator/CuratorVerificationController';
+import EarningsController from 'src/controllers/Curator/EarningsController';
 import { Router } from 'express';
 import { authenticateToken } from 'src/utils/helpers';
 import { isCurator } from 'src/middleware/role';
+import { requireAbility } from 'src/middleware/abilities';
 import multer from 'multer';
 
 const router = Router();
@@ -14,20 +16,25 @@ const verificationUpload = multer({
     limits: { fileSize: 250 * 1024 }
 });
 
-router.get('/artisans', authenticateToken, new ArtisanController().index);
-router.post('/artisans', authenticateToken, upload.none(), new ArtisanController().create);
-router.post('/artisans/bulk', authenticateToken, upload.none(), new ArtisanStateController().bulk);
-router.get('/artisans/:id', authenticateToken, new ArtisanController().show);
-router.put('/artisans/:id', authenticateToken, upload.none(), new ArtisanController().update);
-router.delete('/artisans/:id', authenticateToken, upload.none(), new ArtisanController().delete);
-router.put('/artisans/:id/activation', authenticateToken, upload.none(), new ArtisanStateController().activation);
+router.get('/artisans', authenticateToken, requireAbility('artisans:read'), new ArtisanController().index);
+router.post('/artisans', authenticateToken, requireAbility('artisans:write'), upload.none(), new ArtisanController().create);
+router.post('/artisans/bulk', authenticateToken, requireAbility('artisans:write'), upload.none(), new ArtisanStateController().bulk);
+router.get('/artisans/:id', authenticateToken, requireAbility('artisans:read'), new ArtisanController().show);
+router.put('/artisans/:id', authenticateToken, requireAbility('artisans:write'), upload.none(), new ArtisanController().update);
+router.delete('/artisans/:id', authenticateToken, requireAbility('artisans:write'), upload.none(), new ArtisanController().delete);
+router.put('/artisans/:id/activation', authenticateToken, requireAbility('artisans:write'), upload.none(), new ArtisanStateController().activation);
 
 // Contact info endpoint with analytics tracking
-router.get('/artisans/:id/contact', authenticateToken, new ArtisanContactController().show);
+router.get('/artisans/:id/contact', authenticateToken, requireAbility('artisans:read'), new ArtisanContactController().show);
 
 // Curator verification routes
 const verificationController = new CuratorVerificationController();
-router.post('/verification/submit', authenticateToken, isCurator, verificationUpload.array('documents', 10), verificationController.submit);
-router.get('/verification/status', authenticateToken, isCurator, verificationController.getStatus);
+router.post('/verification/submit', authenticateToken, requireAbility('*'), isCurator, verificationUpload.array('documents', 10), verificationController.submit);
+router.get('/verification/status', authenticateToken, requireAbility('*'), isCurator, verificationController.getStatus);
+
+// Tip earnings routes
+const earningsController = new EarningsController();
+router.get('/earnings', authenticateToken, requireAbility('tips:read'), isCurator, earningsController.index);
+router.get('/earnings/statement', authenticateToken, requireAbility('tips:read'), isCurator, earningsController.statement);
 
 export default router;
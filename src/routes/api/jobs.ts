@@ -1,11 +1,16 @@
 import { Router } from 'express';
 import JobController from '../../controllers/JobController';
+import JobDisputeController from '../../controllers/JobDisputeController';
+import JobMilestoneController from '../../controllers/JobMilestoneController';
 import { authMiddleware } from '../../middleware/auth';
+import { requireAbility } from '../../middleware/abilities';
 import { handleValidation } from '../../middleware/validate';
 import { jobValidation } from '../../models/validation';
 
 const router = Router();
 const controller = new JobController();
+const milestoneController = new JobMilestoneController();
+const disputeController = new JobDisputeController();
 
 /**
  * GET /api/jobs
@@ -14,6 +19,7 @@ const controller = new JobController();
 router.get(
   '/',
   authMiddleware,
+  requireAbility('jobs:read'),
   jobValidation.list,
   handleValidation,
   controller.index
@@ -26,11 +32,25 @@ router.get(
 router.get(
   '/:id',
   authMiddleware,
+  requireAbility('jobs:read'),
   jobValidation.getOne,
   handleValidation,
   controller.show
 );
 
+/**
+ * GET /api/jobs/:id/timeline
+ * Merged, append-only history of the application and the job.
+ */
+router.get(
+  '/:id/timeline',
+  authMiddleware,
+  requireAbility('jobs:read'),
+  jobValidation.getOne,
+  handleValidation,
+  controller.timeline
+);
+
 /**
  * PUT /api/jobs/:id
  * Update job status.
@@ -38,11 +58,129 @@ router.get(
 router.put(
   '/:id',
   authMiddleware,
+  requireAbility('jobs:write'),
   jobValidation.update,
   handleValidation,
   controller.update
 );
 
+/**
+ * PUT /api/jobs/:id/terms
+ * Set the scope, schedule and milestones of a job before it starts.
+ */
+router.put(
+  '/:id/terms',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.terms,
+  handleValidation,
+  milestoneController.terms
+);
+
+/**
+ * GET /api/jobs/:id/milestones
+ * List the milestones of a job in order.
+ */
+router.get(
+  '/:id/milestones',
+  authMiddleware,
+  requireAbility('jobs:read'),
+  jobValidation.milestones,
+  handleValidation,
+  milestoneController.index
+);
+
+/**
+ * PUT /api/jobs/:id/milestones/:milestoneId/submit
+ * Curator submits a milestone for approval.
+ */
+router.put(
+  '/:id/milestones/:milestoneId/submit',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.milestone,
+  handleValidation,
+  milestoneController.submit
+);
+
+/**
+ * PUT /api/jobs/:id/milestones/:milestoneId/approve
+ * Applicant approves a submitted milestone.
+ */
+router.put(
+  '/:id/milestones/:milestoneId/approve',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.milestone,
+  handleValidation,
+  milestoneController.approve
+);
+
+/**
+ * PUT /api/jobs/:id/milestones/:milestoneId/changes
+ * Applicant sends a submitted milestone back with a note.
+ */
+router.put(
+  '/:id/milestones/:milestoneId/changes',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.milestoneChanges,
+  handleValidation,
+  milestoneController.requestChanges
+);
+
+/**
+ * POST /api/jobs/:id/milestones/:milestoneId/payment
+ * Applicant submits the transaction paying an approved milestone.
+ */
+router.post(
+  '/:id/milestones/:milestoneId/payment',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.milestonePayment,
+  handleValidation,
+  milestoneController.pay
+);
+
+/**
+ * GET /api/jobs/:id/disputes
+ * List the disputes of a job with their evidence.
+ */
+router.get(
+  '/:id/disputes',
+  authMiddleware,
+  requireAbility('jobs:read'),
+  jobValidation.disputes,
+  handleValidation,
+  disputeController.index
+);
+
+/**
+ * POST /api/jobs/:id/disputes/:disputeId/evidence
+ * Participants and the mediator add evidence to an unresolved dispute.
+ */
+router.post(
+  '/:id/disputes/:disputeId/evidence',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.disputeEvidence,
+  handleValidation,
+  disputeController.evidence
+);
+
+/**
+ * PUT /api/jobs/:id/disputes/:disputeId/withdraw
+ * The participant who opened a dispute withdraws it.
+ */
+router.put(
+  '/:id/disputes/:disputeId/withdraw',
+  authMiddleware,
+  requireAbility('jobs:write'),
+  jobValidation.dispute,
+  handleValidation,
+  disputeController.withdraw
+);
+
 /**
  * DELETE /api/jobs/:id
  * Admin-only job removal.
@@ -50,6 +188,7 @@ router.put(
 router.delete(
   '/:id',
   authMiddleware,
+  requireAbility('jobs:write'),
   jobValidation.delete,
   handleValidation,
   controller.destroy
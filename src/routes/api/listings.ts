@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import ListingController from '../../controllers/ListingController';
 import ApplicationController from '../../controllers/ApplicationController';
-import { authMiddleware } from '../../middleware/auth';
+import { authMiddleware, requireVerifiedEmail } from '../../middleware/auth';
+import { requireAbility } from '../../middleware/abilities';
 import { handleValidation } from '../../middleware/validate';
 import { isCurator } from '../../middleware/role';
 import { artisanValidation, applicationValidation } from '../../models/validation';
@@ -33,11 +34,13 @@ router.get('/:id', controller.show);
 /**
  * POST /api/listings
  * Create a new listing.
- * Requires: Authentication + Curator/Admin Role + Validation
+ * Requires: Authentication + Verified Email + Curator/Admin Role + Validation
  */
 router.post(
     '/',
     authMiddleware,
+    requireAbility('listings:write'),
+    requireVerifiedEmail,
     isCurator,
     artisanValidation.create,
     handleValidation,
@@ -52,6 +55,7 @@ router.post(
 router.put(
     '/:id',
     authMiddleware,
+    requireAbility('listings:write'),
     isCurator,
     artisanValidation.update,
     handleValidation,
@@ -66,6 +70,7 @@ router.put(
 router.delete(
     '/:id',
     authMiddleware,
+    requireAbility('listings:write'),
     isCurator,
     controller.delete
 );
@@ -82,6 +87,7 @@ router.delete(
 router.get(
     '/:listingId/applications',
     authMiddleware,
+    requireAbility('applications:read'),
     applicationController.index
 );
 
@@ -93,6 +99,7 @@ router.get(
 router.get(
     '/applications/:id',
     authMiddleware,
+    requireAbility('applications:read'),
     applicationController.show
 );
 
@@ -104,6 +111,7 @@ router.get(
 router.put(
     '/applications/:id/status',
     authMiddleware,
+    requireAbility('applications:write'),
     applicationValidation.updateStatus,
     handleValidation,
     applicationController.updateStatus
@@ -2,6 +2,7 @@ import MediaController from 'src/controllers/MediaController';
 import { Router } from 'express';
 import { authenticateToken } from 'src/utils/helpers';
 import multer from 'multer';
+import { requireAbility } from 'src/middleware/abilities';
 
 const router = Router();
 const upload = multer({
@@ -32,11 +33,11 @@ const controller = new MediaController();
 
 router.use(authenticateToken);
 
-router.get('/', controller.index);
-router.post('/upload', upload.single('file'), controller.upload);
-router.post('/upload/bulk', upload.array('files', 10), controller.uploadBulk);
-router.get('/:id', controller.show);
-router.put('/:id', controller.update);
-router.delete('/:id', controller.destroy);
+router.get('/', requireAbility('media:read'), controller.index);
+router.post('/upload', requireAbility('media:write'), upload.single('file'), controller.upload);
+router.post('/upload/bulk', requireAbility('media:write'), upload.array('files', 10), controller.uploadBulk);
+router.get('/:id', requireAbility('media:read'), controller.show);
+router.put('/:id', requireAbility('media:write'), controller.update);
+router.delete('/:id', requireAbility('media:write'), controller.destroy);
 
 export default router;
@@ -0,0 +1,24 @@
+import NotificationController from "src/controllers/NotificationController";
+import { Router } from "express";
+import { authenticateToken } from "src/utils/helpers";
+import multer from "multer";
+import { requireAbility } from "src/middleware/abilities";
+
+const router = Router();
+const upload = multer();
+
+const controller = new NotificationController();
+
+// List the notifications of the authenticated user, with the unread count
+router.get("/", authenticateToken, requireAbility("notifications:read"), controller.index);
+
+// Mark every notification as read
+router.put("/read-all", authenticateToken, requireAbility("notifications:write"), upload.none(), controller.readAll);
+
+// Mark a notification as read
+router.put("/:id/read", authenticateToken, requireAbility("notifications:write"), upload.none(), controller.read);
+
+// Delete a notification
+router.delete("/:id", authenticateToken, requireAbility("notifications:write"), controller.destroy);
+
+export default router;
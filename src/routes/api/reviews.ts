@@ -2,6 +2,8 @@ import ReviewController from "src/controllers/ReviewController";
 import { Router } from "express";
 import { authenticateToken } from "src/utils/helpers";
 import multer from "multer";
+import { requireAbility } from "src/middleware/abilities";
+import { requireVerifiedEmail } from "src/middleware/auth";
 import rateLimit from "express-rate-limit";
 
 const router = Router();
@@ -46,11 +48,12 @@ router.get("/aggregation/:targetId", reviewController.aggregation);
 router.get(
   "/moderation-queue",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   reviewController.moderationQueue,
 );
 
 // Get pending reports (admin only)
-router.get("/reports", authenticateToken, reviewController.getReports);
+router.get("/reports", authenticateToken, requireAbility("reviews:moderate"), reviewController.getReports);
 
 // Get specific review
 router.get("/:id", reviewController.show);
@@ -59,16 +62,18 @@ router.get("/:id", reviewController.show);
 router.post(
   "/",
   authenticateToken,
+  requireAbility("reviews:write"),
+  requireVerifiedEmail,
   reviewSubmitLimiter,
   upload.none(),
   reviewController.create,
 );
 
 // Update a review (author only, while pending)
-router.put("/:id", authenticateToken, upload.none(), reviewController.update);
+router.put("/:id", authenticateToken, requireAbility("reviews:write"), upload.none(), reviewController.update);
 
 // Delete a review (author or admin only)
-router.delete("/:id", authenticateToken, reviewController.delete);
+router.delete("/:id", authenticateToken, requireAbility("reviews:write"), reviewController.delete);
 
 // ==================== MODERATION ====================
 
@@ -76,6 +81,7 @@ router.delete("/:id", authenticateToken, reviewController.delete);
 router.put(
   "/:id/moderate",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   upload.none(),
   reviewController.moderate,
 );
@@ -86,6 +92,7 @@ router.put(
 router.post(
   "/:id/respond",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   upload.none(),
   reviewController.respond,
 );
@@ -94,6 +101,7 @@ router.post(
 router.put(
   "/:id/respond",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   upload.none(),
   reviewController.updateResponse,
 );
@@ -102,6 +110,7 @@ router.put(
 router.delete(
   "/:id/respond",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   reviewController.deleteResponse,
 );
 
@@ -111,6 +120,7 @@ router.delete(
 router.post(
   "/:id/report",
   authenticateToken,
+  requireAbility("reviews:write"),
   reportLimiter,
   upload.none(),
   reviewController.report,
@@ -120,6 +130,7 @@ router.post(
 router.put(
   "/reports/:id",
   authenticateToken,
+  requireAbility("reviews:moderate"),
   upload.none(),
   reviewController.resolveReport,
 );
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import SavedSearchController from "src/controllers/SavedSearchController";
+import { authenticateToken } from "src/utils/helpers";
+import multer from "multer";
+import { requireAbility } from "src/middleware/abilities";
+
+const router = Router();
+const upload = multer();
+
+const controller = new SavedSearchController();
+
+// List the saved searches of the authenticated user
+router.get("/", authenticateToken, requireAbility("saved-searches:read"), controller.index);
+
+// Save a search
+router.post("/", authenticateToken, requireAbility("saved-searches:write"), upload.none(), controller.create);
+
+// Rename a saved search or change its filters
+router.put("/:id", authenticateToken, requireAbility("saved-searches:write"), upload.none(), controller.update);
+
+// Pause or resume the alerts of a saved search
+router.put("/:id/pause", authenticateToken, requireAbility("saved-searches:write"), upload.none(), controller.pause);
+router.put("/:id/resume", authenticateToken, requireAbility("saved-searches:write"), upload.none(), controller.resume);
+
+// Delete a saved search
+router.delete("/:id", authenticateToken, requireAbility("saved-searches:write"), controller.destroy);
+
+export default router;
@@ -0,0 +1,14 @@
+import { acceptQueryToken } from "src/middleware/auth";
+import { Router } from "express";
+import StreamController from "src/controllers/StreamController";
+import { authenticateToken } from "src/utils/helpers";
+import { requireAbility } from "src/middleware/abilities";
+
+const router = Router();
+
+const controller = new StreamController();
+
+// Server-Sent Events stream of the authenticated user's notifications and job updates
+router.get("/", acceptQueryToken, authenticateToken, requireAbility("events:read"), controller.stream);
+
+export default router;
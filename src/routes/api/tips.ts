@@ -2,8 +2,11 @@ import ArtisanTipController from "src/controllers/ArtisanTipController";
 import CuratorTipController from "src/controllers/CuratorTipController";
 import { Router } from "express";
 import TipController from "src/controllers/TipController";
+import TipRefundController from "src/controllers/TipRefundController";
 import { authenticateToken } from "src/utils/helpers";
 import multer from "multer";
+import { requireAbility } from "src/middleware/abilities";
+import { requireVerifiedEmail } from "src/middleware/auth";
 
 const router = Router();
 const upload = multer();
@@ -11,23 +14,40 @@ const upload = multer();
 const tipController = new TipController();
 const artisanTipController = new ArtisanTipController();
 const curatorTipController = new CuratorTipController();
+const tipRefundController = new TipRefundController();
 
 // List all tips for authenticated user (self only, admin sees all)
-router.get("/", authenticateToken, tipController.index);
+router.get("/", authenticateToken, requireAbility("tips:read"), tipController.index);
 
 // Get specific tip (sender, recipient, or admin only)
-router.get("/:id", authenticateToken, tipController.show);
+router.get("/:id", authenticateToken, requireAbility("tips:read"), tipController.show);
 
 // Create a new peer-to-peer tip
-router.post("/", authenticateToken, upload.none(), tipController.create);
+router.post("/", authenticateToken, requireAbility("tips:create"), requireVerifiedEmail, upload.none(), tipController.create);
 
 // Update tip status (sender or admin only, PENDING tips only)
-router.put("/:id", authenticateToken, upload.none(), tipController.update);
+router.put("/:id", authenticateToken, requireAbility("tips:create"), upload.none(), tipController.update);
+
+// Get the event trail of a tip (sender, recipient, or admin only)
+router.get("/:id/events", authenticateToken, requireAbility("tips:read"), tipController.events);
+
+// List the refund requests of a tip (sender, recipient, or admin only)
+router.get("/:id/refunds", authenticateToken, requireAbility("tips:read"), tipRefundController.index);
+
+// Request a refund of a completed tip (sender only)
+router.post("/:id/refunds", authenticateToken, requireAbility("tips:create"), upload.none(), tipRefundController.create);
+
+// Approve, reject or complete the open refund request (recipient or admin only)
+router.put("/:id/refunds/approve", authenticateToken, requireAbility("tips:create"), upload.none(), tipRefundController.approve);
+router.put("/:id/refunds/reject", authenticateToken, requireAbility("tips:create"), upload.none(), tipRefundController.reject);
+router.put("/:id/refunds/complete", authenticateToken, requireAbility("tips:create"), upload.none(), tipRefundController.complete);
 
 // Create tip for specific artisan (tip goes to artisan's curator)
 router.post(
     "/artisans/:id/tips",
     authenticateToken,
+    requireAbility("tips:create"),
+    requireVerifiedEmail,
     upload.none(),
     artisanTipController.create
 );
@@ -36,6 +56,8 @@ router.post(
 router.post(
     "/curator/:id/tips",
     authenticateToken,
+    requireAbility("tips:create"),
+    requireVerifiedEmail,
     upload.none(),
     curatorTipController.create
 );
@@ -1,51 +1,27 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import SecurityController from '../controllers/SecurityController';
 import { authMiddleware } from '../middleware/auth';
+import { requireAbility } from '../middleware/abilities';
+import { requirePermission } from '../middleware/permissions';
 
 const router = Router();
 
 /**
  * Security Management Routes
- * All routes require admin authentication
+ * All routes require the security:manage permission
  */
 
-// Middleware to check admin role (implement based on your auth system)
-const adminOnly = async (req: Request, res: Response, next: Function) => {
-  // Check if user is admin
-  // For now, just verify authentication
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: 'Unauthorized',
-    });
-  }
-
-  // In a production system, you'd check user roles:
-  // const user = await prisma.user.findUnique({
-  //   where: { id: req.user.id },
-  //   include: { role: true }
-  // });
-  // if (!user || user.role.name !== 'admin') {
-  //   return res.status(403).json({
-  //     success: false,
-  //     message: 'Forbidden: Admin access required'
-  //   });
-  // }
-
-  next();
-};
-
 /**
  * Dashboard and Overview Routes
  */
 
 // Get security dashboard
-router.get('/api/security/dashboard', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/dashboard', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getDashboard(req, res);
 });
 
 // Get security health status
-router.get('/api/security/health', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/health', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getSecurityHealth(req, res);
 });
 
@@ -54,12 +30,12 @@ router.get('/api/security/health', authMiddleware, adminOnly, (req, res) => {
  */
 
 // Get recent security alerts
-router.get('/api/security/alerts', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/alerts', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getAlerts(req, res);
 });
 
 // Resolve a security alert
-router.put('/api/security/alerts/:alertId/resolve', authMiddleware, adminOnly, (req, res) => {
+router.put('/api/security/alerts/:alertId/resolve', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.resolveSecurityAlert(req, res);
 });
 
@@ -68,17 +44,17 @@ router.put('/api/security/alerts/:alertId/resolve', authMiddleware, adminOnly, (
  */
 
 // Get list of blocked IPs
-router.get('/api/security/blocked-ips', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/blocked-ips', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getBlockedIPsList(req, res);
 });
 
 // Block an IP address
-router.post('/api/security/blocked-ips', authMiddleware, adminOnly, (req, res) => {
+router.post('/api/security/blocked-ips', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.blockIPAddress(req, res);
 });
 
 // Unblock an IP address
-router.delete('/api/security/blocked-ips/:ip', authMiddleware, adminOnly, (req, res) => {
+router.delete('/api/security/blocked-ips/:ip', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.unblockIPAddress(req, res);
 });
 
@@ -87,17 +63,17 @@ router.delete('/api/security/blocked-ips/:ip', authMiddleware, adminOnly, (req,
  */
 
 // Get security logs
-router.get('/api/security/logs', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/logs', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getLogs(req, res);
 });
 
 // Get log statistics
-router.get('/api/security/logs/statistics', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/logs/statistics', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getLogStatisticsEndpoint(req, res);
 });
 
 // Export logs to file
-router.post('/api/security/logs/export', authMiddleware, adminOnly, (req, res) => {
+router.post('/api/security/logs/export', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.exportLogs(req, res);
 });
 
@@ -106,7 +82,7 @@ router.post('/api/security/logs/export', authMiddleware, adminOnly, (req, res) =
  */
 
 // Get API key details
-router.get('/api/security/api-keys/:keyId', authMiddleware, adminOnly, (req, res) => {
+router.get('/api/security/api-keys/:keyId', authMiddleware, requireAbility('*'), requirePermission('security:manage'), (req, res) => {
   SecurityController.getAPIKeyDetails(req, res);
 });
 
@@ -0,0 +1,271 @@
+import { Prisma, User } from '@prisma/client';
+import { RequestError, ValidationError } from '../utils/errors';
+import { addMinutes, addSeconds, differenceInSeconds, isFuture, subMinutes } from 'date-fns';
+import { createHash, randomBytes } from 'crypto';
+
+import { Response } from 'express';
+import { config } from '../config';
+import { prisma } from '../db';
+import { sendMail } from '../mailer/mailer';
+
+type LockableUser = Pick<User, 'id' | 'email' | 'firstName'>;
+
+/**
+ * Hash an unlock token for storage and lookup
+ */
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Fields exposed to admins, the unlock token hash never leaves the service
+ */
+const adminSelect = {
+    id: true,
+    email: true,
+    userId: true,
+    failedAttempts: true,
+    lockCount: true,
+    lastFailedAt: true,
+    lastFailedIp: true,
+    retryAfter: true,
+    lockedUntil: true,
+    createdAt: true,
+    updatedAt: true,
+    user: { select: { id: true, email: true, firstName: true, lastName: true } },
+} satisfies Prisma.AccountLockoutSelect;
+
+/**
+ * AccountLockoutService
+ *
+ * Tracks failed logins per attempted email address in the database. After the
+ * second failure every further attempt has to wait an exponentially growing
+ * delay, and once the configured number of failures is reached the account is
+ * locked for a while and its owner receives a one-time unlock link.
+ *
+ * Unknown email addresses are tracked exactly like real accounts so the
+ * responses of the login endpoint do not reveal which accounts exist.
+ */
+export class AccountLockoutService {
+    /**
+     * Normalize an email address into the lockout key
+     *
+     * @param email
+     * @returns
+     */
+    static key(email: string) {
+        return String(email).trim().toLowerCase();
+    }
+
+    /**
+     * Seconds until another login attempt is allowed for an email address
+     *
+     * @param email
+     * @returns 0 when an attempt is allowed right away
+     */
+    static async retryAfter(email: string) {
+        const lockout = await prisma.accountLockout.findUnique({ where: { email: this.key(email) } });
+        const until = [lockout?.lockedUntil, lockout?.retryAfter]
+            .filter((date): date is Date => !!date && isFuture(date))
+            .sort((a, b) => b.getTime() - a.getTime())[0];
+
+        return until ? Math.max(1, differenceInSeconds(until, new Date(), { roundingMethod: 'ceil' })) : 0;
+    }
+
+    /**
+     * Ensure a login attempt is allowed for an email address
+     *
+     * @param email
+     * @param res When given, a Retry-After header is set on the response
+     * @throws {RequestError} 429 while the address is delayed or locked
+     */
+    static async assertCanAttempt(email: string, res?: Response) {
+        const seconds = await this.retryAfter(email);
+
+        if (seconds > 0) {
+            res?.setHeader('Retry-After', String(seconds));
+        }
+
+        RequestError.abortIf(
+            seconds > 0,
+            `Too many failed login attempts, please try again in ${seconds > 60 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`}.`,
+            429
+        );
+    }
+
+    /**
+     * Record a failed login, applying the progressive delay or locking the account
+     *
+     * @param email
+     * @param user The account the email belongs to, if any
+     * @param ip
+     * @returns The updated lockout and whether this failure locked the account
+     */
+    static async recordFailure(email: string, user?: LockableUser | null, ip?: string) {
+        const key = this.key(email);
+        const now = new Date();
+
+        const { lockout, locked, unlockToken } = await prisma.$transaction(async (tx) => {
+            // Serialize the failures of the same address, so parallel attempts
+            // each count and none of them slips past the delay or the lock
+            await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`lockout:${key}`}))`;
+
+            const existing = await tx.accountLockout.findUnique({ where: { email: key } });
+
+            // Failures are forgotten once they fall out of the window or a lock has run out
+            const stale = !existing?.lastFailedAt
+                || existing.lastFailedAt < subMinutes(now, Number(config('auth.login_attempt_window_minutes')))
+                || (!!existing.lockedUntil && !isFuture(existing.lockedUntil));
+
+            const failedAttempts = stale ? 1 : existing.failedAttempts + 1;
+            const locked = failedAttempts >= Number(config('auth.login_max_attempts'));
+            const unlockToken = locked && user ? randomBytes(32).toString('base64url') : null;
+
+            const data = {
+                userId: user?.id ?? null,
+                failedAttempts,
+                lastFailedAt: now,
+                lastFailedIp: ip ?? null,
+                retryAfter: locked ? null : this.backoff(failedAttempts, now),
+                lockedUntil: locked ? addMinutes(now, Number(config('auth.login_lockout_minutes'))) : null,
+                lockCount: (existing?.lockCount ?? 0) + (locked ? 1 : 0),
+                unlockTokenHash: unlockToken ? hashSecret(unlockToken) : null,
+            };
+
+            const lockout = await tx.accountLockout.upsert({
+                where: { email: key },
+                create: { email: key, ...data },
+                update: data,
+            });
+
+            return { lockout, locked, unlockToken };
+        });
+
+        if (unlockToken && user) {
+            this.sendUnlockEmail(user, unlockToken, lockout.lockedUntil!);
+        }
+
+        return { lockout, locked };
+    }
+
+    /**
+     * Compute when the next attempt is allowed after a number of failures
+     *
+     * @param failedAttempts
+     * @param from
+     * @returns null when no delay applies
+     */
+    static backoff(failedAttempts: number, from: Date = new Date()) {
+        if (failedAttempts < 2) return null;
+
+        const seconds = Math.min(
+            Number(config('auth.login_backoff_seconds')) * 2 ** (failedAttempts - 2),
+            Number(config('auth.login_backoff_max_seconds'))
+        );
+
+        return seconds > 0 ? addSeconds(from, seconds) : null;
+    }
+
+    /**
+     * Forget the failed logins of an email address, called after a successful login
+     *
+     * @param email
+     */
+    static async clear(email: string) {
+        await prisma.accountLockout.deleteMany({ where: { email: this.key(email) } });
+    }
+
+    /**
+     * Unlock an account using the one-time token from the unlock email
+     *
+     * @param token
+     * @returns The lockout that was released
+     * @throws {ValidationError} when the token is invalid or was already used
+     */
+    static async unlock(token: string) {
+        const unlockTokenHash = hashSecret(String(token));
+        const lockout = await prisma.accountLockout.findUnique({ where: { unlockTokenHash } });
+
+        // Deleting the lockout consumes the token, so it can only be used once
+        const { count } = lockout
+            ? await prisma.accountLockout.deleteMany({ where: { id: lockout.id, unlockTokenHash } })
+            : { count: 0 };
+
+        if (!lockout || count === 0) {
+            throw new ValidationError('Unlock failed', {
+                token: ['The unlock link is invalid or has already been used.']
+            });
+        }
+
+        return lockout;
+    }
+
+    /**
+     * Email the owner of a locked account a one-time unlock link
+     *
+     * @param user
+     * @param token
+     * @param lockedUntil
+     */
+    static sendUnlockEmail(user: LockableUser, token: string, lockedUntil: Date) {
+        const link = `${config('app.front_url')}/auth/unlock?token=${token}`;
+
+        sendMail({
+            to: user.email,
+            subject: 'Your account has been temporarily locked',
+            text: `
+                Hi <b>${user.firstName}</b><br/><br/>
+                We noticed several failed attempts to sign in to your account, so we have locked it
+                until ${lockedUntil.toUTCString()} to keep it safe.<br/><br/>
+                If these attempts were yours, you can unlock your account right away using the link below.
+                If they were not, we recommend changing your password once you are signed in.
+            `,
+            credits: `Thanks,<br/>
+                The ${config('app.name')} Team`,
+            data: { ...user, link, linkTitle: 'Unlock Account' }
+        })
+    }
+
+    /**
+     * List lockouts for admins
+     *
+     * @param options.active Only include addresses that are currently delayed or locked
+     * @param options.take
+     * @param options.skip
+     * @returns
+     */
+    static async list({ active = true, take, skip }: { active?: boolean, take?: number, skip?: number } = {}) {
+        const now = new Date();
+        const where: Prisma.AccountLockoutWhereInput = active
+            ? { OR: [{ lockedUntil: { gt: now } }, { retryAfter: { gt: now } }] }
+            : {};
+
+        const [data, total] = await Promise.all([
+            prisma.accountLockout.findMany({
+                where,
+                select: adminSelect,
+                orderBy: { updatedAt: 'desc' },
+                take,
+                skip,
+            }),
+            prisma.accountLockout.count({ where }),
+        ]);
+
+        return { data, total };
+    }
+
+    /**
+     * Release a lockout on behalf of an admin
+     *
+     * @param id
+     * @returns The lockout that was released
+     * @throws {RequestError} 404 when the lockout does not exist
+     */
+    static async release(id: string) {
+        const lockout = await prisma.accountLockout.findUnique({ where: { id }, select: adminSelect });
+
+        RequestError.assertFound(lockout, 'Lockout not found.', 404);
+
+        await prisma.accountLockout.delete({ where: { id } });
+
+        return lockout;
+    }
+}
@@ -0,0 +1,432 @@
+import { ArtisanType, Prisma } from "@prisma/client";
+
+import { FullTextSearchService } from "src/services/FullTextSearchService";
+import { RequestError } from "src/utils/errors";
+import { prisma } from "src/db";
+import { validate } from "src/utils/validator";
+
+export interface SearchFilters {
+  search?: string;
+  category?: string;
+  subcategory?: string;
+  country?: string;
+  state?: string;
+  city?: string;
+  type?: ArtisanType;
+  isVerified?: boolean;
+  isActive?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  near?: string;
+  sortBy?:
+  | "relevance"
+  | "distance"
+  | "rating"
+  | "price_low"
+  | "price_high"
+  | "created_at"
+  | "name";
+  page?: number;
+  limit?: number;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SearchPage {
+  ids: string[];
+  distances: Map<string, number>;
+  total: number;
+}
+
+// The columns artisans are counted by
+export type SearchFacetColumn = "categoryId" | "subcategoryId" | "locationId" | "type" | "isVerified";
+
+// Where distances are measured to
+const POINT = Prisma.sql`ll_to_earth(l."latitude", l."longitude")`;
+
+/**
+ * ArtisanSearchService
+ *
+ * Turns the filters of an artisan search into the conditions artisans have to
+ * match, for the search endpoints and for saved searches.
+ */
+export class ArtisanSearchService {
+  /**
+   * Validate the search filters of a query, with their defaults
+   */
+  static filters (query: any): SearchFilters {
+    const validated = validate(query, {
+      search: "nullable|string|min:2",
+      category: "nullable|string",
+      subcategory: "nullable|string",
+      country: "nullable|string",
+      state: "nullable|string",
+      city: "nullable|string",
+      type: "nullable|in:PERSON,BUSINESS",
+      isVerified: "nullable|boolean",
+      isActive: "nullable|boolean",
+      minPrice: "nullable|numeric|min:0",
+      maxPrice: "nullable|numeric|min:0",
+      minRating: "nullable|numeric|min:1|max:5",
+      latitude: "nullable|numeric|min:-90|max:90",
+      longitude: "nullable|numeric|min:-180|max:180",
+      radius: "nullable|numeric|min:0.1|max:1000",
+      near: "nullable|string|min:2",
+      sortBy:
+        "nullable|in:relevance,distance,rating,price_low,price_high,created_at,name",
+      page: "nullable|integer|min:1",
+      limit: "nullable|integer|min:1|max:100",
+    });
+
+    return {
+      ...validated,
+      isVerified:
+        validated.isVerified !== undefined ? validated.isVerified : true,
+      isActive: validated.isActive !== undefined ? validated.isActive : true,
+      minPrice: validated.minPrice ? parseFloat(validated.minPrice) : undefined,
+      maxPrice: validated.maxPrice ? parseFloat(validated.maxPrice) : undefined,
+      minRating: validated.minRating ? parseFloat(validated.minRating) : undefined,
+      latitude: validated.latitude ? parseFloat(validated.latitude) : undefined,
+      longitude: validated.longitude ? parseFloat(validated.longitude) : undefined,
+      radius: validated.radius ? parseFloat(validated.radius) : undefined,
+      sortBy: validated.sortBy || "relevance",
+      page: validated.page ? parseInt(validated.page) : 1,
+      limit: validated.limit ? parseInt(validated.limit) : 20,
+    };
+  }
+
+  /**
+   * The conditions of the filters Prisma can match. The radius and the
+   * full-text search are only matched by the SQL of page(), count(),
+   * countBy() and createdSince().
+   */
+  static buildWhereClause (filters: SearchFilters): Prisma.ArtisanWhereInput {
+    const where: Prisma.ArtisanWhereInput = {
+      isActive: filters.isActive,
+      isVerified: filters.isVerified,
+    };
+
+    // Category and subcategory filters
+    if (filters.category) {
+      where.category = {
+        name: { equals: filters.category, mode: "insensitive" },
+      };
+    }
+
+    if (filters.subcategory) {
+      where.subcategory = {
+        name: { equals: filters.subcategory, mode: "insensitive" },
+      };
+    }
+
+    // Location filters
+    if (filters.country) {
+      where.location = {
+        ...where.location,
+        country: { equals: filters.country, mode: "insensitive" } as never,
+      };
+    }
+
+    if (filters.state) {
+      where.location = {
+        ...where.location,
+        state: { equals: filters.state, mode: "insensitive" } as never,
+      };
+    }
+
+    if (filters.city) {
+      where.location = {
+        ...where.location,
+        city: { equals: filters.city, mode: "insensitive" } as never,
+      };
+    }
+
+    // Type filter
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    // Price range filter
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      where.OR = [
+        { price: { gte: filters.minPrice, lte: filters.maxPrice } },
+        {
+          priceRange: {
+            path: [],
+            array_contains:
+              (filters.minPrice !== undefined && filters.maxPrice !== undefined
+                ? [filters.minPrice, filters.maxPrice]
+                : filters.minPrice !== undefined
+                  ? [filters.minPrice]
+                  : [filters.maxPrice]) as never,
+          },
+        },
+      ];
+    }
+
+    // Rating filter, on the average of approved reviews
+    if (filters.minRating !== undefined) {
+      where.rating = { is: { average: { gte: filters.minRating } } };
+    }
+
+    return where;
+  }
+
+  /**
+   * The point distances are measured from: the given coordinates, or the
+   * average position of the locations matching the postal code or city in near
+   */
+  static async resolveCenter (filters: SearchFilters): Promise<GeoPoint | null> {
+    if (filters.latitude !== undefined && filters.longitude !== undefined) {
+      return { latitude: filters.latitude, longitude: filters.longitude };
+    }
+
+    if (!filters.near) {
+      return null;
+    }
+
+    const near = filters.near.trim();
+
+    for (const where of [
+      { postalCode: { equals: near, mode: "insensitive" } },
+      { city: { equals: near, mode: "insensitive" } },
+    ] satisfies Prisma.LocationWhereInput[]) {
+      const { _avg } = await prisma.location.aggregate({
+        where,
+        _avg: { latitude: true, longitude: true },
+      });
+
+      if (_avg.latitude !== null && _avg.longitude !== null) {
+        return { latitude: _avg.latitude, longitude: _avg.longitude };
+      }
+    }
+
+    throw new RequestError(`No location matches "${near}".`, 422);
+  }
+
+  /**
+   * Find a page of the artisans matching the filters, with their distance
+   * from the center. Filters, order and page are all left to a single query,
+   * for the searches by location or full text Prisma can not express.
+   */
+  static async page (
+    filters: SearchFilters,
+    center: GeoPoint | null,
+    { take, skip }: { take: number, skip: number },
+  ): Promise<SearchPage> {
+    const origin = center ? this.origin(center) : null;
+    const query = filters.search ? FullTextSearchService.query(filters.search) : null;
+
+    const distance = origin ? Prisma.sql`earth_distance(${origin}, ${POINT}) / 1000` : Prisma.sql`NULL::float8`;
+    const rank = query ? Prisma.sql`ts_rank(a."searchVector", ${query})` : Prisma.sql`NULL::float8`;
+
+    const from = this.from(filters, center);
+
+    const [rows, [{ total }]] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string, distance: number | null }>>`
+        SELECT a."id", ${distance} AS "distance", ${rank} AS "rank"
+        ${from}
+        ORDER BY ${this.order(filters, query)}
+        LIMIT ${take} OFFSET ${skip}
+      `,
+      prisma.$queryRaw<[{ total: bigint }]>`SELECT count(*) AS "total" ${from}`,
+    ]);
+
+    return {
+      ids: rows.map(row => row.id),
+      distances: new Map(rows
+        .filter(row => row.distance !== null)
+        .map(row => [row.id, Number(row.distance)])),
+      total: Number(total),
+    };
+  }
+
+  /**
+   * Count the artisans matching the filters
+   */
+  static async count (filters: SearchFilters, center: GeoPoint | null): Promise<number> {
+    const [{ total }] = await prisma.$queryRaw<[{ total: bigint }]>`
+      SELECT count(*) AS "total" ${this.from(filters, center)}
+    `;
+
+    return Number(total);
+  }
+
+  /**
+   * Count the artisans matching the filters per value of a column
+   */
+  static async countBy<T> (
+    filters: SearchFilters,
+    center: GeoPoint | null,
+    column: SearchFacetColumn,
+  ): Promise<Array<{ value: T, count: number }>> {
+    const value = Prisma.sql`a.${Prisma.raw(`"${column}"`)}`;
+
+    const rows = await prisma.$queryRaw<Array<{ value: T, count: bigint }>>`
+      SELECT ${value} AS "value", count(*) AS "count"
+      ${this.from(filters, center)}
+      GROUP BY ${value}
+    `;
+
+    return rows.map(row => ({ value: row.value, count: Number(row.count) }));
+  }
+
+  /**
+   * Find the artisans matching the filters that were created or verified
+   * after a date, newest first
+   */
+  static async createdSince (
+    filters: SearchFilters,
+    center: GeoPoint | null,
+    since: Date,
+  ): Promise<Array<{ id: string, name: string }>> {
+    return prisma.$queryRaw<Array<{ id: string, name: string }>>`
+      SELECT a."id", a."name"
+      ${this.from(filters, center, [Prisma.sql`(a."createdAt" > ${since} OR a."verifiedAt" > ${since})`])}
+      ORDER BY a."createdAt" DESC
+    `;
+  }
+
+  /**
+   * The artisans matching the filters, with everything their conditions and
+   * order refer to
+   */
+  private static from (filters: SearchFilters, center: GeoPoint | null, and: Prisma.Sql[] = []): Prisma.Sql {
+    const origin = center ? this.origin(center) : null;
+    const query = filters.search ? FullTextSearchService.query(filters.search) : null;
+
+    const conditions = [...this.conditions(filters, origin, query), ...and];
+
+    return Prisma.sql`
+      FROM "Artisan" a
+      JOIN "Location" l ON l."id" = a."locationId"
+      JOIN "Category" c ON c."id" = a."categoryId"
+      LEFT JOIN "Subcategory" s ON s."id" = a."subcategoryId"
+      LEFT JOIN "rating_aggregates" r ON r."artisanId" = a."id"
+      ${conditions.length ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty}
+    `;
+  }
+
+  /**
+   * The SQL conditions of the filters, like those of buildWhereClause(), plus
+   * the radius and the full-text search
+   */
+  private static conditions (
+    filters: SearchFilters,
+    origin: Prisma.Sql | null,
+    query: Prisma.Sql | null,
+  ): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [];
+    const equals = (column: Prisma.Sql, value: string) => Prisma.sql`lower(${column}) = lower(${value})`;
+
+    if (filters.isActive !== undefined) {
+      conditions.push(Prisma.sql`a."isActive" = ${filters.isActive}`);
+    }
+
+    if (filters.isVerified !== undefined) {
+      conditions.push(Prisma.sql`a."isVerified" = ${filters.isVerified}`);
+    }
+
+    if (filters.category) {
+      conditions.push(equals(Prisma.sql`c."name"`, filters.category));
+    }
+
+    if (filters.subcategory) {
+      conditions.push(equals(Prisma.sql`s."name"`, filters.subcategory));
+    }
+
+    if (filters.country) {
+      conditions.push(equals(Prisma.sql`l."country"`, filters.country));
+    }
+
+    if (filters.state) {
+      conditions.push(equals(Prisma.sql`l."state"`, filters.state));
+    }
+
+    if (filters.city) {
+      conditions.push(equals(Prisma.sql`l."city"`, filters.city));
+    }
+
+    if (filters.type) {
+      conditions.push(Prisma.sql`a."type" = ${filters.type}::"ArtisanType"`);
+    }
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      const bounds = [filters.minPrice, filters.maxPrice].filter(bound => bound !== undefined);
+
+      const price = [
+        ...(filters.minPrice !== undefined ? [Prisma.sql`a."price" >= ${filters.minPrice}::float8`] : []),
+        ...(filters.maxPrice !== undefined ? [Prisma.sql`a."price" <= ${filters.maxPrice}::float8`] : []),
+      ];
+
+      conditions.push(Prisma.sql`(${Prisma.join(price, " AND ")} OR a."priceRange" @> ${JSON.stringify(bounds)}::jsonb)`);
+    }
+
+    if (filters.minRating !== undefined) {
+      conditions.push(Prisma.sql`r."average" >= ${filters.minRating}::float8`);
+    }
+
+    if (origin && filters.radius) {
+      conditions.push(...this.within(origin, filters.radius));
+    }
+
+    if (query) {
+      conditions.push(Prisma.sql`a."searchVector" @@ ${query}`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * The SQL order of the filters, like that of the search endpoint
+   */
+  private static order (filters: SearchFilters, query: Prisma.Sql | null): Prisma.Sql {
+    switch (filters.sortBy) {
+      case "distance":
+        return Prisma.sql`"distance" ASC, a."name" ASC`;
+
+      case "rating":
+        return Prisma.sql`r."score" DESC, a."name" ASC`;
+
+      case "price_low":
+        return Prisma.sql`a."price" ASC, a."name" ASC`;
+
+      case "price_high":
+        return Prisma.sql`a."price" DESC, a."name" ASC`;
+
+      case "created_at":
+        return Prisma.sql`a."createdAt" DESC, a."name" ASC`;
+
+      case "name":
+        return Prisma.sql`a."name" ASC`;
+
+      case "relevance":
+      default:
+        return query
+          ? Prisma.sql`"rank" DESC, a."name" ASC`
+          : Prisma.sql`a."isVerified" DESC, (SELECT count(*) FROM "Review" v WHERE v."artisanId" = a."id") DESC, a."name" ASC`;
+    }
+  }
+
+  private static origin (center: GeoPoint) {
+    return Prisma.sql`ll_to_earth(${center.latitude}::float8, ${center.longitude}::float8)`;
+  }
+
+  /**
+   * Match the locations within the radius, first against a bounding box,
+   * which the GiST index on the locations serves
+   */
+  private static within (origin: Prisma.Sql, radius: number) {
+    return [
+      Prisma.sql`earth_box(${origin}, ${radius * 1000}::float8) @> ${POINT}`,
+      Prisma.sql`earth_distance(${origin}, ${POINT}) <= ${radius * 1000}::float8`,
+    ];
+  }
+}
@@ -0,0 +1,341 @@
+import { ConversationType, Message, Prisma } from '@prisma/client';
+
+import { PrivacyGuard } from './PrivacyGuard';
+import { RequestError } from '../utils/errors';
+import { prisma } from '../db';
+
+export interface ConversationSubject {
+    type: ConversationType;
+    /** The application, job or other user the conversation is about */
+    id: string;
+}
+
+export interface UnreadMessages {
+    messages: number;
+    conversations: number;
+}
+
+type Page = { take: number, skip: number };
+
+const userSelect = { id: true, firstName: true, lastName: true, avatar: true } satisfies Prisma.UserSelect;
+
+const include = {
+    participants: { include: { user: { select: userSelect } } },
+    application: { select: { id: true, status: true, listing: { select: { id: true, name: true } } } },
+    job: { select: { id: true, status: true, listing: { select: { id: true, name: true } } } },
+} satisfies Prisma.ConversationInclude;
+
+const messageInclude = {
+    sender: { select: userSelect },
+    attachments: { include: { media: true } },
+} satisfies Prisma.MessageInclude;
+
+export type ConversationWithParticipants = Prisma.ConversationGetPayload<{ include: typeof include }>;
+
+/**
+ * ConversationService
+ *
+ * Handles message threads between the applicant and the curator of an
+ * application or a job, and direct threads between two users. Threads are
+ * opened once and reused, each participant keeps the time up to which they
+ * read it, which gives both the read receipts and the unread counts.
+ *
+ * Every message goes through PrivacyGuard: users who blocked each other can not
+ * message at all, and direct threads also honour the restricted list and
+ * allowDirectMessages of the recipient.
+ */
+export class ConversationService {
+    /**
+     * Open the conversation about an application, a job or with another user,
+     * creating it on first use
+     *
+     * @param userId
+     * @param subject
+     * @returns
+     * @throws {RequestError} 403 when the user does not take part in the subject or may not message the other user
+     */
+    static async open(userId: string, subject: ConversationSubject) {
+        const { where, participants } = await this.resolve(userId, subject);
+
+        return prisma.conversation.upsert({
+            where,
+            update: {},
+            create: {
+                ...where,
+                type: subject.type,
+                participants: { create: participants.map(participant => ({ userId: participant })) },
+            },
+            include,
+        });
+    }
+
+    /**
+     * Get a conversation the user takes part in
+     *
+     * @param conversationId
+     * @param userId
+     * @returns
+     * @throws {RequestError} 404 when it does not exist, 403 when the user does not take part in it
+     */
+    static async find(conversationId: string, userId: string) {
+        const conversation = await prisma.conversation.findUnique({ where: { id: conversationId }, include });
+
+        RequestError.assertFound(conversation, 'Conversation not found', 404);
+        RequestError.abortIf(
+            !conversation.participants.some(participant => participant.userId === userId),
+            'Unauthorized access to this conversation',
+            403
+        );
+
+        return conversation;
+    }
+
+    /**
+     * List the conversations of a user, most recently active first, with their
+     * last message and unread count
+     *
+     * @param userId
+     * @param options.type Only list conversations of this type
+     * @returns
+     */
+    static async list(userId: string, { type, take, skip }: Page & { type?: ConversationType }) {
+        const where: Prisma.ConversationWhereInput = {
+            participants: { some: { userId } },
+            ...(type ? { type } : {}),
+        };
+
+        const [conversations, total] = await Promise.all([
+            prisma.conversation.findMany({
+                where,
+                include: {
+                    ...include,
+                    messages: { orderBy: { createdAt: 'desc' }, take: 1, include: messageInclude },
+                },
+                orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+                take,
+                skip,
+            }),
+            prisma.conversation.count({ where }),
+        ]);
+
+        const unread = await this.unreadCounts(userId, conversations.map(conversation => conversation.id));
+
+        const data = conversations.map(({ messages, ...conversation }) => ({
+            ...conversation,
+            lastMessage: messages[0] ? this.present(conversation, messages[0]) : null,
+            unreadCount: unread.get(conversation.id) ?? 0,
+        }));
+
+        return { data, total };
+    }
+
+    /**
+     * Count the messages a user has not read yet, and the conversations they are in
+     *
+     * @param userId
+     * @returns
+     */
+    static async unread(userId: string): Promise<UnreadMessages> {
+        const counts = [...(await this.unreadCounts(userId)).values()];
+
+        return {
+            messages: counts.reduce((sum, count) => sum + count, 0),
+            conversations: counts.length,
+        };
+    }
+
+    /**
+     * List the messages of a conversation, newest first, with who read them
+     *
+     * @param conversation
+     * @param page
+     * @returns
+     */
+    static async messages(conversation: ConversationWithParticipants, { take, skip }: Page) {
+        const where = { conversationId: conversation.id };
+
+        const [messages, total] = await Promise.all([
+            prisma.message.findMany({
+                where,
+                include: messageInclude,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take,
+                skip,
+            }),
+            prisma.message.count({ where }),
+        ]);
+
+        return { data: messages.map(message => this.present(conversation, message)), total };
+    }
+
+    /**
+     * Send a message to a conversation
+     *
+     * @param conversation
+     * @param senderId
+     * @param body
+     * @param mediaIds Media uploaded by the sender to attach
+     * @returns
+     * @throws {RequestError} 403 when the privacy settings of a participant refuse the message,
+     *  422 when the media does not belong to the sender
+     */
+    static async send(conversation: ConversationWithParticipants, senderId: string, body: string | null, mediaIds: string[] = []) {
+        for (const { userId } of conversation.participants.filter(participant => participant.userId !== senderId)) {
+            const check = conversation.type === ConversationType.DIRECT
+                ? await PrivacyGuard.canSendDirectMessage(senderId, userId)
+                : await PrivacyGuard.canSendMessage(senderId, userId);
+
+            RequestError.abortIf(!check.allowed, check.reason ?? 'You can not message this user.', 403);
+        }
+
+        const ids = [...new Set(mediaIds)];
+        const owned = ids.length
+            ? await prisma.media.count({ where: { id: { in: ids }, userId: senderId } })
+            : 0;
+
+        RequestError.abortIf(owned !== ids.length, 'Attachments must be media you uploaded.', 422);
+
+        const message = await prisma.$transaction(async (tx) => {
+            const created = await tx.message.create({
+                data: {
+                    conversationId: conversation.id,
+                    senderId,
+                    body,
+                    attachments: { create: ids.map(mediaId => ({ mediaId })) },
+                },
+                include: messageInclude,
+            });
+
+            await tx.conversation.update({
+                where: { id: conversation.id },
+                data: { lastMessageAt: created.createdAt },
+            });
+
+            // Senders have read everything up to their own message
+            await tx.conversationParticipant.update({
+                where: { conversationId_userId: { conversationId: conversation.id, userId: senderId } },
+                data: { lastReadAt: created.createdAt },
+            });
+
+            return created;
+        });
+
+        return this.present(conversation, message);
+    }
+
+    /**
+     * Mark a conversation as read up to a message, or entirely
+     *
+     * @param conversation
+     * @param userId
+     * @param messageId The last message read, defaults to the latest one
+     * @returns The time the conversation is read up to
+     * @throws {RequestError} 404 when the message is not part of the conversation
+     */
+    static async markRead(conversation: ConversationWithParticipants, userId: string, messageId?: string | null) {
+        let readAt = new Date();
+
+        if (messageId) {
+            const message = await prisma.message.findFirst({
+                where: { id: messageId, conversationId: conversation.id },
+                select: { createdAt: true },
+            });
+
+            RequestError.assertFound(message, 'Message not found', 404);
+
+            readAt = message.createdAt;
+        }
+
+        // Receipts never move backwards
+        await prisma.conversationParticipant.updateMany({
+            where: {
+                conversationId: conversation.id,
+                userId,
+                OR: [{ lastReadAt: null }, { lastReadAt: { lt: readAt } }],
+            },
+            data: { lastReadAt: readAt },
+        });
+
+        const participant = await prisma.conversationParticipant.findUniqueOrThrow({
+            where: { conversationId_userId: { conversationId: conversation.id, userId } },
+        });
+
+        return participant.lastReadAt;
+    }
+
+    /**
+     * Find the conversation a subject maps to and who takes part in it
+     */
+    private static async resolve(userId: string, subject: ConversationSubject) {
+        if (subject.type === ConversationType.DIRECT) {
+            RequestError.abortIf(subject.id === userId, 'You can not start a conversation with yourself.', 422);
+
+            const target = await prisma.user.findUnique({ where: { id: subject.id }, select: { id: true } });
+            RequestError.assertFound(target, 'User not found', 404);
+
+            const check = await PrivacyGuard.canSendDirectMessage(userId, target.id);
+            RequestError.abortIf(!check.allowed, check.reason ?? 'You can not message this user.', 403);
+
+            return {
+                where: { directKey: [userId, target.id].sort().join(':') },
+                participants: [userId, target.id],
+            };
+        }
+
+        const owner = subject.type === ConversationType.JOB
+            ? await prisma.job.findUnique({
+                where: { id: subject.id },
+                select: { applicantId: true, listing: { select: { curatorId: true } } },
+            })
+            : await prisma.application.findUnique({
+                where: { id: subject.id },
+                select: { applicantId: true, listing: { select: { curatorId: true } } },
+            });
+
+        RequestError.assertFound(owner, subject.type === ConversationType.JOB ? 'Job not found' : 'Application not found', 404);
+
+        const participants = [...new Set([owner.applicantId, owner.listing.curatorId])];
+
+        RequestError.abortIf(!participants.includes(userId), 'Unauthorized access to this conversation', 403);
+
+        return {
+            where: subject.type === ConversationType.JOB ? { jobId: subject.id } : { applicationId: subject.id },
+            participants,
+        };
+    }
+
+    /**
+     * Count the unread messages of a user per conversation
+     */
+    private static async unreadCounts(userId: string, conversationIds?: string[]) {
+        if (conversationIds && conversationIds.length === 0) {
+            return new Map<string, number>();
+        }
+
+        const rows = await prisma.$queryRaw<Array<{ conversationId: string, count: number }>>`
+            SELECT m."conversationId", COUNT(*)::int AS count
+            FROM messages m
+            JOIN conversation_participants p
+                ON p."conversationId" = m."conversationId" AND p."userId" = ${userId}
+            WHERE m."senderId" <> ${userId}
+                AND (p."lastReadAt" IS NULL OR m."createdAt" > p."lastReadAt")
+                ${conversationIds ? Prisma.sql`AND m."conversationId" IN (${Prisma.join(conversationIds)})` : Prisma.empty}
+            GROUP BY m."conversationId"
+        `;
+
+        return new Map(rows.map(row => [row.conversationId, row.count]));
+    }
+
+    /**
+     * Add the participants who read a message to it
+     */
+    private static present<M extends Message>(conversation: Pick<ConversationWithParticipants, 'participants'>, message: M) {
+        return {
+            ...message,
+            readBy: conversation.participants
+                .filter(participant => participant.userId !== message.senderId)
+                .filter(participant => participant.lastReadAt && participant.lastReadAt >= message.createdAt)
+                .map(participant => participant.userId),
+        };
+    }
+}
@@ -2,6 +2,7 @@ import { prisma } from '../db';
 import { VerificationStatus, EventType } from '@prisma/client';
 import { RequestError } from '../utils/errors';
 import { sendMail } from '../mailer/mailer';
+import { notify } from './notificationService';
 import { trackBusinessEvent } from '../utils/analyticsMiddleware';
 import StorageService from '../utils/StorageService';
 
@@ -416,32 +417,26 @@ export class CuratorVerificationService {
             notes
         });
 
-        // Prepare email notification
-        const emailSubject = status === VerificationStatus.VERIFIED
-            ? 'Curator Verification Approved'
-            : 'Curator Verification Application Update';
-
-        const emailText = status === VerificationStatus.VERIFIED
-            ? `
-                <h2>Congratulations ${application.curator.user.firstName}!</h2>
-                <p>Your curator verification application has been <strong>approved</strong>.</p>
-                <p>You now have full access to all curator features and your profile will be marked as verified.</p>
-                <p>Thank you for being part of the Artisyn community!</p>
-            `
-            : `
-                <h2>Hello ${application.curator.user.firstName},</h2>
-                <p>Thank you for submitting your curator verification application.</p>
-                <p>After careful review, we are unable to approve your application at this time.</p>
-                ${notes ? `<p><strong>Reason:</strong> ${notes}</p>` : ''}
-                <p>You may submit a new application with updated documentation if you wish to reapply.</p>
-                <p>If you have any questions, please contact our support team.</p>
-            `;
-
-        await sendMail({
-            to: application.curator.user.email,
-            subject: emailSubject,
-            text: emailText,
-            caption: status === VerificationStatus.VERIFIED ? 'Approved' : 'Application Update'
+        const approved = status === VerificationStatus.VERIFIED;
+
+        await notify(application.curator.userId, approved ? 'verification.approved' : 'verification.rejected', {
+            title: approved ? 'Curator Verification Approved' : 'Curator Verification Application Update',
+            message: approved
+                ? `
+                    <p>Your curator verification application has been <strong>approved</strong>.</p>
+                    <p>You now have full access to all curator features and your profile will be marked as verified.</p>
+                    <p>Thank you for being part of the Artisyn community!</p>
+                `
+                : `
+                    <p>Thank you for submitting your curator verification application.</p>
+                    <p>After careful review, we are unable to approve your application at this time.</p>
+                    ${notes ? `<p><strong>Reason:</strong> ${notes}</p>` : ''}
+                    <p>You may submit a new application with updated documentation if you wish to reapply.</p>
+                    <p>If you have any questions, please contact our support team.</p>
+                `,
+            path: '/curator/verification',
+            linkTitle: 'View Verification',
+            data: { applicationId },
         });
 
         return updatedApplication;
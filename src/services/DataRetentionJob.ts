@@ -1,3 +1,4 @@
+import { RatingService } from 'src/services/RatingService';
 import { prisma } from 'src/db';
 import { logAuditEvent } from 'src/utils/auditLogger';
 
@@ -55,6 +56,12 @@ export class DataRetentionJob {
         const cutoff = new Date();
         cutoff.setMonth(cutoff.getMonth() - dataRetentionMonths);
 
+        // The ratings of whoever the expired reviews were about change with them
+        const expiredReviews = await prisma.review.findMany({
+            where: { authorId: userId, createdAt: { lt: cutoff } },
+            select: { targetId: true, artisanId: true },
+        });
+
         const [deletedAuditLogs, deletedReviews, deletedSentTips] = await Promise.all([
             prisma.auditLog.deleteMany({
                 where: { userId, createdAt: { lt: cutoff } },
@@ -67,6 +74,10 @@ export class DataRetentionJob {
             }),
         ]);
 
+        if (deletedReviews.count > 0) {
+            await RatingService.refresh(...expiredReviews);
+        }
+
         const result: UserRetentionResult = {
             userId,
             cutoff,
@@ -0,0 +1,249 @@
+import { RequestError, ValidationError } from '../utils/errors';
+import { addMinutes, isPast } from 'date-fns';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+import { User } from '@prisma/client';
+import { config } from '../config';
+import { prisma } from '../db';
+import { secureOtp } from '../utils/helpers';
+import { sendMail } from '../mailer/mailer';
+
+type MailableUser = Pick<User, 'id' | 'email' | 'firstName'>;
+
+/**
+ * Hash a verification code or link token for storage and lookup
+ */
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Compare two hex digests in constant time
+ */
+const digestEquals = (a: string, b: string) => {
+    const left = Buffer.from(a, 'hex');
+    const right = Buffer.from(b, 'hex');
+
+    return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * EmailVerificationService
+ *
+ * Verifies that users own their email address. Each verification holds a
+ * short one-time code and a link token (both hashed at rest), expires and
+ * allows a limited number of wrong codes. A verification for an address other
+ * than the user's current one is a pending email change, the address is only
+ * swapped once it has been verified.
+ */
+export class EmailVerificationService {
+    /**
+     * Start a verification, replacing any outstanding one of the user
+     *
+     * @param user
+     * @param email Defaults to the user's current email
+     * @returns The plain code and link token, only available here
+     */
+    static async create(user: MailableUser, email: string = user.email) {
+        const code = secureOtp(6);
+        const token = randomBytes(32).toString('base64url');
+
+        await prisma.emailVerification.deleteMany({ where: { userId: user.id, usedAt: null } });
+
+        const verification = await prisma.emailVerification.create({
+            data: {
+                userId: user.id,
+                email: email.toLowerCase(),
+                codeHash: hashSecret(code),
+                tokenHash: hashSecret(token),
+                expiresAt: addMinutes(new Date(), Number(config('auth.email_verification_ttl_minutes'))),
+            },
+        });
+
+        return { code, token, verification };
+    }
+
+    /**
+     * Start a verification and email the code and link to the address being verified
+     *
+     * @param user
+     * @param email Defaults to the user's current email
+     * @returns
+     */
+    static async send(user: MailableUser, email: string = user.email) {
+        const { code, token, verification } = await this.create(user, email);
+        const link = `${config('app.front_url')}/account/verify/email?token=${token}`;
+
+        sendMail({
+            to: verification.email,
+            subject: 'Verify your email address',
+            text: `
+                Hi <b>${user.firstName}</b><br/><br/>
+                Please verify your email address using the code or link below,
+                they expire in ${config('auth.email_verification_ttl_minutes')} minutes:
+                <hr />
+                <b>Your Verification Code (OTP):</b>
+                <h3 style="text-align:center;">${code}</h3>
+                Or click the link below to verify instantly:
+            `,
+            credits: `If you didn’t request this, you can safely ignore this email.<br/>
+                Thanks,<br/>
+                The ${config('app.name')} Team`,
+            data: { ...user, link, linkTitle: 'Verify Email' }
+        })
+
+        return verification;
+    }
+
+    /**
+     * Send a new code for the outstanding verification of a user
+     *
+     * @param user
+     * @returns
+     * @throws {RequestError} 429 when the user is verified and has no pending email change
+     */
+    static async resend(user: MailableUser & { emailVerifiedAt?: Date | string | null }) {
+        const pending = await this.pending(user.id);
+        const email = pending?.email ?? user.email;
+
+        RequestError.abortIf(
+            !!user.emailVerifiedAt && email === user.email.toLowerCase(),
+            'Your account is already verified.',
+            429
+        );
+
+        return this.send(user, email);
+    }
+
+    /**
+     * Get the outstanding verification of a user
+     *
+     * @param userId
+     * @returns
+     */
+    static async pending(userId: string) {
+        return prisma.emailVerification.findFirst({
+            where: { userId, usedAt: null },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Check a code (or link token) against the user's outstanding verification
+     * and mark the address as verified, applying a pending email change.
+     *
+     * @param user
+     * @param code
+     * @returns The updated user and whether the email address changed
+     * @throws {ValidationError} when the code is wrong, expired or out of attempts
+     */
+    static async verify(user: Pick<User, 'id' | 'email'>, code: string) {
+        const verification = await this.pending(user.id);
+        const maxAttempts = Number(config('auth.email_verification_max_attempts'));
+
+        if (!verification || isPast(verification.expiresAt)) {
+            throw new ValidationError('Verification failed', {
+                code: ['The verification code has expired, please request a new one.']
+            });
+        }
+
+        if (verification.attempts >= maxAttempts) {
+            throw new ValidationError('Verification failed', {
+                code: ['Too many failed attempts, please request a new verification code.']
+            });
+        }
+
+        const digest = hashSecret(String(code));
+
+        if (!digestEquals(digest, verification.codeHash) && !digestEquals(digest, verification.tokenHash)) {
+            await prisma.emailVerification.update({
+                where: { id: verification.id },
+                data: { attempts: { increment: 1 } },
+            });
+
+            throw new ValidationError('Verification failed', {
+                code: ['The verification code you provided is invalid.']
+            });
+        }
+
+        // Claim the verification atomically so a code can only be used once
+        const { count } = await prisma.emailVerification.updateMany({
+            where: { id: verification.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        if (count === 0) {
+            throw new ValidationError('Verification failed', {
+                code: ['The verification code has already been used.']
+            });
+        }
+
+        const emailChanged = verification.email !== user.email.toLowerCase();
+
+        if (emailChanged) {
+            const taken = await prisma.user.findFirst({
+                where: { id: { not: user.id }, email: { equals: verification.email, mode: 'insensitive' } },
+            });
+
+            if (taken) {
+                throw new ValidationError('Verification failed', {
+                    email: ['The email address has already been taken.']
+                });
+            }
+        }
+
+        const data = await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                email: emailChanged ? verification.email : undefined,
+                emailVerifiedAt: new Date(),
+                emailVerificationCode: null,
+            },
+        });
+
+        return { user: data, emailChanged, previousEmail: user.email };
+    }
+
+    /**
+     * Request an email change, the new address must be verified before it is used
+     *
+     * @param user
+     * @param email
+     * @returns
+     * @throws {ValidationError} when the address is the current one or already taken
+     */
+    static async requestChange(user: MailableUser, email: string) {
+        const address = email.toLowerCase();
+
+        if (address === user.email.toLowerCase()) {
+            throw new ValidationError('This is already your email address.', {
+                email: ['This is already your email address.']
+            });
+        }
+
+        const taken = await prisma.user.findFirst({
+            where: { email: { equals: address, mode: 'insensitive' } },
+        });
+
+        if (taken) {
+            throw new ValidationError('The email address has already been taken.', {
+                email: ['The email address has already been taken.']
+            });
+        }
+
+        const verification = await this.send(user, address);
+
+        // Let the current address know, in case the change was not requested by its owner
+        sendMail({
+            to: user.email,
+            subject: 'Your email address is being changed',
+            text: `
+                Hi <b>${user.firstName}</b><br/><br/>
+                A request was made to change the email address of your account to <b>${address}</b>.
+                The change takes effect once the new address has been verified.<br/><br/>
+                If you did not request this, please secure your account by changing your password.
+            `,
+            data: { ...user },
+        })
+
+        return verification;
+    }
+}
@@ -0,0 +1,194 @@
+import { Prisma, StreamEvent } from '@prisma/client';
+
+import { config } from '../config';
+import { prisma } from '../db';
+import { subHours, subSeconds } from 'date-fns';
+
+export type StreamEventType =
+    | 'application.created'
+    | 'application.status_changed'
+    | 'job.status_changed'
+    | 'tip.received'
+    | 'friend_request.received'
+    | 'friend_request.accepted'
+    | 'review.responded'
+    | 'notification.created';
+
+export type StreamListener = (event: StreamEvent) => void;
+
+interface Subscriber {
+    listener: StreamListener;
+    // Events up to this id existed before the subscriber connected
+    after: number;
+}
+
+/**
+ * EventStreamService
+ *
+ * Pushes events to users connected to the real-time stream. Events are stored
+ * before they are pushed, so a client that lost its connection can resume from
+ * the last event it received, and so clients connected to any instance of the
+ * API get them: while someone is connected, each instance polls the table for
+ * the events of its own subscribers.
+ *
+ * Event ids are taken before their transaction commits, so an event can show
+ * up behind ids that were already polled. Each poll re-reads the last
+ * STREAM_LOOKBACK_SECONDS to catch those, and hands every event to each
+ * subscriber once.
+ */
+export class EventStreamService {
+    private static listeners = new Map<string, Set<Subscriber>>();
+    private static delivered = new Set<number>();
+    private static cursor: number | null = null;
+    private static timer: NodeJS.Timeout | null = null;
+    private static polling = false;
+
+    /**
+     * Push an event to users. Failures are logged and never fail the change
+     * the event is about.
+     *
+     * @param userIds
+     * @param type
+     * @param data
+     */
+    static async publish(userIds: string | Array<string | null | undefined>, type: StreamEventType, data: Prisma.InputJsonObject) {
+        const recipients = [...new Set([userIds].flat().filter((id): id is string => !!id))];
+
+        if (recipients.length === 0) {
+            return;
+        }
+
+        try {
+            await prisma.streamEvent.createMany({
+                data: recipients.map(userId => ({ userId, type, data })),
+            });
+
+            await this.poll();
+        } catch (error) {
+            console.error(`[Event Stream] Failed to publish ${type}:`, error);
+        }
+    }
+
+    /**
+     * Get the events of a user that came after the one a client received last
+     *
+     * @param userId
+     * @param lastEventId
+     * @returns
+     */
+    static since(userId: string, lastEventId: number) {
+        return prisma.streamEvent.findMany({
+            where: { userId, id: { gt: lastEventId } },
+            orderBy: { id: 'asc' },
+            take: Number(config('stream.replay_limit')),
+        });
+    }
+
+    /**
+     * Listen to the events of a user
+     *
+     * @param userId
+     * @param listener
+     * @returns A function that stops listening
+     */
+    static async subscribe(userId: string, listener: StreamListener) {
+        if (this.cursor === null) {
+            const { _max } = await prisma.streamEvent.aggregate({ _max: { id: true } });
+            this.cursor ??= _max.id ?? 0;
+        }
+
+        const subscriber: Subscriber = { listener, after: this.cursor };
+        const listeners = this.listeners.get(userId) ?? new Set<Subscriber>();
+        listeners.add(subscriber);
+        this.listeners.set(userId, listeners);
+
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.poll(), Number(config('stream.poll_interval_ms')));
+            this.timer.unref();
+        }
+
+        return () => {
+            listeners.delete(subscriber);
+
+            if (listeners.size === 0) {
+                this.listeners.delete(userId);
+            }
+
+            if (this.listeners.size === 0 && this.timer) {
+                clearInterval(this.timer);
+                this.timer = null;
+                this.cursor = null;
+                this.delivered.clear();
+            }
+        };
+    }
+
+    /**
+     * Delete the events too old to resume from
+     *
+     * @returns The number of deleted events
+     */
+    static async prune() {
+        const { count } = await prisma.streamEvent.deleteMany({
+            where: { createdAt: { lt: subHours(new Date(), Number(config('stream.retention_hours'))) } },
+        });
+
+        return count;
+    }
+
+    /**
+     * Hand the new events of connected users to their listeners
+     */
+    private static async poll() {
+        if (this.polling || this.cursor === null || this.listeners.size === 0) {
+            return;
+        }
+
+        this.polling = true;
+
+        try {
+            const lookback = subSeconds(new Date(), Number(config('stream.lookback_seconds')));
+
+            const events = await prisma.streamEvent.findMany({
+                where: {
+                    userId: { in: [...this.listeners.keys()] },
+                    OR: [{ id: { gt: this.cursor } }, { createdAt: { gte: lookback } }],
+                },
+                orderBy: { id: 'asc' },
+                take: 1000,
+            });
+
+            // Events that fell out of the window are never read again
+            const delivered = new Set<number>();
+
+            for (const event of events) {
+                // Everyone disconnected while the events were loading
+                if (this.cursor === null) {
+                    return;
+                }
+
+                delivered.add(event.id);
+                this.cursor = Math.max(this.cursor, event.id);
+
+                if (this.delivered.has(event.id)) {
+                    continue;
+                }
+
+                this.listeners.get(event.userId)?.forEach(({ listener, after }) => {
+                    if (event.id > after) {
+                        listener(event);
+                    }
+                });
+            }
+
+            // Keep the ids past a full page, they are read again next time
+            const last = events.at(-1)?.id ?? this.cursor;
+            this.delivered.forEach(id => id > last && delivered.add(id));
+            this.delivered = delivered;
+        } catch (error) {
+            console.error('[Event Stream] Failed to poll events:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+}
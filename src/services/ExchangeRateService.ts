@@ -0,0 +1,182 @@
+import { ExchangeRate } from '@prisma/client';
+
+import { CoinGeckoRateProvider } from './rates/CoinGeckoRateProvider';
+import { FileRateProvider } from './rates/FileRateProvider';
+import { RateProvider } from './rates/RateProvider';
+import { TIP_CURRENCIES } from './chain/ChainVerifier';
+import { config } from '../config';
+import { prisma } from '../db';
+
+export interface ConvertedAmount {
+    currency: string;
+    amount: number;
+    rate: number;
+    /** When the rate used was captured */
+    rateAt: Date;
+}
+
+type Convertible = { amount: number, currency: string, createdAt: Date, verifiedAt?: Date | null };
+
+export type Converter = (amount: number, currency: string, at: Date) => ConvertedAmount | null;
+
+/**
+ * The moment a tip is converted at: when it was verified, or created for tips that predate verification
+ */
+const timestamp = (tip: Convertible) => tip.verifiedAt ?? tip.createdAt;
+
+/**
+ * ExchangeRateService
+ *
+ * Stores exchange rates of the tip currencies as historical snapshots and
+ * converts tip amounts into fiat currencies at the rate of the tip's
+ * timestamp: the latest snapshot captured before it, or the earliest one
+ * when the tip predates every snapshot. Rates come from a pluggable provider,
+ * the file provider serves fixed rates for tests and offline development.
+ */
+export class ExchangeRateService {
+    private static current?: RateProvider;
+
+    /**
+     * Get the rate provider, creating the configured default on first use
+     *
+     * @returns
+     */
+    static provider(): RateProvider {
+        if (!this.current) {
+            this.current = config('rates.provider') === 'file'
+                ? new FileRateProvider()
+                : new CoinGeckoRateProvider();
+        }
+
+        return this.current;
+    }
+
+    /**
+     * Replace the rate provider
+     *
+     * @param provider
+     */
+    static use(provider: RateProvider) {
+        this.current = provider;
+    }
+
+    /**
+     * Fiat currencies to snapshot: the configured ones and every currency a user prefers
+     *
+     * @returns
+     */
+    static async quotes(): Promise<string[]> {
+        const preferred = await prisma.userPreferences.findMany({
+            distinct: ['currencyPreference'],
+            select: { currencyPreference: true },
+        });
+
+        return [...new Set([
+            ...String(config('rates.quotes') ?? '').split(','),
+            ...preferred.map(preferences => preferences.currencyPreference),
+        ].map(quote => quote.trim().toUpperCase()).filter(Boolean))];
+    }
+
+    /**
+     * Fetch the current rates from the provider and store them as a snapshot
+     *
+     * @returns The number of rates stored
+     */
+    static async snapshot(): Promise<number> {
+        const provider = this.provider();
+        const rates = await provider.rates(TIP_CURRENCIES, await this.quotes());
+        const capturedAt = new Date();
+
+        const { count } = await prisma.exchangeRate.createMany({
+            data: rates.map(rate => ({ ...rate, source: provider.name, capturedAt })),
+        });
+
+        return count;
+    }
+
+    /**
+     * Get the fiat currency a user prefers amounts in
+     *
+     * @param userId
+     * @returns
+     */
+    static async preferredCurrency(userId?: string | null): Promise<string> {
+        const preferences = userId
+            ? await prisma.userPreferences.findUnique({ where: { userId }, select: { currencyPreference: true } })
+            : null;
+
+        return preferences?.currencyPreference ?? 'USD';
+    }
+
+    /**
+     * Load the snapshots needed to convert a set of tips into a fiat currency
+     *
+     * @param quote
+     * @param tips
+     * @returns A converter that looks rates up without further queries
+     */
+    static async converter(quote: string, tips: Convertible[]): Promise<Converter> {
+        const tables = new Map<string, ExchangeRate[]>();
+
+        for (const base of new Set(tips.map(tip => tip.currency))) {
+            const times = tips.filter(tip => tip.currency === base).map(tip => timestamp(tip).getTime());
+            const from = new Date(Math.min(...times));
+            const to = new Date(Math.max(...times));
+
+            const [before, within, after] = await Promise.all([
+                prisma.exchangeRate.findFirst({ where: { base, quote, capturedAt: { lt: from } }, orderBy: { capturedAt: 'desc' } }),
+                prisma.exchangeRate.findMany({ where: { base, quote, capturedAt: { gte: from, lte: to } }, orderBy: { capturedAt: 'asc' } }),
+                prisma.exchangeRate.findFirst({ where: { base, quote, capturedAt: { gt: to } }, orderBy: { capturedAt: 'asc' } }),
+            ]);
+
+            tables.set(base, [before, ...within, after].filter((rate): rate is ExchangeRate => !!rate));
+        }
+
+        return (amount, currency, at) => {
+            const table = tables.get(currency) ?? [];
+
+            if (table.length === 0) {
+                return null;
+            }
+
+            // Latest snapshot captured at or before the timestamp, else the earliest one
+            let rate = table[0];
+
+            for (const snapshot of table) {
+                if (snapshot.capturedAt > at) break;
+                rate = snapshot;
+            }
+
+            return {
+                currency: quote,
+                amount: Math.round(amount * rate.rate * 100) / 100,
+                rate: rate.rate,
+                rateAt: rate.capturedAt,
+            };
+        };
+    }
+
+    /**
+     * Add the amount of each tip converted into a fiat currency, null when no rate is known
+     *
+     * @param tips
+     * @param quote
+     * @returns
+     */
+    static async convertTips<T extends Convertible>(tips: T[], quote: string): Promise<Array<T & { converted: ConvertedAmount | null }>> {
+        const convert = await this.converter(quote, tips);
+
+        return tips.map(tip => ({ ...tip, converted: convert(tip.amount, tip.currency, timestamp(tip)) }));
+    }
+
+    /**
+     * Convert tips into the preferred currency of the user viewing them
+     *
+     * @param tips
+     * @param viewerId
+     * @returns
+     */
+    static async forViewer<T extends Convertible>(tips: T[], viewerId?: string | null) {
+        return this.convertTips(tips, await this.preferredCurrency(viewerId));
+    }
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../db';
 import { FriendshipStatus } from '@prisma/client';
+import { EventStreamService } from './EventStreamService';
 
 /**
  * FriendshipService - Manages friend relationships and friend-based privacy
@@ -112,6 +113,11 @@ export class FriendshipService {
       },
     });
 
+    await EventStreamService.publish(targetUserId, 'friend_request.received', {
+      friendshipId: friendship.id,
+      userId,
+    });
+
     return friendship;
   }
 
@@ -136,13 +142,20 @@ export class FriendshipService {
       throw new Error('Friendship request is not in pending status');
     }
 
-    return prisma.friendship.update({
+    const accepted = await prisma.friendship.update({
       where: { id: friendshipId },
       data: {
         status: 'ACCEPTED',
         acceptedAt: new Date(),
       },
     });
+
+    await EventStreamService.publish(friendship.userId, 'friend_request.accepted', {
+      friendshipId,
+      friendId: userId,
+    });
+
+    return accepted;
   }
 
   /**
@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export type SuggestionType = 'ARTISAN' | 'CATEGORY' | 'SUBCATEGORY' | 'CITY' | 'CURATOR';
+
+export interface SearchSuggestion {
+    label: string;
+    type: SuggestionType;
+    score: number;
+}
+
+export interface SearchHighlight {
+    name: string;
+    description: string;
+}
+
+const HEADLINE = 'StartSel=<mark>, StopSel=</mark>';
+
+/**
+ * Escape the HTML special characters of a text column, so only the <mark>
+ * tags of a headline are markup
+ *
+ * @param column
+ */
+const escaped = (column: string) => Prisma.sql`
+    replace(replace(replace(replace(replace(${Prisma.raw(`"${column}"`)},
+        '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')
+`;
+
+/**
+ * FullTextSearchService
+ *
+ * Ranks artisans against the weighted full-text document the database keeps
+ * for each of them: name first, then category and subcategory, description
+ * and city. Words are stemmed and the words of the search text match as
+ * prefixes, so partial input already finds results. Curators have a
+ * document of their own: name, then specialties and bio. Suggestions compare
+ * trigrams instead, which tolerates typos.
+ */
+export class FullTextSearchService {
+    /**
+     * Build the full-text query matching every word of a search text,
+     * each as a prefix
+     *
+     * @param text
+     * @returns The query, or null when the text has no words
+     */
+    static query(text: string): Prisma.Sql | null {
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        if (words.length === 0) {
+            return null;
+        }
+
+        return Prisma.sql`to_tsquery('english', ${words.map(word => `${word}:*`).join(' & ')})`;
+    }
+
+    /**
+     * Rank the artisans matching a search text
+     *
+     * @param text
+     * @param options.active Only rank active artisans
+     * @param options.take Only rank a page of them
+     * @param options.skip
+     * @returns The relevance of each matching artisan, most relevant first
+     */
+    static async rankArtisans(
+        text: string,
+        { active, take, skip = 0 }: { active?: boolean, take?: number, skip?: number } = {}
+    ): Promise<Map<string, number>> {
+        const query = this.query(text);
+
+        if (!query) {
+            return new Map();
+        }
+
+        const rows = await prisma.$queryRaw<Array<{ id: string, rank: number }>>`
+            SELECT "id", ts_rank("searchVector", ${query}) AS "rank"
+            FROM "Artisan"
+            WHERE "searchVector" @@ ${query}
+            ${active ? Prisma.sql`AND "isActive" = true` : Prisma.empty}
+            ORDER BY "rank" DESC, "name" ASC
+            ${this.page(take, skip)}
+        `;
+
+        return new Map(rows.map(row => [row.id, Number(row.rank)]));
+    }
+
+    /**
+     * Count the artisans matching a search text
+     *
+     * @param text
+     * @param options.active Only count active artisans
+     */
+    static async countArtisans(text: string, { active }: { active?: boolean } = {}): Promise<number> {
+        const query = this.query(text);
+
+        if (!query) {
+            return 0;
+        }
+
+        const [{ total }] = await prisma.$queryRaw<[{ total: bigint }]>`
+            SELECT count(*) AS "total"
+            FROM "Artisan"
+            WHERE "searchVector" @@ ${query}
+            ${active ? Prisma.sql`AND "isActive" = true` : Prisma.empty}
+        `;
+
+        return Number(total);
+    }
+
+    /**
+     * Rank the verified curators matching a search text, by name, then
+     * specialties and bio
+     *
+     * @param text
+     * @param options.take Only rank a page of them
+     * @param options.skip
+     * @returns The relevance of each matching curator, most relevant first
+     */
+    static async rankCurators(
+        text: string,
+        { take, skip = 0 }: { take?: number, skip?: number } = {}
+    ): Promise<Map<string, number>> {
+        const query = this.query(text);
+
+        if (!query) {
+            return new Map();
+        }
+
+        const rows = await prisma.$queryRaw<Array<{ id: string, rank: number }>>`
+            SELECT c."id", ts_rank(c."searchVector", ${query}) AS "rank"
+            FROM "Curator" c
+            JOIN "User" u ON u."id" = c."userId"
+            WHERE c."verificationStatus" = 'VERIFIED' AND c."searchVector" @@ ${query}
+            ORDER BY "rank" DESC, u."firstName" ASC
+            ${this.page(take, skip)}
+        `;
+
+        return new Map(rows.map(row => [row.id, Number(row.rank)]));
+    }
+
+    /**
+     * Count the verified curators matching a search text
+     *
+     * @param text
+     */
+    static async countCurators(text: string): Promise<number> {
+        const query = this.query(text);
+
+        if (!query) {
+            return 0;
+        }
+
+        const [{ total }] = await prisma.$queryRaw<[{ total: bigint }]>`
+            SELECT count(*) AS "total"
+            FROM "Curator"
+            WHERE "verificationStatus" = 'VERIFIED' AND "searchVector" @@ ${query}
+        `;
+
+        return Number(total);
+    }
+
+    /**
+     * Mark the words of artisans' names and descriptions matching a search text
+     * with <mark> tags. The description is cut to the fragments around matches.
+     * The rest of the text is HTML-escaped, so the highlights are safe to render.
+     *
+     * @param text
+     * @param ids
+     * @returns The highlights of each artisan
+     */
+    static async highlightArtisans(text: string, ids: string[]): Promise<Map<string, SearchHighlight>> {
+        const query = this.query(text);
+
+        if (!query || ids.length === 0) {
+            return new Map();
+        }
+
+        const rows = await prisma.$queryRaw<Array<SearchHighlight & { id: string }>>`
+            SELECT
+                "id",
+                ts_headline('english', ${escaped('name')}, ${query}, ${`${HEADLINE}, HighlightAll=true`}) AS "name",
+                ts_headline('english', ${escaped('description')}, ${query}, ${`${HEADLINE}, MaxFragments=2, MaxWords=20, MinWords=5`}) AS "description"
+            FROM "Artisan"
+            WHERE "id" IN (${Prisma.join(ids)})
+        `;
+
+        return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+    }
+
+    /**
+     * Suggest artisan names, categories, subcategories and cities, and
+     * optionally curators, close to a search text even when it has typos
+     *
+     * @param text
+     * @param options.limit
+     * @param options.curators Include verified curators
+     * @returns The suggestions, closest first
+     */
+    static async suggest(
+        text: string,
+        { limit = 10, curators = false }: { limit?: number, curators?: boolean } = {}
+    ): Promise<SearchSuggestion[]> {
+        const curatorSuggestions = curators
+            ? Prisma.sql`
+                UNION
+                SELECT u."firstName" || ' ' || u."lastName", 'CURATOR', word_similarity(${text}, u."firstName" || ' ' || u."lastName")
+                FROM "Curator" c
+                JOIN "User" u ON u."id" = c."userId"
+                WHERE c."verificationStatus" = 'VERIFIED' AND ${text} <% (u."firstName" || ' ' || u."lastName")
+            `
+            : Prisma.empty;
+
+        const rows = await prisma.$queryRaw<SearchSuggestion[]>`
+            SELECT "label", "type", "score" FROM (
+                SELECT "name" AS "label", 'ARTISAN' AS "type", word_similarity(${text}, "name") AS "score"
+                FROM "Artisan"
+                WHERE "isActive" = true AND ${text} <% "name"
+                UNION
+                SELECT "name", 'CATEGORY', word_similarity(${text}, "name")
+                FROM "Category"
+                WHERE ${text} <% "name"
+                UNION
+                SELECT "name", 'SUBCATEGORY', word_similarity(${text}, "name")
+                FROM "Subcategory"
+                WHERE ${text} <% "name"
+                UNION
+                SELECT "city", 'CITY', word_similarity(${text}, "city")
+                FROM "Location"
+                WHERE ${text} <% "city"
+                ${curatorSuggestions}
+            ) AS "suggestions"
+            ORDER BY "score" DESC, "label" ASC
+            LIMIT ${limit}
+        `;
+
+        return rows.map(row => ({ ...row, score: Math.round(Number(row.score) * 100) / 100 }));
+    }
+
+    private static page(take: number | undefined, skip: number) {
+        return take !== undefined ? Prisma.sql`LIMIT ${take} OFFSET ${skip}` : Prisma.empty;
+    }
+}
@@ -0,0 +1,578 @@
+import { DisputeResolution, DisputeStatus, Job, JobDispute, JobStatus, Prisma, UserRole } from '@prisma/client';
+import { addDays, addHours } from 'date-fns';
+
+import { JobEventAction, JobEventService } from './JobEventService';
+import { UserNotificationType, notify } from './notificationService';
+import { EventStreamService } from './EventStreamService';
+import { RequestError } from '../utils/errors';
+import { config } from '../config';
+import { escapeHtml } from '../utils/helpers';
+import { prisma } from '../db';
+import { userCan } from '../middleware/permissions';
+
+type DisputeJob = Job & { listing: { curatorId: string } };
+
+type Actor = { id: string, role?: UserRole | string };
+
+export interface DisputeResolutionInput {
+    resolution: DisputeResolution;
+    refundAmount?: number | null;
+    note?: string | null;
+}
+
+export interface DisputeReputation {
+    completedJobs: number;
+    disputes: {
+        open: number;
+        won: number;
+        lost: number;
+        settled: number;
+    };
+}
+
+/**
+ * Disputes still waiting for a resolution
+ */
+const ACTIVE: DisputeStatus[] = [DisputeStatus.OPEN, DisputeStatus.ESCALATED];
+
+/**
+ * Final status of the job for each resolution
+ */
+const OUTCOMES: Record<DisputeResolution, JobStatus> = {
+    REFUND: JobStatus.CANCELLED,
+    PARTIAL_REFUND: JobStatus.COMPLETED,
+    RELEASE: JobStatus.COMPLETED,
+    CANCEL: JobStatus.CANCELLED,
+};
+
+const include = {
+    evidence: {
+        orderBy: { createdAt: 'asc' },
+        include: { attachments: { include: { media: true } } },
+    },
+} satisfies Prisma.JobDisputeInclude;
+
+/**
+ * JobDisputeService
+ *
+ * Handles disputes raised on jobs:
+ * - A participant disputes a job with a reason, the job becomes DISPUTED
+ * - Participants and the mediator add evidence, optionally with media they uploaded
+ * - An admin is assigned as mediator and resolves the dispute with a refund,
+ *   partial refund, release or cancellation, which sets the final status of the job
+ * - Disputes without a mediator after DISPUTE_ASSIGNMENT_HOURS, or unresolved
+ *   after DISPUTE_RESOLUTION_DAYS, are escalated to the least busy admin
+ *
+ * The participant who opened a dispute can withdraw it while it is unresolved,
+ * which returns the job to its previous status. Resolved disputes count towards
+ * the reputation of both participants.
+ */
+export class JobDisputeService {
+    /**
+     * Check whether a user can see a dispute and add evidence to it
+     *
+     * @param job
+     * @param dispute
+     * @param user
+     * @returns
+     */
+    static canAccess(job: DisputeJob, dispute: Pick<JobDispute, 'mediatorId'> | null, user?: Actor) {
+        return !!user && (
+            job.applicantId === user.id ||
+            job.listing.curatorId === user.id ||
+            dispute?.mediatorId === user.id ||
+            userCan(user, 'disputes:manage')
+        );
+    }
+
+    /**
+     * Get the dispute of a job that is still waiting for a resolution
+     *
+     * @param jobId
+     * @returns
+     */
+    static active(jobId: string) {
+        return prisma.jobDispute.findFirst({
+            where: { jobId, status: { in: ACTIVE } },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Get a dispute of a job with its evidence
+     *
+     * @param jobId
+     * @param disputeId
+     * @returns
+     */
+    static async find(jobId: string, disputeId: string) {
+        const dispute = await prisma.jobDispute.findFirst({ where: { id: disputeId, jobId }, include });
+
+        RequestError.assertFound(dispute, 'Dispute not found', 404);
+
+        return dispute;
+    }
+
+    /**
+     * Get every dispute of a job with its evidence, most recent first
+     *
+     * @param jobId
+     * @returns
+     */
+    static list(jobId: string) {
+        return prisma.jobDispute.findMany({
+            where: { jobId },
+            orderBy: { createdAt: 'desc' },
+            include,
+        });
+    }
+
+    /**
+     * Dispute a job
+     *
+     * @param job
+     * @param userId Participant disputing the job
+     * @param reason
+     * @returns The new dispute
+     * @throws {RequestError} 422 when the job is already disputed
+     */
+    static async open(job: DisputeJob, userId: string, reason: string) {
+        RequestError.abortIf(!!(await this.active(job.id)), 'This job is already disputed.', 422);
+
+        const now = new Date();
+
+        const dispute = await prisma.$transaction(async (tx) => {
+            const created = await tx.jobDispute.create({
+                data: {
+                    jobId: job.id,
+                    openedBy: userId,
+                    reason,
+                    previousStatus: job.status,
+                    assignBy: addHours(now, Number(config('disputes.assignment_hours'))),
+                    resolveBy: addDays(now, Number(config('disputes.resolution_days'))),
+                },
+                include,
+            });
+
+            await tx.job.update({ where: { id: job.id }, data: { status: JobStatus.DISPUTED } });
+
+            await JobEventService.record(tx, {
+                applicationId: job.applicationId,
+                jobId: job.id,
+                subject: 'JOB',
+                action: 'DISPUTE_OPENED',
+                fromStatus: job.status,
+                toStatus: JobStatus.DISPUTED,
+                performedBy: userId,
+                notes: reason,
+                metadata: { disputeId: created.id },
+            });
+
+            return created;
+        });
+
+        const otherParty = userId === job.applicantId ? job.listing.curatorId : job.applicantId;
+
+        await this.notify(
+            otherParty,
+            'dispute.opened',
+            job,
+            'A job has been disputed',
+            `A job you take part in has been disputed for the following reason:<br/><br/>${escapeHtml(reason)}<br/><br/>
+            You can add your side of the story and supporting evidence until a mediator resolves the dispute.`
+        );
+
+        return dispute;
+    }
+
+    /**
+     * Add evidence to a dispute
+     *
+     * @param job
+     * @param dispute
+     * @param authorId
+     * @param message
+     * @param mediaIds Media uploaded by the author to attach
+     * @returns The evidence with its attachments
+     * @throws {RequestError} 422 when the dispute is resolved or the media does not belong to the author
+     */
+    static async addEvidence(job: Job, dispute: JobDispute, authorId: string, message: string, mediaIds: string[] = []) {
+        RequestError.abortIf(!ACTIVE.includes(dispute.status), 'Evidence can only be added to unresolved disputes.', 422);
+
+        const ids = [...new Set(mediaIds)];
+        const owned = ids.length
+            ? await prisma.media.count({ where: { id: { in: ids }, userId: authorId } })
+            : 0;
+
+        RequestError.abortIf(owned !== ids.length, 'Attachments must be media you uploaded.', 422);
+
+        return prisma.$transaction(async (tx) => {
+            const evidence = await tx.jobDisputeEvidence.create({
+                data: {
+                    disputeId: dispute.id,
+                    authorId,
+                    message,
+                    attachments: { create: ids.map(mediaId => ({ mediaId })) },
+                },
+                include: { attachments: { include: { media: true } } },
+            });
+
+            await this.record(tx, job, dispute, 'DISPUTE_EVIDENCE_ADDED', authorId, {
+                evidenceId: evidence.id,
+                mediaIds: ids,
+            });
+
+            return evidence;
+        });
+    }
+
+    /**
+     * Withdraw a dispute and return the job to its previous status
+     *
+     * @param job
+     * @param dispute
+     * @param userId
+     * @returns
+     * @throws {RequestError} 403 when the user did not open the dispute
+     */
+    static async withdraw(job: DisputeJob, dispute: JobDispute, userId: string) {
+        RequestError.abortIf(dispute.openedBy !== userId, 'Only the participant who opened the dispute can withdraw it.', 403);
+
+        await this.settle(dispute, job, dispute.previousStatus, { status: DisputeStatus.WITHDRAWN }, {
+            action: 'DISPUTE_WITHDRAWN',
+            performedBy: userId,
+        });
+
+        await this.notify(
+            userId === job.applicantId ? job.listing.curatorId : job.applicantId,
+            'dispute.withdrawn',
+            job,
+            'A job dispute has been withdrawn',
+            `The dispute on a job you take part in has been withdrawn and the job is back to ${dispute.previousStatus.toLowerCase().replace('_', ' ')}.`
+        );
+
+        return this.find(job.id, dispute.id);
+    }
+
+    /**
+     * Assign an admin as the mediator of a dispute
+     *
+     * @param dispute
+     * @param mediatorId
+     * @param assignedBy Admin making the assignment
+     * @returns
+     * @throws {RequestError} 422 when the dispute is resolved or the mediator is not an admin
+     */
+    static async assign(dispute: JobDispute, mediatorId: string, assignedBy: string) {
+        RequestError.abortIf(!ACTIVE.includes(dispute.status), 'Only unresolved disputes can be assigned.', 422);
+
+        const mediator = await prisma.user.findUnique({ where: { id: mediatorId } });
+
+        RequestError.abortIf(!mediator || !userCan(mediator, 'disputes:manage'), 'Mediators must be allowed to manage disputes.', 422);
+
+        const assigned = await prisma.$transaction(async (tx) => {
+            const updated = await tx.jobDispute.update({
+                where: { id: dispute.id },
+                data: { mediatorId, assignedAt: new Date() },
+                include,
+            });
+
+            const job = await tx.job.findUniqueOrThrow({ where: { id: dispute.jobId } });
+
+            await this.record(tx, job, dispute, 'DISPUTE_ASSIGNED', assignedBy, { mediatorId });
+
+            return updated;
+        });
+
+        await this.notifyMediator(assigned, 'dispute.assigned', 'You have been assigned a job dispute');
+
+        return assigned;
+    }
+
+    /**
+     * Resolve a dispute, which sets the final status of the job
+     *
+     * @param job
+     * @param dispute
+     * @param mediator
+     * @param input
+     * @returns
+     * @throws {RequestError} 403 when another admin mediates the dispute, 422 when the refund is invalid
+     */
+    static async resolve(job: DisputeJob, dispute: JobDispute, mediator: Actor, input: DisputeResolutionInput) {
+        RequestError.abortIf(!ACTIVE.includes(dispute.status), 'This dispute has already been settled.', 422);
+        RequestError.abortIf(
+            !!dispute.mediatorId && dispute.mediatorId !== mediator.id,
+            'Only the assigned mediator can resolve this dispute.',
+            403
+        );
+
+        let refundAmount: number | null = null;
+
+        if (input.resolution === DisputeResolution.PARTIAL_REFUND) {
+            refundAmount = Number(input.refundAmount);
+
+            RequestError.abortIf(!(refundAmount > 0), 'A partial refund needs a positive refund amount.', 422);
+            RequestError.abortIf(
+                job.price !== null && refundAmount >= job.price,
+                'A partial refund must be less than the price of the job, use a full refund instead.',
+                422
+            );
+        } else if (input.resolution === DisputeResolution.REFUND) {
+            refundAmount = job.price;
+        }
+
+        const status = OUTCOMES[input.resolution];
+
+        await this.settle(dispute, job, status, {
+            status: DisputeStatus.RESOLVED,
+            resolution: input.resolution,
+            refundAmount,
+            resolutionNote: input.note ?? null,
+            mediatorId: dispute.mediatorId ?? mediator.id,
+            assignedAt: dispute.assignedAt ?? new Date(),
+            resolvedBy: mediator.id,
+            resolvedAt: new Date(),
+        }, {
+            action: 'DISPUTE_RESOLVED',
+            performedBy: mediator.id,
+            notes: input.note,
+            metadata: { resolution: input.resolution, refundAmount },
+        });
+
+        const outcome = {
+            REFUND: `the applicant is refunded in full${refundAmount ? ` (${refundAmount} ${job.currency})` : ''} and the job is cancelled`,
+            PARTIAL_REFUND: `the applicant is refunded ${refundAmount} ${job.currency} and the job is completed`,
+            RELEASE: 'the payments are released to the curator and the job is completed',
+            CANCEL: 'the job is cancelled without a refund',
+        }[input.resolution];
+
+        for (const userId of [job.applicantId, job.listing.curatorId]) {
+            await this.notify(
+                userId,
+                'dispute.resolved',
+                job,
+                'A job dispute has been resolved',
+                `The dispute on a job you take part in has been resolved: ${outcome}.${input.note ? `<br/><br/>${escapeHtml(input.note)}` : ''}`
+            );
+        }
+
+        return this.find(job.id, dispute.id);
+    }
+
+    /**
+     * Escalate disputes that missed their assignment or resolution deadline,
+     * assigning the least busy admin to those without a mediator
+     *
+     * @returns The number of disputes escalated
+     */
+    static async escalate(): Promise<number> {
+        const now = new Date();
+
+        const due = await prisma.jobDispute.findMany({
+            where: {
+                status: DisputeStatus.OPEN,
+                OR: [
+                    { mediatorId: null, assignBy: { lte: now } },
+                    { resolveBy: { lte: now } },
+                ],
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        let escalated = 0;
+
+        for (const dispute of due) {
+            const mediatorId = dispute.mediatorId ?? await this.leastBusyMediator();
+
+            const count = await prisma.$transaction(async (tx) => {
+                const { count } = await tx.jobDispute.updateMany({
+                    where: { id: dispute.id, status: DisputeStatus.OPEN },
+                    data: {
+                        status: DisputeStatus.ESCALATED,
+                        escalatedAt: now,
+                        mediatorId,
+                        assignedAt: dispute.assignedAt ?? (mediatorId ? now : null),
+                    },
+                });
+
+                if (count > 0) {
+                    const job = await tx.job.findUniqueOrThrow({ where: { id: dispute.jobId } });
+
+                    await this.record(tx, job, dispute, 'DISPUTE_ESCALATED', null, {
+                        mediatorId,
+                        reason: dispute.mediatorId ? 'resolution_overdue' : 'assignment_overdue',
+                    });
+                }
+
+                return count;
+            });
+
+            if (count === 0) continue;
+
+            escalated++;
+
+            await this.notifyMediator(
+                { ...dispute, mediatorId },
+                'dispute.escalated',
+                'A job dispute has been escalated',
+                `It ${dispute.mediatorId ? 'was not resolved' : 'had no mediator'} by its deadline.`
+            );
+        }
+
+        return escalated;
+    }
+
+    /**
+     * Summarize the jobs and resolved disputes of a user
+     *
+     * Disputes resolved with a refund count as won by the applicant and lost by
+     * the curator, released ones the other way around. Partial refunds and
+     * cancellations are settled without a winner.
+     *
+     * @param userId
+     * @returns
+     */
+    static async reputation(userId: string): Promise<DisputeReputation> {
+        const participant: Prisma.JobWhereInput = { OR: [{ applicantId: userId }, { listing: { curatorId: userId } }] };
+
+        const [completedJobs, open, resolved] = await Promise.all([
+            prisma.job.count({ where: { ...participant, status: JobStatus.COMPLETED } }),
+            prisma.jobDispute.count({ where: { status: { in: ACTIVE }, job: participant } }),
+            prisma.jobDispute.findMany({
+                where: { status: DisputeStatus.RESOLVED, job: participant },
+                select: { resolution: true, job: { select: { applicantId: true } } },
+            }),
+        ]);
+
+        const reputation: DisputeReputation = { completedJobs, disputes: { open, won: 0, lost: 0, settled: 0 } };
+
+        for (const { resolution, job } of resolved) {
+            const favoursApplicant = resolution === DisputeResolution.REFUND;
+
+            if (resolution !== DisputeResolution.REFUND && resolution !== DisputeResolution.RELEASE) {
+                reputation.disputes.settled++;
+            } else if (favoursApplicant === (job.applicantId === userId)) {
+                reputation.disputes.won++;
+            } else {
+                reputation.disputes.lost++;
+            }
+        }
+
+        return reputation;
+    }
+
+    /**
+     * Close a dispute and move the job to its new status, unless the dispute was settled in the meantime
+     */
+    private static async settle(
+        dispute: JobDispute,
+        job: DisputeJob,
+        status: JobStatus,
+        data: Prisma.JobDisputeUpdateManyMutationInput,
+        event: { action: JobEventAction, performedBy: string, notes?: string | null, metadata?: Prisma.InputJsonObject }
+    ) {
+        await prisma.$transaction(async (tx) => {
+            const { count } = await tx.jobDispute.updateMany({
+                where: { id: dispute.id, status: { in: ACTIVE } },
+                data,
+            });
+
+            RequestError.abortIf(count === 0, 'This dispute has already been settled.', 409);
+
+            await tx.job.update({ where: { id: job.id }, data: { status } });
+
+            await JobEventService.record(tx, {
+                applicationId: job.applicationId,
+                jobId: job.id,
+                subject: 'JOB',
+                action: event.action,
+                fromStatus: JobStatus.DISPUTED,
+                toStatus: status,
+                performedBy: event.performedBy,
+                notes: event.notes,
+                metadata: { disputeId: dispute.id, ...event.metadata },
+            });
+        });
+
+        await EventStreamService.publish([job.applicantId, job.listing.curatorId], 'job.status_changed', {
+            jobId: job.id,
+            fromStatus: JobStatus.DISPUTED,
+            toStatus: status,
+            performedBy: event.performedBy,
+        });
+    }
+
+    /**
+     * Add a dispute step that does not change the status of the job to its history
+     */
+    private static record(
+        tx: Prisma.TransactionClient,
+        job: Job,
+        dispute: JobDispute,
+        action: JobEventAction,
+        performedBy: string | null,
+        metadata: Prisma.InputJsonObject = {}
+    ) {
+        return JobEventService.record(tx, {
+            applicationId: job.applicationId,
+            jobId: job.id,
+            subject: 'JOB',
+            action,
+            performedBy,
+            metadata: { disputeId: dispute.id, ...metadata },
+        });
+    }
+
+    /**
+     * The admin mediating the fewest unresolved disputes
+     */
+    private static async leastBusyMediator(): Promise<string | null> {
+        const admins = await prisma.user.findMany({
+            where: { role: UserRole.ADMIN },
+            select: { id: true },
+        });
+
+        if (admins.length === 0) {
+            return null;
+        }
+
+        const load = await prisma.jobDispute.groupBy({
+            by: ['mediatorId'],
+            where: { status: { in: ACTIVE }, mediatorId: { in: admins.map(admin => admin.id) } },
+            _count: { _all: true },
+        });
+
+        const count = (id: string) => load.find(row => row.mediatorId === id)?._count._all ?? 0;
+
+        return admins.reduce((best, admin) => count(admin.id) < count(best.id) ? admin : best).id;
+    }
+
+    private static async notifyMediator(dispute: JobDispute, type: UserNotificationType, subject: string, text = '') {
+        if (!dispute.mediatorId) {
+            return;
+        }
+
+        const job = await prisma.job.findUnique({ where: { id: dispute.jobId } });
+
+        if (job) {
+            await this.notify(
+                dispute.mediatorId,
+                type,
+                job,
+                subject,
+                `${text} Please review the evidence and resolve the dispute by ${dispute.resolveBy.toDateString()}.`.trim()
+            );
+        }
+    }
+
+    private static notify(userId: string, type: UserNotificationType, job: Job, title: string, message: string) {
+        return notify(userId, type, {
+            title,
+            message,
+            path: `/jobs/${job.id}`,
+            linkTitle: 'View Job',
+            data: { jobId: job.id },
+        });
+    }
+}
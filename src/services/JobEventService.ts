@@ -0,0 +1,173 @@
+import { JobEvent, JobEventSubject, Prisma } from '@prisma/client';
+
+import { createHash } from 'crypto';
+import { prisma } from '../db';
+
+export type JobEventAction =
+    | 'CREATED'
+    | 'STATUS_CHANGED'
+    | 'TERMS_SET'
+    | 'MILESTONE_SUBMITTED'
+    | 'MILESTONE_APPROVED'
+    | 'MILESTONE_CHANGES_REQUESTED'
+    | 'MILESTONE_PAID'
+    | 'DISPUTE_OPENED'
+    | 'DISPUTE_EVIDENCE_ADDED'
+    | 'DISPUTE_ASSIGNED'
+    | 'DISPUTE_ESCALATED'
+    | 'DISPUTE_WITHDRAWN'
+    | 'DISPUTE_RESOLVED';
+
+export interface JobEventInput {
+    applicationId: string;
+    jobId?: string | null;
+    subject: JobEventSubject;
+    action: JobEventAction;
+    fromStatus?: string | null;
+    toStatus?: string | null;
+    /** User who performed the action, omitted for automatic ones */
+    performedBy?: string | null;
+    notes?: string | null;
+    metadata?: Prisma.InputJsonValue;
+}
+
+export interface JobTimelineIntegrity {
+    verified: boolean;
+    /** First event whose hash does not match its content or its predecessor */
+    brokenAt: string | null;
+}
+
+/**
+ * Serialize a value with its object keys sorted, so the hash of an event does
+ * not depend on how the database orders the keys of its metadata
+ */
+const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonical).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+};
+
+const hash = (event: Omit<JobEvent, 'id' | 'hash'>) => createHash('sha256')
+    .update(canonical([
+        event.previousHash,
+        event.applicationId,
+        event.jobId,
+        event.subject,
+        event.action,
+        event.fromStatus,
+        event.toStatus,
+        event.performedBy,
+        event.notes,
+        event.metadata,
+        event.createdAt.toISOString(),
+    ]))
+    .digest('hex');
+
+/**
+ * JobEventService
+ *
+ * Keeps the history of an application and the job it turned into: who changed
+ * what, from which status to which, and when. Events are written in the same
+ * transaction as the change they describe and can not be updated. Each event
+ * carries the hash of the previous one of its application, so removing or
+ * altering an event breaks the chain and shows in the timeline's integrity.
+ */
+export class JobEventService {
+    /**
+     * Append an event to the history of an application
+     *
+     * @param tx The transaction the change is made in
+     * @param input
+     * @returns
+     */
+    static async record(tx: Prisma.TransactionClient, input: JobEventInput) {
+        // Serialize writers of the same application so the chain never forks
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${input.applicationId}))`;
+
+        const previous = await tx.jobEvent.findFirst({
+            where: { applicationId: input.applicationId },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            select: { hash: true, createdAt: true },
+        });
+
+        // Keep the order of the chain even if the clock moved backwards
+        const now = new Date();
+        const createdAt = previous && previous.createdAt >= now
+            ? new Date(previous.createdAt.getTime() + 1)
+            : now;
+
+        const event = {
+            applicationId: input.applicationId,
+            jobId: input.jobId ?? null,
+            subject: input.subject,
+            action: input.action,
+            fromStatus: input.fromStatus ?? null,
+            toStatus: input.toStatus ?? null,
+            performedBy: input.performedBy ?? null,
+            notes: input.notes ?? null,
+            metadata: (input.metadata ?? null) as Prisma.JsonValue,
+            previousHash: previous?.hash ?? null,
+            createdAt,
+        };
+
+        return tx.jobEvent.create({
+            data: {
+                ...event,
+                metadata: input.metadata,
+                hash: hash(event),
+            },
+        });
+    }
+
+    /**
+     * Append an event in a transaction of its own
+     *
+     * @param input
+     * @returns
+     */
+    static append(input: JobEventInput) {
+        return prisma.$transaction(tx => this.record(tx, input));
+    }
+
+    /**
+     * Get the history of an application and its job, oldest first
+     *
+     * @param applicationId
+     * @returns
+     */
+    static timeline(applicationId: string) {
+        return prisma.jobEvent.findMany({
+            where: { applicationId },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        });
+    }
+
+    /**
+     * Check that every event of a history is intact and chained to its predecessor
+     *
+     * @param events The history, oldest first
+     * @returns
+     */
+    static verify(events: JobEvent[]): JobTimelineIntegrity {
+        let previousHash: string | null = null;
+
+        for (const event of events) {
+            if (event.previousHash !== previousHash || event.hash !== hash(event)) {
+                return { verified: false, brokenAt: event.id };
+            }
+
+            previousHash = event.hash;
+        }
+
+        return { verified: true, brokenAt: null };
+    }
+}
@@ -0,0 +1,440 @@
+import { Job, JobMilestone, JobStatus, MilestonePayment, MilestoneStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { TIP_CURRENCIES, TipCurrency } from './chain/ChainVerifier';
+
+import { ChainTransaction } from './chain/ChainVerifier';
+import { JobEventAction, JobEventService } from './JobEventService';
+import { RequestError } from '../utils/errors';
+import { TipVerificationService } from './TipVerificationService';
+import { isPast } from 'date-fns';
+import { prisma } from '../db';
+
+export interface MilestoneInput {
+    title: string;
+    description?: string | null;
+    amount: number;
+    dueDate?: Date | null;
+}
+
+export interface JobTermsInput {
+    scope?: string | null;
+    currency?: string;
+    startDate?: Date | null;
+    dueDate?: Date | null;
+    milestones: MilestoneInput[];
+}
+
+export interface MilestonePaymentRunSummary {
+    checked: number;
+    completed: number;
+    failed: number;
+    expired: number;
+    errors: Array<{ paymentId: string; message: string }>;
+}
+
+type ParticipantJob = Job & { listing: { curatorId: string } };
+
+/**
+ * JobMilestoneService
+ *
+ * Handles the agreed terms of a job and its milestones:
+ * - The curator sets the scope, schedule and ordered milestones while the job
+ *   is ACTIVE, the price of the job is the sum of the milestone amounts
+ * - Once the job is IN_PROGRESS the curator submits milestones in order and
+ *   the applicant approves them or asks for changes
+ * - The applicant pays each approved milestone on chain, the payment is
+ *   verified like tips and the milestone becomes PAID
+ *
+ * A job can only be completed once every milestone is approved.
+ */
+export class JobMilestoneService {
+    /**
+     * Replace the terms and milestones of a job
+     *
+     * @param job
+     * @param terms
+     * @param performedBy
+     * @returns The job with its milestones
+     * @throws {RequestError} 422 when the job already started or the schedule is inconsistent
+     */
+    static async setTerms(job: Job, terms: JobTermsInput, performedBy: string) {
+        RequestError.abortIf(job.status !== JobStatus.ACTIVE, 'Terms can only be changed before the job starts.', 422);
+
+        const currency = terms.currency ?? job.currency;
+
+        RequestError.abortIf(!TIP_CURRENCIES.includes(currency as TipCurrency), `Unsupported currency: ${currency}`, 422);
+        RequestError.abortIf(
+            !!terms.startDate && !!terms.dueDate && terms.startDate > terms.dueDate,
+            'The job can not be due before it starts.',
+            422
+        );
+        RequestError.abortIf(
+            !!terms.dueDate && terms.milestones.some(milestone => milestone.dueDate && milestone.dueDate > terms.dueDate!),
+            'Milestones can not be due after the job.',
+            422
+        );
+
+        const price = Math.round(terms.milestones.reduce((sum, milestone) => sum + milestone.amount, 0) * 1e8) / 1e8;
+
+        return prisma.$transaction(async (tx) => {
+            await tx.jobMilestone.deleteMany({ where: { jobId: job.id } });
+
+            await tx.jobMilestone.createMany({
+                data: terms.milestones.map((milestone, index) => ({
+                    jobId: job.id,
+                    position: index + 1,
+                    title: milestone.title,
+                    description: milestone.description ?? null,
+                    amount: milestone.amount,
+                    dueDate: milestone.dueDate ?? null,
+                })),
+            });
+
+            await JobEventService.record(tx, {
+                applicationId: job.applicationId,
+                jobId: job.id,
+                subject: 'JOB',
+                action: 'TERMS_SET',
+                performedBy,
+                metadata: {
+                    price,
+                    currency,
+                    milestones: terms.milestones.map(milestone => ({ title: milestone.title, amount: milestone.amount })),
+                },
+            });
+
+            return tx.job.update({
+                where: { id: job.id },
+                data: {
+                    scope: terms.scope,
+                    currency,
+                    startDate: terms.startDate,
+                    dueDate: terms.dueDate,
+                    price,
+                },
+                include: { milestones: { orderBy: { position: 'asc' }, include: { payment: true } } },
+            });
+        });
+    }
+
+    /**
+     * Get the milestones of a job in order
+     *
+     * @param jobId
+     * @returns
+     */
+    static list(jobId: string) {
+        return prisma.jobMilestone.findMany({
+            where: { jobId },
+            orderBy: { position: 'asc' },
+            include: { payment: true },
+        });
+    }
+
+    /**
+     * Submit a milestone for the applicant's approval, once the milestones
+     * before it are approved
+     *
+     * @param job
+     * @param milestoneId
+     * @param performedBy
+     * @param note
+     * @returns
+     */
+    static async submit(job: Job, milestoneId: string, performedBy: string, note?: string | null) {
+        RequestError.abortIf(job.status !== JobStatus.IN_PROGRESS, 'Milestones can only be submitted while the job is in progress.', 422);
+
+        const milestone = await this.find(job, milestoneId);
+
+        // Milestones are delivered in order
+        const unfinished = await prisma.jobMilestone.count({
+            where: {
+                jobId: job.id,
+                position: { lt: milestone.position },
+                status: { notIn: [MilestoneStatus.APPROVED, MilestoneStatus.PAID] },
+            },
+        });
+
+        RequestError.abortIf(unfinished > 0, 'Milestones can only be submitted once the earlier ones are approved.', 422);
+
+        return this.transition(job, milestoneId, MilestoneStatus.PENDING, {
+            status: MilestoneStatus.SUBMITTED,
+            submissionNote: note ?? null,
+            submittedAt: new Date(),
+        }, { action: 'MILESTONE_SUBMITTED', performedBy, notes: note });
+    }
+
+    /**
+     * Approve a submitted milestone
+     *
+     * @param job
+     * @param milestoneId
+     * @param performedBy
+     * @returns
+     */
+    static async approve(job: Job, milestoneId: string, performedBy: string) {
+        return this.transition(job, milestoneId, MilestoneStatus.SUBMITTED, {
+            status: MilestoneStatus.APPROVED,
+            approvedAt: new Date(),
+        }, { action: 'MILESTONE_APPROVED', performedBy });
+    }
+
+    /**
+     * Send a submitted milestone back to the curator
+     *
+     * @param job
+     * @param milestoneId
+     * @param performedBy
+     * @param note What needs to change
+     * @returns
+     */
+    static async requestChanges(job: Job, milestoneId: string, performedBy: string, note: string) {
+        return this.transition(job, milestoneId, MilestoneStatus.SUBMITTED, {
+            status: MilestoneStatus.PENDING,
+            submissionNote: note,
+        }, { action: 'MILESTONE_CHANGES_REQUESTED', performedBy, notes: note });
+    }
+
+    /**
+     * Record the transaction paying an approved milestone and verify it
+     *
+     * @param job
+     * @param milestoneId
+     * @param txHash
+     * @returns The payment, as verified so far
+     * @throws {RequestError} 422 when the milestone is not approved or already paid
+     */
+    static async pay(job: ParticipantJob, milestoneId: string, txHash: string) {
+        const milestone = await this.find(job, milestoneId);
+
+        RequestError.abortIf(milestone.status !== MilestoneStatus.APPROVED, 'Only approved milestones can be paid.', 422);
+        RequestError.abortIf(
+            milestone.payment?.status === PaymentStatus.PENDING && !!milestone.payment.txHash,
+            'A payment for this milestone is already being verified.',
+            422
+        );
+
+        const transaction = await TipVerificationService.prepare(job.applicantId, job.listing.curatorId, job.currency, txHash, {
+            paymentId: milestone.payment?.id,
+        });
+
+        // A failed or expired payment is replaced by the new attempt
+        const data = {
+            payerId: job.applicantId,
+            payeeId: job.listing.curatorId,
+            amount: milestone.amount,
+            currency: job.currency,
+            status: PaymentStatus.PENDING,
+            confirmations: 0,
+            verificationError: null,
+            verifiedAt: null,
+            expiresAt: TipVerificationService.expiresAt(),
+            ...transaction,
+        };
+
+        const payment = await prisma.milestonePayment.upsert({
+            where: { milestoneId },
+            create: { milestoneId, ...data },
+            update: data,
+        }).catch(TipVerificationService.claimed);
+
+        return this.verify(payment);
+    }
+
+    /**
+     * Check a pending payment against its transaction and mark the milestone PAID once it is verified
+     *
+     * @param payment
+     * @returns The updated payment
+     */
+    static async verify(payment: MilestonePayment): Promise<MilestonePayment> {
+        if (payment.status !== PaymentStatus.PENDING) {
+            return payment;
+        }
+
+        if (payment.expiresAt && isPast(payment.expiresAt)) {
+            return this.settle(payment, {
+                status: PaymentStatus.EXPIRED,
+                verificationError: 'No verified transaction was received in time.',
+            });
+        }
+
+        if (!payment.txHash || !payment.recipientAddress) {
+            return payment;
+        }
+
+        let transaction: ChainTransaction | null;
+
+        try {
+            transaction = await TipVerificationService.verifier(payment.currency).lookup(payment.txHash);
+        } catch (error) {
+            return this.settle(payment, {
+                verificationError: `The transaction could not be looked up: ${error instanceof Error ? error.message : String(error)}`,
+            });
+        }
+
+        const { status, ...result } = TipVerificationService.check(payment, transaction);
+
+        return this.settle(payment, {
+            ...result,
+            status: status ? PaymentStatus[status as 'COMPLETED' | 'FAILED'] : undefined,
+        });
+    }
+
+    /**
+     * Re-check pending payments and expire stale ones
+     *
+     * @param batchSize Maximum number of payments checked per run
+     */
+    static async sweep(batchSize = 100): Promise<MilestonePaymentRunSummary> {
+        const summary: MilestonePaymentRunSummary = { checked: 0, completed: 0, failed: 0, expired: 0, errors: [] };
+
+        const due = await prisma.milestonePayment.findMany({
+            where: {
+                status: PaymentStatus.PENDING,
+                OR: [
+                    { txHash: { not: null } },
+                    { expiresAt: { lte: new Date() } },
+                ],
+            },
+            orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }],
+            take: batchSize,
+        });
+
+        for (const payment of due) {
+            try {
+                const result = await this.verify(payment);
+
+                summary.checked++;
+
+                if (result.status === PaymentStatus.COMPLETED) summary.completed++;
+                if (result.status === PaymentStatus.FAILED) summary.failed++;
+                if (result.status === PaymentStatus.EXPIRED) summary.expired++;
+            } catch (error) {
+                summary.errors.push({
+                    paymentId: payment.id,
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Ensure every milestone of a job is approved before it is completed
+     *
+     * @param jobId
+     * @throws {RequestError} 422 when some are not
+     */
+    static async assertCanComplete(jobId: string) {
+        const open = await prisma.jobMilestone.count({
+            where: { jobId, status: { notIn: [MilestoneStatus.APPROVED, MilestoneStatus.PAID] } },
+        });
+
+        RequestError.abortIf(open > 0, 'All milestones must be approved before the job can be completed.', 422);
+    }
+
+    /**
+     * Find a milestone of a job
+     */
+    private static async find(job: Job, milestoneId: string) {
+        const milestone = await prisma.jobMilestone.findFirst({
+            where: { id: milestoneId, jobId: job.id },
+            include: { payment: true },
+        });
+
+        RequestError.assertFound(milestone, 'Milestone not found', 404);
+
+        return milestone;
+    }
+
+    /**
+     * Move a milestone from one status to the next
+     *
+     * @throws {RequestError} 422 when the milestone is not in the expected status
+     */
+    private static async transition(
+        job: Job,
+        milestoneId: string,
+        from: MilestoneStatus,
+        data: Prisma.JobMilestoneUpdateManyMutationInput,
+        event: { action: JobEventAction, performedBy: string, notes?: string | null }
+    ): Promise<JobMilestone> {
+        const milestone = await this.find(job, milestoneId);
+
+        RequestError.abortIf(milestone.status !== from, `Only ${from.toLowerCase()} milestones can be updated this way.`, 422);
+
+        return prisma.$transaction(async (tx) => {
+            // Guard against the milestone being updated concurrently
+            const { count } = await tx.jobMilestone.updateMany({
+                where: { id: milestone.id, status: from },
+                data,
+            });
+
+            RequestError.abortIf(count === 0, 'The milestone has already been updated.', 409);
+
+            const updated = await tx.jobMilestone.findUniqueOrThrow({ where: { id: milestone.id }, include: { payment: true } });
+
+            await JobEventService.record(tx, {
+                applicationId: job.applicationId,
+                jobId: job.id,
+                subject: 'JOB',
+                action: event.action,
+                performedBy: event.performedBy,
+                notes: event.notes,
+                metadata: { milestoneId: milestone.id, position: milestone.position, from, to: updated.status },
+            });
+
+            return updated;
+        });
+    }
+
+    /**
+     * Store the outcome of a check, unless the payment left PENDING in the meantime
+     */
+    private static async settle(payment: MilestonePayment, data: Prisma.MilestonePaymentUpdateManyMutationInput) {
+        const { count } = await prisma.milestonePayment.updateMany({
+            where: { id: payment.id, status: PaymentStatus.PENDING },
+            data: {
+                ...data,
+                lastCheckedAt: new Date(),
+                verificationAttempts: { increment: 1 },
+            },
+        });
+
+        const settled = await prisma.milestonePayment.findUniqueOrThrow({ where: { id: payment.id } });
+
+        if (count > 0 && settled.status === PaymentStatus.COMPLETED) {
+            await prisma.$transaction(async (tx) => {
+                const { count: paid } = await tx.jobMilestone.updateMany({
+                    where: { id: settled.milestoneId, status: MilestoneStatus.APPROVED },
+                    data: { status: MilestoneStatus.PAID, paidAt: settled.verifiedAt ?? new Date() },
+                });
+
+                if (paid === 0) return;
+
+                const milestone = await tx.jobMilestone.findUniqueOrThrow({
+                    where: { id: settled.milestoneId },
+                    include: { job: true },
+                });
+
+                await JobEventService.record(tx, {
+                    applicationId: milestone.job.applicationId,
+                    jobId: milestone.jobId,
+                    subject: 'JOB',
+                    action: 'MILESTONE_PAID',
+                    metadata: {
+                        milestoneId: milestone.id,
+                        position: milestone.position,
+                        paymentId: settled.id,
+                        txHash: settled.txHash,
+                        amount: settled.amount,
+                        currency: settled.currency,
+                    },
+                });
+            });
+        }
+
+        return settled;
+    }
+}
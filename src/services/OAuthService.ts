@@ -0,0 +1,412 @@
+import { AccountLinkProvider, AuditAction, User } from '@prisma/client';
+import { addMinutes, isPast } from 'date-fns';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+import { RequestError } from '../utils/errors';
+import { SessionService } from './SessionService';
+import argon2 from 'argon2';
+import { config } from '../config';
+import { env, secureOtp } from '../utils/helpers';
+import jwt from 'jsonwebtoken';
+import { logAuditEvent } from '../utils/auditLogger';
+import { prisma } from '../db';
+
+/**
+ * Purpose claim carried by link tokens so they can never be used as access tokens
+ */
+const LINK_PURPOSE = 'oauth_link';
+
+/**
+ * Provider profile normalized by the passport strategies
+ */
+export interface OAuthProfile {
+    provider: AccountLinkProvider;
+    id: string;
+    email?: string | undefined;
+    emailVerified: boolean;
+    firstName: string;
+    lastName: string;
+    displayName?: string | undefined;
+    avatar?: string | undefined;
+}
+
+export interface OAuthLinkPayload {
+    sub: string;
+    provider: AccountLinkProvider;
+    purpose: typeof LINK_PURPOSE;
+}
+
+/**
+ * Hash an exchange code for storage and lookup
+ */
+const hashCode = (code: string) => createHash('sha256').update(code).digest('hex');
+
+/**
+ * OAuthService
+ *
+ * Resolves the account behind a social login through its AccountLink, links
+ * provider accounts to signed in users and hands the resulting session to the
+ * frontend through a short-lived, one-time exchange code.
+ */
+export class OAuthService {
+    static readonly EXCHANGE_CODE_TTL_MINUTES = 5;
+    static readonly LINK_TOKEN_TTL_MINUTES = 10;
+    static readonly STATE_TTL_MINUTES = 10;
+    static readonly STATE_COOKIE = 'oauth_state';
+
+    /**
+     * Passport strategy names and the providers they sign in with
+     */
+    static readonly providers: Record<string, AccountLinkProvider> = {
+        google: AccountLinkProvider.GOOGLE,
+        facebook: AccountLinkProvider.FACEBOOK,
+    };
+
+    /**
+     * Resolve the provider of a strategy name
+     *
+     * @param type
+     * @throws {RequestError} 404 when the provider is not supported
+     */
+    static provider(type: string): AccountLinkProvider {
+        const provider = this.providers[type];
+
+        RequestError.assertFound(provider, 'This login provider is not supported.', 404);
+
+        return provider;
+    }
+
+    /**
+     * Build the frontend URL the callbacks redirect to
+     *
+     * @param params
+     * @returns
+     */
+    static frontendUrl(params: Record<string, string>): string {
+        const url = new URL('/auth/callback', String(config('app.front_url') ?? 'http://localhost'));
+
+        for (const [key, value] of Object.entries(params)) {
+            url.searchParams.set(key, value);
+        }
+
+        return url.toString();
+    }
+
+    /**
+     * Find the user behind a provider profile, or create one.
+     *
+     * Users are matched on their AccountLink first, then on the legacy
+     * googleId / facebookId columns and finally on a verified email address.
+     *
+     * @param profile
+     * @returns The user and whether it was just created
+     * @throws {RequestError} 409 when the email belongs to an account that can not be claimed
+     */
+    static async resolveUser(profile: OAuthProfile) {
+        const link = await prisma.accountLink.findFirst({
+            where: { provider: profile.provider, providerUserId: profile.id, unlinkedAt: null },
+            include: { user: true },
+        });
+
+        if (link) {
+            await this.upsertLink(link.userId, profile);
+
+            return { user: link.user, created: false };
+        }
+
+        const legacy = await this.findLegacyUser(profile);
+
+        if (legacy) {
+            await this.upsertLink(legacy.id, profile);
+
+            return { user: legacy, created: false };
+        }
+
+        const existing = profile.email
+            ? await prisma.user.findFirst({ where: { email: { equals: profile.email, mode: 'insensitive' } } })
+            : null;
+
+        if (existing) {
+            // Only trust the match when both sides have proven they own the mailbox
+            RequestError.abortIf(
+                !profile.emailVerified || !existing.emailVerifiedAt,
+                'An account with this email already exists, sign in and link your account from your settings.',
+                409
+            );
+
+            await this.upsertLink(existing.id, profile);
+
+            return { user: existing, created: false };
+        }
+
+        const user = await prisma.user.create({
+            data: {
+                firstName: profile.firstName,
+                lastName: profile.lastName,
+                // Accounts without a provider email get a placeholder until the user adds one
+                email: profile.email ?? `${profile.id}@${profile.provider.toLowerCase()}.invalid`,
+                emailVerifiedAt: profile.email && profile.emailVerified ? new Date() : null,
+                password: await argon2.hash(secureOtp(32)),
+                avatar: profile.avatar,
+            },
+        });
+
+        await this.upsertLink(user.id, profile);
+
+        return { user, created: true };
+    }
+
+    /**
+     * Link a provider account to a signed in user
+     *
+     * @param userId
+     * @param profile
+     * @returns The account link
+     * @throws {RequestError} 409 when the provider account belongs to another user
+     */
+    static async link(userId: string, profile: OAuthProfile) {
+        const owner = await prisma.accountLink.findFirst({
+            where: { provider: profile.provider, providerUserId: profile.id, unlinkedAt: null },
+        });
+
+        RequestError.abortIf(
+            !!owner && owner.userId !== userId,
+            `This ${profile.provider.toLowerCase().titleCase()} account is already linked to another user.`,
+            409
+        );
+
+        return this.upsertLink(userId, profile);
+    }
+
+    /**
+     * Create or refresh the AccountLink of a user for a provider profile. A
+     * link the user removed may be replaced by another provider account,
+     * which is audited.
+     *
+     * @param userId
+     * @param profile
+     * @returns
+     * @throws {RequestError} 409 when the user already has another account of the provider linked
+     */
+    static async upsertLink(userId: string, profile: OAuthProfile) {
+        const current = await prisma.accountLink.findUnique({
+            where: { userId_provider: { userId, provider: profile.provider } },
+        });
+        const replaced = current && current.providerUserId !== profile.id ? current : null;
+
+        RequestError.abortIf(
+            !!replaced && !replaced.unlinkedAt,
+            `Another ${profile.provider.toLowerCase().titleCase()} account is already linked, unlink it first.`,
+            409
+        );
+
+        const data = {
+            providerUserId: profile.id,
+            providerEmail: profile.email ?? null,
+            providerName: profile.displayName ?? `${profile.firstName} ${profile.lastName}`.trim(),
+            isVerified: true,
+            unlinkedAt: null,
+        };
+
+        const link = await prisma.accountLink.upsert({
+            where: { userId_provider: { userId, provider: profile.provider } },
+            create: { userId, provider: profile.provider, ...data },
+            update: data,
+        });
+
+        if (replaced) {
+            await logAuditEvent(userId, AuditAction.ACCOUNT_LINK, {
+                entityType: 'AccountLink',
+                entityId: link.id,
+                oldValues: { providerUserId: replaced.providerUserId, providerEmail: replaced.providerEmail },
+                newValues: { providerUserId: profile.id, providerEmail: profile.email ?? null },
+                metadata: { provider: profile.provider, replaced: true },
+            });
+        }
+
+        return link;
+    }
+
+    /**
+     * Users created by the previous OAuth flow only carry the provider id on
+     * their own row, they are matched as long as they never had an AccountLink.
+     *
+     * @param profile
+     * @returns
+     */
+    static async findLegacyUser(profile: OAuthProfile): Promise<User | null> {
+        const column = ({
+            [AccountLinkProvider.GOOGLE]: 'googleId',
+            [AccountLinkProvider.FACEBOOK]: 'facebookId',
+        } as Partial<Record<AccountLinkProvider, 'googleId' | 'facebookId'>>)[profile.provider];
+
+        if (!column) {
+            return null;
+        }
+
+        return prisma.user.findFirst({
+            where: {
+                [column]: profile.id,
+                linkedAccounts: { none: { provider: profile.provider } },
+            },
+        });
+    }
+
+    /**
+     * Create the OAuth state of a provider flow: a random nonce, also kept in
+     * a cookie of the browser starting the flow, followed by the link token
+     * in link mode.
+     *
+     * @param linkToken
+     * @returns The nonce and the state parameter
+     */
+    static createState(linkToken?: string) {
+        const nonce = randomBytes(24).toString('base64url');
+
+        return { nonce, state: linkToken ? `${nonce}.${linkToken}` : nonce };
+    }
+
+    /**
+     * Split the state parameter returned by the provider
+     *
+     * @param state
+     * @returns
+     */
+    static parseState(state: unknown): { nonce: string; linkToken: string | null } {
+        const [nonce = '', ...linkToken] = typeof state === 'string' ? state.split('.') : [];
+
+        return { nonce, linkToken: linkToken.join('.') || null };
+    }
+
+    /**
+     * Check that the provider callback belongs to the browser that started the flow
+     *
+     * @param state The state parameter returned by the provider
+     * @param nonce The nonce cookie of the browser
+     * @throws {RequestError} 401 when the state does not carry the nonce of the cookie
+     */
+    static verifyState(state: unknown, nonce: string | undefined): void {
+        const expected = Buffer.from(nonce ?? '');
+        const actual = Buffer.from(this.parseState(state).nonce);
+
+        RequestError.abortIf(
+            !nonce || expected.length !== actual.length || !timingSafeEqual(expected, actual),
+            'The login request is invalid or has expired.',
+            401
+        );
+    }
+
+    /**
+     * Sign a short-lived token that starts the provider flow in link mode,
+     * it travels through the provider inside the OAuth state parameter.
+     *
+     * @param userId
+     * @param provider
+     * @returns
+     */
+    static createLinkToken(userId: string, provider: AccountLinkProvider): string {
+        const payload: OAuthLinkPayload = { sub: userId, provider, purpose: LINK_PURPOSE };
+
+        return jwt.sign(payload, env('JWT_SECRET', ''), { expiresIn: this.LINK_TOKEN_TTL_MINUTES * 60 });
+    }
+
+    /**
+     * Resolve the user id of a link token, null when the flow is a plain login
+     *
+     * @param token
+     * @param provider
+     * @throws {RequestError} 401 when a link token was sent but is invalid or expired
+     */
+    static verifyLinkToken(token: unknown, provider: AccountLinkProvider): string | null {
+        if (!token || typeof token !== 'string') {
+            return null;
+        }
+
+        try {
+            const payload = jwt.verify(token, env('JWT_SECRET', '')) as Partial<OAuthLinkPayload>;
+
+            if (payload.purpose === LINK_PURPOSE && payload.provider === provider && payload.sub) {
+                return payload.sub;
+            }
+        } catch { }
+
+        throw new RequestError('The account link request is invalid or has expired.', 401);
+    }
+
+    /**
+     * Store a one-time code the frontend exchanges for the session tokens
+     *
+     * @param userId
+     * @param provider
+     * @param sessionId Null while the user still has to pass a two-factor challenge
+     * @returns The plain code
+     */
+    static async createExchangeCode(userId: string, provider: AccountLinkProvider, sessionId?: string | null) {
+        const code = randomBytes(32).toString('base64url');
+        const now = new Date();
+
+        // Drop stale codes while we are here
+        await prisma.oAuthExchangeCode.deleteMany({ where: { expiresAt: { lt: now } } });
+
+        await prisma.oAuthExchangeCode.create({
+            data: {
+                codeHash: hashCode(code),
+                userId,
+                sessionId: sessionId ?? null,
+                provider,
+                expiresAt: addMinutes(now, this.EXCHANGE_CODE_TTL_MINUTES),
+            },
+        });
+
+        return code;
+    }
+
+    /**
+     * Redeem an exchange code.
+     *
+     * The session's access token is renewed and its first refresh token is
+     * created here, so neither ever appears in a redirect URL.
+     *
+     * @param code
+     * @throws {RequestError} 401 when the code is invalid, expired or already used
+     */
+    static async exchange(code: string) {
+        const record = await prisma.oAuthExchangeCode.findUnique({
+            where: { codeHash: hashCode(String(code)) },
+            include: { user: true, session: true },
+        });
+
+        RequestError.assertFound(record, 'The login code is invalid.', 401);
+        RequestError.abortIf(isPast(record.expiresAt), 'The login code has expired, please sign in again.', 401);
+
+        // Claim the code atomically so it can only be redeemed once
+        const { count } = await prisma.oAuthExchangeCode.updateMany({
+            where: { id: record.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        RequestError.abortIf(count === 0, 'The login code has already been used.', 401);
+
+        if (!record.session) {
+            return { user: record.user, provider: record.provider, session: null };
+        }
+
+        const { token, expiresAt } = SessionService.accessToken(record.user);
+
+        const session = await prisma.personalAccessToken.update({
+            where: { id: record.session.id },
+            data: { token, lastUsedAt: new Date() },
+        });
+
+        const refreshToken = await SessionService.createRefreshToken(session, randomUUID());
+
+        return {
+            user: record.user,
+            provider: record.provider,
+            session,
+            token,
+            refreshToken,
+            accessTokenExpiresAt: expiresAt,
+        };
+    }
+}
@@ -0,0 +1,151 @@
+import { COMMON_PASSWORDS } from '../utils/commonPasswords';
+import { User } from '@prisma/client';
+import { ValidationError } from '../utils/errors';
+import argon2 from 'argon2';
+import { config } from '../config';
+import { prisma } from '../db';
+
+/**
+ * PasswordPolicyService
+ *
+ * Enforces the configured password policy (length, character classes and
+ * the bundled list of common / breached passwords) and keeps a history of
+ * password hashes so recent passwords can not be reused.
+ */
+export class PasswordPolicyService {
+    /**
+     * List the policy rules a password breaks
+     *
+     * @param password
+     * @returns Human readable violations, empty when the password is acceptable
+     */
+    static violations(password: string): string[] {
+        const minLength = Number(config('auth.password_min_length'));
+        const maxLength = Number(config('auth.password_max_length'));
+        const violations: string[] = [];
+
+        if (password.length < minLength) {
+            violations.push(`The password must be at least ${minLength} characters.`);
+        }
+        if (password.length > maxLength) {
+            violations.push(`The password may not be greater than ${maxLength} characters.`);
+        }
+        if (config('auth.password_require_mixed_case') && !(/\p{Lu}/u.test(password) && /\p{Ll}/u.test(password))) {
+            violations.push('The password must contain at least one uppercase and one lowercase letter.');
+        }
+        if (config('auth.password_require_numbers') && !/\p{N}/u.test(password)) {
+            violations.push('The password must contain at least one number.');
+        }
+        if (config('auth.password_require_symbols') && !/[^\p{L}\p{N}\s]/u.test(password)) {
+            violations.push('The password must contain at least one symbol.');
+        }
+        if (config('auth.password_check_breached') && this.isCommon(password)) {
+            violations.push('This password is too common and has appeared in data breaches, please choose another one.');
+        }
+
+        return violations;
+    }
+
+    /**
+     * Check a password against the bundled list of common and breached passwords
+     *
+     * @param password
+     * @returns
+     */
+    static isCommon(password: string): boolean {
+        return COMMON_PASSWORDS.has(password.toLowerCase());
+    }
+
+    /**
+     * Ensure a password satisfies the policy
+     *
+     * @param password
+     * @throws {ValidationError} listing every broken rule under the password field
+     */
+    static assertValid(password: string) {
+        const violations = this.violations(String(password ?? ''));
+
+        if (violations.length) {
+            ValidationError.withMessages({ password: violations });
+        }
+    }
+
+    /**
+     * Ensure a password is not the current one nor one of the recent ones
+     *
+     * @param user
+     * @param password
+     * @throws {ValidationError} when the password was used recently
+     */
+    static async assertNotReused(user: Pick<User, 'id' | 'password'>, password: string) {
+        const history = await prisma.passwordHistory.findMany({
+            where: { userId: user.id },
+            orderBy: { createdAt: 'desc' },
+            take: Number(config('auth.password_history')),
+        });
+
+        for (const hash of [user.password, ...history.map(entry => entry.passwordHash)]) {
+            if (await argon2.verify(hash, password).catch(() => false)) {
+                ValidationError.withMessages({
+                    password: [`You can not reuse one of your last ${config('auth.password_history')} passwords.`],
+                });
+            }
+        }
+    }
+
+    /**
+     * Hash a password that satisfies the policy
+     *
+     * @param password
+     * @returns
+     */
+    static async hash(password: string) {
+        this.assertValid(password);
+
+        return argon2.hash(password);
+    }
+
+    /**
+     * Validate and set a new password for a user, recording it in their history
+     *
+     * @param user
+     * @param password
+     * @returns The updated user
+     */
+    static async update(user: Pick<User, 'id' | 'password'>, password: string) {
+        this.assertValid(password);
+        await this.assertNotReused(user, password);
+
+        const passwordHash = await argon2.hash(password);
+
+        const data = await prisma.user.update({
+            where: { id: user.id },
+            data: { password: passwordHash },
+        });
+
+        await this.record(user.id, passwordHash);
+
+        return data;
+    }
+
+    /**
+     * Add a password hash to the user's history, keeping only what the policy needs
+     *
+     * @param userId
+     * @param passwordHash
+     */
+    static async record(userId: string, passwordHash: string) {
+        await prisma.passwordHistory.create({ data: { userId, passwordHash } });
+
+        const stale = await prisma.passwordHistory.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            skip: Number(config('auth.password_history')),
+            select: { id: true },
+        });
+
+        if (stale.length) {
+            await prisma.passwordHistory.deleteMany({ where: { id: { in: stale.map(entry => entry.id) } } });
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { PersonalAccessToken, PersonalAccessTokenType } from '@prisma/client';
+
+import { RequestError } from '../utils/errors';
+import { SessionService } from './SessionService';
+import { TokenAbility } from '../middleware/abilities';
+import { fromUnixTime } from 'date-fns';
+import { generateAccessToken } from '../utils/helpers';
+import { prisma } from '../db';
+
+/**
+ * PersonalTokenService
+ *
+ * Named, scoped access tokens that users mint for their own integrations.
+ * Unlike login sessions they only carry the abilities they were granted.
+ */
+export class PersonalTokenService {
+    static readonly DEFAULT_EXPIRY_DAYS = 30;
+    static readonly MAX_EXPIRY_DAYS = 365;
+
+    /**
+     * Mint a new personal access token. The plain token is only returned here.
+     *
+     * @param user
+     * @param options
+     * @returns
+     */
+    static async create(
+        user: { id: string; email: string },
+        options: { name: string; abilities: TokenAbility[]; expiresInDays?: number }
+    ) {
+        const days = options.expiresInDays ?? this.DEFAULT_EXPIRY_DAYS;
+        const { token, jwt } = generateAccessToken(
+            { username: user.email, id: user.id, index: Math.random() },
+            `${days}d`
+        );
+
+        const personalToken = await prisma.personalAccessToken.create({
+            data: {
+                token,
+                name: options.name,
+                type: PersonalAccessTokenType.PERSONAL,
+                abilities: [...new Set(options.abilities)],
+                userId: user.id,
+                expiresAt: fromUnixTime(jwt.exp!),
+            }
+        });
+
+        return { token, personalToken };
+    }
+
+    /**
+     * List the unexpired personal access tokens of a user, newest first
+     *
+     * @param userId
+     * @returns
+     */
+    static async list(userId: string): Promise<PersonalAccessToken[]> {
+        return prisma.personalAccessToken.findMany({
+            where: { userId, type: PersonalAccessTokenType.PERSONAL, ...SessionService.activeWhere() },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Revoke a personal access token of a user
+     *
+     * @param userId
+     * @param tokenId
+     * @throws {RequestError} 404 when the token does not belong to the user
+     */
+    static async revoke(userId: string, tokenId: string): Promise<PersonalAccessToken> {
+        const personalToken = await prisma.personalAccessToken.findFirst({
+            where: { id: tokenId, userId, type: PersonalAccessTokenType.PERSONAL },
+        });
+
+        RequestError.assertFound(personalToken, 'Access token not found.', 404);
+
+        await prisma.personalAccessToken.delete({ where: { id: personalToken.id } });
+
+        return personalToken;
+    }
+}
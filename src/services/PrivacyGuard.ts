@@ -11,6 +11,8 @@ import { prisma } from "src/db";
  * • searchEngineIndexing  — controls X-Robots-Tag header on public profile responses
  * • allowDirectMessages   — gate on any endpoint that sends a message to a user
  * • allowProfileComments  — gate on any endpoint that posts a comment on a user's profile
+ * • blockList             — blocked users can not message each other at all
+ * • restrictedList        — restricted users can not send direct messages
  */
 export class PrivacyGuard {
   /**
@@ -32,14 +34,32 @@ export class PrivacyGuard {
     return "noindex, nofollow";
   }
 
+  /**
+   * Returns whether either user has the other on their block list.
+   */
+  static async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    const blocking = await prisma.privacySettings.count({
+      where: {
+        OR: [
+          { userId, blockList: { has: otherUserId } },
+          { userId: otherUserId, blockList: { has: userId } },
+        ],
+      },
+    });
+
+    return blocking > 0;
+  }
+
   /**
    * Returns whether `senderId` is permitted to send a direct message to
    * `targetUserId`.
    *
    * Enforcement rules
    *   1. Users can always message themselves (edge-case / admin tools).
-   *   2. If the target has no PrivacySettings row, messages are allowed (safe default).
-   *   3. Otherwise, the flag value is authoritative.
+   *   2. Users who blocked each other, in either direction, can not.
+   *   3. If the target has no PrivacySettings row, messages are allowed (safe default).
+   *   4. Users on the target's restricted list can not.
+   *   5. Otherwise, the flag value is authoritative.
    */
   static async canSendDirectMessage(
     senderId: string,
@@ -49,12 +69,27 @@ export class PrivacyGuard {
       return { allowed: true };
     }
 
+    if (await this.isBlocked(senderId, targetUserId)) {
+      return { allowed: false, reason: "You can not message this user." };
+    }
+
     const settings = await prisma.privacySettings.findFirst({
       where: { userId: targetUserId },
-      select: { allowDirectMessages: true },
+      select: { allowDirectMessages: true, restrictedList: true },
     });
 
-    if (settings === null || settings.allowDirectMessages) {
+    if (settings === null) {
+      return { allowed: true };
+    }
+
+    if (settings.restrictedList.includes(senderId)) {
+      return {
+        allowed: false,
+        reason: "This user does not accept direct messages from you.",
+      };
+    }
+
+    if (settings.allowDirectMessages) {
       return { allowed: true };
     }
 
@@ -64,6 +99,24 @@ export class PrivacyGuard {
     };
   }
 
+  /**
+   * Returns whether `senderId` is permitted to message `targetUserId` in a
+   * thread about an application or job they both take part in.
+   *
+   * Only the block list applies: the restricted list and allowDirectMessages
+   * gate direct threads, not the conversations a shared job needs.
+   */
+  static async canSendMessage(
+    senderId: string,
+    targetUserId: string,
+  ): Promise<PrivacyCheckResult> {
+    if (senderId !== targetUserId && await this.isBlocked(senderId, targetUserId)) {
+      return { allowed: false, reason: "You can not message this user." };
+    }
+
+    return { allowed: true };
+  }
+
   /**
    * Returns whether `commenterId` is permitted to post a comment on
    * `targetUserId`'s profile.
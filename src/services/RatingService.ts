@@ -0,0 +1,179 @@
+import { Prisma, RatingAggregate, ReviewStatus } from '@prisma/client';
+
+import { config } from '../config';
+import { prisma } from '../db';
+
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+type RatingSubject = { artisanId: string } | { userId: string };
+
+type ReviewedSubjects = { targetId: string, artisanId?: string | null };
+
+/**
+ * RatingService
+ *
+ * Keeps the approved review statistics of artisans and reviewed users, so
+ * listings and searches read them instead of scanning reviews. Besides the
+ * average, each aggregate has a Bayesian score, which starts at the prior mean
+ * and moves towards the actual average as reviews come in, so that a single
+ * 5 star review does not outrank many 4.8 star ones.
+ */
+export class RatingService {
+    /**
+     * Recompute the aggregates of the subjects of reviews, after any of them
+     * was approved, edited, rejected or deleted
+     *
+     * @param reviews
+     */
+    static async refresh(...reviews: ReviewedSubjects[]) {
+        const subjects = new Map<string, RatingSubject>();
+
+        for (const { targetId, artisanId } of reviews) {
+            subjects.set(`user:${targetId}`, { userId: targetId });
+
+            if (artisanId) {
+                subjects.set(`artisan:${artisanId}`, { artisanId });
+            }
+        }
+
+        for (const subject of subjects.values()) {
+            const rows = await prisma.review.groupBy({
+                by: ['rating'],
+                where: { ...this.reviewsOf(subject), status: ReviewStatus.APPROVED },
+                _count: { _all: true },
+            });
+
+            const data = this.summarize(rows.map(row => [row.rating, row._count._all]));
+
+            await prisma.ratingAggregate.upsert({
+                where: 'artisanId' in subject ? { artisanId: subject.artisanId } : { userId: subject.userId },
+                create: { ...subject, ...data },
+                update: data,
+            });
+        }
+    }
+
+    /**
+     * Recompute every aggregate from the reviews
+     *
+     * @returns The number of artisans and users with aggregates
+     */
+    static async rebuild() {
+        const where = { status: ReviewStatus.APPROVED };
+
+        const [byArtisan, byUser] = await Promise.all([
+            prisma.review.groupBy({
+                by: ['artisanId', 'rating'],
+                where: { ...where, artisanId: { not: null } },
+                _count: { _all: true },
+            }),
+            prisma.review.groupBy({
+                by: ['targetId', 'rating'],
+                where,
+                _count: { _all: true },
+            }),
+        ]);
+
+        const group = (rows: Array<{ id: string, rating: number, count: number }>) => {
+            const counts = new Map<string, Array<[number, number]>>();
+
+            for (const { id, rating, count } of rows) {
+                counts.set(id, [...(counts.get(id) ?? []), [rating, count]]);
+            }
+
+            return [...counts].map(([id, ratings]) => ({ id, ...this.summarize(ratings) }));
+        };
+
+        const artisans = group(byArtisan.map(row => ({ id: row.artisanId!, rating: row.rating, count: row._count._all })));
+        const users = group(byUser.map(row => ({ id: row.targetId, rating: row.rating, count: row._count._all })));
+
+        // Artisans without approved reviews keep an aggregate at the prior mean
+        const unrated = await prisma.artisan.findMany({
+            where: { reviews: { none: where } },
+            select: { id: true },
+        });
+
+        artisans.push(...unrated.map(({ id }) => ({ id, ...this.unrated() })));
+
+        await prisma.$transaction([
+            prisma.ratingAggregate.deleteMany(),
+            prisma.ratingAggregate.createMany({
+                data: [
+                    ...artisans.map(({ id, ...data }) => ({ artisanId: id, ...data })),
+                    ...users.map(({ id, ...data }) => ({ userId: id, ...data })),
+                ],
+            }),
+        ]);
+
+        return { artisans: artisans.length, users: users.length };
+    }
+
+    /**
+     * The aggregate of an artisan or user without approved reviews, which
+     * every artisan starts with so rating sorts can rely on its score
+     */
+    static unrated() {
+        return this.summarize([]);
+    }
+
+    /**
+     * Get the aggregate of an artisan or user, empty when they have no
+     * approved reviews yet
+     *
+     * @param subject
+     * @returns
+     */
+    static async find(subject: RatingSubject) {
+        const aggregate = await prisma.ratingAggregate.findUnique({
+            where: 'artisanId' in subject ? { artisanId: subject.artisanId } : { userId: subject.userId },
+        });
+
+        return aggregate ?? this.unrated();
+    }
+
+    /**
+     * Format an aggregate for responses
+     *
+     * @param aggregate
+     * @returns
+     */
+    static present(aggregate?: Pick<RatingAggregate, 'average' | 'count' | 'distribution' | 'score'> | null) {
+        const { average, count, distribution, score } = aggregate ?? this.unrated();
+
+        return {
+            averageRating: count > 0 ? Math.round(average * 100) / 100 : null,
+            weightedRating: Math.round(score * 100) / 100,
+            reviewCount: count,
+            ratingDistribution: distribution as RatingDistribution,
+        };
+    }
+
+    private static reviewsOf(subject: RatingSubject): Prisma.ReviewWhereInput {
+        return 'artisanId' in subject ? { artisanId: subject.artisanId } : { targetId: subject.userId };
+    }
+
+    /**
+     * Compute the statistics of ratings given as [rating, number of reviews]
+     */
+    private static summarize(ratings: Array<[number, number]>) {
+        const distribution: RatingDistribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+        let count = 0;
+        let sum = 0;
+
+        for (const [rating, reviews] of ratings) {
+            distribution[String(rating) as keyof RatingDistribution] += reviews;
+            count += reviews;
+            sum += rating * reviews;
+        }
+
+        const priorMean = Number(config('ratings.prior_mean'));
+        const priorWeight = Number(config('ratings.prior_weight'));
+
+        return {
+            average: count > 0 ? sum / count : 0,
+            count,
+            distribution,
+            score: (priorMean * priorWeight + sum) / (priorWeight + count),
+        };
+    }
+}
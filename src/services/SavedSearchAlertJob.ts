@@ -0,0 +1,172 @@
+import { ArtisanSearchService, SearchFilters } from './ArtisanSearchService';
+import { Prisma, SavedSearch } from '@prisma/client';
+import { subDays, subMonths, subWeeks } from 'date-fns';
+
+import { RequestError } from 'src/utils/errors';
+import { escapeHtml } from 'src/utils/helpers';
+import { notify } from './notificationService';
+import { prisma } from 'src/db';
+
+/**
+ * SavedSearchAlertJob — tells users about new artisans matching their saved searches.
+ *
+ * Called by the saved search alert scheduler. Searches run at the digest
+ * frequency of their owner (daily, weekly, monthly or never), counted from
+ * their previous run, and artisans created or verified since the previous run
+ * are new matches. Users are notified like of any other event, so the email is only
+ * sent when they have email notifications on. Searches whose filters no longer
+ * resolve are paused, and their owner is told.
+ */
+export class SavedSearchAlertJob {
+    /**
+     * Run every active saved search that is due.
+     *
+     * @param date The time of the run
+     */
+    static async run(date = new Date()): Promise<SavedSearchAlertRunSummary> {
+        const summary: SavedSearchAlertRunSummary = { searched: 0, notified: 0, paused: 0, errors: [] };
+
+        const searches = await prisma.savedSearch.findMany({
+            where: this.due(date),
+            include: { user: true },
+        });
+
+        for (const { user, ...search } of searches) {
+            // Claim the run, so overlapping runs never announce the same matches twice
+            const { count } = await prisma.savedSearch.updateMany({
+                where: { id: search.id, lastRunAt: search.lastRunAt },
+                data: { lastRunAt: date },
+            });
+
+            if (count === 0) {
+                continue;
+            }
+
+            try {
+                // Filters that no longer resolve, like a place no location is in
+                // anymore, would fail every run, so the search is paused instead
+                const matches = await this.matches(search, search.lastRunAt ?? search.createdAt)
+                    .catch((error: unknown) => error instanceof RequestError && error.statusCode === 422
+                        ? error
+                        : Promise.reject(error));
+
+                if (matches instanceof RequestError) {
+                    await this.pause(user, search, date, matches.message);
+                    summary.paused++;
+
+                    continue;
+                }
+
+                summary.searched++;
+
+                if (matches.length > 0) {
+                    const names = matches.slice(0, 3).map(({ name }) => `<b>${escapeHtml(name)}</b>`).join(', ');
+                    const more = matches.length > 3 ? ` and ${matches.length - 3} more` : '';
+
+                    const results = await notify(user, 'search.new_matches', {
+                        title: `New artisans for "${search.name}"`,
+                        message: `${matches.length} new artisan${matches.length === 1 ? '' : 's'} match your saved search <b>${escapeHtml(search.name)}</b>: ${names}${more}.`,
+                        path: `/saved-searches/${search.id}`,
+                        linkTitle: 'View Artisans',
+                        data: { savedSearchId: search.id, artisanIds: matches.map(({ id }) => id) },
+                    });
+
+                    // Without the notification the matches were never announced
+                    const failed = results.find(({ channel, success }) => channel === 'in-app' && !success);
+
+                    if (failed) {
+                        throw new Error(failed.error);
+                    }
+
+                    summary.notified++;
+                }
+            } catch (error) {
+                // Hand the run back, so the next one covers its matches
+                await prisma.savedSearch.updateMany({
+                    where: { id: search.id, lastRunAt: date },
+                    data: { lastRunAt: search.lastRunAt },
+                });
+
+                summary.errors.push({
+                    savedSearchId: search.id,
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Pause a saved search whose filters no longer resolve and tell its owner
+     *
+     * @param user
+     * @param search
+     * @param date
+     * @param reason
+     */
+    static async pause(user: { id: string }, search: SavedSearch, date: Date, reason: string) {
+        await prisma.savedSearch.update({ where: { id: search.id }, data: { pausedAt: date } });
+
+        await notify(user, 'search.paused', {
+            title: `Saved search "${search.name}" paused`,
+            message: `Your saved search <b>${escapeHtml(search.name)}</b> was paused: ${escapeHtml(reason)} Update its filters and resume it to get alerts again.`,
+            path: `/saved-searches/${search.id}`,
+            linkTitle: 'Edit Search',
+            data: { savedSearchId: search.id },
+        });
+    }
+
+    /**
+     * The active saved searches whose owner's digest frequency has passed
+     * since their previous run, or since they were saved
+     *
+     * @param date
+     */
+    static due(date: Date): Prisma.SavedSearchWhereInput {
+        const ranBefore = (since: Date): Prisma.SavedSearchWhereInput => ({
+            OR: [{ lastRunAt: { lte: since } }, { lastRunAt: null, createdAt: { lte: since } }],
+        });
+
+        const frequency = (digestFrequency: string): Prisma.SavedSearchWhereInput => ({
+            user: { preferences: { is: { digestFrequency } } },
+        });
+
+        return {
+            pausedAt: null,
+            OR: [
+                { AND: [frequency('daily'), ranBefore(subDays(date, 1))] },
+                // Users without preferences get the default weekly frequency
+                {
+                    AND: [
+                        { OR: [frequency('weekly'), { user: { preferences: { is: null } } }] },
+                        ranBefore(subWeeks(date, 1)),
+                    ],
+                },
+                { AND: [frequency('monthly'), ranBefore(subMonths(date, 1))] },
+            ],
+        };
+    }
+
+    /**
+     * Find the artisans matching a saved search that were created or verified
+     * after a date, newest first
+     *
+     * @param search
+     * @param since
+     */
+    static async matches(search: SavedSearch, since: Date) {
+        const filters = search.filters as SearchFilters;
+
+        const center = await ArtisanSearchService.resolveCenter(filters);
+
+        return ArtisanSearchService.createdSince(filters, center, since);
+    }
+}
+
+export interface SavedSearchAlertRunSummary {
+    searched: number;
+    notified: number;
+    paused: number;
+    errors: Array<{ savedSearchId: string; message: string }>;
+}
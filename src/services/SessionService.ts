@@ -0,0 +1,299 @@
+import { AuditAction, PersonalAccessToken, PersonalAccessTokenType, Prisma } from '@prisma/client';
+import { addDays, fromUnixTime, isPast } from 'date-fns';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+import { Request } from 'express';
+import { RequestError } from '../utils/errors';
+import { UAParser } from 'ua-parser-js';
+import { WILDCARD_ABILITY } from '../middleware/abilities';
+import { config } from '../config';
+import { generateAccessToken } from '../utils/helpers';
+import { logAuditEvent } from '../utils/auditLogger';
+import { prisma } from '../db';
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+const hashRefreshToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * SessionService
+ *
+ * Every PersonalAccessToken issued at login represents a session on a device.
+ * Sessions hold a short-lived access token which is renewed with a rotating
+ * refresh token, this service issues, refreshes and revokes them.
+ */
+export class SessionService {
+    /**
+     * Start a session for the device making the request
+     *
+     * @param req
+     * @param user
+     * @returns The plain access and refresh tokens and the stored session
+     */
+    static async issue(req: Request, user: { id: string; email: string }) {
+        const { token, accessTokenExpiresAt, session } = await this.start(req, user);
+        const refreshToken = await this.createRefreshToken(session, randomUUID());
+
+        return { token, refreshToken, accessTokenExpiresAt, session };
+    }
+
+    /**
+     * Store the session for the device making the request without a refresh token,
+     * for flows that hand the tokens out later (e.g. OAuth exchange codes)
+     *
+     * @param req
+     * @param user
+     * @returns The plain access token and the stored session
+     */
+    static async start(req: Request, user: { id: string; email: string }) {
+        const userAgent = req.headers['user-agent'];
+        const { token, expiresAt } = this.accessToken(user);
+
+        const session = await prisma.personalAccessToken.create({
+            data: {
+                token,
+                name: this.deviceName(userAgent),
+                type: PersonalAccessTokenType.SESSION,
+                abilities: [WILDCARD_ABILITY],
+                userId: user.id,
+                ipAddress: req.ip || req.socket?.remoteAddress,
+                userAgent,
+                expiresAt: this.sessionExpiry(),
+            }
+        });
+
+        return { token, accessTokenExpiresAt: expiresAt, session };
+    }
+
+    /**
+     * Exchange a refresh token for a new access token and refresh token.
+     *
+     * Each refresh token can only be used once, presenting a used token again
+     * means it leaked, so the whole token family (and its session) is revoked.
+     *
+     * @param req
+     * @param refreshToken
+     * @throws {RequestError} 401 when the token is invalid, expired, revoked or reused
+     */
+    static async refresh(req: Request, refreshToken: string) {
+        const record = await prisma.refreshToken.findUnique({
+            where: { tokenHash: hashRefreshToken(String(refreshToken)) },
+            include: { session: true, user: true },
+        });
+
+        RequestError.assertFound(record, 'The refresh token is invalid.', 401);
+
+        if (record.usedAt && !record.revokedAt) {
+            await this.revokeFamily(record.familyId, req, record.userId);
+            throw new RequestError('The refresh token has already been used, please log in again.', 401);
+        }
+
+        RequestError.abortIf(
+            !!record.revokedAt,
+            'The refresh token has been revoked, please log in again.',
+            401
+        );
+        RequestError.abortIf(
+            !record.session || isPast(record.expiresAt),
+            'The refresh token has expired, please log in again.',
+            401
+        );
+
+        // Claim the token atomically so concurrent refreshes can't both succeed
+        const { count } = await prisma.refreshToken.updateMany({
+            where: { id: record.id, usedAt: null, revokedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        if (count === 0) {
+            await this.revokeFamily(record.familyId, req, record.userId);
+            throw new RequestError('The refresh token has already been used, please log in again.', 401);
+        }
+
+        const { token, expiresAt } = this.accessToken(record.user);
+
+        const session = await prisma.personalAccessToken.update({
+            where: { id: record.session!.id },
+            data: {
+                token,
+                lastUsedAt: new Date(),
+                expiresAt: this.sessionExpiry(),
+            },
+        });
+
+        const nextRefreshToken = await this.createRefreshToken(session, record.familyId);
+
+        return { token, refreshToken: nextRefreshToken, accessTokenExpiresAt: expiresAt, session, user: record.user };
+    }
+
+    /**
+     * Revoke every refresh token of a family and end the session it belongs to
+     *
+     * @param familyId
+     * @param req
+     * @param userId
+     */
+    static async revokeFamily(familyId: string, req?: Request, userId?: string) {
+        const members = await prisma.refreshToken.findMany({
+            where: { familyId },
+            select: { sessionId: true },
+        });
+        const sessionIds = members.map(member => member.sessionId).filter((id): id is string => !!id);
+
+        await prisma.$transaction([
+            prisma.refreshToken.updateMany({
+                where: { familyId, revokedAt: null },
+                data: { revokedAt: new Date() },
+            }),
+            prisma.personalAccessToken.deleteMany({
+                where: { id: { in: sessionIds } },
+            }),
+        ]);
+
+        await logAuditEvent(userId, AuditAction.SESSION_END, {
+            req,
+            entityType: 'RefreshToken',
+            entityId: familyId,
+            statusCode: 401,
+            errorMessage: 'Refresh token reuse detected, token family revoked.',
+            metadata: { reason: 'refresh_token_reuse', sessions: sessionIds },
+        });
+    }
+
+    /**
+     * Sign a short-lived access token for a user
+     *
+     * @param user
+     * @returns
+     */
+    static accessToken(user: { id: string; email: string }) {
+        const { token, jwt } = generateAccessToken(
+            { username: user.email, id: user.id, index: Math.random() },
+            config('jwt.access_expires_in')
+        );
+
+        return { token, expiresAt: fromUnixTime(jwt.exp!) };
+    }
+
+    /**
+     * Store a new refresh token for a session, the plain token is only returned here
+     *
+     * @param session
+     * @param familyId
+     * @returns
+     */
+    static async createRefreshToken(session: PersonalAccessToken, familyId: string): Promise<string> {
+        const token = randomBytes(48).toString('base64url');
+
+        await prisma.refreshToken.create({
+            data: {
+                userId: session.userId,
+                sessionId: session.id,
+                familyId,
+                tokenHash: hashRefreshToken(token),
+                expiresAt: session.expiresAt ?? this.sessionExpiry(),
+            }
+        });
+
+        return token;
+    }
+
+    /**
+     * A session lives as long as its latest refresh token
+     */
+    static sessionExpiry(): Date {
+        return addDays(new Date(), Number(config('jwt.refresh_ttl_days')));
+    }
+
+    /**
+     * Build a human readable device name from a user agent string
+     *
+     * @param userAgent
+     * @returns
+     */
+    static deviceName(userAgent?: string): string {
+        const { device, ua } = UAParser(userAgent);
+        const name = `${device.type ?? ua.split('/').at(0)} ${device.model ?? ua.split('/').at(-1)}`;
+
+        return ['', ' '].includes(name) ? 'Unknown Device' : name;
+    }
+
+    /**
+     * List the active sessions of a user, most recently used first
+     *
+     * @param userId
+     * @returns
+     */
+    static async list(userId: string): Promise<PersonalAccessToken[]> {
+        return prisma.personalAccessToken.findMany({
+            where: { userId, type: PersonalAccessTokenType.SESSION, ...this.activeWhere() },
+            orderBy: [
+                { lastUsedAt: { sort: 'desc', nulls: 'last' } },
+                { createdAt: 'desc' },
+            ],
+        });
+    }
+
+    /**
+     * Revoke a single session of a user
+     *
+     * @param userId
+     * @param sessionId
+     * @throws {RequestError} 404 when the session does not belong to the user
+     */
+    static async revoke(userId: string, sessionId: string): Promise<PersonalAccessToken> {
+        const session = await prisma.personalAccessToken.findFirst({
+            where: { id: sessionId, userId, type: PersonalAccessTokenType.SESSION },
+        });
+
+        RequestError.assertFound(session, 'Session not found.', 404);
+
+        await prisma.personalAccessToken.delete({ where: { id: session.id } });
+
+        return session;
+    }
+
+    /**
+     * Revoke every session of a user except the one identified by currentToken
+     *
+     * @param userId
+     * @param currentToken
+     * @returns Number of revoked sessions
+     */
+    static async revokeOthers(userId: string, currentToken?: string): Promise<number> {
+        const where: Prisma.PersonalAccessTokenWhereInput = { userId, type: PersonalAccessTokenType.SESSION };
+
+        if (currentToken) {
+            where.token = { not: currentToken };
+        }
+
+        const { count } = await prisma.personalAccessToken.deleteMany({ where });
+
+        return count;
+    }
+
+    /**
+     * Revoke every session and personal access token of a user
+     *
+     * @param userId
+     * @returns Number of revoked tokens
+     */
+    static async revokeAll(userId: string): Promise<number> {
+        const { count } = await prisma.personalAccessToken.deleteMany({ where: { userId } });
+
+        return count;
+    }
+
+    /**
+     * Filter matching sessions that have not expired yet
+     */
+    static activeWhere(): Prisma.PersonalAccessTokenWhereInput {
+        return {
+            OR: [
+                { expiresAt: null },
+                { expiresAt: { gt: new Date() } },
+            ],
+        };
+    }
+}
@@ -0,0 +1,419 @@
+import { Prisma, TipStatus } from '@prisma/client';
+import {
+    endOfMonth,
+    format,
+    startOfDay,
+    startOfISOWeek,
+    startOfMonth,
+    subDays,
+    subMonths,
+    subWeeks,
+} from 'date-fns';
+
+import { ConvertedAmount, ExchangeRateService } from './ExchangeRateService';
+import { PrivacyService } from './PrivacyService';
+import { prisma } from '../db';
+import { renderPdf } from '../utils/pdf';
+
+export type EarningsPeriod = 'day' | 'week' | 'month';
+
+export const EARNINGS_PERIODS: EarningsPeriod[] = ['day', 'week', 'month'];
+
+export interface EarningsFilter {
+    /** Only tips received by this user, all receivers when omitted */
+    receiverId?: string;
+    currency?: string;
+    from: Date;
+    to: Date;
+}
+
+export interface ConvertedTotal {
+    currency: string;
+    amount: number;
+}
+
+export interface EarningsTotal {
+    currency: string;
+    total: number;
+    count: number;
+    /** Sum of the tips converted at their own timestamp, null when no rate is known for them */
+    converted?: ConvertedTotal | null;
+}
+
+export interface EarningsSupporter {
+    /** Null when the supporter's privacy settings hide them from the viewer */
+    id: string | null;
+    name: string;
+    anonymous: boolean;
+    count: number;
+    totals: EarningsTotal[];
+}
+
+export interface StatementRow {
+    date: Date;
+    tipId: string;
+    supporter: string;
+    receiver: string;
+    artisan: string;
+    currency: string;
+    amount: number;
+    txHash: string | null;
+}
+
+const tipSelect = {
+    id: true,
+    amount: true,
+    currency: true,
+    senderId: true,
+    receiverId: true,
+    artisanId: true,
+    txHash: true,
+    verifiedAt: true,
+    createdAt: true,
+    sender: { select: { id: true, firstName: true, lastName: true } },
+    receiver: { select: { id: true, firstName: true, lastName: true } },
+    artisan: { select: { id: true, name: true } },
+} satisfies Prisma.TipSelect;
+
+type EarnedTip = Prisma.TipGetPayload<{ select: typeof tipSelect }> & { converted?: ConvertedAmount | null };
+
+/**
+ * Keep sums of float amounts from drifting
+ */
+const round = (amount: number) => Math.round(amount * 1e8) / 1e8;
+
+/**
+ * TipEarningsService
+ *
+ * Reports what receivers earned from completed tips: totals per currency,
+ * totals per day, week or month, a breakdown per artisan and the top
+ * supporters. Refunded, cancelled and unverified tips are not earnings. A tip
+ * is earned when it was verified, or created for tips that predate
+ * verification. Supporters whose profile the viewer can not see are listed
+ * anonymously.
+ */
+export class TipEarningsService {
+    /**
+     * Resolve the range of a report, the last 30 days, 12 weeks or 12 months by default
+     *
+     * @param period
+     * @param from
+     * @param to
+     * @returns
+     */
+    static range(period: EarningsPeriod, from?: Date | null, to?: Date | null) {
+        const end = to ?? new Date();
+        const start = from ?? {
+            day: () => startOfDay(subDays(end, 29)),
+            week: () => startOfISOWeek(subWeeks(end, 11)),
+            month: () => startOfMonth(subMonths(end, 11)),
+        }[period]();
+
+        return { from: start, to: end };
+    }
+
+    /**
+     * Build an earnings report
+     *
+     * @param filter
+     * @param options.period Bucket size of the timeline
+     * @param options.viewerId Whose privacy view supporters are shown in, everyone is shown when omitted
+     * @param options.supporters Number of top supporters to include
+     * @param options.convertTo Fiat currency totals are also converted into
+     * @returns
+     */
+    static async report(
+        filter: EarningsFilter,
+        { period = 'month', viewerId, supporters = 10, convertTo }: {
+            period?: EarningsPeriod,
+            viewerId?: string,
+            supporters?: number,
+            convertTo?: string,
+        } = {}
+    ) {
+        const earned = await this.tips(filter);
+        const tips: EarnedTip[] = convertTo ? await ExchangeRateService.convertTips(earned, convertTo) : earned;
+
+        return {
+            range: { from: filter.from, to: filter.to, period },
+            converted: convertTo ? this.convertedTotal(tips, convertTo) : undefined,
+            totals: this.totals(tips),
+            timeline: this.timeline(tips, period),
+            artisans: this.byArtisan(tips),
+            supporters: await this.topSupporters(tips, viewerId, supporters),
+            // Reconciliation across receivers, only useful when the report is not scoped to one
+            receivers: filter.receiverId ? undefined : this.byReceiver(tips),
+        };
+    }
+
+    /**
+     * Build the statement of a month: every earned tip and the totals
+     *
+     * @param month Any date in the month
+     * @param filter
+     * @param viewerId Whose privacy view supporters are shown in, everyone is shown when omitted
+     * @returns
+     */
+    static async statement(month: Date, filter: Pick<EarningsFilter, 'receiverId' | 'currency'> = {}, viewerId?: string) {
+        const from = startOfMonth(month);
+        const to = endOfMonth(month);
+        const tips = await this.tips({ ...filter, from, to });
+        const visible = await this.visibility(tips.map(tip => tip.senderId), viewerId);
+
+        const rows: StatementRow[] = tips.map(tip => ({
+            date: tip.verifiedAt ?? tip.createdAt,
+            tipId: tip.id,
+            supporter: visible.get(tip.senderId) ? this.name(tip.sender) : 'Anonymous',
+            receiver: this.name(tip.receiver),
+            artisan: tip.artisan?.name ?? '',
+            currency: tip.currency,
+            amount: tip.amount,
+            txHash: tip.txHash,
+        }));
+
+        return {
+            month: format(from, 'yyyy-MM'),
+            from,
+            to,
+            receiverId: filter.receiverId,
+            rows,
+            totals: this.totals(tips),
+        };
+    }
+
+    /**
+     * Render a statement as CSV
+     *
+     * @param statement
+     * @returns
+     */
+    static toCsv(statement: Awaited<ReturnType<typeof TipEarningsService.statement>>): string {
+        const lines = [['date', 'tip_id', 'supporter', 'receiver', 'artisan', 'currency', 'amount', 'tx_hash']];
+
+        for (const row of statement.rows) {
+            lines.push([
+                row.date.toISOString(),
+                row.tipId,
+                row.supporter,
+                row.receiver,
+                row.artisan,
+                row.currency,
+                String(row.amount),
+                row.txHash ?? '',
+            ]);
+        }
+
+        return lines.map(line => line.map(cell => this.escapeCsv(cell)).join(',')).join('\n');
+    }
+
+    /**
+     * Render a statement as a PDF document
+     *
+     * @param statement
+     * @param title
+     * @returns
+     */
+    static toPdf(statement: Awaited<ReturnType<typeof TipEarningsService.statement>>, title: string): Buffer {
+        const column = (value: string, width: number) => value.length > width
+            ? `${value.slice(0, width - 1)}~`
+            : value.padEnd(width);
+
+        const lines = [
+            title,
+            `Period: ${format(statement.from, 'yyyy-MM-dd')} to ${format(statement.to, 'yyyy-MM-dd')}`,
+            '',
+            'Totals',
+            ...(statement.totals.length
+                ? statement.totals.map(total => `  ${column(total.currency, 6)} ${String(total.total).padStart(20)}  (${total.count} tips)`)
+                : ['  No earnings in this period']),
+            '',
+            [
+                column('Date', 11),
+                column('Supporter', 18),
+                ...(statement.receiverId ? [] : [column('Receiver', 18)]),
+                column('Artisan', 18),
+                column('Cur.', 5),
+                'Amount'.padStart(14),
+            ].join(' '),
+            '-'.repeat(statement.receiverId ? 70 : 89),
+            ...statement.rows.map(row => [
+                column(format(row.date, 'yyyy-MM-dd'), 11),
+                column(row.supporter, 18),
+                ...(statement.receiverId ? [] : [column(row.receiver, 18)]),
+                column(row.artisan || '-', 18),
+                column(row.currency, 5),
+                String(row.amount).padStart(14),
+            ].join(' ')),
+        ];
+
+        return renderPdf(lines, title);
+    }
+
+    /**
+     * Get the tips earned in a range, oldest first
+     */
+    private static tips(filter: EarningsFilter): Promise<EarnedTip[]> {
+        const inRange = { gte: filter.from, lte: filter.to };
+
+        return prisma.tip.findMany({
+            where: {
+                status: TipStatus.COMPLETED,
+                receiverId: filter.receiverId,
+                currency: filter.currency,
+                OR: [
+                    { verifiedAt: inRange },
+                    { verifiedAt: null, createdAt: inRange },
+                ],
+            },
+            select: tipSelect,
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * Sum tips per currency
+     */
+    private static totals(tips: Pick<EarnedTip, 'amount' | 'currency' | 'converted'>[]): EarningsTotal[] {
+        const groups = new Map<string, Pick<EarnedTip, 'amount' | 'currency' | 'converted'>[]>();
+
+        for (const tip of tips) {
+            groups.set(tip.currency, [...(groups.get(tip.currency) ?? []), tip]);
+        }
+
+        return [...groups.entries()]
+            .map(([currency, group]): EarningsTotal => ({
+                currency,
+                total: group.reduce((sum, tip) => round(sum + tip.amount), 0),
+                count: group.length,
+                converted: group.some(tip => tip.converted !== undefined)
+                    ? this.convertedTotal(group)
+                    : undefined,
+            }))
+            .sort((a, b) => a.currency.localeCompare(b.currency));
+    }
+
+    /**
+     * Sum the converted amounts of tips, leaving out the ones no rate is known for
+     */
+    private static convertedTotal(tips: Pick<EarnedTip, 'converted'>[], currency?: string): ConvertedTotal | null {
+        const converted = tips.map(tip => tip.converted).filter((amount): amount is ConvertedAmount => !!amount);
+        const target = currency ?? converted[0]?.currency;
+
+        if (!target) {
+            return null;
+        }
+
+        return {
+            currency: target,
+            amount: Math.round(converted.reduce((sum, amount) => sum + amount.amount, 0) * 100) / 100,
+        };
+    }
+
+    /**
+     * Sum tips per currency for each day, week or month
+     */
+    private static timeline(tips: EarnedTip[], period: EarningsPeriod) {
+        const start = { day: startOfDay, week: startOfISOWeek, month: startOfMonth }[period];
+        const buckets = new Map<string, EarnedTip[]>();
+
+        for (const tip of tips) {
+            const key = start(tip.verifiedAt ?? tip.createdAt).toISOString();
+            buckets.set(key, [...(buckets.get(key) ?? []), tip]);
+        }
+
+        return [...buckets.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, bucket]) => ({ period: key, totals: this.totals(bucket) }));
+    }
+
+    /**
+     * Sum tips per artisan, tips sent straight to the receiver are grouped under a null artisan
+     */
+    private static byArtisan(tips: EarnedTip[]) {
+        const groups = new Map<string | null, EarnedTip[]>();
+
+        for (const tip of tips) {
+            groups.set(tip.artisanId, [...(groups.get(tip.artisanId) ?? []), tip]);
+        }
+
+        return [...groups.values()].map(group => ({
+            artisanId: group[0].artisanId,
+            name: group[0].artisan?.name ?? null,
+            count: group.length,
+            totals: this.totals(group),
+        })).sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Sum tips per receiver
+     */
+    private static byReceiver(tips: EarnedTip[]) {
+        const groups = new Map<string, EarnedTip[]>();
+
+        for (const tip of tips) {
+            groups.set(tip.receiverId, [...(groups.get(tip.receiverId) ?? []), tip]);
+        }
+
+        return [...groups.values()].map(group => ({
+            receiverId: group[0].receiverId,
+            name: this.name(group[0].receiver),
+            count: group.length,
+            totals: this.totals(group),
+        })).sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Rank supporters by number of tips, hiding those the viewer may not see
+     */
+    private static async topSupporters(tips: EarnedTip[], viewerId: string | undefined, limit: number) {
+        const groups = new Map<string, EarnedTip[]>();
+
+        for (const tip of tips) {
+            groups.set(tip.senderId, [...(groups.get(tip.senderId) ?? []), tip]);
+        }
+
+        const top = [...groups.values()]
+            .map(group => ({ group, totals: this.totals(group) }))
+            .sort((a, b) => b.group.length - a.group.length
+                || b.totals.reduce((sum, total) => sum + total.total, 0) - a.totals.reduce((sum, total) => sum + total.total, 0))
+            .slice(0, limit);
+
+        const visible = await this.visibility(top.map(({ group }) => group[0].senderId), viewerId);
+
+        return top.map(({ group, totals }): EarningsSupporter => {
+            const shown = visible.get(group[0].senderId) ?? false;
+
+            return {
+                id: shown ? group[0].senderId : null,
+                name: shown ? this.name(group[0].sender) : 'Anonymous',
+                anonymous: !shown,
+                count: group.length,
+                totals,
+            };
+        });
+    }
+
+    /**
+     * Check which supporters the viewer may see, based on their profile visibility
+     */
+    private static async visibility(supporterIds: string[], viewerId?: string) {
+        const ids = [...new Set(supporterIds)];
+        const checks = await Promise.all(ids.map(async id => [
+            id,
+            viewerId ? (await PrivacyService.canViewProfile(viewerId, id)).allowed : true,
+        ] as const));
+
+        return new Map<string, boolean>(checks);
+    }
+
+    private static name(user: { firstName: string, lastName: string }) {
+        return `${user.firstName} ${user.lastName}`.trim();
+    }
+
+    private static escapeCsv(value: string): string {
+        // Names are user input, keep spreadsheets from evaluating them as formulas
+        const safe = value.replace(/^([=+\-@])/, "'$1").replace(/"/g, '""');
+
+        return /[",\n]/.test(safe) ? `"${safe}"` : safe;
+    }
+}
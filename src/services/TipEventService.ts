@@ -0,0 +1,71 @@
+import { Prisma, TipStatus } from '@prisma/client';
+
+import { prisma } from '../db';
+
+export type TipEventAction =
+    | 'CREATED'
+    | 'TX_SUBMITTED'
+    | 'COMPLETED'
+    | 'FAILED'
+    | 'EXPIRED'
+    | 'CANCELLED'
+    | 'REFUND_REQUESTED'
+    | 'REFUND_APPROVED'
+    | 'REFUND_REJECTED'
+    | 'REFUNDED';
+
+export interface TipEventOptions {
+    /** User who performed the action, omitted for automatic checks */
+    performedBy?: string | null;
+    refundId?: string | null;
+    notes?: string | null;
+    metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * TipEventService
+ *
+ * Keeps the append-only trail of a tip: creation, transaction submission,
+ * verification outcomes, cancellation and every step of a refund. Events are
+ * only ever added, never updated or removed.
+ */
+export class TipEventService {
+    /**
+     * Append an event to the trail of a tip
+     *
+     * @param tip The tip, in the state it is left in by the action
+     * @param action
+     * @param options
+     * @returns
+     */
+    static record(
+        tip: { id: string, status: TipStatus },
+        action: TipEventAction,
+        { performedBy, refundId, notes, metadata }: TipEventOptions = {}
+    ) {
+        return prisma.tipEvent.create({
+            data: {
+                tipId: tip.id,
+                action,
+                status: tip.status,
+                performedBy: performedBy ?? null,
+                refundId: refundId ?? null,
+                notes: notes ?? null,
+                metadata,
+            },
+        });
+    }
+
+    /**
+     * Get the trail of a tip, oldest first
+     *
+     * @param tipId
+     * @returns
+     */
+    static list(tipId: string) {
+        return prisma.tipEvent.findMany({
+            where: { tipId },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+}
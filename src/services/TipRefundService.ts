@@ -0,0 +1,293 @@
+import { Tip, TipRefund, TipRefundStatus, TipStatus, UserRole } from '@prisma/client';
+import { UserNotificationType, notify } from './notificationService';
+import { addDays, isPast } from 'date-fns';
+
+import { ChainTransaction } from './chain/ChainVerifier';
+import { RequestError } from '../utils/errors';
+import { TipEventService } from './TipEventService';
+import { TipVerificationService } from './TipVerificationService';
+import { config } from '../config';
+import { escapeHtml } from '../utils/helpers';
+import { prisma } from '../db';
+import { userCan } from '../middleware/permissions';
+
+type Reviewer = { id: string, role?: UserRole | string };
+
+/**
+ * TipRefundService
+ *
+ * Handles the refund workflow of completed tips:
+ * - The sender requests a refund with a reason, within the refund window
+ * - The receiver, or an admin, approves or rejects the request
+ * - Once the funds are sent back, the refund transaction hash is recorded and
+ *   the tip becomes REFUNDED
+ *
+ * Only one request can be open on a tip at a time, every step is added to the
+ * tip's event trail and the other party is notified by email.
+ */
+export class TipRefundService {
+    /**
+     * Check whether a user can approve, reject and complete refunds of a tip
+     *
+     * @param tip
+     * @param user
+     * @returns
+     */
+    static canReview(tip: Pick<Tip, 'receiverId'>, user?: Reviewer) {
+        return !!user && (tip.receiverId === user.id || userCan(user, 'tips:refund'));
+    }
+
+    /**
+     * Get the refund request of a tip that is still being handled
+     *
+     * @param tipId
+     * @returns
+     */
+    static open(tipId: string) {
+        return prisma.tipRefund.findFirst({
+            where: { tipId, status: { in: [TipRefundStatus.REQUESTED, TipRefundStatus.APPROVED] } },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Open a refund request on a completed tip
+     *
+     * @param tip
+     * @param reason
+     * @returns
+     * @throws {RequestError} 422 when the tip is not completed, the window has closed or a request is already open
+     */
+    static async request(tip: Tip, reason: string) {
+        RequestError.abortIf(tip.status !== TipStatus.COMPLETED, 'Only completed tips can be refunded.', 422);
+
+        const closesAt = addDays(tip.verifiedAt ?? tip.updatedAt, Number(config('chain.tip_refund_window_days')));
+
+        RequestError.abortIf(isPast(closesAt), 'The refund window of this tip has closed.', 422);
+        RequestError.abortIf(!!await this.open(tip.id), 'A refund has already been requested for this tip.', 422);
+
+        const refund = await prisma.tipRefund.create({
+            data: { tipId: tip.id, requestedBy: tip.senderId, reason },
+        });
+
+        await TipEventService.record(tip, 'REFUND_REQUESTED', {
+            performedBy: tip.senderId,
+            refundId: refund.id,
+            notes: reason,
+        });
+
+        await this.notify(tip.receiverId, 'tip.refund_requested', tip, 'A refund was requested for your tip', `
+            The sender of a tip of <b>${tip.amount} ${tip.currency}</b> you received has asked for a refund:<br/><br/>
+            <i>${escapeHtml(reason)}</i><br/><br/>
+            Please review the request and approve or reject it.
+        `);
+
+        return refund;
+    }
+
+    /**
+     * Approve the open refund request of a tip
+     *
+     * @param tip
+     * @param reviewerId
+     * @param options.note Optional note left for the sender
+     * @param options.refundTxHash Completes the refund right away when the funds were already sent back
+     * @returns
+     */
+    static async approve(
+        tip: Tip,
+        reviewerId: string,
+        { note, refundTxHash }: { note?: string | null, refundTxHash?: string | null } = {}
+    ) {
+        if (refundTxHash) {
+            await this.assertRefundTransaction(tip, refundTxHash);
+        }
+
+        const refund = await this.transition(tip, TipRefundStatus.REQUESTED, {
+            status: TipRefundStatus.APPROVED,
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            decisionNote: note ?? null,
+        });
+
+        await TipEventService.record(tip, 'REFUND_APPROVED', {
+            performedBy: reviewerId,
+            refundId: refund.id,
+            notes: note,
+        });
+
+        if (refundTxHash) {
+            return this.complete(tip, reviewerId, refundTxHash);
+        }
+
+        await this.notify(tip.senderId, 'tip.refund_approved', tip, 'Your refund request was approved', `
+            Your request to refund your tip of <b>${tip.amount} ${tip.currency}</b> has been approved.
+            You will be notified again once the funds have been sent back to you.
+            ${note ? `<br/><br/><i>${escapeHtml(note)}</i>` : ''}
+        `);
+
+        return refund;
+    }
+
+    /**
+     * Reject the open refund request of a tip
+     *
+     * @param tip
+     * @param reviewerId
+     * @param reason
+     * @returns
+     */
+    static async reject(tip: Tip, reviewerId: string, reason: string) {
+        const refund = await this.transition(tip, TipRefundStatus.REQUESTED, {
+            status: TipRefundStatus.REJECTED,
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            decisionNote: reason,
+        });
+
+        await TipEventService.record(tip, 'REFUND_REJECTED', {
+            performedBy: reviewerId,
+            refundId: refund.id,
+            notes: reason,
+        });
+
+        await this.notify(tip.senderId, 'tip.refund_rejected', tip, 'Your refund request was rejected', `
+            Your request to refund your tip of <b>${tip.amount} ${tip.currency}</b> has been rejected:<br/><br/>
+            <i>${escapeHtml(reason)}</i>
+        `);
+
+        return refund;
+    }
+
+    /**
+     * Record the transaction returning the funds of an approved refund and mark the tip REFUNDED
+     *
+     * @param tip
+     * @param actorId
+     * @param refundTxHash
+     * @returns
+     * @throws {RequestError} 422 when the hash is malformed or already used
+     */
+    static async complete(tip: Tip, actorId: string, refundTxHash: string) {
+        await this.assertRefundTransaction(tip, refundTxHash);
+
+        const refund = await this.transition(tip, TipRefundStatus.APPROVED, {
+            status: TipRefundStatus.COMPLETED,
+            refundTxHash,
+            refundedAt: new Date(),
+        });
+
+        const refunded = await prisma.tip.update({
+            where: { id: tip.id },
+            data: { status: TipStatus.REFUNDED },
+        });
+
+        await TipEventService.record(refunded, 'REFUNDED', {
+            performedBy: actorId,
+            refundId: refund.id,
+            metadata: { refundTxHash },
+        });
+
+        await this.notify(tip.senderId, 'tip.refunded', tip, 'Your tip has been refunded', `
+            Your tip of <b>${tip.amount} ${tip.currency}</b> has been refunded.<br/><br/>
+            Refund transaction: <code>${refundTxHash}</code>
+        `);
+
+        return refund;
+    }
+
+    /**
+     * Ensure a refund transaction hash is well formed, was not used for any
+     * tip or refund yet and pays at least the tipped amount back to the sender
+     * on chain
+     *
+     * @throws {RequestError} 422 when it does not
+     */
+    private static async assertRefundTransaction(tip: Tip, refundTxHash: string) {
+        RequestError.abortIf(
+            !TipVerificationService.verifier(tip.currency).isTransactionHash(refundTxHash),
+            'The refund transaction hash is invalid.',
+            422
+        );
+
+        const hash = { equals: refundTxHash, mode: 'insensitive' } as const;
+        const [tipUsing, refundUsing] = await Promise.all([
+            prisma.tip.findFirst({ where: { txHash: hash } }),
+            prisma.tipRefund.findFirst({ where: { refundTxHash: hash } }),
+        ]);
+
+        RequestError.abortIf(!!tipUsing || !!refundUsing, 'This transaction has already been submitted.', 422);
+
+        const sender = await prisma.user.findUniqueOrThrow({ where: { id: tip.senderId } });
+        const senderAddress = TipVerificationService.address(sender, tip.currency);
+
+        RequestError.abortIf(!senderAddress, `The sender can not receive ${tip.currency} refunds yet.`, 422);
+
+        let transaction: ChainTransaction | null;
+
+        try {
+            transaction = await TipVerificationService.verifier(tip.currency).lookup(refundTxHash);
+        } catch (error) {
+            throw new RequestError(
+                `The refund transaction could not be looked up: ${error instanceof Error ? error.message : String(error)}`,
+                422
+            );
+        }
+
+        const { status, verificationError } = TipVerificationService.check(
+            { amount: tip.amount, currency: tip.currency, recipientAddress: senderAddress, senderAddress: null },
+            transaction,
+            { exact: false }
+        );
+
+        RequestError.abortIf(
+            status !== TipStatus.COMPLETED,
+            `The refund transaction can not be accepted: ${verificationError}`,
+            422
+        );
+    }
+
+    /**
+     * Move the open refund request of a tip from one status to the next
+     *
+     * @throws {RequestError} 422 when no request of the tip is in the expected status
+     */
+    private static async transition(
+        tip: Tip,
+        from: TipRefundStatus,
+        data: Partial<Pick<TipRefund, 'status' | 'reviewedBy' | 'reviewedAt' | 'decisionNote' | 'refundTxHash' | 'refundedAt'>>
+    ) {
+        const refund = await this.open(tip.id);
+
+        RequestError.abortIf(
+            refund?.status !== from,
+            from === TipRefundStatus.REQUESTED
+                ? 'There is no refund request awaiting review on this tip.'
+                : 'There is no approved refund on this tip.',
+            422
+        );
+
+        // Guard against the request being handled concurrently
+        const { count } = await prisma.tipRefund.updateMany({
+            where: { id: refund!.id, status: from },
+            data,
+        });
+
+        RequestError.abortIf(count === 0, 'The refund request has already been handled.', 409);
+
+        return prisma.tipRefund.findUniqueOrThrow({ where: { id: refund!.id } });
+    }
+
+    /**
+     * Notify a party of a tip about a refund
+     */
+    private static notify(userId: string, type: UserNotificationType, tip: Tip, title: string, message: string) {
+        return notify(userId, type, {
+            title,
+            message,
+            path: `/tips/${tip.id}`,
+            linkTitle: 'View Tip',
+            data: { tipId: tip.id },
+        });
+    }
+}
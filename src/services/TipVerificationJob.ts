@@ -0,0 +1,60 @@
+import { TipStatus } from '@prisma/client';
+import { TipVerificationService } from './TipVerificationService';
+import { prisma } from 'src/db';
+
+/**
+ * TipVerificationJob — re-checks pending tips against the chain and expires stale ones.
+ *
+ * Called by the tip verification scheduler. Tips whose transaction is not
+ * found or not confirmed yet are simply checked again on the next run.
+ */
+export class TipVerificationJob {
+    /**
+     * Run a sweep over every pending tip that has a transaction or has expired.
+     *
+     * @param batchSize Maximum number of tips checked per run
+     */
+    static async run(batchSize = 100): Promise<TipVerificationRunSummary> {
+        const summary: TipVerificationRunSummary = { checked: 0, completed: 0, failed: 0, expired: 0, errors: [] };
+
+        const due = await prisma.tip.findMany({
+            where: {
+                status: TipStatus.PENDING,
+                OR: [
+                    { txHash: { not: null } },
+                    { expiresAt: { lte: new Date() } },
+                ],
+            },
+            // Tips that were never or least recently checked go first
+            orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }],
+            take: batchSize,
+        });
+
+        for (const tip of due) {
+            try {
+                const result = await TipVerificationService.verify(tip);
+
+                summary.checked++;
+
+                if (result.status === TipStatus.COMPLETED) summary.completed++;
+                if (result.status === TipStatus.FAILED) summary.failed++;
+                if (result.status === TipStatus.EXPIRED) summary.expired++;
+            } catch (error) {
+                summary.errors.push({
+                    tipId: tip.id,
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        return summary;
+    }
+}
+
+export interface TipVerificationRunSummary {
+    checked: number;
+    completed: number;
+    failed: number;
+    expired: number;
+    errors: Array<{ tipId: string; message: string }>;
+}
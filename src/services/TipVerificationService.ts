@@ -0,0 +1,345 @@
+import { ChainTransaction, ChainVerifier, TIP_CURRENCIES, TipCurrency } from './chain/ChainVerifier';
+import { PaymentStatus, Prisma, Tip, TipStatus, User } from '@prisma/client';
+import { addHours, isPast } from 'date-fns';
+
+import { EthereumVerifier } from './chain/EthereumVerifier';
+import { EventStreamService } from './EventStreamService';
+import { FakeChainVerifier } from './chain/FakeChainVerifier';
+import { RequestError } from '../utils/errors';
+import { StellarVerifier } from './chain/StellarVerifier';
+import { TipEventService } from './TipEventService';
+import { config } from '../config';
+import { escapeHtml } from '../utils/helpers';
+import { notify } from './notificationService';
+import { prisma } from '../db';
+
+type Account = Pick<User, 'walletAddress' | 'stellarAddress'>;
+
+/**
+ * Convert a decimal amount to integer base units so amounts can be compared exactly
+ *
+ * @param amount
+ * @param decimals
+ * @returns
+ */
+export const toBaseUnits = (amount: string | number, decimals: number): bigint => {
+    const value = typeof amount === 'number'
+        ? amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: decimals })
+        : amount.trim();
+
+    const [whole = '0', fraction = ''] = value.split('.');
+
+    return BigInt(whole || '0') * 10n ** BigInt(decimals)
+        + BigInt(fraction.slice(0, decimals).padEnd(decimals, '0') || '0');
+};
+
+/**
+ * TipVerificationService
+ *
+ * Checks the transaction submitted for a tip on chain before the tip is
+ * completed: it must have succeeded, paid the receiver's wallet the exact
+ * amount in the tip's currency and be buried under enough confirmations.
+ * Tips stay PENDING while the transaction is unknown or unconfirmed, become
+ * FAILED when it does not match and EXPIRED when nothing verified arrives in
+ * time. A verifier is registered per currency, the fake one keeps
+ * transactions in memory for tests.
+ */
+export class TipVerificationService {
+    private static verifiers: Partial<Record<TipCurrency, ChainVerifier>> = {};
+
+    /**
+     * Get the verifier of a currency, creating the configured default on first use
+     *
+     * @param currency
+     * @returns
+     */
+    static verifier(currency: string): ChainVerifier {
+        RequestError.abortIf(!TIP_CURRENCIES.includes(currency as TipCurrency), `Unsupported currency: ${currency}`, 422);
+
+        const key = currency as TipCurrency;
+
+        if (!this.verifiers[key]) {
+            if (config('chain.verifier') === 'fake') {
+                this.fake();
+            } else {
+                const stellar = new StellarVerifier();
+                this.verifiers = { XLM: stellar, USDC: stellar, ETH: new EthereumVerifier(), ...this.verifiers };
+            }
+        }
+
+        return this.verifiers[key]!;
+    }
+
+    /**
+     * Register the verifier of a currency
+     *
+     * @param currency
+     * @param verifier
+     */
+    static register(currency: TipCurrency, verifier: ChainVerifier) {
+        this.verifiers[currency] = verifier;
+    }
+
+    /**
+     * Verify every currency with a single in-memory verifier
+     *
+     * @returns The fake verifier, to record transactions on
+     */
+    static fake(): FakeChainVerifier {
+        const existing = this.verifiers.XLM;
+
+        if (existing instanceof FakeChainVerifier) {
+            return existing;
+        }
+
+        const fake = new FakeChainVerifier();
+        TIP_CURRENCIES.forEach(currency => this.register(currency, fake));
+
+        return fake;
+    }
+
+    /**
+     * Confirmations a transaction needs before a tip in a currency is completed
+     *
+     * @param currency
+     * @returns
+     */
+    static minConfirmations(currency: string): number {
+        return Number(currency === 'ETH'
+            ? config('chain.eth_min_confirmations')
+            : config('chain.stellar_min_confirmations'));
+    }
+
+    /**
+     * When a tip created now should expire if it is still pending
+     *
+     * @returns
+     */
+    static expiresAt() {
+        return addHours(new Date(), Number(config('chain.tip_pending_ttl_hours')));
+    }
+
+    /**
+     * The address a user sends and receives a currency with
+     *
+     * @param user
+     * @param currency
+     * @returns
+     */
+    static address(user: Account, currency: string) {
+        return currency === 'ETH' ? user.walletAddress : user.stellarAddress;
+    }
+
+    /**
+     * Validate a transaction hash submitted for a tip or milestone payment and
+     * resolve the addresses it must be sent from and pay
+     *
+     * @param senderId
+     * @param receiverId
+     * @param currency
+     * @param txHash
+     * @param exclude The tip or payment the hash is submitted for, when it already exists
+     * @returns The fields to store with the hash
+     * @throws {RequestError} 422 when the hash is malformed or already used, or either party has no wallet
+     */
+    static async prepare(
+        senderId: string,
+        receiverId: string,
+        currency: string,
+        txHash: string,
+        exclude: { tipId?: string, paymentId?: string } = {}
+    ) {
+        const verifier = this.verifier(currency);
+
+        RequestError.abortIf(!verifier.isTransactionHash(txHash), 'The transaction hash is invalid.', 422);
+
+        // A transaction can only ever pay for one tip or milestone
+        const hash = { equals: txHash, mode: 'insensitive' } as const;
+        const [tip, payment] = await Promise.all([
+            prisma.tip.findFirst({
+                where: {
+                    txHash: hash,
+                    id: exclude.tipId ? { not: exclude.tipId } : undefined,
+                    status: { notIn: [TipStatus.FAILED, TipStatus.EXPIRED, TipStatus.CANCELLED] },
+                },
+            }),
+            prisma.milestonePayment.findFirst({
+                where: {
+                    txHash: hash,
+                    id: exclude.paymentId ? { not: exclude.paymentId } : undefined,
+                    status: { notIn: [PaymentStatus.FAILED, PaymentStatus.EXPIRED] },
+                },
+            }),
+        ]);
+
+        RequestError.abortIf(!!tip || !!payment, 'This transaction has already been submitted for another payment.', 422);
+
+        const [sender, receiver] = await Promise.all([
+            prisma.user.findUniqueOrThrow({ where: { id: senderId } }),
+            prisma.user.findUniqueOrThrow({ where: { id: receiverId } }),
+        ]);
+        const senderAddress = this.address(sender, currency);
+        const recipientAddress = this.address(receiver, currency);
+
+        RequestError.abortIf(!recipientAddress, `The recipient can not receive ${currency} tips yet.`, 422);
+        RequestError.abortIf(!senderAddress, `Link the address you send ${currency} from before submitting a transaction.`, 422);
+
+        return { txHash, recipientAddress, senderAddress };
+    }
+
+    /**
+     * Turn the unique index violation of a transaction hash claimed concurrently
+     * by another tip or payment into a validation error
+     *
+     * @example await prisma.tip.create({ data }).catch(TipVerificationService.claimed);
+     *
+     * @param error
+     * @throws {RequestError} 422 when the hash was claimed, the error otherwise
+     */
+    static claimed(error: unknown): never {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new RequestError('This transaction has already been submitted for another payment.', 422);
+        }
+
+        throw error;
+    }
+
+    /**
+     * Check a pending tip against its transaction and update it with the outcome
+     *
+     * @param tip
+     * @returns The updated tip
+     */
+    static async verify(tip: Tip): Promise<Tip> {
+        if (tip.status !== TipStatus.PENDING) {
+            return tip;
+        }
+
+        if (tip.expiresAt && isPast(tip.expiresAt)) {
+            return this.settle(tip, {
+                status: TipStatus.EXPIRED,
+                verificationError: 'No verified transaction was received in time.',
+            });
+        }
+
+        if (!tip.txHash || !tip.recipientAddress) {
+            return tip;
+        }
+
+        let transaction: ChainTransaction | null;
+
+        try {
+            transaction = await this.verifier(tip.currency).lookup(tip.txHash);
+        } catch (error) {
+            return this.settle(tip, {
+                verificationError: `The transaction could not be looked up: ${error instanceof Error ? error.message : String(error)}`,
+            });
+        }
+
+        return this.settle(tip, this.check(tip, transaction));
+    }
+
+    /**
+     * Compare a transaction with a tip, or any payment expected to a recipient address.
+     * Without a sender address any account may have sent the transaction.
+     *
+     * @param tip
+     * @param transaction
+     * @param options.exact Whether the amount must match exactly, otherwise paying more is accepted
+     * @returns The tip fields reflecting the outcome
+     */
+    static check(
+        tip: Pick<Tip, 'amount' | 'currency' | 'recipientAddress' | 'senderAddress'>,
+        transaction: ChainTransaction | null,
+        { exact = true }: { exact?: boolean } = {}
+    ): Prisma.TipUpdateManyMutationInput & { status?: TipStatus } {
+        if (!transaction) {
+            return { verificationError: 'The transaction was not found yet.' };
+        }
+
+        if (!transaction.successful) {
+            return { status: TipStatus.FAILED, verificationError: 'The transaction failed on chain.' };
+        }
+
+        if (tip.senderAddress && transaction.from.toLowerCase() !== tip.senderAddress.toLowerCase()) {
+            return { status: TipStatus.FAILED, verificationError: 'The transaction was not sent from the sender\'s address.' };
+        }
+
+        const verifier = this.verifier(tip.currency);
+        const recipient = tip.recipientAddress!.toLowerCase();
+        const payments = transaction.transfers.filter(transfer =>
+            transfer.currency === tip.currency && transfer.to.toLowerCase() === recipient
+        );
+
+        if (payments.length === 0) {
+            return { status: TipStatus.FAILED, verificationError: `The transaction did not pay ${tip.currency} to the recipient.` };
+        }
+
+        const decimals = verifier.decimals(tip.currency as TipCurrency);
+        const paid = payments.reduce((total, transfer) => total + toBaseUnits(transfer.amount, decimals), 0n);
+
+        const expected = toBaseUnits(tip.amount, decimals);
+
+        if (exact ? paid !== expected : paid < expected) {
+            return { status: TipStatus.FAILED, verificationError: 'The transaction amount does not match the tip.' };
+        }
+
+        const required = this.minConfirmations(tip.currency);
+
+        if (transaction.confirmations < required) {
+            return {
+                confirmations: transaction.confirmations,
+                verificationError: `Waiting for confirmations (${transaction.confirmations}/${required}).`,
+            };
+        }
+
+        return {
+            status: TipStatus.COMPLETED,
+            confirmations: transaction.confirmations,
+            verificationError: null,
+            verifiedAt: new Date(),
+        };
+    }
+
+    /**
+     * Store the outcome of a check, unless the tip left PENDING in the meantime
+     */
+    private static async settle(tip: Tip, data: Prisma.TipUpdateManyMutationInput): Promise<Tip> {
+        const { count } = await prisma.tip.updateMany({
+            where: { id: tip.id, status: TipStatus.PENDING },
+            data: {
+                ...data,
+                lastCheckedAt: new Date(),
+                verificationAttempts: { increment: 1 },
+            },
+        });
+
+        const settled = await prisma.tip.findUniqueOrThrow({ where: { id: tip.id } });
+
+        if (count > 0 && data.status) {
+            await TipEventService.record(settled, settled.status as 'COMPLETED' | 'FAILED' | 'EXPIRED', {
+                notes: settled.verificationError,
+                metadata: { txHash: settled.txHash, confirmations: settled.confirmations },
+            });
+
+            if (settled.status === TipStatus.COMPLETED) {
+                await EventStreamService.publish(settled.receiverId, 'tip.received', {
+                    tipId: settled.id,
+                    amount: settled.amount,
+                    currency: settled.currency,
+                    senderId: settled.senderId,
+                });
+
+                await notify(settled.receiverId, 'tip.received', {
+                    title: 'You received a tip',
+                    message: `You received a tip of <b>${settled.amount} ${settled.currency}</b>.${settled.message ? `<br/><br/><i>${escapeHtml(settled.message)}</i>` : ''}`,
+                    path: `/tips/${settled.id}`,
+                    linkTitle: 'View Tip',
+                    data: { tipId: settled.id },
+                });
+            }
+        }
+
+        return settled;
+    }
+}
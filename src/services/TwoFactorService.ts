@@ -0,0 +1,281 @@
+import {
+    decryptTotpSecret,
+    encryptTotpSecret,
+    generateTotpSecret,
+    totpProvisioningUri,
+    verifyTotp,
+} from '../utils/totp';
+
+import { RequestError } from '../utils/errors';
+import { addMinutes } from 'date-fns';
+import argon2 from 'argon2';
+import { config } from '../config';
+import { env } from '../utils/helpers';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { randomBytes } from 'crypto';
+
+/**
+ * Purpose claim carried by login challenge tokens so they can never be
+ * mistaken for (or used as) an access token.
+ */
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+export interface TwoFactorChallengePayload {
+    sub: string;
+    jti: string;
+    purpose: typeof CHALLENGE_PURPOSE;
+}
+
+export interface TwoFactorVerification {
+    method: 'totp' | 'recovery_code';
+    remainingRecoveryCodes?: number;
+}
+
+/**
+ * TwoFactorService
+ *
+ * Handles TOTP based two-factor authentication:
+ * - Enrollment (secret + provisioning URI) and confirmation before enabling
+ * - One-time recovery codes (hashed at rest)
+ * - Short-lived challenge tokens used by the two-step login
+ */
+export class TwoFactorService {
+    static readonly RECOVERY_CODE_COUNT = 10;
+    static readonly CHALLENGE_TTL_MINUTES = 5;
+
+    /**
+     * Check whether a user has confirmed two-factor authentication
+     */
+    static async isEnabled(userId: string): Promise<boolean> {
+        const [credential, preferences] = await Promise.all([
+            prisma.twoFactorAuth.findUnique({ where: { userId } }),
+            prisma.userPreferences.findUnique({ where: { userId } }),
+        ]);
+
+        return !!credential?.confirmedAt && !!preferences?.twoFactorEnabled;
+    }
+
+    /**
+     * Start (or restart) enrollment by generating a fresh secret.
+     * The secret is stored unconfirmed until the user proves possession of it.
+     */
+    static async setup(user: { id: string; email: string }) {
+        const existing = await prisma.twoFactorAuth.findUnique({ where: { userId: user.id } });
+
+        RequestError.abortIf(
+            !!existing?.confirmedAt,
+            'Two-factor authentication is already enabled.',
+            409
+        );
+
+        const secret = generateTotpSecret();
+        const issuer = String(config('app.name') ?? 'Artisyn');
+
+        await prisma.twoFactorAuth.upsert({
+            where: { userId: user.id },
+            update: { secret: encryptTotpSecret(secret), confirmedAt: null, lastUsedStep: null },
+            create: { userId: user.id, secret: encryptTotpSecret(secret) },
+        });
+
+        return {
+            secret,
+            otpauthUrl: totpProvisioningUri(secret, user.email, issuer),
+        };
+    }
+
+    /**
+     * Confirm enrollment with a valid code, enable 2FA and issue recovery codes
+     */
+    static async enable(userId: string, code: string) {
+        const credential = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+        RequestError.assertFound(credential, 'Two-factor authentication has not been set up.', 422);
+        RequestError.abortIf(!!credential.confirmedAt, 'Two-factor authentication is already enabled.', 409);
+
+        const step = verifyTotp(decryptTotpSecret(credential.secret), code);
+        RequestError.abortIf(step === null, 'The authentication code is invalid.', 422);
+
+        await prisma.twoFactorAuth.update({
+            where: { userId },
+            data: { confirmedAt: new Date(), lastUsedStep: step },
+        });
+
+        await prisma.userPreferences.upsert({
+            where: { userId },
+            update: { twoFactorEnabled: true },
+            create: { userId, twoFactorEnabled: true },
+        });
+
+        return this.regenerateRecoveryCodes(userId);
+    }
+
+    /**
+     * Disable 2FA after verifying a current code (TOTP or recovery code)
+     */
+    static async disable(userId: string, code: string) {
+        await this.verify(userId, code);
+
+        await prisma.$transaction([
+            prisma.twoFactorAuth.deleteMany({ where: { userId } }),
+            prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+            prisma.userPreferences.upsert({
+                where: { userId },
+                update: { twoFactorEnabled: false },
+                create: { userId, twoFactorEnabled: false },
+            }),
+        ]);
+    }
+
+    /**
+     * Replace all recovery codes of a user. The plain codes are only ever
+     * returned here, only their hashes are stored.
+     */
+    static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+            const raw = randomBytes(5).toString('hex');
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+
+        const hashes = await Promise.all(codes.map(code => argon2.hash(code)));
+
+        await prisma.$transaction([
+            prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+            prisma.twoFactorRecoveryCode.createMany({
+                data: hashes.map(codeHash => ({ userId, codeHash })),
+            }),
+        ]);
+
+        return codes;
+    }
+
+    /**
+     * Count the unused recovery codes of a user
+     */
+    static async remainingRecoveryCodes(userId: string): Promise<number> {
+        return prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+    }
+
+    /**
+     * Verify a TOTP code or, failing that, consume a recovery code.
+     *
+     * @throws {RequestError} 422 when neither matches
+     */
+    static async verify(userId: string, code: string): Promise<TwoFactorVerification> {
+        const credential = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+        RequestError.abortIf(
+            !credential?.confirmedAt,
+            'Two-factor authentication is not enabled.',
+            422
+        );
+
+        const normalized = String(code ?? '').trim();
+        const step = verifyTotp(decryptTotpSecret(credential!.secret), normalized);
+
+        if (step !== null) {
+            // A code may only be used once, even within its validity window.
+            // Claiming the step in the update keeps two concurrent logins from
+            // both accepting it.
+            const { count } = await prisma.twoFactorAuth.updateMany({
+                where: {
+                    userId,
+                    OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+                },
+                data: { lastUsedStep: step },
+            });
+
+            RequestError.abortIf(count === 0, 'The authentication code has already been used.', 422);
+
+            return { method: 'totp' };
+        }
+
+        const recoveryCodes = await prisma.twoFactorRecoveryCode.findMany({
+            where: { userId, usedAt: null },
+        });
+
+        for (const recoveryCode of recoveryCodes) {
+            let valid = false;
+
+            try {
+                valid = await argon2.verify(recoveryCode.codeHash, normalized.toLowerCase());
+            } catch { }
+
+            if (valid) {
+                const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+                    where: { id: recoveryCode.id, usedAt: null },
+                    data: { usedAt: new Date() },
+                });
+
+                RequestError.abortIf(count === 0, 'The recovery code has already been used.', 422);
+
+                return {
+                    method: 'recovery_code',
+                    remainingRecoveryCodes: recoveryCodes.length - 1,
+                };
+            }
+        }
+
+        throw new RequestError('The authentication code is invalid.', 422);
+    }
+
+    /**
+     * Issue a short-lived token proving the first login step succeeded.
+     * Each token is backed by a challenge that counts the wrong codes entered
+     * with it.
+     */
+    static async createChallengeToken(userId: string): Promise<string> {
+        const challenge = await prisma.twoFactorChallenge.create({
+            data: { userId, expiresAt: addMinutes(new Date(), this.CHALLENGE_TTL_MINUTES) },
+        });
+
+        const payload: Omit<TwoFactorChallengePayload, 'jti'> = { sub: userId, purpose: CHALLENGE_PURPOSE };
+
+        return jwt.sign(payload, env('JWT_SECRET', ''), {
+            jwtid: challenge.id,
+            expiresIn: `${this.CHALLENGE_TTL_MINUTES}m`,
+        });
+    }
+
+    /**
+     * Resolve the challenge of a challenge token
+     *
+     * @throws {RequestError} 401 when the token is invalid, expired, not a challenge
+     * or out of attempts
+     */
+    static async verifyChallengeToken(token: string) {
+        let payload: Partial<TwoFactorChallengePayload> = {};
+
+        try {
+            payload = jwt.verify(String(token), env('JWT_SECRET', '')) as Partial<TwoFactorChallengePayload>;
+        } catch { }
+
+        const challenge = payload.purpose === CHALLENGE_PURPOSE && payload.sub && payload.jti
+            ? await prisma.twoFactorChallenge.findFirst({
+                where: { id: payload.jti, userId: payload.sub, expiresAt: { gt: new Date() } },
+            })
+            : null;
+
+        RequestError.assertFound(challenge, 'The login challenge is invalid or has expired.', 401);
+
+        RequestError.abortIf(
+            challenge.attempts >= Number(config('auth.two_factor_challenge_max_attempts')),
+            'Too many invalid codes, please login again.',
+            401
+        );
+
+        return challenge;
+    }
+
+    /**
+     * Count a wrong code against a challenge
+     *
+     * @param challengeId
+     */
+    static async recordChallengeFailure(challengeId: string) {
+        await prisma.twoFactorChallenge.update({
+            where: { id: challengeId },
+            data: { attempts: { increment: 1 } },
+        });
+    }
+}
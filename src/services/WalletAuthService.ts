@@ -0,0 +1,171 @@
+import { addMinutes, isAfter, isBefore } from 'date-fns';
+import { buildSiweMessage, isAddress, parseSiweMessage, recoverMessageAddress, toChecksumAddress } from '../utils/siwe';
+
+import { RequestError } from '../utils/errors';
+import argon2 from 'argon2';
+import { config } from '../config';
+import { prisma } from '../db';
+import { randomBytes } from 'crypto';
+import { secureOtp } from '../utils/helpers';
+
+/**
+ * WalletAuthService
+ *
+ * Sign-In with Ethereum (EIP-4361): the server hands out a one-time nonce,
+ * the wallet signs a message containing it and the signature is verified
+ * locally by recovering the signing address.
+ */
+export class WalletAuthService {
+    static readonly NONCE_TTL_MINUTES = 10;
+    static readonly DEFAULT_CHAIN_ID = 1;
+
+    /**
+     * The domain (host) messages must be issued for
+     */
+    static domain(): string {
+        return new URL(String(config('app.url') ?? 'http://localhost')).host;
+    }
+
+    /**
+     * Issue a nonce for a wallet and the message it should sign
+     *
+     * @param address
+     * @param chainId
+     * @returns
+     */
+    static async createNonce(address: string, chainId: number = this.DEFAULT_CHAIN_ID) {
+        RequestError.abortIf(!isAddress(address), 'The wallet address is invalid.', 422);
+
+        const now = new Date();
+        const nonce = randomBytes(16).toString('hex');
+        const expiresAt = addMinutes(now, this.NONCE_TTL_MINUTES);
+
+        // Drop stale nonces while we are here
+        await prisma.walletNonce.deleteMany({ where: { expiresAt: { lt: now } } });
+
+        await prisma.walletNonce.create({
+            data: { nonce, address: address.toLowerCase(), expiresAt },
+        });
+
+        const message = buildSiweMessage({
+            domain: this.domain(),
+            address: toChecksumAddress(address),
+            statement: `Sign in to ${config('app.name') ?? 'Artisyn'} with your wallet.`,
+            uri: String(config('app.url')),
+            version: '1',
+            chainId,
+            nonce,
+            issuedAt: now.toISOString(),
+            expirationTime: expiresAt.toISOString(),
+        });
+
+        return { nonce, message, expiresAt };
+    }
+
+    /**
+     * Verify a signed message and consume its nonce
+     *
+     * @param message
+     * @param signature
+     * @returns The checksummed address that signed the message
+     * @throws {RequestError} 401 when the message or signature can not be trusted
+     */
+    static async verify(message: string, signature: string): Promise<string> {
+        const fields = parseSiweMessage(message);
+        const now = new Date();
+
+        RequestError.abortIf(!fields, 'The sign-in message is malformed.', 422);
+        RequestError.abortIf(fields!.domain !== this.domain(), 'The sign-in message was issued for another domain.', 401);
+        RequestError.abortIf(
+            (!!fields!.expirationTime && !isAfter(new Date(fields!.expirationTime), now)) ||
+            (!!fields!.notBefore && isBefore(now, new Date(fields!.notBefore))),
+            'The sign-in message is not valid at this time.',
+            401
+        );
+
+        const signer = recoverMessageAddress(message, signature);
+
+        RequestError.abortIf(
+            !signer || signer.toLowerCase() !== fields!.address.toLowerCase(),
+            'The signature does not match the wallet address.',
+            401
+        );
+
+        // Consume the nonce atomically so a signed message can only be used once
+        const { count } = await prisma.walletNonce.updateMany({
+            where: {
+                nonce: fields!.nonce,
+                address: signer!.toLowerCase(),
+                usedAt: null,
+                expiresAt: { gt: now },
+            },
+            data: { usedAt: now },
+        });
+
+        RequestError.abortIf(count === 0, 'The sign-in nonce is invalid, expired or already used.', 401);
+
+        return signer!;
+    }
+
+    /**
+     * Find the user owning a wallet
+     *
+     * @param address
+     * @returns
+     */
+    static async findUser(address: string) {
+        return prisma.user.findFirst({
+            where: { walletAddress: { equals: address, mode: 'insensitive' } },
+        });
+    }
+
+    /**
+     * Find the user owning a wallet or create an account for it
+     *
+     * @param address
+     * @returns The user and whether it was just created
+     */
+    static async findOrCreateUser(address: string) {
+        const existing = await this.findUser(address);
+
+        if (existing) {
+            return { user: existing, created: false };
+        }
+
+        const checksummed = toChecksumAddress(address);
+        const user = await prisma.user.create({
+            data: {
+                firstName: checksummed.slice(0, 6),
+                lastName: checksummed.slice(-4),
+                // Wallet accounts have no mailbox until the user adds one
+                email: `${checksummed.toLowerCase()}@wallet.invalid`,
+                password: await argon2.hash(secureOtp(32)),
+                walletAddress: checksummed,
+            },
+        });
+
+        return { user, created: true };
+    }
+
+    /**
+     * Attach a verified wallet to an existing account
+     *
+     * @param userId
+     * @param address
+     * @returns
+     */
+    static async link(userId: string, address: string) {
+        const owner = await this.findUser(address);
+
+        RequestError.abortIf(
+            !!owner && owner.id !== userId,
+            'This wallet is already linked to another account.',
+            409
+        );
+
+        return prisma.user.update({
+            where: { id: userId },
+            data: { walletAddress: toChecksumAddress(address) },
+        });
+    }
+}
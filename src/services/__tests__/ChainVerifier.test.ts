@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { EthereumVerifier } from 'src/services/chain/EthereumVerifier';
+import { StellarVerifier } from 'src/services/chain/StellarVerifier';
+
+const HASH = 'a'.repeat(64);
+
+describe('Chain verifiers', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should give up on slow requests and report the transaction as not found yet', async () => {
+        const fetch = vi.fn((_url: unknown, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+        }));
+        vi.stubGlobal('fetch', fetch);
+
+        await expect(new StellarVerifier('https://horizon.test', '', 10).lookup(HASH)).resolves.toBeNull();
+        await expect(new EthereumVerifier('https://rpc.test', 10).lookup(`0x${HASH}`)).resolves.toBeNull();
+        expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should still throw when the chain can not be reached', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+        await expect(new StellarVerifier('https://horizon.test', '', 10).lookup(HASH)).rejects.toThrow('fetch failed');
+        await expect(new EthereumVerifier('https://rpc.test', 10).lookup(`0x${HASH}`)).rejects.toThrow('fetch failed');
+    });
+});
@@ -0,0 +1,53 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { subDays, subHours } from 'date-fns';
+
+import { ExchangeRateService } from 'src/services/ExchangeRateService';
+import { FileRateProvider } from 'src/services/rates/FileRateProvider';
+import { prisma } from 'src/db';
+
+describe('ExchangeRateService', () => {
+    describe('providers', () => {
+        it('should read rates from the configured file', async () => {
+            const provider = ExchangeRateService.provider();
+
+            expect(provider).toBeInstanceOf(FileRateProvider);
+            expect(await provider.rates(['XLM', 'ETH'], ['USD', 'JPY'])).toEqual([
+                { base: 'XLM', quote: 'USD', rate: 0.12 },
+                { base: 'ETH', quote: 'USD', rate: 2500 },
+            ]);
+        });
+    });
+
+    describe('conversion', () => {
+        // A quote no other test snapshots, so the history below is the only one
+        const quote = 'ZZZ';
+
+        afterAll(async () => {
+            await prisma.exchangeRate.deleteMany({ where: { quote } });
+        });
+
+        it('should convert tips at the rate of their timestamp', async () => {
+            await prisma.exchangeRate.createMany({
+                data: [
+                    { base: 'XLM', quote, rate: 0.1, source: 'test', capturedAt: subDays(new Date(), 10) },
+                    { base: 'XLM', quote, rate: 0.2, source: 'test', capturedAt: subDays(new Date(), 5) },
+                    { base: 'XLM', quote, rate: 0.3, source: 'test', capturedAt: subHours(new Date(), 1) },
+                ],
+            });
+
+            const [early, middle, recent, unknown] = await ExchangeRateService.convertTips([
+                { amount: 10, currency: 'XLM', createdAt: subDays(new Date(), 20) },
+                { amount: 10, currency: 'XLM', createdAt: subDays(new Date(), 7), verifiedAt: subDays(new Date(), 4) },
+                { amount: 10, currency: 'XLM', createdAt: new Date() },
+                { amount: 1, currency: 'ETH', createdAt: new Date() },
+            ], quote);
+
+            // Tips older than every snapshot use the earliest one
+            expect(early.converted).toMatchObject({ currency: quote, amount: 1, rate: 0.1 });
+            // Verified tips are converted at the time they were verified
+            expect(middle.converted).toMatchObject({ amount: 2, rate: 0.2 });
+            expect(recent.converted).toMatchObject({ amount: 3, rate: 0.3 });
+            expect(unknown.converted).toBeNull();
+        });
+    });
+});
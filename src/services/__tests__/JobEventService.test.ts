@@ -0,0 +1,84 @@
+import { JobEvent, Prisma } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+
+import { JobEventService } from 'src/services/JobEventService';
+
+/**
+ * In-memory stand-in for the transaction client, keeping events the way the database would
+ */
+const memoryTransaction = (events: JobEvent[]) => ({
+    $executeRaw: async () => 0,
+    jobEvent: {
+        findFirst: async () => events.at(-1) ?? null,
+        create: async ({ data }: { data: Omit<JobEvent, 'id'> }) => {
+            const event = { ...data, id: `event-${events.length + 1}`, metadata: data.metadata ?? null } as JobEvent;
+
+            events.push(event);
+
+            return event;
+        },
+    },
+}) as unknown as Prisma.TransactionClient;
+
+describe('JobEventService', () => {
+    const history = async () => {
+        const events: JobEvent[] = [];
+        const tx = memoryTransaction(events);
+
+        await JobEventService.record(tx, {
+            applicationId: 'application',
+            subject: 'APPLICATION',
+            action: 'CREATED',
+            toStatus: 'PENDING',
+            performedBy: 'applicant',
+        });
+        await JobEventService.record(tx, {
+            applicationId: 'application',
+            subject: 'APPLICATION',
+            action: 'STATUS_CHANGED',
+            fromStatus: 'PENDING',
+            toStatus: 'ACCEPTED',
+            performedBy: 'curator',
+        });
+        await JobEventService.record(tx, {
+            applicationId: 'application',
+            jobId: 'job',
+            subject: 'JOB',
+            action: 'TERMS_SET',
+            performedBy: 'curator',
+            metadata: { price: 100, currency: 'XLM' },
+        });
+
+        return events;
+    };
+
+    it('should chain every event to the previous one', async () => {
+        const events = await history();
+
+        expect(events[0].previousHash).toBeNull();
+        expect(events[1].previousHash).toBe(events[0].hash);
+        expect(events[2].previousHash).toBe(events[1].hash);
+        expect(events[2].createdAt > events[1].createdAt).toBe(true);
+        expect(JobEventService.verify(events)).toEqual({ verified: true, brokenAt: null });
+    });
+
+    it('should not depend on the order of metadata keys', async () => {
+        const events = await history();
+
+        events[2] = { ...events[2], metadata: { currency: 'XLM', price: 100 } };
+
+        expect(JobEventService.verify(events).verified).toBe(true);
+    });
+
+    it('should detect altered and removed events', async () => {
+        const altered = await history();
+        altered[1] = { ...altered[1], performedBy: 'someone-else' };
+
+        expect(JobEventService.verify(altered)).toEqual({ verified: false, brokenAt: 'event-2' });
+
+        const removed = await history();
+        removed.splice(1, 1);
+
+        expect(JobEventService.verify(removed)).toEqual({ verified: false, brokenAt: 'event-3' });
+    });
+});
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { PasswordPolicyService } from 'src/services/PasswordPolicyService';
+import { ValidationError } from 'src/utils/errors';
+import argon2 from 'argon2';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+
+describe('PasswordPolicyService', () => {
+    describe('violations', () => {
+        it('should accept a password that satisfies the policy', () => {
+            expect(PasswordPolicyService.violations('Correct-Horse-9')).toEqual([]);
+        });
+
+        it('should report every broken rule', () => {
+            const violations = PasswordPolicyService.violations('abc');
+
+            expect(violations).toEqual(expect.arrayContaining([
+                expect.stringContaining('at least 8 characters'),
+                expect.stringContaining('uppercase and one lowercase'),
+                expect.stringContaining('number'),
+                expect.stringContaining('symbol'),
+            ]));
+        });
+
+        it('should reject common and breached passwords regardless of case', () => {
+            expect(PasswordPolicyService.isCommon('P@ssw0rd!')).toBe(true);
+            expect(PasswordPolicyService.violations('Welcome123!')).toEqual([
+                expect.stringContaining('too common'),
+            ]);
+        });
+
+        it('should throw a field level validation error', () => {
+            expect(() => PasswordPolicyService.assertValid('short')).toThrow(ValidationError);
+
+            try {
+                PasswordPolicyService.assertValid('short');
+            } catch (error) {
+                expect((error as ValidationError).errors.password).toBeInstanceOf(Array);
+            }
+        });
+    });
+
+    describe('history', () => {
+        let userId: string;
+
+        beforeAll(async () => {
+            const user = await prisma.user.create({
+                data: {
+                    email: faker.internet.email().toLowerCase(),
+                    password: await argon2.hash('Original-Pass1'),
+                    firstName: 'Password',
+                    lastName: 'History',
+                },
+            });
+
+            userId = user.id;
+        });
+
+        afterAll(async () => {
+            await prisma.user.deleteMany({ where: { id: userId } });
+        });
+
+        const user = () => prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+        it('should not allow reusing the current password', async () => {
+            await expect(PasswordPolicyService.update(await user(), 'Original-Pass1')).rejects.toThrow(ValidationError);
+        });
+
+        it('should not allow reusing a recent password', async () => {
+            await PasswordPolicyService.update(await user(), 'Second-Pass2');
+            await PasswordPolicyService.update(await user(), 'Third-Pass3');
+
+            await expect(PasswordPolicyService.update(await user(), 'Second-Pass2')).rejects.toThrow(ValidationError);
+        });
+
+        it('should only keep the configured number of hashes', async () => {
+            for (let i = 4; i <= 10; i++) {
+                await PasswordPolicyService.update(await user(), `Rotated-Pass${i}`);
+            }
+
+            expect(await prisma.passwordHistory.count({ where: { userId } })).toBe(5);
+
+            // Passwords older than the history may be used again
+            await PasswordPolicyService.update(await user(), 'Second-Pass2');
+        });
+    });
+});
@@ -111,6 +111,25 @@ describe('PrivacyGuard', () => {
             const result = await PrivacyGuard.canSendDirectMessage(otherUserId, userId);
             expect(result.allowed).toBe(true);
         });
+
+        it('blocks direct messages between users who blocked each other', async () => {
+            await prisma.privacySettings.create({
+                data: { userId: otherUserId, blockList: [userId] },
+            });
+
+            expect((await PrivacyGuard.canSendDirectMessage(otherUserId, userId)).allowed).toBe(false);
+            expect((await PrivacyGuard.canSendDirectMessage(userId, otherUserId)).allowed).toBe(false);
+            expect((await PrivacyGuard.canSendMessage(userId, otherUserId)).allowed).toBe(false);
+        });
+
+        it('blocks direct messages from restricted users only', async () => {
+            await prisma.privacySettings.create({
+                data: { userId, restrictedList: [otherUserId] },
+            });
+
+            expect((await PrivacyGuard.canSendDirectMessage(otherUserId, userId)).allowed).toBe(false);
+            expect((await PrivacyGuard.canSendMessage(otherUserId, userId)).allowed).toBe(true);
+        });
     });
 
     // -----------------------------------------------------------------------
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { RatingService } from 'src/services/RatingService';
+import { prisma } from 'src/db';
+
+vi.mock('src/db', () => ({
+    prisma: {
+        $transaction: vi.fn(),
+        review: { groupBy: vi.fn() },
+        artisan: { findMany: vi.fn() },
+        ratingAggregate: {
+            upsert: vi.fn(),
+            deleteMany: vi.fn(),
+            createMany: vi.fn(),
+        },
+    },
+}));
+
+describe('RatingService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should store the average, distribution and weighted score of approved reviews', async () => {
+        (prisma.review.groupBy as any).mockResolvedValue([
+            { rating: 5, _count: { _all: 3 } },
+            { rating: 2, _count: { _all: 1 } },
+        ]);
+
+        await RatingService.refresh({ targetId: 'curator', artisanId: 'artisan' });
+
+        const [[forUser], [forArtisan]] = (prisma.ratingAggregate.upsert as any).mock.calls;
+
+        expect(forUser.where).toEqual({ userId: 'curator' });
+        expect(forArtisan.where).toEqual({ artisanId: 'artisan' });
+        expect(forArtisan.create).toMatchObject({
+            artisanId: 'artisan',
+            average: 4.25,
+            count: 4,
+            distribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 3 },
+        });
+        // Five reviews at the prior mean of 3, plus the actual ones
+        expect(forArtisan.update.score).toBeCloseTo((3 * 5 + 17) / 9);
+    });
+
+    it('should refresh each subject once', async () => {
+        (prisma.review.groupBy as any).mockResolvedValue([]);
+
+        await RatingService.refresh(
+            { targetId: 'curator', artisanId: 'artisan' },
+            { targetId: 'curator', artisanId: null },
+        );
+
+        expect(prisma.ratingAggregate.upsert).toHaveBeenCalledTimes(2);
+        expect((prisma.ratingAggregate.upsert as any).mock.calls[0][0].update).toMatchObject({
+            average: 0,
+            count: 0,
+            score: 3,
+        });
+    });
+
+    it('should rebuild every aggregate from the reviews, unrated artisans included', async () => {
+        (prisma.review.groupBy as any)
+            .mockResolvedValueOnce([
+                { artisanId: 'a', rating: 4, _count: { _all: 2 } },
+                { artisanId: 'b', rating: 1, _count: { _all: 1 } },
+            ])
+            .mockResolvedValueOnce([
+                { targetId: 'curator', rating: 4, _count: { _all: 2 } },
+                { targetId: 'curator', rating: 1, _count: { _all: 1 } },
+            ]);
+        (prisma.artisan.findMany as any).mockResolvedValue([{ id: 'c' }]);
+
+        expect(await RatingService.rebuild()).toEqual({ artisans: 3, users: 1 });
+
+        const [{ data }] = (prisma.ratingAggregate.createMany as any).mock.calls[0];
+
+        expect(data).toHaveLength(4);
+        expect(data[2]).toMatchObject({ artisanId: 'c', average: 0, count: 0, score: 3 });
+        expect(data[3]).toMatchObject({ userId: 'curator', average: 3, count: 3 });
+    });
+});
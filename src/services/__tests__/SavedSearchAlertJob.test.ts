@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Prisma } from '@prisma/client';
+import { SavedSearchAlertJob } from 'src/services/SavedSearchAlertJob';
+import { notify } from 'src/services/notificationService';
+import { prisma } from 'src/db';
+
+vi.mock('src/db', () => ({
+    prisma: {
+        savedSearch: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+        location: { aggregate: vi.fn() },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock('src/services/notificationService', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('src/services/notificationService')>()),
+    notify: vi.fn(),
+}));
+
+vi.mock('src/services/FullTextSearchService', () => ({
+    FullTextSearchService: { query: vi.fn() },
+}));
+
+const NOW = new Date('2026-10-20T08:15:00Z');
+const LAST_RUN = new Date('2026-10-19T08:00:00Z');
+
+const savedSearch = (overrides: Record<string, unknown> = {}) => ({
+    id: 'search',
+    userId: 'user',
+    name: 'Lagos potters',
+    filters: { category: 'Pottery', isVerified: true, isActive: true },
+    pausedAt: null,
+    lastRunAt: LAST_RUN,
+    createdAt: new Date('2026-10-01T08:00:00Z'),
+    updatedAt: new Date('2026-10-01T08:00:00Z'),
+    user: { id: 'user' },
+    ...overrides,
+});
+
+// The SQL and values of the artisan query
+const artisanQuery = () => {
+    const [strings, ...values] = (prisma.$queryRaw as any).mock.calls[0];
+
+    return Prisma.sql(strings, ...values);
+};
+
+describe('SavedSearchAlertJob', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.savedSearch.updateMany as any).mockResolvedValue({ count: 1 });
+        (notify as any).mockResolvedValue([{ channel: 'in-app', success: true }]);
+    });
+
+    it('should notify users of artisans created or verified since the last run', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch()]);
+        (prisma.$queryRaw as any).mockResolvedValue([
+            { id: 'a', name: 'Clay Studio' },
+            { id: 'b', name: 'Kiln House' },
+        ]);
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        const { sql, values } = artisanQuery();
+
+        expect(prisma.savedSearch.updateMany).toHaveBeenCalledWith({
+            where: { id: 'search', lastRunAt: LAST_RUN },
+            data: { lastRunAt: NOW },
+        });
+        expect(sql).toContain('lower(c."name") = lower(?)');
+        expect(sql).toContain('(a."createdAt" > ? OR a."verifiedAt" > ?)');
+        expect(values).toEqual(expect.arrayContaining(['Pottery', LAST_RUN]));
+        expect(summary).toEqual({ searched: 1, notified: 1, paused: 0, errors: [] });
+        expect(notify).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'user' }),
+            'search.new_matches',
+            expect.objectContaining({ data: { savedSearchId: 'search', artisanIds: ['a', 'b'] } }),
+        );
+    });
+
+    it('should only select the searches whose digest frequency passed since their last run', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([]);
+
+        await SavedSearchAlertJob.run(NOW);
+
+        const { where } = (prisma.savedSearch.findMany as any).mock.calls[0][0];
+        const [daily, weekly, monthly] = where.OR;
+
+        expect(where.pausedAt).toBeNull();
+        expect(daily.AND).toEqual([
+            { user: { preferences: { is: { digestFrequency: 'daily' } } } },
+            {
+                OR: [
+                    { lastRunAt: { lte: new Date('2026-10-19T08:15:00Z') } },
+                    { lastRunAt: null, createdAt: { lte: new Date('2026-10-19T08:15:00Z') } },
+                ],
+            },
+        ]);
+        expect(weekly.AND[0].OR).toContainEqual({ user: { preferences: { is: null } } });
+        expect(weekly.AND[1].OR[0]).toEqual({ lastRunAt: { lte: new Date('2026-10-13T08:15:00Z') } });
+        expect(monthly.AND[1].OR[0]).toEqual({ lastRunAt: { lte: new Date('2026-09-20T08:15:00Z') } });
+    });
+
+    it('should skip searches another run already claimed', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch()]);
+        (prisma.savedSearch.updateMany as any).mockResolvedValue({ count: 0 });
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        expect(summary.searched).toBe(0);
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should hand the run back when a search fails', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch()]);
+        (prisma.$queryRaw as any).mockRejectedValue(new Error('Database unavailable'));
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        expect(summary.errors).toEqual([{ savedSearchId: 'search', message: 'Database unavailable' }]);
+        expect(prisma.savedSearch.updateMany).toHaveBeenLastCalledWith({
+            where: { id: 'search', lastRunAt: NOW },
+            data: { lastRunAt: LAST_RUN },
+        });
+    });
+
+    it('should hand the run back when the notification could not be kept', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch()]);
+        (prisma.$queryRaw as any).mockResolvedValue([{ id: 'a', name: 'Clay Studio' }]);
+        (notify as any).mockResolvedValue([{ channel: 'in-app', success: false, error: 'Database unavailable' }]);
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        expect(summary).toMatchObject({ notified: 0, errors: [{ savedSearchId: 'search', message: 'Database unavailable' }] });
+        expect(prisma.savedSearch.updateMany).toHaveBeenLastCalledWith({
+            where: { id: 'search', lastRunAt: NOW },
+            data: { lastRunAt: LAST_RUN },
+        });
+    });
+
+    it('should pause searches near a place that no longer matches any location', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch({ filters: { near: 'Atlantis', radius: 25 } })]);
+        (prisma.location.aggregate as any).mockResolvedValue({ _avg: { latitude: null, longitude: null } });
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        expect(summary).toEqual({ searched: 0, notified: 0, paused: 1, errors: [] });
+        expect(prisma.savedSearch.update).toHaveBeenCalledWith({ where: { id: 'search' }, data: { pausedAt: NOW } });
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+        expect(notify).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'user' }),
+            'search.paused',
+            expect.objectContaining({ data: { savedSearchId: 'search' } }),
+        );
+    });
+
+    it('should not notify when nothing new matches', async () => {
+        (prisma.savedSearch.findMany as any).mockResolvedValue([savedSearch({ lastRunAt: null })]);
+        (prisma.$queryRaw as any).mockResolvedValue([]);
+
+        const summary = await SavedSearchAlertJob.run(NOW);
+
+        expect(artisanQuery().values.at(-1)).toEqual(new Date('2026-10-01T08:00:00Z'));
+        expect(summary.notified).toBe(0);
+        expect(notify).not.toHaveBeenCalled();
+    });
+});
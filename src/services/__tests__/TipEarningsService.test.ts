@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { PrivacyLevel } from '@prisma/client';
+import { TipEarningsService } from 'src/services/TipEarningsService';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+
+describe('TipEarningsService', () => {
+    const statement = {
+        month: '2026-09',
+        from: new Date('2026-09-01T00:00:00Z'),
+        to: new Date('2026-09-30T23:59:59Z'),
+        receiverId: 'curator',
+        rows: [{
+            date: new Date('2026-09-12T10:00:00Z'),
+            tipId: 'tip-1',
+            supporter: '=HYPERLINK("x"), Jane',
+            receiver: 'Curator',
+            artisan: 'Pottery',
+            currency: 'XLM',
+            amount: 12.5,
+            txHash: 'hash',
+        }],
+        totals: [{ currency: 'XLM', total: 12.5, count: 1 }],
+    };
+
+    describe('rendering', () => {
+        it('should render statements as escaped CSV', () => {
+            const [header, row] = TipEarningsService.toCsv(statement).split('\n');
+
+            expect(header).toBe('date,tip_id,supporter,receiver,artisan,currency,amount,tx_hash');
+            expect(row).toBe('2026-09-12T10:00:00.000Z,tip-1,"\'=HYPERLINK(""x""), Jane",Curator,Pottery,XLM,12.5,hash');
+        });
+
+        it('should render statements as a PDF document', () => {
+            const pdf = TipEarningsService.toPdf(statement, 'Statement (September)').toString('latin1');
+
+            expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+            expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+            expect(pdf).toContain('(Statement \\(September\\)) Tj');
+            expect(pdf).toContain('Pottery');
+
+            // The cross reference table must point at the objects
+            const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+            expect(pdf.slice(xref).startsWith('xref')).toBe(true);
+        });
+    });
+
+    describe('report', () => {
+        const userIds: string[] = [];
+
+        afterAll(async () => {
+            await prisma.tip.deleteMany({ where: { receiverId: { in: userIds } } });
+            await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+        });
+
+        it('should total completed tips and hide private supporters', async () => {
+            const [curator, fan, shy] = await Promise.all([0, 1, 2].map(() => prisma.user.create({
+                data: {
+                    email: faker.internet.email().toLowerCase(),
+                    password: 'password',
+                    firstName: faker.person.firstName(),
+                    lastName: faker.person.lastName(),
+                },
+            })));
+            userIds.push(curator.id, fan.id, shy.id);
+
+            await prisma.privacySettings.create({
+                data: { userId: shy.id, profileVisibility: PrivacyLevel.PRIVATE },
+            });
+
+            const tip = (senderId: string, amount: number, currency = 'XLM', status: 'COMPLETED' | 'REFUNDED' = 'COMPLETED') => ({
+                senderId, amount, currency, status, receiverId: curator.id, verifiedAt: new Date(),
+            });
+
+            await prisma.tip.createMany({
+                data: [
+                    tip(fan.id, 1.1),
+                    tip(fan.id, 2.2),
+                    tip(fan.id, 1, 'ETH'),
+                    tip(shy.id, 5),
+                    tip(shy.id, 100, 'XLM', 'REFUNDED'),
+                ],
+            });
+
+            const report = await TipEarningsService.report(
+                { ...TipEarningsService.range('day'), receiverId: curator.id },
+                { period: 'day', viewerId: curator.id },
+            );
+
+            expect(report.totals).toEqual([
+                { currency: 'ETH', total: 1, count: 1 },
+                { currency: 'XLM', total: 8.3, count: 3 },
+            ]);
+            expect(report.timeline).toHaveLength(1);
+            expect(report.artisans).toEqual([expect.objectContaining({ artisanId: null, count: 4 })]);
+            expect(report.supporters).toEqual([
+                expect.objectContaining({ id: fan.id, anonymous: false, count: 3 }),
+                expect.objectContaining({ id: null, name: 'Anonymous', anonymous: true, count: 1 }),
+            ]);
+            expect(report.receivers).toBeUndefined();
+        });
+    });
+});
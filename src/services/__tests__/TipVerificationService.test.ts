@@ -0,0 +1,119 @@
+import { Tip, TipStatus } from '@prisma/client';
+import { TipVerificationService, toBaseUnits } from 'src/services/TipVerificationService';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { TipVerificationJob } from 'src/services/TipVerificationJob';
+import { faker } from '@faker-js/faker';
+import { prisma } from 'src/db';
+import { subHours } from 'date-fns';
+
+describe('TipVerificationService', () => {
+    const chain = TipVerificationService.fake();
+    const recipient = 'GRECIPIENT';
+
+    const tip = (overrides: Partial<Tip> = {}) => ({
+        id: 'tip',
+        amount: 12.5,
+        currency: 'XLM',
+        status: TipStatus.PENDING,
+        txHash: 'hash',
+        recipientAddress: recipient,
+        ...overrides,
+    }) as Tip;
+
+    beforeEach(() => {
+        chain.clear();
+    });
+
+    describe('check', () => {
+        it('should convert amounts to exact base units', () => {
+            expect(toBaseUnits(0.1, 7)).toBe(1000000n);
+            expect(toBaseUnits('0.1000000', 7)).toBe(1000000n);
+            expect(toBaseUnits('1.000000000000000001', 18)).toBe(1000000000000000001n);
+        });
+
+        it('should complete a confirmed payment of the exact amount to the recipient', () => {
+            const transaction = chain.add('hash', [{ to: recipient, amount: '12.5000000', currency: 'XLM' }]);
+
+            expect(TipVerificationService.check(tip(), transaction)).toMatchObject({ status: TipStatus.COMPLETED });
+        });
+
+        it('should keep the tip pending while the transaction is unknown', () => {
+            expect(TipVerificationService.check(tip(), null).status).toBeUndefined();
+        });
+
+        it('should fail payments to another address, of another amount or currency', () => {
+            const wrongRecipient = chain.add('a', [{ to: 'GSOMEONEELSE', amount: '12.5', currency: 'XLM' }]);
+            const wrongAmount = chain.add('b', [{ to: recipient, amount: '12.4', currency: 'XLM' }]);
+            const wrongCurrency = chain.add('c', [{ to: recipient, amount: '12.5', currency: 'USDC' }]);
+            const reverted = chain.add('d', [{ to: recipient, amount: '12.5', currency: 'XLM' }], { successful: false });
+
+            for (const transaction of [wrongRecipient, wrongAmount, wrongCurrency, reverted]) {
+                expect(TipVerificationService.check(tip(), transaction).status).toBe(TipStatus.FAILED);
+            }
+        });
+
+        it('should fail transactions not sent from the sender address', () => {
+            const transaction = chain.add('hash', [{ to: recipient, amount: '12.5', currency: 'XLM' }], { from: 'GSTRANGER' });
+
+            expect(TipVerificationService.check(tip({ senderAddress: 'GSENDER' }), transaction).status).toBe(TipStatus.FAILED);
+            expect(TipVerificationService.check(tip({ senderAddress: 'gstranger' }), transaction).status).toBe(TipStatus.COMPLETED);
+        });
+
+        it('should accept overpayments when the amount is a minimum', () => {
+            const transaction = chain.add('hash', [{ to: recipient, amount: '13', currency: 'XLM' }]);
+
+            expect(TipVerificationService.check(tip(), transaction).status).toBe(TipStatus.FAILED);
+            expect(TipVerificationService.check(tip(), transaction, { exact: false }).status).toBe(TipStatus.COMPLETED);
+        });
+
+        it('should wait for the required confirmations', () => {
+            const transaction = chain.add('hash', [{ to: '0xrecipient', amount: '1', currency: 'ETH' }], { confirmations: 3 });
+            const result = TipVerificationService.check(
+                tip({ currency: 'ETH', amount: 1, recipientAddress: '0xRecipient' }),
+                transaction
+            );
+
+            expect(result.status).toBeUndefined();
+            expect(result.verificationError).toContain('3/12');
+        });
+    });
+
+    describe('job', () => {
+        const userIds: string[] = [];
+
+        afterAll(async () => {
+            await prisma.tip.deleteMany({ where: { senderId: { in: userIds } } });
+            await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+        });
+
+        it('should verify pending tips and expire stale ones', async () => {
+            const [sender, receiver] = await Promise.all([0, 1].map(() => prisma.user.create({
+                data: {
+                    email: faker.internet.email().toLowerCase(),
+                    password: 'password',
+                    firstName: 'Tip',
+                    lastName: 'Job',
+                },
+            })));
+            userIds.push(sender.id, receiver.id);
+
+            const base = { amount: 3, currency: 'XLM', senderId: sender.id, receiverId: receiver.id };
+            const txHash = faker.string.hexadecimal({ length: 64 });
+
+            const paid = await prisma.tip.create({
+                data: { ...base, txHash, recipientAddress: recipient, expiresAt: TipVerificationService.expiresAt() },
+            });
+            const stale = await prisma.tip.create({
+                data: { ...base, expiresAt: subHours(new Date(), 1) },
+            });
+
+            chain.add(txHash, [{ to: recipient, amount: '3', currency: 'XLM' }]);
+
+            await TipVerificationJob.run();
+
+            expect((await prisma.tip.findUniqueOrThrow({ where: { id: paid.id } })).status).toBe(TipStatus.COMPLETED);
+            expect((await prisma.tip.findUniqueOrThrow({ where: { id: stale.id } })).status).toBe(TipStatus.EXPIRED);
+        });
+    });
+});
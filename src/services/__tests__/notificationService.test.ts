@@ -7,6 +7,11 @@ vi.mock('src/mailer/mailer', () => ({
   sendMail: vi.fn().mockResolvedValue(null),
 }));
 
+// User notifications are covered by the notifications controller tests
+vi.mock('src/config', () => ({ config: vi.fn() }));
+vi.mock('src/db', () => ({ prisma: {} }));
+vi.mock('../EventStreamService', () => ({ EventStreamService: {} }));
+
 // Track env overrides per test
 let envOverrides: Record<string, string | undefined> = {};
 
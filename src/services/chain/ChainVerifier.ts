@@ -0,0 +1,80 @@
+import { config } from 'src/config';
+
+/**
+ * Currencies tips can be sent in
+ */
+export const TIP_CURRENCIES = ['XLM', 'USDC', 'ETH'] as const;
+
+export type TipCurrency = typeof TIP_CURRENCIES[number];
+
+/**
+ * Time a chain gets to answer a request, in milliseconds
+ */
+export const requestTimeout = (): number => Number(config('chain.request_timeout_seconds') ?? 10) * 1000;
+
+/**
+ * Check whether a request was aborted by its AbortSignal.timeout()
+ */
+export const isTimeout = (error: unknown): boolean => error instanceof Error && error.name === 'TimeoutError';
+
+/**
+ * A single transfer of value found in a transaction
+ */
+export interface ChainTransfer {
+    /** Destination address */
+    to: string;
+    /** Amount in whole currency units, as a decimal string */
+    amount: string;
+    currency: TipCurrency;
+}
+
+/**
+ * A transaction as seen on chain, normalized by a verifier
+ */
+export interface ChainTransaction {
+    hash: string;
+    /** Account that sent and signed the transaction */
+    from: string;
+    /** Whether the transaction was applied, failed transactions move no value */
+    successful: boolean;
+    /** Number of blocks / ledgers that include the transaction, 1 when it was just included */
+    confirmations: number;
+    transfers: ChainTransfer[];
+}
+
+/**
+ * Chain Verifier
+ *
+ * Looks transactions up on a chain so tips can be checked against what was
+ * actually transferred. One verifier is registered per tip currency, see
+ * TipVerificationService.
+ */
+export interface ChainVerifier {
+    /**
+     * Name of the network, for logs and failure reasons
+     */
+    readonly network: string;
+
+    /**
+     * Number of decimals amounts of a currency are compared with
+     */
+    decimals (currency: TipCurrency): number;
+
+    /**
+     * Check whether a string is a valid receiving address on this chain
+     */
+    isAddress (address: string): boolean;
+
+    /**
+     * Check whether a string looks like a transaction hash on this chain
+     */
+    isTransactionHash (hash: string): boolean;
+
+    /**
+     * Look a transaction up by its hash
+     *
+     * @returns null when the transaction is not known (yet) or the chain did not answer in time
+     * @throws when the chain can not be reached
+     */
+    lookup (hash: string): Promise<ChainTransaction | null>;
+}
@@ -0,0 +1,125 @@
+import { ChainTransaction, ChainVerifier, isTimeout, requestTimeout } from './ChainVerifier';
+
+import { config } from 'src/config';
+import { isAddress } from 'src/utils/siwe';
+
+interface RpcTransaction {
+    from: string;
+    to: string | null;
+    value: string;
+    blockNumber: string | null;
+}
+
+interface RpcReceipt {
+    status: string;
+    blockNumber: string;
+}
+
+/**
+ * Ethereum Verifier
+ *
+ * Verifies native ETH transfers through a JSON-RPC endpoint. Value moved by
+ * contract calls (internal transactions, tokens) is not considered.
+ */
+export class EthereumVerifier implements ChainVerifier {
+    readonly network = 'ethereum';
+
+    constructor(
+        private readonly rpcUrl: string = String(config('chain.eth_rpc_url') ?? ''),
+        private readonly timeout: number = requestTimeout(),
+    ) { }
+
+    decimals (): number {
+        return 18;
+    }
+
+    isAddress (address: string): boolean {
+        return isAddress(address);
+    }
+
+    isTransactionHash (hash: string): boolean {
+        return /^0x[0-9a-f]{64}$/i.test(hash);
+    }
+
+    async lookup (hash: string): Promise<ChainTransaction | null> {
+        try {
+            return await this.find(hash);
+        } catch (error) {
+            // A slow RPC endpoint only delays the verification to the next check
+            if (isTimeout(error)) {
+                return null;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Look a transaction up, requests share one timeout each
+     */
+    private async find (hash: string): Promise<ChainTransaction | null> {
+        const transaction = await this.call<RpcTransaction | null>('eth_getTransactionByHash', [hash]);
+
+        // Transactions still in the mempool have no block yet
+        if (!transaction?.blockNumber) {
+            return null;
+        }
+
+        const [receipt, latest] = await Promise.all([
+            this.call<RpcReceipt | null>('eth_getTransactionReceipt', [hash]),
+            this.call<string>('eth_blockNumber', []),
+        ]);
+
+        if (!receipt) {
+            return null;
+        }
+
+        return {
+            hash,
+            from: transaction.from,
+            successful: receipt.status === '0x1',
+            confirmations: Math.max(0, Number(BigInt(latest) - BigInt(receipt.blockNumber)) + 1),
+            transfers: transaction.to
+                ? [{ to: transaction.to, amount: this.formatWei(BigInt(transaction.value)), currency: 'ETH' }]
+                : [],
+        };
+    }
+
+    /**
+     * Format an amount of wei as a decimal ETH string
+     */
+    private formatWei (wei: bigint): string {
+        const whole = wei / 10n ** 18n;
+        const fraction = (wei % 10n ** 18n).toString().padStart(18, '0').replace(/0+$/, '');
+
+        return fraction ? `${whole}.${fraction}` : whole.toString();
+    }
+
+    /**
+     * Call a JSON-RPC method
+     */
+    private async call<T> (method: string, params: unknown[]): Promise<T> {
+        if (!this.rpcUrl) {
+            throw new Error('No Ethereum RPC endpoint is configured');
+        }
+
+        const response = await fetch(this.rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            throw new Error(`The Ethereum RPC endpoint responded with ${response.status}`);
+        }
+
+        const payload = await response.json() as { result: T, error?: { message: string } };
+
+        if (payload.error) {
+            throw new Error(payload.error.message);
+        }
+
+        return payload.result;
+    }
+}
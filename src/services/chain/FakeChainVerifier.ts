@@ -0,0 +1,61 @@
+import { ChainTransaction, ChainTransfer, ChainVerifier } from './ChainVerifier';
+
+/**
+ * Fake Chain Verifier
+ *
+ * In-process verifier for tests and local development. Transactions are
+ * recorded with `add` and looked up from memory, any address and hash format
+ * is accepted.
+ */
+export class FakeChainVerifier implements ChainVerifier {
+    readonly network = 'fake';
+
+    private transactions = new Map<string, ChainTransaction>();
+
+    decimals (): number {
+        return 7;
+    }
+
+    isAddress (address: string): boolean {
+        return address.length > 0;
+    }
+
+    isTransactionHash (hash: string): boolean {
+        return hash.length > 0;
+    }
+
+    async lookup (hash: string): Promise<ChainTransaction | null> {
+        return this.transactions.get(hash) ?? null;
+    }
+
+    /**
+     * Record a transaction, replacing any earlier one with the same hash
+     *
+     * @param hash
+     * @param transfers
+     * @param options
+     * @returns
+     */
+    add (
+        hash: string,
+        transfers: ChainTransfer[],
+        {
+            confirmations = 1,
+            successful = true,
+            from = '',
+        }: { confirmations?: number, successful?: boolean, from?: string } = {}
+    ) {
+        const transaction = { hash, from, successful, confirmations, transfers };
+
+        this.transactions.set(hash, transaction);
+
+        return transaction;
+    }
+
+    /**
+     * Forget every recorded transaction
+     */
+    clear () {
+        this.transactions.clear();
+    }
+}
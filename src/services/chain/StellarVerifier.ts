@@ -0,0 +1,123 @@
+import { ChainTransaction, ChainTransfer, ChainVerifier, TipCurrency, isTimeout, requestTimeout } from './ChainVerifier';
+
+import { config } from 'src/config';
+
+interface HorizonPayment {
+    type: string;
+    to?: string;
+    amount?: string;
+    asset_type?: string;
+    asset_code?: string;
+    asset_issuer?: string;
+}
+
+/**
+ * Stellar Verifier
+ *
+ * Verifies native XLM and USDC payments through a Horizon server. Only USDC
+ * issued by the configured issuer account is accepted, anyone can issue an
+ * asset called USDC on Stellar.
+ */
+export class StellarVerifier implements ChainVerifier {
+    readonly network = 'stellar';
+
+    constructor(
+        private readonly horizonUrl: string = String(config('chain.stellar_horizon_url')),
+        private readonly usdcIssuer: string = String(config('chain.stellar_usdc_issuer') ?? ''),
+        private readonly timeout: number = requestTimeout(),
+    ) { }
+
+    decimals (): number {
+        return 7;
+    }
+
+    isAddress (address: string): boolean {
+        return /^G[A-Z2-7]{55}$/.test(address);
+    }
+
+    isTransactionHash (hash: string): boolean {
+        return /^[0-9a-f]{64}$/i.test(hash);
+    }
+
+    async lookup (hash: string): Promise<ChainTransaction | null> {
+        try {
+            return await this.find(hash);
+        } catch (error) {
+            // A slow Horizon server only delays the verification to the next check
+            if (isTimeout(error)) {
+                return null;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Look a transaction up, requests share one timeout each
+     */
+    private async find (hash: string): Promise<ChainTransaction | null> {
+        const transaction = await this.get<{ successful: boolean, ledger: number, source_account: string }>(`transactions/${hash}`);
+
+        if (!transaction) {
+            return null;
+        }
+
+        const [operations, root] = await Promise.all([
+            this.get<{ _embedded: { records: HorizonPayment[] } }>(`transactions/${hash}/operations?limit=200`),
+            this.get<{ history_latest_ledger: number }>(''),
+        ]);
+
+        const transfers = (operations?._embedded.records ?? [])
+            .map(operation => this.toTransfer(operation))
+            .filter((transfer): transfer is ChainTransfer => !!transfer);
+
+        return {
+            hash,
+            from: transaction.source_account,
+            successful: transaction.successful,
+            confirmations: Math.max(0, (root?.history_latest_ledger ?? transaction.ledger) - transaction.ledger + 1),
+            transfers,
+        };
+    }
+
+    /**
+     * Normalize a payment operation, other operations and assets are ignored
+     */
+    private toTransfer (operation: HorizonPayment): ChainTransfer | null {
+        if (operation.type !== 'payment' || !operation.to || !operation.amount) {
+            return null;
+        }
+
+        let currency: TipCurrency | null = null;
+
+        if (operation.asset_type === 'native') {
+            currency = 'XLM';
+        } else if (operation.asset_code === 'USDC' && this.usdcIssuer && operation.asset_issuer === this.usdcIssuer) {
+            currency = 'USDC';
+        }
+
+        return currency ? { to: operation.to, amount: operation.amount, currency } : null;
+    }
+
+    /**
+     * Fetch a Horizon resource
+     *
+     * @returns null when Horizon does not know the resource
+     */
+    private async get<T> (path: string): Promise<T | null> {
+        const response = await fetch(new URL(path, this.horizonUrl.replace(/\/?$/, '/')), {
+            headers: { Accept: 'application/json' },
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        if (!response.ok) {
+            throw new Error(`Horizon responded with ${response.status}`);
+        }
+
+        return await response.json() as T;
+    }
+}
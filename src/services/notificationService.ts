@@ -1,4 +1,9 @@
-import { env } from 'src/utils/helpers';
+import { EventStreamService } from './EventStreamService';
+import { Prisma } from '@prisma/client';
+import { config } from 'src/config';
+import { env, escapeHtml } from 'src/utils/helpers';
+import { subDays, subMonths, subWeeks } from 'date-fns';
+import { prisma } from 'src/db';
 import { sendMail } from 'src/mailer/mailer';
 import type { SecurityAlert } from './monitoringService';
 
@@ -148,3 +153,239 @@ export const dispatchAlert = async (alert: SecurityAlert): Promise<NotificationR
 
   return results;
 };
+
+/**
+ * Business events users are notified about
+ */
+export type UserNotificationType =
+  | 'application.received'
+  | 'application.accepted'
+  | 'application.rejected'
+  | 'tip.received'
+  | 'tip.refund_requested'
+  | 'tip.refund_approved'
+  | 'tip.refund_rejected'
+  | 'tip.refunded'
+  | 'review.approved'
+  | 'review.rejected'
+  | 'verification.approved'
+  | 'verification.rejected'
+  | 'dispute.opened'
+  | 'dispute.assigned'
+  | 'dispute.escalated'
+  | 'dispute.withdrawn'
+  | 'dispute.resolved'
+  | 'search.new_matches'
+  | 'search.paused';
+
+export interface UserNotificationPayload {
+  title: string;
+  /** May contain basic HTML, which only the email keeps */
+  message: string;
+  /** Front end path the notification is about, e.g. /jobs/:id */
+  path?: string;
+  linkTitle?: string;
+  data?: Prisma.InputJsonObject;
+}
+
+/**
+ * The users whose digest frequency has passed since their last digest, or
+ * since they signed up
+ */
+const dueDigests = (date: Date): Prisma.UserWhereInput => {
+  const sentBefore = (since: Date): Prisma.UserWhereInput => ({
+    OR: [{ lastDigestAt: { lte: since } }, { lastDigestAt: null, createdAt: { lte: since } }],
+  });
+
+  const frequency = (digestFrequency: string): Prisma.UserWhereInput => ({
+    preferences: { is: { digestFrequency } },
+  });
+
+  return {
+    OR: [
+      { AND: [frequency('daily'), sentBefore(subDays(date, 1))] },
+      // Users without preferences get the default weekly frequency
+      { AND: [{ OR: [frequency('weekly'), { preferences: { is: null } }] }, sentBefore(subWeeks(date, 1))] },
+      { AND: [frequency('monthly'), sentBefore(subMonths(date, 1))] },
+    ],
+  };
+};
+
+const toPlainText = (html: string) => html
+  .replace(/<br\s*\/?>|<\/p>|<\/h\d>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\s*\n\s*/g, '\n')
+  // Undo escapeHtml(), so escaped user input reads as it was written
+  .replace(/&(lt|gt|quot|#39);/g, (_, entity: string) => ({ lt: '<', gt: '>', quot: '"', '#39': "'" })[entity]!)
+  .replace(/&amp;/g, '&')
+  .trim();
+
+/**
+ * Notify a user of a business event.
+ *
+ * The notification is always kept in the user's notification center and
+ * pushed to their real-time stream unless they turned push notifications
+ * off. Users who opted out of digests get it emailed right away unless they
+ * turned email or activity emails off, the others find it in their next
+ * digest. Like alerts, failures are caught per channel and never fail the
+ * event itself.
+ */
+export const notify = async (
+  user: string | { id: string },
+  type: UserNotificationType,
+  payload: UserNotificationPayload,
+): Promise<NotificationResult[]> => {
+  const results: NotificationResult[] = [];
+  // The channel a failure is reported on
+  let channel = 'in-app';
+
+  try {
+    const recipient = await prisma.user.findUnique({
+      where: { id: typeof user === 'string' ? user : user.id },
+      include: { preferences: true },
+    });
+
+    if (!recipient) {
+      return results;
+    }
+
+    const link = payload.path ? `${config('app.front_url')}${payload.path}` : null;
+
+    const notification = await prisma.notification.create({
+      data: {
+        userId: recipient.id,
+        type,
+        title: payload.title,
+        body: toPlainText(payload.message),
+        link,
+        data: payload.data,
+      },
+    });
+    results.push({ channel: 'in-app', success: true });
+
+    if (recipient.preferences?.pushNotifications !== false) {
+      channel = 'push';
+      await EventStreamService.publish(recipient.id, 'notification.created', {
+        id: notification.id,
+        type,
+        title: notification.title,
+        body: notification.body,
+        link,
+      });
+      results.push({ channel: 'push', success: true });
+    }
+
+    const immediate = recipient.preferences?.digestFrequency === 'never';
+
+    if (immediate && recipient.preferences?.emailNotifications !== false && recipient.preferences?.activityEmails !== false) {
+      channel = 'email';
+      await sendMail({
+        to: recipient.email,
+        subject: payload.title,
+        text: `
+          Hi <b>${recipient.firstName}</b><br/><br/>
+          ${payload.message}
+        `,
+        credits: `Thanks,<br/>
+          The ${config('app.name')} Team`,
+        data: {
+          firstName: recipient.firstName,
+          lastName: recipient.lastName,
+          link: link ?? config('app.front_url'),
+          linkTitle: payload.linkTitle ?? 'View',
+        },
+      });
+      // Never repeat it in a digest should the user opt back in
+      await prisma.notification.update({ where: { id: notification.id }, data: { digestedAt: new Date() } });
+      results.push({ channel: 'email', success: true });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${LOG_PREFIX} Failed to notify of ${type}: ${message}`);
+    results.push({ channel, success: false, error: message });
+  }
+
+  return results;
+};
+
+/**
+ * Email users a digest of the notifications they have not read, once their
+ * digest frequency (a day, a week or a month) has passed since their last
+ * digest. Each notification is only emailed once.
+ *
+ * @returns The number of digests sent
+ */
+export const sendNotificationDigests = async (date = new Date()): Promise<number> => {
+  const where: Prisma.NotificationWhereInput = { readAt: null, digestedAt: null };
+
+  const users = await prisma.user.findMany({
+    where: {
+      ...dueDigests(date),
+      notifications: { some: where },
+      NOT: { preferences: { is: { emailNotifications: false } } },
+    },
+    include: { preferences: true },
+  });
+
+  let sent = 0;
+
+  for (const user of users) {
+    // Claim the digest, so overlapping runs never send it twice
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, lastDigestAt: user.lastDigestAt },
+      data: { lastDigestAt: date },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    try {
+      const notifications = await prisma.notification.findMany({
+        where: { ...where, userId: user.id },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const list = notifications.slice(0, 20)
+        .map(notification => `<li><b>${escapeHtml(notification.title)}</b><br/>${escapeHtml(notification.body).replace(/\n/g, '<br/>')}</li>`)
+        .join('');
+      const more = notifications.length > 20 ? `<p>And ${notifications.length - 20} more.</p>` : '';
+
+      await sendMail({
+        to: user.email,
+        subject: `You have ${notifications.length} unread notification${notifications.length === 1 ? '' : 's'}`,
+        text: `
+          Hi <b>${user.firstName}</b><br/><br/>
+          Here is what happened since your last ${user.preferences?.digestFrequency ?? 'weekly'} digest:<br/>
+          <ul>${list}</ul>${more}
+        `,
+        credits: `Thanks,<br/>
+          The ${config('app.name')} Team`,
+        data: {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          link: `${config('app.front_url')}/notifications`,
+          linkTitle: 'View Notifications',
+        },
+      });
+
+      await prisma.notification.updateMany({
+        where: { id: { in: notifications.map(({ id }) => id) } },
+        data: { digestedAt: date },
+      });
+
+      sent++;
+    } catch (error) {
+      // Hand the digest back, so the next run retries it
+      await prisma.user.updateMany({
+        where: { id: user.id, lastDigestAt: date },
+        data: { lastDigestAt: user.lastDigestAt },
+      });
+
+      console.error(`${LOG_PREFIX} Failed to send the digest of user ${user.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return sent;
+};
@@ -0,0 +1,56 @@
+import { ExchangeRateQuote, RateProvider } from './RateProvider';
+
+import { config } from 'src/config';
+
+/**
+ * CoinGecko ids of the tip currencies
+ */
+const COIN_IDS: Record<string, string> = {
+    XLM: 'stellar',
+    USDC: 'usd-coin',
+    ETH: 'ethereum',
+};
+
+/**
+ * CoinGecko Rate Provider
+ *
+ * Fetches current prices from the CoinGecko simple price API, with the demo
+ * API key when one is configured. Requests are aborted after the rate request
+ * timeout.
+ */
+export class CoinGeckoRateProvider implements RateProvider {
+    readonly name = 'coingecko';
+
+    constructor(
+        private readonly apiUrl: string = String(config('rates.coingecko_url')),
+        private readonly apiKey: string = String(config('rates.coingecko_api_key') ?? ''),
+        private readonly timeout: number = Number(config('rates.request_timeout_seconds') ?? 10) * 1000,
+    ) { }
+
+    async rates (bases: readonly string[], quotes: readonly string[]): Promise<ExchangeRateQuote[]> {
+        const ids = bases.filter(base => COIN_IDS[base]).map(base => COIN_IDS[base]);
+
+        if (ids.length === 0 || quotes.length === 0) {
+            return [];
+        }
+
+        const url = new URL('simple/price', this.apiUrl.endsWith('/') ? this.apiUrl : `${this.apiUrl}/`);
+        url.searchParams.set('ids', ids.join(','));
+        url.searchParams.set('vs_currencies', quotes.map(quote => quote.toLowerCase()).join(','));
+
+        const response = await fetch(url, {
+            headers: this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : {},
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            throw new Error(`CoinGecko responded with ${response.status}`);
+        }
+
+        const prices = await response.json() as Record<string, Record<string, number>>;
+
+        return bases.flatMap(base => quotes
+            .filter(quote => typeof prices[COIN_IDS[base]]?.[quote.toLowerCase()] === 'number')
+            .map(quote => ({ base, quote, rate: prices[COIN_IDS[base]][quote.toLowerCase()] })));
+    }
+}
@@ -0,0 +1,27 @@
+import { ExchangeRateQuote, RateProvider } from './RateProvider';
+
+import { config } from 'src/config';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+
+/**
+ * File Rate Provider
+ *
+ * Reads rates from a JSON file keyed by base then quote currency, e.g.
+ * `{ "XLM": { "USD": 0.12 } }`, for tests and offline development.
+ */
+export class FileRateProvider implements RateProvider {
+    readonly name = 'file';
+
+    constructor(
+        private readonly path: string = String(config('rates.file')),
+    ) { }
+
+    async rates (bases: readonly string[], quotes: readonly string[]): Promise<ExchangeRateQuote[]> {
+        const table = JSON.parse(await readFile(resolve(this.path), 'utf8')) as Record<string, Record<string, number>>;
+
+        return bases.flatMap(base => quotes
+            .filter(quote => typeof table[base]?.[quote] === 'number')
+            .map(quote => ({ base, quote, rate: table[base][quote] })));
+    }
+}
@@ -0,0 +1,31 @@
+/**
+ * The price of one unit of a tip currency in a fiat currency
+ */
+export interface ExchangeRateQuote {
+    /** Tip currency, e.g. XLM */
+    base: string;
+    /** Fiat currency, ISO 4217 */
+    quote: string;
+    rate: number;
+}
+
+/**
+ * Rate Provider
+ *
+ * Fetches current exchange rates of tip currencies in fiat currencies, which
+ * ExchangeRateService stores as snapshots. Pairs a provider does not know are
+ * left out of the result.
+ */
+export interface RateProvider {
+    /**
+     * Name of the provider, stored with every snapshot
+     */
+    readonly name: string;
+
+    /**
+     * Get the current rate of every base currency in every quote currency
+     *
+     * @throws when the provider can not be reached
+     */
+    rates (bases: readonly string[], quotes: readonly string[]): Promise<ExchangeRateQuote[]>;
+}
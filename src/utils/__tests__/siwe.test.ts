@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildSiweMessage,
+    isAddress,
+    parseSiweMessage,
+    recoverMessageAddress,
+    signMessage,
+    toChecksumAddress,
+} from '../siwe';
+
+// Test account from the web3.js accounts documentation
+const PRIVATE_KEY = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const ADDRESS = '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23';
+
+describe('Sign-In with Ethereum utilities', () => {
+    it('should checksum addresses (EIP-55)', () => {
+        expect(toChecksumAddress(ADDRESS.toLowerCase())).toBe(ADDRESS);
+        expect(toChecksumAddress('0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359'))
+            .toBe('0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359');
+        expect(isAddress(ADDRESS)).toBe(true);
+        expect(isAddress('0x1234')).toBe(false);
+    });
+
+    it('should match a known personal_sign signature', () => {
+        const signature = signMessage('Some data', PRIVATE_KEY);
+
+        expect(signature).toBe('0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c');
+        expect(recoverMessageAddress('Some data', signature)).toBe(ADDRESS);
+    });
+
+    it('should not recover the signer for a different message or a malformed signature', () => {
+        const signature = signMessage('Some data', PRIVATE_KEY);
+
+        expect(recoverMessageAddress('Other data', signature)).not.toBe(ADDRESS);
+        expect(recoverMessageAddress('Some data', '0x1234')).toBeNull();
+        expect(recoverMessageAddress('Some data', 'not-hex')).toBeNull();
+    });
+
+    it('should build and parse EIP-4361 messages', () => {
+        const fields = {
+            domain: 'artisyn.io',
+            address: ADDRESS,
+            statement: 'Sign in to Artisyn.io',
+            uri: 'https://artisyn.io',
+            version: '1',
+            chainId: 1,
+            nonce: 'a1b2c3d4e5f6a7b8',
+            issuedAt: '2026-10-19T12:00:00.000Z',
+            expirationTime: '2026-10-19T12:10:00.000Z',
+        };
+
+        const message = buildSiweMessage(fields);
+
+        expect(message.split('\n').slice(0, 6)).toEqual([
+            'artisyn.io wants you to sign in with your Ethereum account:',
+            ADDRESS,
+            '',
+            'Sign in to Artisyn.io',
+            '',
+            'URI: https://artisyn.io',
+        ]);
+        expect(parseSiweMessage(message)).toEqual(expect.objectContaining(fields));
+        expect(parseSiweMessage(buildSiweMessage({ ...fields, statement: undefined })))
+            .toEqual(expect.objectContaining({ nonce: fields.nonce, statement: undefined }));
+    });
+
+    it('should reject malformed messages', () => {
+        expect(parseSiweMessage('hello')).toBeNull();
+        expect(parseSiweMessage(`artisyn.io wants you to sign in with your Ethereum account:\n0x1234\n\nURI: x`)).toBeNull();
+    });
+});
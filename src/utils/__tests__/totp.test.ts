@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    base32Decode,
+    base32Encode,
+    decryptTotpSecret,
+    encryptTotpSecret,
+    generateTotp,
+    generateTotpSecret,
+    totpProvisioningUri,
+    totpStep,
+    verifyTotp,
+} from '../totp';
+
+// RFC 6238 Appendix B reference secret ("12345678901234567890" in ASCII)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP utilities', () => {
+    it('should round-trip base32 encoding', () => {
+        const buffer = Buffer.from('artisyn two factor');
+
+        expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(base32Decode(base32Encode(buffer)).equals(buffer)).toBe(true);
+        expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+    });
+
+    it('should match the RFC 6238 SHA1 test vectors', () => {
+        expect(generateTotp(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+        expect(generateTotp(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+        expect(generateTotp(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('should verify codes within the drift window only', () => {
+        const at = 1234567890 * 1000;
+        const step = totpStep(at);
+
+        expect(verifyTotp(RFC_SECRET, '005924', 1, at)).toBe(step);
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, at)).toBe(step - 1);
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 3), 1, at)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abc123', 1, at)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, '', 1, at)).toBeNull();
+    });
+
+    it('should generate distinct secrets and a valid provisioning URI', () => {
+        const secret = generateTotpSecret();
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(generateTotpSecret()).not.toBe(secret);
+
+        const uri = totpProvisioningUri(secret, 'jane@example.com', 'Artisyn.io');
+        expect(uri.startsWith('otpauth://totp/Artisyn.io%3Ajane%40example.com?')).toBe(true);
+        expect(new URL(uri).searchParams.get('secret')).toBe(secret);
+        expect(new URL(uri).searchParams.get('issuer')).toBe('Artisyn.io');
+    });
+
+    it('should encrypt secrets at rest', () => {
+        const secret = generateTotpSecret();
+        const encrypted = encryptTotpSecret(secret);
+
+        expect(encrypted).not.toContain(secret);
+        expect(decryptTotpSecret(encrypted)).toBe(secret);
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * Common and breached passwords, compared case-insensitively.
+ *
+ * Compiled from public breach corpora (most used passwords and the variants
+ * people pick to satisfy complexity rules), extend it as new lists are published.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+    'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+    'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+    'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer',
+    'trustno1', 'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley',
+    'batman', 'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas',
+    'hockey', 'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer',
+    'michelle', 'jessica', 'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom',
+    '777777', 'pass', 'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese',
+    'amanda', 'summer', 'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access',
+    'yankees', '987654321', 'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'minecraft',
+    'william', 'corvette', 'hello', 'martin', 'heather', 'secret', 'merlin', 'diamond', '1234qwer',
+    'gfhjkm', 'hammer', 'silver', '222222', '88888888', 'anthony', 'justin', 'test', 'bailey',
+    'q1w2e3r4t5', 'patrick', 'internet', 'scooter', 'orange', '11111', 'golfer', 'cookie',
+    'richard', 'samantha', 'bigdog', 'guitar', 'jackson', 'whatever', 'mickey', 'chicken',
+    'sparky', 'snoopy', 'maverick', 'phoenix', 'camaro', 'peanut', 'morgan', 'welcome', 'falcon',
+    'cowboy', 'ferrari', 'samsung', 'andrea', 'smokey', 'steelers', 'joseph', 'mercedes', 'dakota',
+    'arsenal', 'eagles', 'melissa', 'boomer', 'booboo', 'spider', 'nascar', 'monster', 'tigers',
+    'yellow', 'xxxxxx', '123123123', 'gateway', 'marina', 'diablo', 'bulldog', 'qwer1234',
+    'compaq', 'purple', 'hardcore', 'banana', 'junior', 'hannah', '123654', 'porsche', 'lakers',
+    'iceman', 'money', 'cowboys', '987654', 'london', 'tennis', '999999', 'ncc1701', 'coffee',
+    'scooby', '0000', 'miller', 'boston', 'q1w2e3r4', 'brandon', 'yamaha', 'chester', 'mother',
+    'forever', 'johnny', 'edward', '333333', 'oliver', 'redsox', 'player', 'nikita', 'knight',
+    'fender', 'barney', 'midnight', 'please', 'brandy', 'chicago', 'badboy', 'slayer', 'rangers',
+    'charles', 'angel', 'flower', 'bigdaddy', 'rabbit', 'wizard', 'jasper', 'enter',
+    'rachel', 'chris', 'steven', 'winner', 'adidas', 'victoria', 'natasha', '1q2w3e4r', 'jasmine',
+    'winter', 'prince', 'marine', 'ghbdtn', 'fishing', 'cocacola', 'casper', 'james',
+    '232323', 'raiders', '888888', 'marlboro', 'gandalf', 'asdfasdf', 'crystal', '87654321',
+    '12344321', 'golden', '8675309', '4444', 'hello123', 'admin', 'admin123',
+    'administrator', 'root', 'toor', 'changeme', 'default', 'guest', 'login', 'passw0rd',
+    'p@ssword', 'p@ssw0rd', 'pa55word', 'pa55w0rd', 'qwerty123', 'qwerty1', 'abc12345', 'abcd1234',
+    'password1', 'password12', 'password123', 'password1234', 'letmein1', 'welcome1', 'welcome123',
+    'iloveyou1', 'monkey123', 'dragon123', 'football1', 'baseball1', 'superman1', 'batman123',
+    'sunshine1', 'princess1', 'shadow123', 'master123', 'starwars1', 'zaq12wsx', 'zaq1xsw2',
+    '1qaz2wsx3edc', 'qazwsxedc', 'asdf1234', 'zxcv1234', 'aa123456', 'a123456', '123456a',
+    '123abc', 'abc123456', '1q2w3e', '1q2w3e4r5t', '1qazxsw2', 'football123', 'liverpool',
+    'chelsea1', 'arsenal1', 'manchester', 'barcelona', 'realmadrid', 'pokemon', 'naruto', 'sasuke',
+    'ninja', 'minecraft1', 'fortnite', 'roblox', 'letmein123', 'secret123', 'summer2023',
+    'summer2024', 'summer2025', 'winter2023', 'winter2024', 'winter2025', 'spring2024',
+    'autumn2024', 'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+    'september', 'october', 'november', 'december', 'monday', 'friday', 'company', 'qwertyui',
+    'asdfghjkl', 'zxcvbnm1', 'poiuytrewq', '11223344', '147258369', '147258', '159357',
+    '741852963', '963852741', '12qwaszx', '1qaz@wsx', '!qaz2wsx', 'password1!', 'password123!',
+    'password@123', 'p@ssw0rd!', 'p@ssword1', 'p@ssword123', 'passw0rd!', 'welcome1!',
+    'welcome123!', 'welcome@123', 'qwerty123!', 'qwerty@123', 'admin@123', 'admin123!',
+    'letmein1!', 'iloveyou1!', 'abc@1234', 'abcd@1234', 'abc123!@#', 'changeme1!', 'summer2024!',
+    'summer2025!', 'winter2024!', 'winter2025!', 'spring2025!', 'autumn2025!', 'monkey123!',
+    'dragon123!', 'football1!', 'baseball1!', 'superman1!', 'sunshine1!', 'princess1!',
+    'master123!', 'shadow123!', 'test@1234', 'test1234!', 'password2024!', 'password2025!',
+    'company123!', 'hello@123', 'hello123!', 'pass@word1', 'pass@1234', 'pa$$w0rd', 'pa$$word1',
+    'qazwsx123!', 'zaq12wsx!', '1qaz2wsx!', 'aa123456!', 'aa@123456', 'password#1', 'password#123',
+]);
@@ -0,0 +1,45 @@
+import { JobDisputeService } from 'src/services/JobDisputeService';
+import { config } from 'src/config';
+import { env } from './helpers';
+
+const LOG_PREFIX = '[Dispute Escalation Scheduler]';
+
+const MINUTE = 60 * 1000;
+
+let escalationInterval: NodeJS.Timeout | null = null;
+
+const runEscalation = async () => {
+    try {
+        const count = await JobDisputeService.escalate();
+
+        if (count > 0) {
+            console.log(`${LOG_PREFIX} Escalated ${count} overdue disputes`);
+        }
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Escalation failed:`, error);
+    }
+};
+
+export const startDisputeEscalationScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    const minutes = Number(config('disputes.escalation_interval_minutes'));
+
+    console.log(`${LOG_PREFIX} Starting scheduled dispute escalation (every ${minutes} min)...`);
+
+    escalationInterval = setInterval(runEscalation, minutes * MINUTE);
+};
+
+export const stopDisputeEscalationScheduler = () => {
+    if (escalationInterval) {
+        clearInterval(escalationInterval);
+        escalationInterval = null;
+    }
+};
+
+export default {
+    start: startDisputeEscalationScheduler,
+    stop: stopDisputeEscalationScheduler,
+};
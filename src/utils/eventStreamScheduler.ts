@@ -0,0 +1,42 @@
+import { EventStreamService } from 'src/services/EventStreamService';
+import { env } from './helpers';
+
+const LOG_PREFIX = '[Event Stream Scheduler]';
+
+const HOUR = 60 * 60 * 1000;
+
+let pruneInterval: NodeJS.Timeout | null = null;
+
+const runPrune = async () => {
+    try {
+        const count = await EventStreamService.prune();
+
+        if (count > 0) {
+            console.log(`${LOG_PREFIX} Pruned ${count} expired stream events`);
+        }
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Pruning failed:`, error);
+    }
+};
+
+export const startEventStreamScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    console.log(`${LOG_PREFIX} Starting scheduled stream event pruning (every hour)...`);
+
+    pruneInterval = setInterval(runPrune, HOUR);
+};
+
+export const stopEventStreamScheduler = () => {
+    if (pruneInterval) {
+        clearInterval(pruneInterval);
+        pruneInterval = null;
+    }
+};
+
+export default {
+    start: startEventStreamScheduler,
+    stop: stopEventStreamScheduler,
+};
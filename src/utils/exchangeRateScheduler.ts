@@ -0,0 +1,46 @@
+import { ExchangeRateService } from 'src/services/ExchangeRateService';
+import { config } from 'src/config';
+import { env } from './helpers';
+
+const LOG_PREFIX = '[Exchange Rate Scheduler]';
+
+const MINUTE = 60 * 1000;
+
+let snapshotInterval: NodeJS.Timeout | null = null;
+
+const runSnapshot = async () => {
+    try {
+        const count = await ExchangeRateService.snapshot();
+
+        console.log(`${LOG_PREFIX} Snapshot complete — ${count} rates stored`);
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Snapshot failed:`, error);
+    }
+};
+
+export const startExchangeRateScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    const minutes = Number(config('rates.snapshot_interval_minutes'));
+
+    console.log(`${LOG_PREFIX} Starting scheduled exchange rate snapshots (every ${minutes} min)...`);
+
+    // Take a snapshot right away so conversions work on a fresh install
+    runSnapshot();
+
+    snapshotInterval = setInterval(runSnapshot, minutes * MINUTE);
+};
+
+export const stopExchangeRateScheduler = () => {
+    if (snapshotInterval) {
+        clearInterval(snapshotInterval);
+        snapshotInterval = null;
+    }
+};
+
+export default {
+    start: startExchangeRateScheduler,
+    stop: stopExchangeRateScheduler,
+};
@@ -1,10 +1,11 @@
 import { AutheticationError, RequestError } from "./errors";
 import { NextFunction, Request, Response } from "express";
-import { constructFrom, isPast } from "date-fns";
+import { constructFrom, differenceInSeconds, isPast } from "date-fns";
 
 import ErrorHandler from "./request-handlers";
 import { Flatten } from "src/interfaces/basic-types";
 import jwt from "jsonwebtoken";
+import { parseAbilities } from "src/middleware/abilities";
 import { prisma } from "src/db";
 
 /**
@@ -54,21 +55,52 @@ export const doter = <T extends Record<string, unknown>> (
  * Generate JWT access token
  *
  * @param data
+ * @param expiresIn Defaults to JWT_EXPIRES_IN
  * @returns
  */
-export const generateAccessToken = (data: {
-  username: string;
-  id: string;
-  index: number;
-}) => {
+export const generateAccessToken = (
+  data: {
+    username: string;
+    id: string;
+    index: number;
+  },
+  expiresIn: string | number = env("JWT_EXPIRES_IN"),
+) => {
   const token = jwt.sign(data, env("JWT_SECRET", ""), {
-    expiresIn: env("JWT_EXPIRES_IN"),
+    expiresIn: expiresIn as jwt.SignOptions["expiresIn"],
   });
   const tokenData = jwt.verify(token, env("JWT_SECRET", "")) as jwt.JwtPayload;
 
   return { token, jwt: tokenData };
 };
 
+/**
+ * Record that a personal access token has just been used.
+ *
+ * Writes are throttled to once a minute per token so authenticated
+ * requests don't each cost an extra database write.
+ *
+ * @param accessToken
+ */
+export const touchAccessToken = async (accessToken: {
+  id: string;
+  lastUsedAt: Date | null;
+}) => {
+  if (
+    accessToken.lastUsedAt &&
+    differenceInSeconds(new Date(), accessToken.lastUsedAt) < 60
+  ) {
+    return;
+  }
+
+  await prisma.personalAccessToken
+    .update({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: new Date() },
+    })
+    .catch(() => undefined);
+};
+
 export const authenticateToken = (
   req: Request,
   res: Response,
@@ -116,6 +148,11 @@ export const authenticateToken = (
 
         req.user = user as never;
         req.authToken = accessToken?.token;
+        req.authAbilities = parseAbilities(accessToken?.abilities);
+
+        if (accessToken) {
+          await touchAccessToken(accessToken);
+        }
 
         next();
       },
@@ -172,6 +209,11 @@ export const authenticateOptionalToken = (
 
         req.user = user as never;
         req.authToken = accessToken?.token;
+        req.authAbilities = parseAbilities(accessToken?.abilities);
+
+        if (accessToken) {
+          await touchAccessToken(accessToken);
+        }
 
         next();
       },
@@ -199,7 +241,7 @@ export const env = <X = string, Y = undefined> (
     val = [true, "true", "on"].includes(val);
   }
 
-  if (!isNaN(Number(val)) && typeof val !== "boolean") {
+  if (val !== "" && !isNaN(Number(val)) && typeof val !== "boolean") {
     val = Number(val);
   }
 
@@ -259,6 +301,19 @@ export const secureOtp = (length = 6) => {
   return otp;
 };
 
+/**
+ * Escape the HTML special characters of a text, so user input can be put in
+ * HTML emails and messages as it is
+ *
+ * @param str
+ */
+export const escapeHtml = (str: string): string => str
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;")
+  .replace(/'/g, "&#39;");
+
 /**
  *
  * @param str String to truncate
@@ -34,7 +34,14 @@ import passport from "passport";
 import path from "path";
 import { startAnalyticsScheduler } from "./analyticsScheduler";
 import { startDeletionPurgeScheduler } from "./deletionPurgeScheduler";
+import { startDisputeEscalationScheduler } from "./disputeEscalationScheduler";
+import { startEventStreamScheduler } from "./eventStreamScheduler";
+import { startExchangeRateScheduler } from "./exchangeRateScheduler";
 import { startMediaScheduler } from "./mediaScheduler";
+import { startMilestoneVerificationScheduler } from "./milestoneVerificationScheduler";
+import { startNotificationDigestScheduler } from "./notificationDigestScheduler";
+import { startSavedSearchAlertScheduler } from "./savedSearchAlertScheduler";
+import { startTipVerificationScheduler } from "./tipVerificationScheduler";
 import { startMonitoringScheduler } from "src/services/monitoringService";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -158,6 +165,13 @@ export const initialize = async (app: Express) => {
   startAnalyticsScheduler();
   startMediaScheduler();
   startDeletionPurgeScheduler();
+  startTipVerificationScheduler();
+  startMilestoneVerificationScheduler();
+  startExchangeRateScheduler();
+  startDisputeEscalationScheduler();
+  startEventStreamScheduler();
+  startNotificationDigestScheduler();
+  startSavedSearchAlertScheduler();
 
   if (process.env.NODE_ENV !== "test") {
     console.log("[Security] All security services initialized successfully");
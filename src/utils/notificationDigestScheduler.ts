@@ -0,0 +1,43 @@
+import { env } from './helpers';
+import { sendNotificationDigests } from 'src/services/notificationService';
+
+const LOG_PREFIX = '[Notification Digest Scheduler]';
+
+// Digests are due per user since their last one, the run only picks them up
+const HOUR = 60 * 60 * 1000;
+
+let digestInterval: NodeJS.Timeout | null = null;
+
+const runDigests = async () => {
+    try {
+        const count = await sendNotificationDigests();
+
+        if (count > 0) {
+            console.log(`${LOG_PREFIX} Sent ${count} notification digests`);
+        }
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Sending digests failed:`, error);
+    }
+};
+
+export const startNotificationDigestScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    console.log(`${LOG_PREFIX} Starting scheduled notification digests (every hour)...`);
+
+    digestInterval = setInterval(runDigests, HOUR);
+};
+
+export const stopNotificationDigestScheduler = () => {
+    if (digestInterval) {
+        clearInterval(digestInterval);
+        digestInterval = null;
+    }
+};
+
+export default {
+    start: startNotificationDigestScheduler,
+    stop: stopNotificationDigestScheduler,
+};
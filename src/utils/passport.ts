@@ -1,41 +1,54 @@
-import { env, secureOtp } from "./helpers";
-
 import { Strategy as FacebookStrategy } from "passport-facebook";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
-import argon2 from "argon2";
-import { prisma } from 'src/db';
+import { OAuthProfile } from "src/services/OAuthService";
+import { Profile } from "passport";
+import { AccountLinkProvider } from "@prisma/client";
+import { env } from "./helpers";
+
+/**
+ * Normalize a passport profile, the callback route resolves or links the user
+ * from it (passport assigns it to req.oauthProfile instead of req.user)
+ *
+ * @param provider
+ * @param profile
+ * @param emailVerified Whether the provider vouches for the email address
+ * @returns
+ */
+export const normalizeProfile = (
+    provider: AccountLinkProvider,
+    profile: Profile,
+    emailVerified: (email: { value: string }) => boolean
+): OAuthProfile => {
+    const email = profile.emails?.find(e => !!e.value);
+    const [firstName = '', ...lastName] = (profile.displayName ?? '').split(' ');
+
+    return {
+        provider,
+        id: String(profile.id),
+        email: email?.value?.toLowerCase(),
+        emailVerified: !!email && emailVerified(email),
+        firstName: profile.name?.givenName || firstName,
+        lastName: profile.name?.familyName || lastName.join(' '),
+        displayName: profile.displayName || undefined,
+        avatar: profile.photos?.find(p => !!p.value)?.value,
+    };
+}
 
 export const googleStrategy = () => {
     return new GoogleStrategy({
         clientID: env('GOOGLE_CLIENT_ID', 'dummy'),
         clientSecret: env('GOOGLE_CLIENT_SECRET', 'dummy'),
         callbackURL: env('GOOGLE_CALLBACK'),
-        scope: ['profile']
+        scope: ['profile', 'email']
     },
-        async function (accessToken, refreshToken, profile, cb) {
-            try {
-                const email = profile.emails?.find(e => !!e.value)?.value!
-                const user = await prisma.user.findFirst({
-                    where: { googleId: profile.id },
-                    include: { curator: true, media: true }
-                })
-                if (user) {
-                    return cb(undefined, user!);
-                }
-                const cUser = await prisma.user.create({
-                    data: {
-                        firstName: profile.name?.givenName ?? '',
-                        lastName: profile.name?.familyName ?? '',
-                        email: email ?? `${profile.id}@gmail.com`,
-                        password: await argon2.hash(secureOtp(32)),
-                        googleId: profile.id,
-                    },
-                    include: { curator: true, media: true }
-                })
-                return cb(undefined, cUser);
-            } catch (error) {
-                return cb(error);
-            }
+        function (accessToken, refreshToken, profile, cb) {
+            const oauthProfile = normalizeProfile(
+                AccountLinkProvider.GOOGLE,
+                profile,
+                (email: { value: string; verified?: boolean | string }) => String(email.verified) === 'true'
+            );
+
+            return cb(undefined, oauthProfile);
         }
     )
 }
@@ -45,32 +58,13 @@ export const facebookStrategy = () => {
         clientID: env('FACEBOOK_CLIENT_ID', 'dummy'),
         clientSecret: env('FACEBOOK_CLIENT_SECRET', 'dummy'),
         callbackURL: env('FACEBOOK_CALLBACK'),
-        profileFields: ['id', 'displayName', 'photos', 'email'],
+        profileFields: ['id', 'displayName', 'name', 'photos', 'email'],
     },
-        async function (accessToken, refreshToken, profile, cb) {
-            try {
-                const email = profile.emails?.find(e => !!e.value)?.value!
-                const user = await prisma.user.findFirst({
-                    where: { facebookId: profile.id },
-                    include: { curator: true, media: true }
-                })
-                if (user) {
-                    return cb(undefined, user!);
-                }
-                const cUser = await prisma.user.create({
-                    data: {
-                        firstName: profile.name?.givenName ?? '',
-                        lastName: profile.name?.familyName ?? '',
-                        email: email ?? `${profile.id}@facebook.com`,
-                        password: await argon2.hash(secureOtp(32)),
-                        facebookId: profile.id,
-                    },
-                    include: { curator: true, media: true }
-                })
-                return cb(undefined, cUser);
-            } catch (error) {
-                return cb(error);
-            }
+        function (accessToken, refreshToken, profile, cb) {
+            // Facebook does not tell whether the email was confirmed, so it never claims an existing account
+            const oauthProfile = normalizeProfile(AccountLinkProvider.FACEBOOK, profile, () => false);
+
+            return cb(undefined, oauthProfile);
         }
     )
 }
@@ -0,0 +1,80 @@
+/**
+ * Minimal PDF writer for plain text documents such as statements and reports.
+ *
+ * Lines are set in a monospaced font so columns padded with spaces stay
+ * aligned, and split over as many A4 pages as needed. Characters outside of
+ * Latin-1 are replaced with "?".
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LEADING = 12;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LEADING);
+
+/**
+ * Escape a line for use in a PDF string literal
+ *
+ * @param line
+ * @returns
+ */
+const escapeText = (line: string) => line
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+/**
+ * Render lines of text as a PDF document
+ *
+ * @param lines
+ * @param title Stored in the document information
+ * @returns
+ */
+export const renderPdf = (lines: string[], title = ''): Buffer => {
+    const pages: string[][] = [];
+
+    for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+        pages.push(lines.slice(i, i + LINES_PER_PAGE));
+    }
+
+    // 1: catalog, 2: page tree, 3: font, 4: info, then a page and its content stream per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+    objects[4] = `<< /Title (${escapeText(title)}) /Producer (Artisyn) >>`;
+
+    pages.forEach((pageLines, index) => {
+        const stream = [
+            'BT',
+            `/F1 ${FONT_SIZE} Tf`,
+            `${LEADING} TL`,
+            `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+            ...pageLines.map(line => `(${escapeText(line)}) Tj T*`),
+            'ET',
+        ].join('\n');
+
+        objects[pageIds[index]] = '<< /Type /Page /Parent 2 0 R '
+            + `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+            + `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+        objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(body, 'latin1');
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = Buffer.byteLength(body, 'latin1');
+
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    body += offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+};
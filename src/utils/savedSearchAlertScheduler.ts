@@ -0,0 +1,48 @@
+import { SavedSearchAlertJob } from 'src/services/SavedSearchAlertJob';
+import { config } from 'src/config';
+import { env } from './helpers';
+
+const LOG_PREFIX = '[Saved Search Alert Scheduler]';
+
+const MINUTE = 60 * 1000;
+
+let alertInterval: NodeJS.Timeout | null = null;
+
+const runAlerts = async () => {
+    try {
+        const summary = await SavedSearchAlertJob.run();
+
+        if (summary.notified > 0 || summary.paused > 0 || summary.errors.length > 0) {
+            console.log(
+                `${LOG_PREFIX} Ran ${summary.searched} saved searches, notified ${summary.notified}, paused ${summary.paused}, ${summary.errors.length} errors`
+            );
+        }
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Running saved searches failed:`, error);
+    }
+};
+
+export const startSavedSearchAlertScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    // Each run only picks the searches that are due, so none is skipped or run twice
+    const minutes = Number(config('searches.alert_interval_minutes'));
+
+    console.log(`${LOG_PREFIX} Starting scheduled saved search alerts (every ${minutes} min)...`);
+
+    alertInterval = setInterval(runAlerts, minutes * MINUTE);
+};
+
+export const stopSavedSearchAlertScheduler = () => {
+    if (alertInterval) {
+        clearInterval(alertInterval);
+        alertInterval = null;
+    }
+};
+
+export default {
+    start: startSavedSearchAlertScheduler,
+    stop: stopSavedSearchAlertScheduler,
+};
@@ -0,0 +1,224 @@
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+
+/**
+ * Fields of an EIP-4361 (Sign-In with Ethereum) message
+ */
+export interface SiweMessage {
+    domain: string;
+    address: string;
+    statement?: string | undefined;
+    uri: string;
+    version: string;
+    chainId: number;
+    nonce: string;
+    issuedAt: string;
+    expirationTime?: string | undefined;
+    notBefore?: string | undefined;
+    requestId?: string | undefined;
+    resources?: string[] | undefined;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * Check whether a string is a 0x prefixed, 20 byte hex address
+ *
+ * @param address
+ * @returns
+ */
+export const isAddress = (address: unknown): address is string =>
+    typeof address === 'string' && /^0x[0-9a-fA-F]{40}$/.test(address);
+
+/**
+ * Convert an address to its EIP-55 mixed-case checksum form
+ *
+ * @param address
+ * @returns
+ */
+export const toChecksumAddress = (address: string): string => {
+    const lower = address.toLowerCase().replace(/^0x/, '');
+    const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+    return '0x' + [...lower]
+        .map((char, i) => parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)
+        .join('');
+};
+
+/**
+ * Build the plain text EIP-4361 message a wallet is asked to sign
+ *
+ * @param fields
+ * @returns
+ */
+export const buildSiweMessage = (fields: SiweMessage): string => {
+    const lines = [
+        `${fields.domain}${HEADER_SUFFIX}`,
+        fields.address,
+        '',
+        ...(fields.statement ? [fields.statement, ''] : ['']),
+        `URI: ${fields.uri}`,
+        `Version: ${fields.version}`,
+        `Chain ID: ${fields.chainId}`,
+        `Nonce: ${fields.nonce}`,
+        `Issued At: ${fields.issuedAt}`,
+    ];
+
+    if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+    if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+    if (fields.requestId) lines.push(`Request ID: ${fields.requestId}`);
+    if (fields.resources?.length) {
+        lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * Parse a plain text EIP-4361 message, returns null when it is malformed
+ *
+ * @param message
+ * @returns
+ */
+export const parseSiweMessage = (message: string): SiweMessage | null => {
+    const lines = String(message ?? '').split('\n');
+
+    if (!lines[0]?.endsWith(HEADER_SUFFIX) || !isAddress(lines[1]) || lines[2] !== '') {
+        return null;
+    }
+
+    const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+    let index = 3;
+    let statement: string | undefined;
+
+    if (lines[index] !== '' && !lines[index]?.startsWith('URI: ')) {
+        statement = lines[index];
+        index += 1;
+    }
+
+    if (lines[index] !== '') {
+        return null;
+    }
+
+    const fields: Record<string, string> = {};
+    const resources: string[] = [];
+    let inResources = false;
+
+    for (const line of lines.slice(index + 1)) {
+        if (inResources && line.startsWith('- ')) {
+            resources.push(line.slice(2));
+            continue;
+        }
+
+        if (line === 'Resources:') {
+            inResources = true;
+            continue;
+        }
+
+        const separator = line.indexOf(': ');
+        if (separator === -1) {
+            return null;
+        }
+
+        fields[line.slice(0, separator)] = line.slice(separator + 2);
+    }
+
+    const chainId = Number(fields['Chain ID']);
+
+    if (!domain || !fields['URI'] || fields['Version'] !== '1' || !Number.isInteger(chainId) || !fields['Nonce'] || !fields['Issued At']) {
+        return null;
+    }
+
+    return {
+        domain,
+        address: lines[1],
+        statement,
+        uri: fields['URI'],
+        version: fields['Version'],
+        chainId,
+        nonce: fields['Nonce'],
+        issuedAt: fields['Issued At'],
+        expirationTime: fields['Expiration Time'],
+        notBefore: fields['Not Before'],
+        requestId: fields['Request ID'],
+        resources: resources.length ? resources : undefined,
+    };
+};
+
+/**
+ * Hash a message the way wallets do for personal_sign (EIP-191)
+ *
+ * @param message
+ * @returns
+ */
+export const hashPersonalMessage = (message: string): Uint8Array => {
+    const bytes = utf8ToBytes(message);
+
+    return keccak_256(concatBytes(utf8ToBytes(`\x19Ethereum Signed Message:\n${bytes.length}`), bytes));
+};
+
+/**
+ * Derive the checksummed address of an uncompressed or compressed public key
+ *
+ * @param publicKey
+ * @returns
+ */
+export const publicKeyToAddress = (publicKey: Uint8Array): string => {
+    const uncompressed = secp256k1.Point.fromBytes(publicKey).toBytes(false);
+
+    return toChecksumAddress('0x' + bytesToHex(keccak_256(uncompressed.slice(1)).slice(-20)));
+};
+
+/**
+ * Recover the address that produced a personal_sign signature.
+ * Works fully offline, returns null when the signature is malformed.
+ *
+ * @param message
+ * @param signature 65 byte hex signature (r, s, v)
+ * @returns
+ */
+export const recoverMessageAddress = (message: string, signature: string): string | null => {
+    try {
+        const bytes = hexToBytes(String(signature).replace(/^0x/, ''));
+
+        if (bytes.length !== 65) {
+            return null;
+        }
+
+        const v = bytes[64];
+        const recovery = v >= 27 ? v - 27 : v;
+
+        if (recovery !== 0 && recovery !== 1) {
+            return null;
+        }
+
+        const publicKey = secp256k1.recoverPublicKey(
+            concatBytes(new Uint8Array([recovery]), bytes.slice(0, 64)),
+            hashPersonalMessage(message),
+            { prehash: false }
+        );
+
+        return publicKeyToAddress(publicKey);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Sign a message with a local private key the way a wallet's personal_sign does
+ *
+ * @param message
+ * @param privateKey Hex encoded private key
+ * @returns 65 byte hex signature (r, s, v)
+ */
+export const signMessage = (message: string, privateKey: string): string => {
+    const signature = secp256k1.sign(
+        hashPersonalMessage(message),
+        hexToBytes(privateKey.replace(/^0x/, '')),
+        { prehash: false, format: 'recovered' }
+    );
+
+    return '0x' + bytesToHex(signature.slice(1)) + (signature[0] + 27).toString(16);
+};
@@ -0,0 +1,59 @@
+import { TipVerificationJob } from 'src/services/TipVerificationJob';
+import { config } from 'src/config';
+import { env } from './helpers';
+
+const LOG_PREFIX = '[Tip Verification Scheduler]';
+
+const MINUTE = 60 * 1000;
+
+let verificationInterval: NodeJS.Timeout | null = null;
+let running = false;
+
+const runVerification = async () => {
+    // Lookups can be slow, never let two sweeps overlap
+    if (running) return;
+
+    running = true;
+
+    try {
+        const summary = await TipVerificationJob.run();
+
+        if (summary.checked > 0) {
+            console.log(
+                `${LOG_PREFIX} Sweep complete — checked: ${summary.checked}, completed: ${summary.completed}, failed: ${summary.failed}, expired: ${summary.expired}, errors: ${summary.errors.length}`,
+            );
+        }
+
+        for (const { tipId, message } of summary.errors) {
+            console.error(`${LOG_PREFIX} Error verifying tip ${tipId}: ${message}`);
+        }
+    } catch (error) {
+        console.error(`${LOG_PREFIX} Sweep failed:`, error);
+    } finally {
+        running = false;
+    }
+};
+
+export const startTipVerificationScheduler = () => {
+    if (env('NODE_ENV') === 'test') {
+        return;
+    }
+
+    const minutes = Number(config('chain.tip_recheck_interval_minutes'));
+
+    console.log(`${LOG_PREFIX} Starting scheduled tip verification job (every ${minutes} min)...`);
+
+    verificationInterval = setInterval(runVerification, minutes * MINUTE);
+};
+
+export const stopTipVerificationScheduler = () => {
+    if (verificationInterval) {
+        clearInterval(verificationInterval);
+        verificationInterval = null;
+    }
+};
+
+export default {
+    start: startTipVerificationScheduler,
+    stop: stopTipVerificationScheduler,
+};
@@ -0,0 +1,192 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { env } from './helpers';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Default TOTP parameters (RFC 6238), matching what every common
+ * authenticator app expects when no extra parameters are provided.
+ */
+export const TOTP_PERIOD = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encode a buffer as RFC 4648 base32 without padding
+ *
+ * @param buffer
+ * @returns
+ */
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+/**
+ * Decode an RFC 4648 base32 string (case and padding insensitive)
+ *
+ * @param input
+ * @returns
+ */
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            output.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(output);
+};
+
+/**
+ * Generate a new random base32 TOTP secret (160 bits, as recommended by RFC 4226)
+ *
+ * @returns
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * Get the TOTP time step for a given moment
+ *
+ * @param at
+ * @returns
+ */
+export const totpStep = (at: number = Date.now()): number => Math.floor(at / 1000 / TOTP_PERIOD);
+
+/**
+ * Generate the HOTP/TOTP code of a secret for a given time step
+ *
+ * @param secret Base32 encoded secret
+ * @param step
+ * @returns
+ */
+export const generateTotp = (secret: string, step: number = totpStep()): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | ((hmac[offset + 1] & 0xff) << 16)
+        | ((hmac[offset + 2] & 0xff) << 8)
+        | (hmac[offset + 3] & 0xff);
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verify a TOTP code, tolerating a small clock drift.
+ *
+ * Returns the matched time step so callers can reject replays of the same
+ * code, or null when the code is invalid.
+ *
+ * @param secret Base32 encoded secret
+ * @param code
+ * @param window Number of steps accepted before and after the current one
+ * @returns
+ */
+export const verifyTotp = (secret: string, code: string, window: number = 1, at: number = Date.now()): number | null => {
+    const normalized = String(code ?? '').replace(/\s+/g, '');
+
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+        return null;
+    }
+
+    const current = totpStep(at);
+
+    for (let drift = -window; drift <= window; drift++) {
+        const expected = Buffer.from(generateTotp(secret, current + drift));
+
+        if (timingSafeEqual(expected, Buffer.from(normalized))) {
+            return current + drift;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Build the otpauth:// provisioning URI consumed by authenticator apps (and QR codes)
+ *
+ * @param secret Base32 encoded secret
+ * @param account Usually the user's email address
+ * @param issuer
+ * @returns
+ */
+export const totpProvisioningUri = (secret: string, account: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${account}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Derive the key used to encrypt TOTP secrets at rest
+ */
+const secretKey = () => createHash('sha256').update(String(env('JWT_SECRET', ''))).digest();
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM)
+ *
+ * @param secret
+ * @returns
+ */
+export const encryptTotpSecret = (secret: string): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', secretKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+/**
+ * Decrypt a TOTP secret previously encrypted with encryptTotpSecret
+ *
+ * @param payload
+ * @returns
+ */
+export const decryptTotpSecret = (payload: string): string => {
+    const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', secretKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
@@ -15,6 +15,9 @@ export default defineConfig({
     testTimeout: 60000,
     env: {
       NODE_ENV: 'test',
+      CHAIN_VERIFIER: 'fake',
+      RATE_PROVIDER: 'file',
+      RATE_FILE: 'src/services/__tests__/fixtures/rates.json',
     },
     coverage: {
       reporter: ['text', 'json', 'html', 'lcov'],